@@ -0,0 +1,192 @@
+// src/alerts.mjs
+import { randomUUID } from "node:crypto";
+import { readJson, writeJsonAtomic } from "./jsonfile.mjs";
+import { inMaintenance } from "./maintenance.mjs";
+
+export function renderTemplate(tpl, vars) {
+  return String(tpl).replace(/\{\{\s*(\w+)\s*\}\}/g, (_, k) => {
+    const v = vars?.[k];
+    return v === undefined || v === null || v === "" ? "—" : String(v);
+  });
+}
+
+// Variáveis disponíveis nos templates: {{label}}, {{state}}, {{gateway}}, {{wan}}, {{probeUrl}}...
+export function alertVars({ ts, kind, prev, next, label, entry, site } = {}) {
+  const gw = entry?.gateway;
+  const wan = entry?.wan;
+  return {
+    ts,
+    kind,
+    site,
+    label,
+    state: next,
+    prev,
+    gateway: gw ? [gw.name, gw.model].filter(Boolean).join(" / ") : null,
+    gatewayId: gw?.id,
+    wan: wan?.name ?? wan?.id,
+    wanUp: entry?.wanUp,
+    probeUrl: entry?.probe?.url,
+    probeMs: entry?.probe?.ms,
+    reason: entry?.reason,
+    note: entry?.note,
+    quality: entry?.quality?.quality,
+    p95: entry?.quality?.p95,
+    jitter: entry?.quality?.jitter,
+    loss: entry?.quality?.lossPct,
+  };
+}
+
+// alerta em queda/instabilidade e no retorno (UNKNOWN -> OK no boot não alerta)
+export function shouldAlert(prev, next) {
+  if (prev === next) return false;
+  if (next === "DOWN" || next === "DEGRADED") return true;
+  return next === "OK" && (prev === "DOWN" || prev === "DEGRADED");
+}
+
+/**
+ * Decide o alerta de uma mudança de estado levando em conta a manutenção (server e simulador usam a mesma regra).
+ * suppressed = estado cujo alerta a manutenção segurou. Devolve { send, held, suppressed } (held = segurado agora).
+ */
+export function gateStateAlert({ prev, next, entry, suppressed = null }) {
+  if (!shouldAlert(prev, next)) return { send: false, held: false, suppressed };
+  // janela de manutenção: segura o alerta; se a queda passar do fim da janela, o tick avisa
+  if (inMaintenance(entry)) return { send: false, held: true, suppressed: next === "OK" ? null : next };
+  // queda começou na manutenção e nunca foi alertada: retorno também não alerta
+  if (next === "OK" && suppressed) return { send: false, held: false, suppressed: null };
+  return { send: true, held: false, suppressed: null };
+}
+
+// incidente reconhecido por um operador e ainda aberto: não repete alerta de queda/instabilidade/failover
+// (next = estado novo; sem next, qualquer alerta do incidente). O retorno para OK continua alertando.
+export function ackSilenced(incident, next = null) {
+  if (!incident?.ack || incident.end) return false;
+  return next === null || next === "DOWN" || next === "DEGRADED";
+}
+
+// depois do tick: janela acabou e o site continua fora de um alerta segurado -> alerta agora
+export function heldAlertDue({ state, entry, suppressed }) {
+  return Boolean(suppressed) && !inMaintenance(entry) && (state === "DOWN" || state === "DEGRADED");
+}
+
+/**
+ * Dispatcher de alertas
+ * - fan-out para vários canais (webhook, slack, teams, telegram, email)
+ * - cada envio vira um job no outbox (persistido em disco)
+ * - retry com backoff exponencial: alertas não se perdem enquanto a internet está fora
+ *   (só desiste de um alerta com mais de maxAgeMs, bem além de uma queda longa)
+ * - ordem por canal: um job só sai depois dos anteriores do mesmo canal (RESTORED não passa o DOWN)
+ */
+export class AlertDispatcher {
+  constructor({ channels = [], outboxPath, maxAgeMs = 7 * 86400000, retryBaseMs = 5000, retryMaxMs = 600000, log = console } = {}) {
+    this.channels = channels;
+    this.outboxPath = outboxPath;
+    this.maxAgeMs = maxAgeMs;
+    this.retryBaseMs = retryBaseMs;
+    this.retryMaxMs = retryMaxMs;
+    this.log = log;
+
+    this.outbox = [];
+    this.timer = null;
+    this.draining = false;
+  }
+
+  async start({ pollMs = 5000 } = {}) {
+    const saved = await readJson(this.outboxPath, []);
+    this.outbox = Array.isArray(saved) ? saved : [];
+    if (this.outbox.length) this.log.info(`[alerts] ${this.outbox.length} alerta(s) pendente(s) no outbox`);
+
+    this.timer = setInterval(() => this.drain(), pollMs);
+    this.timer.unref?.();
+    this.drain();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async persist() {
+    try {
+      await writeJsonAtomic(this.outboxPath, this.outbox);
+    } catch (e) {
+      this.log.error(e, "[alerts] falha ao gravar outbox");
+    }
+  }
+
+  // alert = { ts, kind, state, label, vars, details }
+  async notify(alert) {
+    if (!this.channels.length) return [];
+
+    const now = Date.now();
+    const jobs = this.channels.map((ch) => ({
+      id: randomUUID(),
+      channel: ch.name,
+      alert,
+      attempts: 0,
+      nextAt: now,
+      createdAt: new Date(now).toISOString(),
+      lastError: null,
+    }));
+
+    this.outbox.push(...jobs);
+    await this.persist();
+    this.drain();
+    return jobs;
+  }
+
+  backoff(attempts) {
+    return Math.min(this.retryMaxMs, this.retryBaseMs * 2 ** Math.max(0, attempts - 1));
+  }
+
+  async deliver(job) {
+    const ch = this.channels.find((c) => c.name === job.channel);
+    if (!ch) throw new Error(`canal ${job.channel} não configurado`);
+
+    const vars = job.alert.vars ?? {};
+    const text = renderTemplate(ch.template, vars);
+    const subject = ch.subject ? renderTemplate(ch.subject, vars) : undefined;
+    await ch.send(text, { ...job.alert, subject });
+  }
+
+  async drain() {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      const now = Date.now();
+      // outbox em ordem de criação: canal com job falhando ou em backoff segura os seguintes dele
+      const blocked = new Set();
+      let dirty = false;
+
+      for (const job of [...this.outbox]) {
+        if (blocked.has(job.channel)) continue;
+        if (job.nextAt > now) {
+          blocked.add(job.channel);
+          continue;
+        }
+
+        try {
+          await this.deliver(job);
+          this.outbox = this.outbox.filter((j) => j.id !== job.id);
+        } catch (e) {
+          blocked.add(job.channel);
+          job.attempts += 1;
+          job.lastError = e?.message ?? String(e);
+
+          if (Date.now() - Date.parse(job.createdAt) >= this.maxAgeMs) {
+            this.log.error(`[alerts] ${job.channel}: desistindo de alerta de ${job.createdAt} após ${job.attempts} tentativas (${job.lastError})`);
+            this.outbox = this.outbox.filter((j) => j.id !== job.id);
+          } else {
+            job.nextAt = Date.now() + this.backoff(job.attempts);
+            this.log.warn(`[alerts] ${job.channel}: tentativa ${job.attempts} falhou (${job.lastError})`);
+          }
+        }
+        dirty = true;
+      }
+
+      if (dirty) await this.persist();
+    } finally {
+      this.draining = false;
+    }
+  }
+}
@@ -0,0 +1,147 @@
+// src/auth.mjs
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { pathToFileURL } from "node:url";
+
+export const ROLES = ["viewer", "admin"];
+export const AUTH_COOKIE = "monitor_token";
+
+function b64url(buf) {
+  return Buffer.from(buf).toString("base64url");
+}
+
+function safeEqual(a, b) {
+  const x = Buffer.from(String(a));
+  const y = Buffer.from(String(b));
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+// viewer < admin
+export function roleAllows(role, required = "viewer") {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required) && ROLES.includes(role);
+}
+
+// senha no formato scrypt$<salt>$<hash> (gerado por: node src/auth.mjs hash <senha>)
+export function hashPassword(password, salt = randomBytes(16).toString("hex")) {
+  return `scrypt$${salt}$${scryptSync(String(password), salt, 32).toString("hex")}`;
+}
+
+export function isPasswordHash(stored) {
+  return String(stored ?? "").startsWith("scrypt$");
+}
+
+// senha em texto só com allowPlaintext (AUTH_ALLOW_PLAINTEXT_PASSWORDS=1, laboratório)
+export function verifyPassword(password, stored, { allowPlaintext = false } = {}) {
+  const s = String(stored ?? "");
+  if (!isPasswordHash(s)) return allowPlaintext && s !== "" && safeEqual(password, s);
+  const [, salt, hash] = s.split("$");
+  if (!salt || !hash) return false;
+  return safeEqual(scryptSync(String(password), salt, 32).toString("hex"), hash);
+}
+
+// valores crus: cada um decodifica (e trata o %-encoding inválido) só o cookie que usa
+export function parseCookies(header) {
+  const out = {};
+  for (const part of String(header ?? "").split(";")) {
+    const i = part.indexOf("=");
+    if (i < 0) continue;
+    const k = part.slice(0, i).trim();
+    if (k) out[k] = part.slice(i + 1).trim();
+  }
+  return out;
+}
+
+/**
+ * Autenticação da API/WS:
+ * - usuários (AUTH_USERS) fazem login e recebem um token assinado (HMAC, com expiração)
+ * - tokens fixos (AUTH_TOKENS) para integrações (Grafana, scripts...)
+ * - papéis: viewer (leitura) e admin (downloads de log, configuração...)
+ */
+export class Auth {
+  constructor({ users = [], tokens = [], secret, ttlMs = 12 * 60 * 60 * 1000, maxLoginFailures = 5, lockMs = 60000, allowPlaintext = false } = {}) {
+    this.users = new Map(users.map((u) => [u.username, u]));
+    this.allowPlaintext = allowPlaintext;
+    this.tokens = tokens;
+    this.secret = secret;
+    this.ttlMs = ttlMs;
+
+    this.maxLoginFailures = maxLoginFailures;
+    this.lockMs = lockMs;
+    this.failures = new Map(); // ip -> { count, until }
+  }
+
+  sign(payload) {
+    const body = b64url(JSON.stringify(payload));
+    const sig = b64url(createHmac("sha256", this.secret).update(body).digest());
+    return `${body}.${sig}`;
+  }
+
+  // token de sessão (login) ou token fixo -> { name, role } | null
+  verify(token) {
+    if (!token) return null;
+
+    const fixed = this.tokens.find((t) => safeEqual(t.token, token));
+    if (fixed) return { name: fixed.name, role: fixed.role };
+
+    const [body, sig] = String(token).split(".");
+    if (!body || !sig) return null;
+    const expected = b64url(createHmac("sha256", this.secret).update(body).digest());
+    if (!safeEqual(sig, expected)) return null;
+
+    try {
+      const p = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+      if (!(p.exp > Date.now())) return null;
+      // usuário removido/rebaixado no config invalida o token na hora
+      const u = this.users.get(p.sub);
+      if (!u) return null;
+      return { name: u.username, role: u.role };
+    } catch {
+      return null;
+    }
+  }
+
+  locked(ip) {
+    const f = this.failures.get(ip);
+    return Boolean(f && f.count >= this.maxLoginFailures && f.until > Date.now());
+  }
+
+  // { token, user, expiresAt } | null (senha errada) — bloqueia o IP após N falhas seguidas
+  login(username, password, { ip = "" } = {}) {
+    const u = this.users.get(String(username ?? ""));
+    if (!u || !verifyPassword(password, u.password, { allowPlaintext: this.allowPlaintext })) {
+      const f = this.failures.get(ip);
+      const count = f && f.until > Date.now() ? f.count + 1 : 1;
+      this.failures.set(ip, { count, until: Date.now() + this.lockMs });
+      return null;
+    }
+
+    this.failures.delete(ip);
+    const exp = Date.now() + this.ttlMs;
+    return {
+      token: this.sign({ sub: u.username, exp }),
+      user: { name: u.username, role: u.role },
+      expiresAt: new Date(exp).toISOString(),
+    };
+  }
+
+  // Authorization: Bearer <token> | cookie monitor_token (downloads do front vão pelo cookie, nunca token na URL)
+  tokenFrom(req) {
+    const h = String(req.headers?.authorization ?? "");
+    if (/^bearer\s+/i.test(h)) return h.replace(/^bearer\s+/i, "").trim();
+    const cookie = parseCookies(req.headers?.cookie)[AUTH_COOKIE];
+    if (!cookie) return null;
+    try {
+      return decodeURIComponent(cookie);
+    } catch {
+      return null; // cookie malformado = sem cookie (401), não erro 500
+    }
+  }
+}
+
+// node src/auth.mjs hash <senha>  -> valor para "password" em AUTH_USERS
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href && process.argv[2] === "hash") {
+  if (!process.argv[3]) {
+    console.error("uso: node src/auth.mjs hash <senha>");
+    process.exit(1);
+  }
+  console.log(hashPassword(process.argv[3]));
+}
@@ -0,0 +1,125 @@
+// src/channels.mjs
+// Canais de notificação. Cada canal: { name, template, send(text, alert) }
+// send() lança erro em falha -> o dispatcher decide o retry.
+// templates: CONFIG.alertTemplates (ALERT_TEMPLATE_<CANAL>); vazio = modelo padrão.
+
+const DEFAULT_TEMPLATE =
+  "{{label}} | gateway={{gateway}} | wan={{wan}} (up={{wanUp}}) | probe={{probeUrl}} {{probeMs}}ms | {{reason}}";
+
+
+async function postJson(url, body, { timeoutMs = 10000 } = {}) {
+  const controller = new AbortController();
+  const to = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(`POST ${new URL(url).host} -> HTTP ${res.status} ${text.slice(0, 200)}`);
+    }
+  } finally {
+    clearTimeout(to);
+  }
+}
+
+function stateColor(state) {
+  if (state === "DOWN") return "E11D48";
+  if (state === "DEGRADED") return "F59E0B";
+  if (state === "OK") return "10B981";
+  return "64748B";
+}
+
+// Webhook genérico: JSON completo ({ text, ts, state, kind, details })
+export function webhookChannel(url, templates = {}) {
+  return {
+    name: "webhook",
+    template: templates.webhook || DEFAULT_TEMPLATE,
+    async send(text, alert) {
+      await postJson(url, { text, ts: alert.ts, state: alert.state, kind: alert.kind, details: alert.details });
+    },
+  };
+}
+
+export function slackChannel(url, templates = {}) {
+  return {
+    name: "slack",
+    template: templates.slack || DEFAULT_TEMPLATE,
+    async send(text) {
+      await postJson(url, { text });
+    },
+  };
+}
+
+export function teamsChannel(url, templates = {}) {
+  return {
+    name: "teams",
+    template: templates.teams || DEFAULT_TEMPLATE,
+    async send(text, alert) {
+      await postJson(url, {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        summary: alert.label,
+        themeColor: stateColor(alert.state),
+        title: alert.label,
+        text,
+      });
+    },
+  };
+}
+
+export function telegramChannel(token, chatId, templates = {}) {
+  return {
+    name: "telegram",
+    template: templates.telegram || DEFAULT_TEMPLATE,
+    async send(text) {
+      await postJson(`https://api.telegram.org/bot${token}/sendMessage`, {
+        chat_id: chatId,
+        text,
+        disable_web_page_preview: true,
+      });
+    },
+  };
+}
+
+export function emailChannel(smtp, templates = {}) {
+  let transport = null;
+  const subject = templates.email_subject || "[UniFi Monitor] {{label}}";
+
+  return {
+    name: "email",
+    template: templates.email || `${DEFAULT_TEMPLATE.replaceAll(" | ", "\n")}\n\n{{ts}}`,
+    subject,
+    async send(text, alert) {
+      if (!transport) {
+        const { default: nodemailer } = await import("nodemailer");
+        transport = nodemailer.createTransport({
+          host: smtp.host,
+          port: smtp.port,
+          secure: smtp.secure,
+          auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+        });
+      }
+      await transport.sendMail({
+        from: smtp.from || smtp.user,
+        to: smtp.to.join(", "),
+        subject: alert.subject ?? alert.label,
+        text,
+      });
+    },
+  };
+}
+
+export function channelsFromConfig(cfg) {
+  const out = [];
+  const t = cfg.alertTemplates ?? {};
+  if (cfg.alertWebhook) out.push(webhookChannel(cfg.alertWebhook, t));
+  if (cfg.alertSlackWebhook) out.push(slackChannel(cfg.alertSlackWebhook, t));
+  if (cfg.alertTeamsWebhook) out.push(teamsChannel(cfg.alertTeamsWebhook, t));
+  if (cfg.telegramBotToken && cfg.telegramChatId) out.push(telegramChannel(cfg.telegramBotToken, cfg.telegramChatId, t));
+  if (cfg.smtp?.host && cfg.smtp.to?.length) out.push(emailChannel(cfg.smtp, t));
+  return out;
+}
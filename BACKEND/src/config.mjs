@@ -1,23 +1,456 @@
-import "dotenv/config";
-
-function must(name) {
-  const v = process.env[name]?.trim();
-  if (!v) throw new Error(`Defina ${name} no .env`);
-  return v;
-}
-
-export const CONFIG = {
-  unifiBaseUrl: must("UNIFI_BASE_URL").replace(/\/$/, ""),
-  unifiApiKey: must("UNIFI_API_KEY"),
-  siteId: must("UNIFI_SITE_ID"),
-  intervalMs: Number(process.env.INTERVAL_MS ?? 15000),
-  probeUrls: (process.env.PROBE_URLS ?? "")
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean),
-  probeTimeoutMs: Number(process.env.PROBE_TIMEOUT_MS ?? 3500),
-  failsForDegraded: Number(process.env.FAILS_FOR_DEGRADED ?? 2),
-  successesForOk: Number(process.env.SUCCESSES_FOR_OK ?? 2),
-  port: Number(process.env.PORT ?? 3333),
-  alertWebhook: (process.env.ALERT_WEBHOOK ?? "").trim(),
-};
+import "dotenv/config";
+import path from "node:path";
+import { readFileSync } from "node:fs";
+import { ROLES, isPasswordHash } from "./auth.mjs";
+
+/**
+ * Estratégias de autenticação na controladora (UNIFI_AUTH / "auth" em SITES), implementadas no UnifiApi:
+ *  - apikey:  X-API-KEY nos endpoints integration do UniFi OS
+ *  - unifios: usuário/senha em /api/auth/login (cookie + CSRF), endpoints /proxy/network/...
+ *  - legacy:  controladora antiga (:8443) com /api/login, endpoints /api/s/<site>/...
+ *  - auto:    tenta unifios e cai para legacy
+ */
+export const AUTH_MODES = ["apikey", "unifios", "legacy", "auto"];
+
+// canais com texto configurável por ALERT_TEMPLATE_<CANAL> (ver channels.mjs)
+const ALERT_TEMPLATE_NAMES = ["webhook", "slack", "teams", "telegram", "email", "email_subject"];
+
+// CONFIG_FILE (JSON opcional) usa as mesmas chaves do .env: { "INTERVAL_MS": 15000, "SITES": [...] }
+// Valor definido no env tem prioridade sobre o arquivo.
+function loadConfigFile() {
+  const file = process.env.CONFIG_FILE?.trim();
+  if (!file) return {};
+  try {
+    const json = JSON.parse(readFileSync(file, "utf8"));
+    if (!json || typeof json !== "object" || Array.isArray(json)) throw new Error("esperado um objeto");
+    return json;
+  } catch (e) {
+    throw new Error(`CONFIG_FILE (${file}) inválido: ${e.message}`);
+  }
+}
+
+const CONFIG_FILE = loadConfigFile();
+// erros de validação acumulados: o boot mostra todos de uma vez
+const errors = [];
+
+function raw(name) {
+  const v = process.env[name];
+  if (v !== undefined && v.trim() !== "") return v;
+  return CONFIG_FILE[name];
+}
+
+function must(name) {
+  const v = String(raw(name) ?? "").trim();
+  if (!v) throw new Error(`Defina ${name} no .env`);
+  return v;
+}
+
+function str(name, fallback = "") {
+  const v = raw(name);
+  return v === undefined || v === null ? fallback : String(v).trim();
+}
+
+// número validado; inválido vira erro de boot (nada de NaN silencioso)
+function num(name, fallback, { min = -Infinity, max = Infinity, int = true } = {}) {
+  const v = raw(name);
+  if (v === undefined || v === null) return fallback;
+  const n = Number(v);
+  if (!Number.isFinite(n) || (int && !Number.isInteger(n)) || n < min || n > max) {
+    const range = [min > -Infinity ? `>= ${min}` : "", max < Infinity ? `<= ${max}` : ""].filter(Boolean).join(" e ");
+    errors.push(`${name}="${v}": esperado ${int ? "inteiro" : "número"}${range ? ` ${range}` : ""}`);
+    return fallback;
+  }
+  return n;
+}
+
+function flag(name) {
+  const v = String(raw(name) ?? "").trim().toLowerCase();
+  if (["", "0", "false", "no"].includes(v)) return false;
+  if (["1", "true", "yes"].includes(v)) return true;
+  errors.push(`${name}="${v}": use 1 ou 0`);
+  return false;
+}
+
+function oneOf(name, fallback, values) {
+  const v = str(name, fallback).toLowerCase();
+  if (v && !values.includes(v)) {
+    errors.push(`${name}="${v}": use ${values.join("/")}`);
+    return fallback;
+  }
+  return v;
+}
+
+// lista "a,b,c" (env) ou array (CONFIG_FILE)
+function list(name) {
+  const v = raw(name);
+  const items = Array.isArray(v) ? v : String(v ?? "").split(",");
+  return items.map((s) => String(s).trim()).filter(Boolean);
+}
+
+// TRUST_PROXY vazio = loopback, o gateway do Next na mesma máquina (deploy padrão); "none" desliga
+function trustedProxies() {
+  const v = list("TRUST_PROXY");
+  if (!v.length) return ["loopback"];
+  return v.includes("none") ? [] : v;
+}
+
+// modelo de texto com placeholders {{...}}: não apara espaços; "\n" literal (comum no .env) vira quebra de linha
+function template(name) {
+  const v = raw(name);
+  return v === undefined || v === null || !String(v).trim() ? "" : String(v).replace(/\\n/g, "\n");
+}
+
+// lista JSON vinda do env (inline), do CONFIG_FILE ou de um arquivo apontado por <NAME>_FILE
+function readJsonList(name) {
+  const file = str(`${name}_FILE`);
+  const v = file ? readFileSync(file, "utf8") : raw(name);
+  if (Array.isArray(v)) return v;
+  if (!v || !String(v).trim()) return [];
+  try {
+    const list = JSON.parse(v);
+    if (!Array.isArray(list)) throw new Error("esperado um array");
+    return list;
+  } catch (e) {
+    throw new Error(`${file ? `${name}_FILE (${file})` : name} inválido: ${e.message}`);
+  }
+}
+
+const QUORUM_RULES = ["any", "majority", "all"];
+const QUALITY_WINDOWS = ["1m", "5m", "1h"];
+
+// limites dos ajustes que variam por site (env, SITES e PUT /api/config)
+const SITE_LIMITS = {
+  intervalMs: { min: 1000, max: 60 * 60 * 1000 },
+  wifiIntervalMs: { min: 0, max: 24 * 60 * 60 * 1000 },
+  thresholds: {
+    degradedAfterFails: { min: 1, max: 100 },
+    downAfterFails: { min: 1, max: 100 },
+    okAfterSucc: { min: 1, max: 100 },
+    deviceOfflineAfterTicks: { min: 1, max: 100 },
+  },
+  quality: {
+    slowMs: { min: 1, max: 60000 },
+    verySlowMs: { min: 1, max: 60000 },
+    jitterMs: { min: 0, max: 60000 },
+    badJitterMs: { min: 0, max: 60000 },
+    lossPct: { min: 0, max: 100 },
+    badLossPct: { min: 0, max: 100 },
+    degradedAfterTicks: { min: 0, max: 10000 },
+    minSamples: { min: 1, max: 10000 },
+  },
+};
+
+export const EDITABLE_SITE_SETTINGS = ["intervalMs", "wifiIntervalMs", "probeQuorum", "probes", "thresholds", "quality"];
+
+function checkInt(label, v, { min, max }, out) {
+  const n = Number(v);
+  if (v === null || v === "" || !Number.isInteger(n) || n < min || n > max) {
+    out.push(`${label}="${v}": esperado inteiro entre ${min} e ${max}`);
+    return undefined;
+  }
+  return n;
+}
+
+/**
+ * Valida (e normaliza) os ajustes de um site. Campos ausentes ficam de fora do retorno,
+ * então serve tanto para o site completo quanto para um patch parcial da API.
+ * Lança Error (details = lista de problemas); probes são validados depois por normalizeProbes.
+ */
+export function validateSiteSettings(label, s) {
+  const out = [];
+  const r = {};
+
+  for (const k of ["intervalMs", "wifiIntervalMs"]) {
+    if (s[k] !== undefined) r[k] = checkInt(`${label}.${k}`, s[k], SITE_LIMITS[k], out);
+  }
+
+  if (s.probeQuorum !== undefined) {
+    const q = String(s.probeQuorum).trim().toLowerCase();
+    if (QUORUM_RULES.includes(q)) r.probeQuorum = q;
+    else if (/^\d+$/.test(q) && Number(q) >= 1) r.probeQuorum = q;
+    else out.push(`${label}.probeQuorum="${s.probeQuorum}": use ${QUORUM_RULES.join("/")} ou um número >= 1`);
+  }
+
+  for (const k of ["probes", "probeUrls"]) {
+    if (s[k] === undefined) continue;
+    if (Array.isArray(s[k])) r[k] = s[k];
+    else out.push(`${label}.${k}: esperado um array`);
+  }
+
+  for (const group of ["thresholds", "quality"]) {
+    if (s[group] === undefined) continue;
+    if (!s[group] || typeof s[group] !== "object") {
+      out.push(`${label}.${group}: esperado um objeto`);
+      continue;
+    }
+    r[group] = {};
+    for (const [k, v] of Object.entries(s[group])) {
+      if (group === "quality" && k === "window") {
+        if (QUALITY_WINDOWS.includes(v)) r.quality.window = v;
+        else out.push(`${label}.quality.window="${v}": use ${QUALITY_WINDOWS.join("/")}`);
+      } else if (SITE_LIMITS[group][k]) {
+        r[group][k] = checkInt(`${label}.${group}.${k}`, v, SITE_LIMITS[group][k], out);
+      } else {
+        out.push(`${label}.${group}.${k}: campo desconhecido`);
+      }
+    }
+  }
+
+  const t = r.thresholds;
+  if (t?.degradedAfterFails !== undefined && t?.downAfterFails !== undefined && t.degradedAfterFails > t.downAfterFails) {
+    out.push(`${label}.thresholds: degradedAfterFails (${t.degradedAfterFails}) maior que downAfterFails (${t.downAfterFails})`);
+  }
+
+  if (out.length) throw Object.assign(new Error(out.join("; ")), { details: out });
+  return r;
+}
+
+export const CONFIG = {
+  // controladora/site "padrão" (modo single-site; em SITES vira o default de cada escola)
+  unifiBaseUrl: str("UNIFI_BASE_URL").replace(/\/$/, ""),
+  unifiApiKey: str("UNIFI_API_KEY"),
+  // apikey | unifios | legacy | auto (padrão: apikey se houver UNIFI_API_KEY, senão auto)
+  unifiAuth: oneOf("UNIFI_AUTH", "", AUTH_MODES),
+  unifiUsername: str("UNIFI_USERNAME"),
+  unifiPassword: String(raw("UNIFI_PASSWORD") ?? ""),
+  unifiLegacyPort: num("UNIFI_LEGACY_PORT", 8443, { min: 1, max: 65535 }),
+  // controladora com certificado self-signed (LAN): desliga a verificação TLS do processo inteiro
+  allowSelfSignedTls: flag("ALLOW_SELF_SIGNED_TLS"),
+  // integration API usa o UUID do site; sessão (stat/*) usa o nome curto ("default")
+  siteId: str("UNIFI_SITE_ID") || str("UNIFI_SITE"),
+  intervalMs: num("INTERVAL_MS", 15000, SITE_LIMITS.intervalMs),
+  // coleta de clientes/carga do Wi-Fi por AP (0 = desliga)
+  wifiIntervalMs: num("WIFI_INTERVAL_MS", 60000, SITE_LIMITS.wifiIntervalMs),
+  probeUrls: list("PROBE_URLS"),
+  probeTimeoutMs: num("PROBE_TIMEOUT_MS", 3500, { min: 100, max: 60000 }),
+  // probes tipados (http/dns/tcp) em JSON: env PROBES ou arquivo PROBES_FILE
+  probes: readJsonList("PROBES"),
+  // quantos alvos precisam responder: any | majority | all | N
+  probeQuorum: str("PROBE_QUORUM", "any") || "any",
+  // histerese do estado (por site, sobrescrevível em SITES)
+  // FAILS_FOR_DEGRADED / SUCCESSES_FOR_OK: nomes antigos, aceitos como alias
+  thresholds: {
+    degradedAfterFails: num("DEGRADED_AFTER_FAILS", num("FAILS_FOR_DEGRADED", 2), SITE_LIMITS.thresholds.degradedAfterFails),
+    downAfterFails: num("DOWN_AFTER_FAILS", 4, SITE_LIMITS.thresholds.downAfterFails),
+    okAfterSucc: num("OK_AFTER_SUCCESSES", num("SUCCESSES_FOR_OK", 2), SITE_LIMITS.thresholds.okAfterSucc),
+    // leituras seguidas "offline" até um AP/switch contar como DOWN
+    deviceOfflineAfterTicks: num("DEVICE_OFFLINE_AFTER_TICKS", 2, SITE_LIMITS.thresholds.deviceOfflineAfterTicks),
+  },
+  // qualidade (latência/jitter/perda) calculada no backend
+  quality: {
+    slowMs: num("QUALITY_SLOW_MS", 120, SITE_LIMITS.quality.slowMs),
+    verySlowMs: num("QUALITY_VERY_SLOW_MS", 250, SITE_LIMITS.quality.verySlowMs),
+    jitterMs: num("QUALITY_JITTER_MS", 60, SITE_LIMITS.quality.jitterMs),
+    badJitterMs: num("QUALITY_BAD_JITTER_MS", 120, SITE_LIMITS.quality.badJitterMs),
+    lossPct: num("QUALITY_LOSS_PCT", 5, SITE_LIMITS.quality.lossPct),
+    badLossPct: num("QUALITY_BAD_LOSS_PCT", 20, SITE_LIMITS.quality.badLossPct),
+    // janela usada para decidir DEGRADED por qualidade ruim sustentada (0 ticks = desliga)
+    window: oneOf("QUALITY_WINDOW", "5m", QUALITY_WINDOWS),
+    degradedAfterTicks: num("QUALITY_DEGRADED_AFTER_TICKS", 8, SITE_LIMITS.quality.degradedAfterTicks),
+    minSamples: num("QUALITY_MIN_SAMPLES", 5, SITE_LIMITS.quality.minSamples),
+  },
+  port: num("PORT", 3333, { min: 1, max: 65535 }),
+  // origens liberadas no CORS e no handshake do WS (ex.: http://monitor.escola:3000); vazio = só mesma origem
+  corsOrigins: list("CORS_ORIGINS").map((s) => s.replace(/\/$/, "")),
+  // proxies confiáveis (IPs/CIDRs ou loopback): IP do cliente, host e https vêm dos X-Forwarded-* (lockout do
+  // login por IP, checagem de Origin, cookie Secure)
+  trustProxy: trustedProxies(),
+  // ticks mantidos em memória por site (snapshot do WS/SSE e /api/status)
+  maxHistory: num("MAX_HISTORY", 300, { min: 1, max: 100000 }),
+  // quantas mensagens do WS ficam guardadas para um cliente que reconecta retomar do último seq
+  wsJournalSize: num("WS_JOURNAL_SIZE", 2000, { min: 100, max: 100000 }),
+  // página de status pública (sem login, só leitura) em /api/public/sites/:site; desligada por padrão
+  publicStatus: flag("PUBLIC_STATUS"),
+  // max-age do Cache-Control das rotas públicas (e por quanto tempo o mesmo payload é reaproveitado)
+  publicStatusMaxAgeSec: num("PUBLIC_STATUS_MAX_AGE_S", 30, { min: 0, max: 3600 }),
+
+  // Autenticação: usuários com login (AUTH_USERS) e/ou tokens fixos (AUTH_TOKENS), em JSON ou *_FILE
+  authDisabled: flag("AUTH_DISABLED"),
+  authUsers: readJsonList("AUTH_USERS"),
+  // aceita password em texto no AUTH_USERS (só laboratório; o server avisa no boot)
+  authAllowPlaintext: flag("AUTH_ALLOW_PLAINTEXT_PASSWORDS"),
+  authTokens: readJsonList("AUTH_TOKENS"),
+  authSecret: str("AUTH_SECRET"),
+  authTokenTtlMs: num("AUTH_TOKEN_TTL_H", 12, { min: 1, max: 24 * 365 }) * 60 * 60 * 1000,
+  dataDir: path.join(process.cwd(), str("DATA_DIR") || "data"),
+  logDir: path.join(process.cwd(), str("LOG_DIR") || "logs"),
+  logFile: str("LOG_FILE") || "internet-events.log", // JSONL
+  // rotação do .log (por dia e ao passar de LOG_MAX_MB) em .gz; retenção dos .gz em dias
+  logMaxBytes: num("LOG_MAX_MB", 10, { min: 1 }) * 1024 * 1024,
+  logRetentionDays: num("LOG_RETENTION_DAYS", 365, { min: 1 }),
+  historyRetentionDays: num("HISTORY_RETENTION_DAYS", 90, { min: 1 }),
+
+  // Alertas (cada canal só é ativado quando configurado)
+  alertWebhook: str("ALERT_WEBHOOK"),
+  alertSlackWebhook: str("ALERT_SLACK_WEBHOOK"),
+  alertTeamsWebhook: str("ALERT_TEAMS_WEBHOOK"),
+  telegramBotToken: str("ALERT_TELEGRAM_BOT_TOKEN"),
+  telegramChatId: str("ALERT_TELEGRAM_CHAT_ID"),
+  smtp: {
+    host: str("SMTP_HOST"),
+    port: num("SMTP_PORT", 587, { min: 1, max: 65535 }),
+    secure: flag("SMTP_SECURE"),
+    user: str("SMTP_USER"),
+    pass: String(raw("SMTP_PASS") ?? ""),
+    from: str("ALERT_EMAIL_FROM"),
+    to: list("ALERT_EMAIL_TO"),
+  },
+  alertMaxAgeDays: num("ALERT_MAX_AGE_DAYS", 7, { min: 1 }),
+  alertRetryBaseMs: num("ALERT_RETRY_BASE_MS", 5000, { min: 0 }),
+  alertRetryMaxMs: num("ALERT_RETRY_MAX_MS", 10 * 60 * 1000, { min: 0 }),
+  // texto de cada canal (ALERT_TEMPLATE_SLACK, ALERT_TEMPLATE_EMAIL_SUBJECT...); vazio = modelo padrão do canal
+  alertTemplates: Object.fromEntries(ALERT_TEMPLATE_NAMES.map((n) => [n, template(`ALERT_TEMPLATE_${n.toUpperCase()}`)])),
+};
+
+// valida credenciais conforme a estratégia de autenticação do site
+function resolveAuth(label, { auth, apiKey, username, password }) {
+  if (!auth && !apiKey && !username) throw new Error(`${label}: defina UNIFI_API_KEY ou UNIFI_USERNAME/UNIFI_PASSWORD`);
+  const mode = auth || (apiKey ? "apikey" : "auto");
+  if (!AUTH_MODES.includes(mode)) throw new Error(`${label}: auth inválido "${auth}" (use ${AUTH_MODES.join("/")})`);
+  if (mode === "apikey" && !apiKey) throw new Error(`${label}: auth apikey precisa de UNIFI_API_KEY`);
+  if (mode !== "apikey" && (!username || !password)) {
+    throw new Error(`${label}: auth ${mode} precisa de UNIFI_USERNAME e UNIFI_PASSWORD`);
+  }
+  return mode;
+}
+
+/**
+ * Sites monitorados (uma escola = um site; cada um com Monitor, histórico, incidentes e log próprios).
+ * SITES / SITES_FILE (JSON):
+ *  [{ id: "escola-a", name: "Escola A", siteId: "default",
+ *     unifiBaseUrl?, unifiApiKey?,                 // outra controladora (padrão: UNIFI_BASE_URL/UNIFI_API_KEY)
+ *     unifiAuth?, unifiUsername?, unifiPassword?, unifiLegacyPort?,  // login usuário/senha (UniFi OS ou legacy :8443)
+ *     probes?, probeUrls?, probeQuorum?, intervalMs?, wifiIntervalMs?,
+ *     thresholds?: { degradedAfterFails, downAfterFails, okAfterSucc }, quality?: { ... } }]
+ * Sem SITES: um único site "default" com o .env de sempre (mesmos caminhos de data/ e logs/).
+ */
+function normalizeSites(list) {
+  if (!list.length) {
+    const unifiAuth = resolveAuth(".env", {
+      auth: CONFIG.unifiAuth,
+      apiKey: CONFIG.unifiApiKey,
+      username: CONFIG.unifiUsername,
+      password: CONFIG.unifiPassword,
+    });
+    return [
+      {
+        id: "default",
+        name: str("SITE_NAME") || "Escola",
+        unifiBaseUrl: must("UNIFI_BASE_URL").replace(/\/$/, ""),
+        unifiApiKey: CONFIG.unifiApiKey,
+        unifiAuth,
+        unifiUsername: CONFIG.unifiUsername,
+        unifiPassword: CONFIG.unifiPassword,
+        unifiLegacyPort: CONFIG.unifiLegacyPort,
+        siteId: CONFIG.siteId || (unifiAuth === "apikey" ? must("UNIFI_SITE_ID") : "default"),
+        probes: CONFIG.probes,
+        probeUrls: CONFIG.probeUrls,
+        probeQuorum: CONFIG.probeQuorum,
+        intervalMs: CONFIG.intervalMs,
+        wifiIntervalMs: CONFIG.wifiIntervalMs,
+        thresholds: CONFIG.thresholds,
+        quality: CONFIG.quality,
+        dataDir: CONFIG.dataDir,
+        logPath: path.join(CONFIG.logDir, CONFIG.logFile),
+      },
+    ];
+  }
+
+  const seen = new Set();
+  return list.map((s, i) => {
+    const id = String(s?.id ?? "").trim();
+    if (!/^[a-z0-9][a-z0-9_-]*$/i.test(id)) throw new Error(`SITES[${i}]: id inválido "${s?.id ?? ""}" (use letras, números, - e _)`);
+    if (seen.has(id)) throw new Error(`SITES[${i}]: id "${id}" duplicado`);
+    seen.add(id);
+
+    const unifiBaseUrl = String(s.unifiBaseUrl ?? CONFIG.unifiBaseUrl).trim().replace(/\/$/, "");
+    const unifiApiKey = String(s.unifiApiKey ?? CONFIG.unifiApiKey).trim();
+    const unifiUsername = String(s.unifiUsername ?? CONFIG.unifiUsername).trim();
+    const unifiPassword = String(s.unifiPassword ?? CONFIG.unifiPassword);
+    // credenciais próprias do site decidem o modo; senão vale o UNIFI_AUTH global
+    const unifiAuth = resolveAuth(`SITES[${i}] (${id})`, {
+      auth: String(s.unifiAuth ?? (s.unifiApiKey || s.unifiUsername ? "" : CONFIG.unifiAuth)).toLowerCase(),
+      apiKey: unifiApiKey,
+      username: unifiUsername,
+      password: unifiPassword,
+    });
+    const siteId = String(s.siteId ?? (CONFIG.siteId || (unifiAuth === "apikey" ? "" : "default"))).trim();
+    const portErrors = [];
+    const legacyPort = s.unifiLegacyPort ?? CONFIG.unifiLegacyPort;
+    const unifiLegacyPort = checkInt(`SITES[${i}] (${id}).unifiLegacyPort`, legacyPort, { min: 1, max: 65535 }, portErrors);
+    if (portErrors.length) throw new Error(portErrors[0]);
+    if (!unifiBaseUrl || !siteId) {
+      throw new Error(`SITES[${i}] (${id}): defina unifiBaseUrl e siteId (ou UNIFI_* no .env)`);
+    }
+
+    return {
+      id,
+      name: String(s.name ?? id),
+      unifiBaseUrl,
+      unifiApiKey,
+      unifiAuth,
+      unifiUsername,
+      unifiPassword,
+      unifiLegacyPort,
+      siteId,
+      probes: Array.isArray(s.probes) ? s.probes : CONFIG.probes,
+      probeUrls: Array.isArray(s.probeUrls) ? s.probeUrls : CONFIG.probeUrls,
+      ...validateSiteSettings(`SITES[${i}] (${id})`, {
+        probeQuorum: s.probeQuorum ?? CONFIG.probeQuorum,
+        intervalMs: s.intervalMs ?? CONFIG.intervalMs,
+        wifiIntervalMs: s.wifiIntervalMs ?? CONFIG.wifiIntervalMs,
+        thresholds: { ...CONFIG.thresholds, ...s.thresholds },
+        quality: { ...CONFIG.quality, ...s.quality },
+      }),
+      dataDir: path.join(CONFIG.dataDir, "sites", id),
+      logPath: path.join(CONFIG.logDir, id, CONFIG.logFile),
+    };
+  });
+}
+
+/**
+ * AUTH_USERS: [{ username, password: "scrypt$..." (node src/auth.mjs hash <senha>), role: "viewer" | "admin" }]
+ *   (senha em texto só com AUTH_ALLOW_PLAINTEXT_PASSWORDS=1)
+ * AUTH_TOKENS: [{ name, token (>= 24 caracteres), role }]
+ * Sem nenhum dos dois a API não sobe (AUTH_DISABLED=1 libera tudo, só para laboratório).
+ */
+function validateAuth() {
+  if (CONFIG.authDisabled) return;
+  if (!CONFIG.authUsers.length && !CONFIG.authTokens.length) {
+    throw new Error("Defina AUTH_USERS e/ou AUTH_TOKENS no .env (ou AUTH_DISABLED=1 para rodar sem autenticação)");
+  }
+
+  const names = new Set();
+  CONFIG.authUsers.forEach((u, i) => {
+    if (!u?.username || !u?.password) throw new Error(`AUTH_USERS[${i}]: defina username e password`);
+    if (!ROLES.includes(u.role)) throw new Error(`AUTH_USERS[${i}] (${u.username}): role inválido "${u.role ?? ""}" (use ${ROLES.join("/")})`);
+    if (names.has(u.username)) throw new Error(`AUTH_USERS[${i}]: username "${u.username}" duplicado`);
+    if (!isPasswordHash(u.password) && !CONFIG.authAllowPlaintext) {
+      throw new Error(
+        `AUTH_USERS[${i}] (${u.username}): password precisa ser um hash scrypt$... (node src/auth.mjs hash <senha>) ou defina AUTH_ALLOW_PLAINTEXT_PASSWORDS=1`
+      );
+    }
+    names.add(u.username);
+  });
+  CONFIG.authTokens.forEach((t, i) => {
+    if (String(t?.token ?? "").length < 24) throw new Error(`AUTH_TOKENS[${i}]: token precisa de pelo menos 24 caracteres`);
+    if (!ROLES.includes(t.role)) throw new Error(`AUTH_TOKENS[${i}]: role inválido "${t.role ?? ""}" (use ${ROLES.join("/")})`);
+    t.name = String(t.name ?? `token-${i + 1}`);
+  });
+
+  if (CONFIG.authUsers.length && CONFIG.authSecret.length < 32) {
+    throw new Error("Defina AUTH_SECRET (>= 32 caracteres) para assinar os tokens de login");
+  }
+}
+
+// combinações que só dá para checar com tudo lido (quorum, degraded <= down)
+try {
+  validateSiteSettings(".env", { probeQuorum: CONFIG.probeQuorum, thresholds: CONFIG.thresholds });
+} catch (e) {
+  errors.push(...(e.details ?? [e.message]));
+}
+if (errors.length) throw new Error(`Configuração inválida:\n  - ${errors.join("\n  - ")}`);
+
+validateAuth();
+
+CONFIG.sites = normalizeSites(readJsonList("SITES"));
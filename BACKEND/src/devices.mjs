@@ -0,0 +1,158 @@
+// src/devices.mjs
+
+function iso() {
+  return new Date().toISOString();
+}
+
+export const DEVICE_KINDS = ["gateway", "switch", "ap", "other"];
+
+// estados do integration API (e os mapeados do legacy em mapLegacyDevice)
+const ONLINE_STATES = ["ONLINE"];
+const OFFLINE_STATES = ["OFFLINE", "CONNECTION_INTERRUPTED", "ISOLATED", "DISCONNECTED"];
+
+export function deviceKind(d) {
+  const type = String(d?.type ?? "").toLowerCase();
+  const features = Array.isArray(d?.features) ? d.features.map((f) => String(f).toLowerCase()) : [];
+  const model = String(d?.model ?? "").toUpperCase();
+
+  if (type === "gateway" || features.includes("gateway") || /^(USG|UDM|UXG|UCG|UGW)/.test(model)) return "gateway";
+  if (type === "uap" || type === "ap" || features.includes("accesspoint")) return "ap";
+  if (type === "usw" || type === "switch" || features.includes("switching")) return "switch";
+  return "other";
+}
+
+// true = online, false = offline, null = transitório (atualizando, adotando...) -> mantém o estado
+export function deviceOnline(d) {
+  const st = String(d?.state ?? "").toUpperCase();
+  if (ONLINE_STATES.includes(st)) return true;
+  if (OFFLINE_STATES.includes(st)) return false;
+  return null;
+}
+
+function deviceRef(d) {
+  return { id: d.id, name: d.name, kind: d.kind, model: d.model };
+}
+
+/**
+ * Inventário de devices (APs, switches, gateway) com estado online/offline por device.
+ * - offline só depois de N leituras seguidas (evita alarme em reboot rápido / heartbeat perdido)
+ * - primeira leitura só estabelece a referência (sem eventos no boot)
+ * - DEVICE_DOWN / DEVICE_UP vão para o log/WS pelo callback do Monitor
+ */
+export class DeviceTracker {
+  constructor({ offlineAfterTicks = 2, maxEvents = 200 } = {}) {
+    this.offlineAfterTicks = offlineAfterTicks;
+    this.devices = new Map(); // id -> registro
+    this.events = [];
+    this.maxEvents = maxEvents;
+  }
+
+  list() {
+    return [...this.devices.values()].map(({ offlineTicks, ...d }) => d);
+  }
+
+  summary() {
+    const out = { total: 0, online: 0, offline: 0, byKind: {} };
+    for (const d of this.devices.values()) {
+      out.total += 1;
+      if (d.status === "ONLINE") out.online += 1;
+      if (d.status === "OFFLINE") out.offline += 1;
+      out.byKind[d.kind] ??= { total: 0, offline: 0 };
+      out.byKind[d.kind].total += 1;
+      if (d.status === "OFFLINE") out.byKind[d.kind].offline += 1;
+    }
+    return out;
+  }
+
+  pushEvent(ev) {
+    this.events.unshift(ev);
+    if (this.events.length > this.maxEvents) this.events.length = this.maxEvents;
+    return ev;
+  }
+
+  // Retorna { devices, events } onde events são só os gerados neste update
+  update(list, { ts = iso() } = {}) {
+    const events = [];
+    if (!Array.isArray(list)) return { devices: this.list(), events };
+
+    const seen = new Set();
+    for (const raw of list) {
+      const id = String(raw?.id ?? raw?.macAddress ?? "");
+      if (!id) continue;
+      seen.add(id);
+
+      let d = this.devices.get(id);
+      const first = !d;
+      if (!d) {
+        d = { id, status: "UNKNOWN", since: ts, lastSeen: null, offlineTicks: 0 };
+        this.devices.set(id, d);
+      }
+
+      d.name = raw.name ?? raw.model ?? id;
+      d.model = raw.model ?? null;
+      d.kind = deviceKind(raw);
+      d.mac = raw.macAddress ?? null;
+      d.ip = raw.ipAddress ?? null;
+      d.state = raw.state ?? null;
+      d.firmware = raw.firmwareVersion ?? null;
+      d.firmwareUpdatable = raw.firmwareUpdatable ?? null;
+      d.uptimeSec = Number.isFinite(Number(raw.uptimeSec)) ? Number(raw.uptimeSec) : null;
+
+      const online = deviceOnline(raw);
+      const prev = d.status;
+
+      if (online === true) {
+        d.offlineTicks = 0;
+        d.status = "ONLINE";
+        d.lastSeen = raw.lastSeen ?? ts;
+      } else if (online === false) {
+        d.offlineTicks += 1;
+        if (raw.lastSeen) d.lastSeen = raw.lastSeen;
+        if (first || d.offlineTicks >= this.offlineAfterTicks) d.status = "OFFLINE";
+      }
+
+      if (prev !== d.status) d.since = ts;
+      if (first || prev === "UNKNOWN" || prev === d.status) continue;
+
+      events.push(
+        this.pushEvent({
+          ts,
+          kind: d.status === "OFFLINE" ? "DEVICE_DOWN" : "DEVICE_UP",
+          device: deviceRef(d),
+          prev,
+          next: d.status,
+          lastSeen: d.lastSeen,
+        })
+      );
+    }
+
+    // devices removidos da controladora saem do inventário
+    for (const id of this.devices.keys()) {
+      if (!seen.has(id)) this.devices.delete(id);
+    }
+
+    return { devices: this.list(), events };
+  }
+
+  // ?kind=ap|switch|gateway|other &status=ONLINE|OFFLINE &q= (nome/modelo/ip/mac)
+  query({ kind, status, q } = {}) {
+    const needle = String(q ?? "").trim().toLowerCase();
+    const devices = this.list().filter((d) => {
+      if (kind && d.kind !== kind) return false;
+      if (status && d.status !== String(status).toUpperCase()) return false;
+      if (needle && ![d.name, d.model, d.ip, d.mac].some((v) => String(v ?? "").toLowerCase().includes(needle))) return false;
+      return true;
+    });
+
+    // offline primeiro, depois por tipo e nome
+    const order = { OFFLINE: 0, UNKNOWN: 1, ONLINE: 2 };
+    devices.sort(
+      (a, b) =>
+        order[a.status] - order[b.status] ||
+        DEVICE_KINDS.indexOf(a.kind) - DEVICE_KINDS.indexOf(b.kind) ||
+        String(a.name).localeCompare(String(b.name))
+    );
+
+    return { summary: this.summary(), count: devices.length, devices, events: this.events };
+  }
+}
@@ -0,0 +1,289 @@
+// src/incidents.mjs
+import { randomUUID } from "node:crypto";
+import { readJson, writeJsonAtomic } from "./jsonfile.mjs";
+import { inMaintenance } from "./maintenance.mjs";
+
+const SEVERITY = { OK: 0, UNKNOWN: 0, DEGRADED: 1, DOWN: 2 };
+const UPDATE_MAX_CHARS = 1000;
+const NOTE_MAX_CHARS = 2000;
+const ASSIGNEE_MAX_CHARS = 80;
+
+// causa raiz classificada pelo operador (null = ainda não classificado) -> rótulo dos relatórios
+export const ROOT_CAUSES = {
+  ISP: "Operadora / link",
+  POWER: "Energia",
+  HARDWARE: "Equipamento",
+  CONFIG: "Configuração",
+  DNS: "DNS",
+  MAINTENANCE: "Manutenção",
+  OTHER: "Outro",
+};
+
+function isProblem(state) {
+  return state === "DEGRADED" || state === "DOWN";
+}
+
+function gatewayRef(gw) {
+  return gw ? { id: gw.id ?? null, name: gw.name ?? null, model: gw.model ?? null } : null;
+}
+
+function wanRef(wan) {
+  return wan ? { id: wan.id ?? null, name: wan.name ?? null, network_id: wan.network_id ?? null } : null;
+}
+
+function invalid(out) {
+  return Object.assign(new Error(out.join("; ")), { details: out });
+}
+
+function checkText(text, max) {
+  const t = String(text ?? "").trim();
+  const out = [];
+  if (!t) out.push("text: obrigatório");
+  if (t.length > max) out.push(`text: máximo ${max} caracteres`);
+  if (out.length) throw invalid(out);
+  return t;
+}
+
+/**
+ * Valida a triagem vinda da API: { acknowledged?: boolean, assignee?: string | null, rootCause?: string | null }.
+ * Campo ausente = não mexe; null/"" limpa o responsável ou a causa.
+ */
+export function validateTriage(patch) {
+  const out = [];
+  const r = {};
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) throw invalid(["body: objeto esperado"]);
+  for (const k of Object.keys(patch)) {
+    if (!["acknowledged", "assignee", "rootCause"].includes(k)) out.push(`${k}: campo desconhecido`);
+  }
+  if (patch.acknowledged !== undefined) {
+    if (typeof patch.acknowledged !== "boolean") out.push("acknowledged: true/false");
+    else r.acknowledged = patch.acknowledged;
+  }
+  if (patch.assignee !== undefined) {
+    const a = patch.assignee == null ? "" : String(patch.assignee).trim();
+    if (a.length > ASSIGNEE_MAX_CHARS) out.push(`assignee: máximo ${ASSIGNEE_MAX_CHARS} caracteres`);
+    else r.assignee = a || null;
+  }
+  if (patch.rootCause !== undefined) {
+    const c = patch.rootCause == null || patch.rootCause === "" ? null : String(patch.rootCause).toUpperCase();
+    if (c && !ROOT_CAUSES[c]) out.push(`rootCause: use ${Object.keys(ROOT_CAUSES).join("/")}`);
+    else r.rootCause = c;
+  }
+  if (out.length) throw invalid(out);
+  return r;
+}
+
+export function incidentDuration(inc, now = Date.now()) {
+  const end = inc.end ? Date.parse(inc.end) : now;
+  return Math.max(0, end - Date.parse(inc.start));
+}
+
+/**
+ * Incidente = período contínuo fora de OK (DEGRADED e/ou DOWN), do primeiro tick ruim até o OK confirmado.
+ * - worstState/reason: pior estado visto e o motivo dele (WAN_LINK_DOWN vs PROBE_DOWN)
+ * - persistido em JSON: um restart no meio da queda retoma o incidente aberto
+ */
+export class IncidentTracker {
+  constructor({ path, maxIncidents = 5000, gapMs = 5 * 60 * 1000 } = {}) {
+    this.path = path;
+    this.maxIncidents = maxIncidents;
+    // intervalo sem ticks que conta como "monitor fora" dentro do incidente
+    this.gapMs = gapMs;
+
+    this.incidents = []; // mais recente primeiro
+    this.lastPersist = 0;
+
+    // callback opcional (server assina): ({ type: "opened" | "updated" | "closed", incident })
+    this.onChange = () => {};
+  }
+
+  async load() {
+    const saved = await readJson(this.path, []);
+    this.incidents = Array.isArray(saved) ? saved : [];
+    return this.incidents.length;
+  }
+
+  get current() {
+    const inc = this.incidents[0];
+    return inc && !inc.end ? inc : null;
+  }
+
+  get(id) {
+    return this.incidents.find((i) => i.id === id) ?? null;
+  }
+
+  async persist() {
+    this.lastPersist = Date.now();
+    // sem path = só em memória (simulador)
+    if (!this.path) return;
+    await writeJsonAtomic(this.path, this.incidents);
+  }
+
+  open(entry) {
+    const inc = {
+      id: randomUUID(),
+      start: entry.ts,
+      end: null,
+      durationMs: 0,
+      worstState: entry.state,
+      reason: entry.reason ?? null,
+      gateway: gatewayRef(entry.gateway),
+      wan: wanRef(entry.wan),
+      probe: { minMs: null, maxMs: null, failures: 0 },
+      ticks: 0,
+      unmonitoredMs: 0,
+      // algum tick dentro de janela de manutenção: fica fora do MTTR/MTBF do relatório
+      maintenance: false,
+      lastTs: entry.ts,
+      // ações do operador (triage/addNote/addUpdate)
+      ack: null,
+      assignee: null,
+      rootCause: null,
+      notes: [],
+      updates: [],
+    };
+    this.incidents.unshift(inc);
+    if (this.incidents.length > this.maxIncidents) this.incidents.length = this.maxIncidents;
+    return inc;
+  }
+
+  accumulate(inc, entry) {
+    const gap = Date.parse(entry.ts) - Date.parse(inc.lastTs);
+    if (gap > this.gapMs) inc.unmonitoredMs += gap;
+    inc.lastTs = entry.ts;
+    inc.ticks += 1;
+    if (inMaintenance(entry)) inc.maintenance = true;
+
+    if (SEVERITY[entry.state] > SEVERITY[inc.worstState]) {
+      inc.worstState = entry.state;
+      inc.reason = entry.reason ?? inc.reason;
+    }
+    if (!inc.gateway && entry.gateway) inc.gateway = gatewayRef(entry.gateway);
+    if (entry.wan && (!inc.wan || entry.reason === "WAN_LINK_DOWN")) inc.wan = wanRef(entry.wan);
+
+    const ms = entry.probe?.ms;
+    if (typeof ms === "number" && Number.isFinite(ms)) {
+      inc.probe.minMs = inc.probe.minMs === null ? ms : Math.min(inc.probe.minMs, ms);
+      inc.probe.maxMs = inc.probe.maxMs === null ? ms : Math.max(inc.probe.maxMs, ms);
+    }
+    if (entry.probe && !entry.probe.ok) inc.probe.failures += 1;
+
+    inc.durationMs = incidentDuration(inc, Date.parse(entry.ts));
+  }
+
+  // Chamado para cada entry do Monitor (inclusive as "soft"). Anota entry.incidentId.
+  observe(entry) {
+    if (!entry?.ts) return null;
+
+    let inc = this.current;
+    let type = null;
+
+    if (!inc && isProblem(entry.state)) {
+      inc = this.open(entry);
+      type = "opened";
+    }
+    if (!inc) return null;
+
+    const prevWorst = inc.worstState;
+    this.accumulate(inc, entry);
+    entry.incidentId = inc.id;
+
+    if (entry.state === "OK") {
+      inc.end = entry.ts;
+      inc.durationMs = incidentDuration(inc);
+      type = "closed";
+    } else if (!type && prevWorst !== inc.worstState) {
+      type = "updated";
+    }
+
+    // abre/fecha/piora grava na hora; o resto (latência, ticks) no máximo 1x por minuto
+    if (type || Date.now() - this.lastPersist > 60000) {
+      this.persist().catch((e) => console.error("[incidents] persist failed:", e?.message ?? e));
+    }
+    if (type) this.onChange({ type, incident: inc });
+
+    return { type, incident: inc };
+  }
+
+  // Atualização escrita pelo operador ("já acionamos a operadora..."): sai na página de status pública
+  async addUpdate(id, { text, by = null, ts = new Date().toISOString() } = {}) {
+    const inc = this.get(id);
+    if (!inc) return null;
+    inc.updates = [...(inc.updates ?? []), { ts, text: checkText(text, UPDATE_MAX_CHARS), by }];
+    await this.persist();
+    this.onChange({ type: "updated", incident: inc });
+    return inc;
+  }
+
+  // Nota interna do operador ("chamado #123 na operadora, fibra rompida na rua"): só no painel e no .log
+  async addNote(id, { text, by = null, ts = new Date().toISOString() } = {}) {
+    const inc = this.get(id);
+    if (!inc) return null;
+    inc.notes = [...(inc.notes ?? []), { id: randomUUID(), ts, text: checkText(text, NOTE_MAX_CHARS), by }];
+    await this.persist();
+    this.onChange({ type: "updated", incident: inc });
+    return inc;
+  }
+
+  /**
+   * Reconhecer, atribuir e classificar a causa raiz. Devolve { incident, changes } com o que mudou de fato
+   * ("acknowledged" | "unacknowledged" | "assigned" | "root_cause"); null se o incidente não existe.
+   * Incidente reconhecido e ainda aberto não repete alerta (ver ackSilenced em alerts.mjs).
+   */
+  async triage(id, patch, { by = null, ts = new Date().toISOString() } = {}) {
+    const inc = this.get(id);
+    if (!inc) return null;
+    const r = validateTriage(patch);
+    const changes = [];
+
+    if (r.acknowledged !== undefined && Boolean(inc.ack) !== r.acknowledged) {
+      inc.ack = r.acknowledged ? { by, ts } : null;
+      changes.push(r.acknowledged ? "acknowledged" : "unacknowledged");
+    }
+    if (r.assignee !== undefined && (inc.assignee?.name ?? null) !== r.assignee) {
+      inc.assignee = r.assignee ? { name: r.assignee, by, ts } : null;
+      changes.push("assigned");
+    }
+    if (r.rootCause !== undefined && (inc.rootCause ?? null) !== r.rootCause) {
+      inc.rootCause = r.rootCause;
+      changes.push("root_cause");
+    }
+
+    if (changes.length) {
+      await this.persist();
+      this.onChange({ type: "updated", incident: inc });
+    }
+    return { incident: inc, changes };
+  }
+
+  // ?from=&to= (sobreposição com o período) &state=DOWN &reason= &open=1 &gateway= &wan=
+  // &acknowledged=1 &assignee= &rootCause= (rootCause=none: ainda não classificados)
+  query({ from, to, state, reason, open, gateway, wan, acknowledged, assignee, rootCause, limit = 200, offset = 0 } = {}) {
+    const fromMs = from ? Date.parse(from) : -Infinity;
+    const toMs = to ? Date.parse(to) : Infinity;
+    const match = (v, q) => !q || String(v ?? "").toLowerCase() === String(q).toLowerCase();
+
+    const all = this.incidents.filter((inc) => {
+      const start = Date.parse(inc.start);
+      const end = inc.end ? Date.parse(inc.end) : Date.now();
+      if (end < fromMs || start > toMs) return false;
+      if (state && inc.worstState !== String(state).toUpperCase()) return false;
+      if (!match(inc.reason, reason)) return false;
+      if (open === true && inc.end) return false;
+      if (open === false && !inc.end) return false;
+      if (gateway && !match(inc.gateway?.id, gateway) && !match(inc.gateway?.name, gateway)) return false;
+      if (wan && !match(inc.wan?.id, wan) && !match(inc.wan?.name, wan)) return false;
+      if (acknowledged !== undefined && Boolean(inc.ack) !== acknowledged) return false;
+      if (!match(inc.assignee?.name, assignee)) return false;
+      if (rootCause === "none" ? inc.rootCause : !match(inc.rootCause, rootCause)) return false;
+      return true;
+    });
+
+    const items = all.slice(offset, offset + limit).map((inc) => ({
+      ...inc,
+      durationMs: incidentDuration(inc),
+    }));
+
+    return { total: all.length, offset, limit, count: items.length, incidents: items };
+  }
+}
@@ -0,0 +1,39 @@
+// src/jsonfile.mjs
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export async function readJson(file, fallback = null) {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    return fallback;
+  }
+}
+
+// última gravação pendente por arquivo: persists concorrentes do mesmo arquivo entram em fila
+const queues = new Map();
+
+// grava em arquivo temporário + rename, para não corromper se o processo cair no meio.
+// O conteúdo é serializado na chamada (não no momento da escrita) e as gravações no mesmo arquivo
+// saem na ordem em que foram pedidas; o temporário tem nome único, então nunca é dividido entre duas.
+export async function writeJsonAtomic(file, data) {
+  const body = JSON.stringify(data, null, 2);
+  const prev = queues.get(file) ?? Promise.resolve();
+  const next = prev.catch(() => {}).then(async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tmp, body, "utf8");
+      await fs.rename(tmp, file);
+    } catch (e) {
+      await fs.rm(tmp, { force: true });
+      throw e;
+    }
+  });
+  queues.set(file, next);
+  next.finally(() => {
+    if (queues.get(file) === next) queues.delete(file);
+  }).catch(() => {});
+  return next;
+}
@@ -1,79 +1,488 @@
-// src/logger.mjs
-import { promises as fs } from "node:fs";
-import path from "node:path";
-
-const LOG_DIR = process.env.LOG_DIR || "logs";
-const LOG_FILE = process.env.LOG_FILE || "internet-events.log"; // JSONL
-const LOG_PATH = path.join(process.cwd(), LOG_DIR, LOG_FILE);
-
-async function ensureLogDir() {
-  await fs.mkdir(path.dirname(LOG_PATH), { recursive: true });
-}
-
-export function getLogPath() {
-  return LOG_PATH;
-}
-
-export async function appendEvent(event) {
-  await ensureLogDir();
-  const line = JSON.stringify(event) + "\n";
-  await fs.appendFile(LOG_PATH, line, "utf8");
-}
-
-export async function readTail({ limit = 200 } = {}) {
-  await ensureLogDir();
-
-  let content = "";
-  try {
-    content = await fs.readFile(LOG_PATH, "utf8");
-  } catch {
-    return { path: LOG_PATH, count: 0, lines: [] };
-  }
-
-  const lines = content
-    .split("\n")
-    .filter(Boolean)
-    .slice(-Math.max(1, Math.min(2000, Number(limit) || 200)));
-
-  const parsed = lines.map((l) => {
-    try {
-      return JSON.parse(l);
-    } catch {
-      return { raw: l };
-    }
-  });
-
-  return { path: LOG_PATH, count: parsed.length, lines: parsed };
-}
-
-export async function readRange({ offset = 0, limit = 200 } = {}) {
-  await ensureLogDir();
-
-  let content = "";
-  try {
-    content = await fs.readFile(LOG_PATH, "utf8");
-  } catch {
-    return { path: LOG_PATH, offset: 0, limit, total: 0, count: 0, lines: [] };
-  }
-
-  const all = content.split("\n").filter(Boolean);
-  const off = Math.max(0, Number(offset) || 0);
-  const lim = Math.max(1, Math.min(2000, Number(limit) || 200));
-
-  const slice = all.slice(off, off + lim).map((l) => {
-    try {
-      return JSON.parse(l);
-    } catch {
-      return { raw: l };
-    }
-  });
-
-  return {
-    path: LOG_PATH,
-    offset: off,
-    limit: lim,
-    total: all.length,
-    count: slice.length,
-    lines: slice,
-  };
-}
+// src/logger.mjs
+import { promises as fs, createReadStream, createWriteStream } from "node:fs";
+import { createGunzip, createGzip } from "node:zlib";
+import { pipeline } from "node:stream/promises";
+import readline from "node:readline";
+import path from "node:path";
+
+const CHUNK = 64 * 1024;
+
+function parseLine(l) {
+  try {
+    return JSON.parse(l);
+  } catch {
+    return { raw: l };
+  }
+}
+
+function dayOf(ts) {
+  const d = new Date(ts);
+  return (Number.isNaN(d.getTime()) ? new Date() : d).toISOString().slice(0, 10);
+}
+
+function clampLimit(limit) {
+  return Math.max(1, Math.min(2000, Number(limit) || 200));
+}
+
+// linhas de um segmento (texto ou .gz), em streaming
+async function* segmentLines(file) {
+  let stream;
+  try {
+    await fs.access(file);
+    stream = createReadStream(file);
+  } catch {
+    return;
+  }
+  const input = file.endsWith(".gz") ? stream.pipe(createGunzip()) : stream;
+  input.setEncoding("utf8");
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+  try {
+    for await (const line of rl) {
+      if (line) yield line;
+    }
+  } finally {
+    rl.close();
+    stream.destroy();
+  }
+}
+
+// últimas N linhas de um arquivo texto lendo blocos do fim para o começo (não carrega o arquivo inteiro)
+async function tailFile(file, n) {
+  let fh;
+  try {
+    fh = await fs.open(file, "r");
+  } catch {
+    return [];
+  }
+  try {
+    const { size } = await fh.stat();
+    let pos = size;
+    let rest = Buffer.alloc(0); // começo de linha ainda incompleto (bloco anterior no arquivo)
+    const out = [];
+
+    while (pos > 0 && out.length < n) {
+      const len = Math.min(CHUNK, pos);
+      pos -= len;
+      const buf = Buffer.alloc(len);
+      await fh.read(buf, 0, len, pos);
+      let data = Buffer.concat([buf, rest]);
+
+      // corta no primeiro \n: o pedaço antes dele pode continuar no bloco anterior (e não quebra UTF-8 no meio)
+      if (pos > 0) {
+        const nl = data.indexOf(10);
+        if (nl === -1) {
+          rest = data;
+          continue;
+        }
+        rest = data.subarray(0, nl);
+        data = data.subarray(nl + 1);
+      }
+
+      const parts = data.toString("utf8").split("\n");
+      for (let i = parts.length - 1; i >= 0 && out.length < n; i--) {
+        if (parts[i]) out.push(parts[i]);
+      }
+    }
+
+    return out.reverse();
+  } finally {
+    await fh.close();
+  }
+}
+
+async function tailSegment(file, n) {
+  if (!file.endsWith(".gz")) return tailFile(file, n);
+  // gzip não permite seek: percorre em streaming guardando só as N últimas
+  const out = [];
+  for await (const line of segmentLines(file)) {
+    out.push(line);
+    if (out.length > n) out.shift();
+  }
+  return out;
+}
+
+// -------------------- Consulta estruturada --------------------
+export const LOG_CSV_COLUMNS = ["ts", "kind", "prev", "next", "reason", "gateway", "wan", "device", "incidentId", "probeMs", "note"];
+
+function list(v) {
+  return String(v ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// campos comuns aos vários tipos de evento (INTERNET_*, WAN_*, DEVICE_*, INCIDENT_*)
+export function logEventFields(e) {
+  const inc = e?.incident;
+  const gw = e?.gateway ?? inc?.gateway ?? null;
+  const wan = e?.wan ?? e?.to ?? inc?.wan ?? null;
+  return {
+    ts: e?.ts ?? null,
+    kind: e?.kind ?? null,
+    prev: e?.prev ?? null,
+    next: e?.next ?? inc?.worstState ?? null,
+    reason: e?.reason ?? inc?.reason ?? null,
+    gateway: gw ? [gw.name, gw.model].filter(Boolean).join(" / ") || gw.id || null : null,
+    wan: wan ? (wan.name ?? wan.id ?? null) : null,
+    device: e?.device?.name ?? null,
+    incidentId: e?.incidentId ?? inc?.id ?? null,
+    probeMs: e?.probe?.ms ?? null,
+    note: e?.note ?? null,
+  };
+}
+
+function has(values, needle) {
+  return values.some((v) => v != null && String(v).toLowerCase().includes(needle));
+}
+
+/**
+ * Filtros da consulta:
+ *  kind    lista separada por vírgula; "INTERNET_*" casa por prefixo
+ *  gateway id/nome/modelo do gateway (contém, sem caixa)
+ *  wan     id/nome da WAN (evento, failover from/to ou incidente)
+ *  reason  reason (ou note, nos eventos antigos sem reason)
+ *  q       texto livre na linha inteira
+ */
+function logMatcher({ kind, gateway, wan, reason, q } = {}) {
+  const kinds = list(kind).map((k) => k.toUpperCase());
+  const gwNeedle = String(gateway ?? "").trim().toLowerCase();
+  const wanNeedle = String(wan ?? "").trim().toLowerCase();
+  const reasonNeedle = String(reason ?? "").trim().toLowerCase();
+  const text = String(q ?? "").trim().toLowerCase();
+
+  return (e, line) => {
+    if (kinds.length) {
+      const k = String(e?.kind ?? "").toUpperCase();
+      if (!kinds.some((want) => (want.endsWith("*") ? k.startsWith(want.slice(0, -1)) : k === want))) return false;
+    }
+    if (gwNeedle) {
+      const gw = e?.gateway ?? e?.incident?.gateway;
+      if (!gw || !has([gw.id, gw.name, gw.model], gwNeedle)) return false;
+    }
+    if (wanNeedle) {
+      const refs = [e?.wan, e?.from, e?.to, e?.incident?.wan].filter(Boolean);
+      if (!refs.some((w) => has([w.id, w.name], wanNeedle))) return false;
+    }
+    if (reasonNeedle && !has([e?.reason, e?.incident?.reason, e?.note], reasonNeedle)) return false;
+    if (text && !line.toLowerCase().includes(text)) return false;
+    return true;
+  };
+}
+
+// cursor opaco: { ts, n } = ts do último evento entregue + quantos eventos com esse mesmo ts já saíram
+export function encodeLogCursor(c) {
+  return Buffer.from(JSON.stringify(c)).toString("base64url");
+}
+
+export function decodeLogCursor(s) {
+  if (!s) return null;
+  try {
+    const c = JSON.parse(Buffer.from(String(s), "base64url").toString("utf8"));
+    if (typeof c?.ts !== "string" || !Number.isFinite(Date.parse(c.ts)) || !(c.n >= 0)) return null;
+    return c;
+  } catch {
+    return null;
+  }
+}
+
+export function logEventsToCsv(events) {
+  const cell = (v) => {
+    const s = v == null ? "" : String(v);
+    return /[",\n;]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  const rows = events.map((e) => {
+    const f = logEventFields(e);
+    return LOG_CSV_COLUMNS.map((c) => cell(f[c])).join(",");
+  });
+  return [LOG_CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+/**
+ * Log de eventos (JSONL) — um por site.
+ * - arquivo ativo: <dir>/internet-events.log
+ * - rotação por dia (UTC) e por tamanho -> <dir>/internet-events.YYYY-MM-DD.N.log.gz
+ * - retenção por dias (apaga arquivos .gz antigos)
+ * - leituras (tail/range/período) em streaming, atravessando os arquivos rotacionados
+ */
+export class EventLog {
+  constructor({ path: filePath, maxBytes = 10 * 1024 * 1024, retentionDays = 365 }) {
+    this.path = filePath;
+    this.maxBytes = maxBytes;
+    this.retentionDays = retentionDays;
+
+    const { dir, name, ext } = path.parse(filePath);
+    this.dir = dir;
+    this.archiveRe = new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\.(\\d{4}-\\d{2}-\\d{2})\\.(\\d+)${ext.replace(".", "\\.")}\\.gz$`);
+    this.archiveName = (day, seq) => `${name}.${day}.${seq}${ext}.gz`;
+
+    this.queue = Promise.resolve();
+    this.activeDay = null; // dia (UTC) das linhas do arquivo ativo
+    this.lineCounts = new Map(); // arquivo .gz -> nº de linhas (arquivos rotacionados não mudam)
+  }
+
+  async ensureDir() {
+    await fs.mkdir(this.dir, { recursive: true });
+  }
+
+  // appends serializados: a rotação nunca corre junto com uma escrita
+  append(event) {
+    const line = JSON.stringify(event) + "\n";
+    const day = dayOf(event?.ts ?? Date.now());
+
+    this.queue = this.queue.catch(() => {}).then(async () => {
+      await this.ensureDir();
+      // rotação falhou (disco/permissão): segue gravando no arquivo ativo, o evento não se perde
+      await this.rotateIfNeeded(day).catch((e) => console.error("[log] rotate failed:", e?.message ?? e));
+      await fs.appendFile(this.path, line, "utf8");
+    });
+
+    return this.queue;
+  }
+
+  async rotateIfNeeded(day) {
+    let st;
+    try {
+      st = await fs.stat(this.path);
+    } catch {
+      this.activeDay = day;
+      return;
+    }
+    // depois de um restart, o dia do arquivo ativo é o do último append
+    this.activeDay ??= dayOf(st.mtimeMs);
+
+    if (st.size > 0 && (day > this.activeDay || (this.maxBytes > 0 && st.size >= this.maxBytes))) {
+      await this.rotate();
+    }
+    if (day > this.activeDay || st.size === 0) this.activeDay = day;
+  }
+
+  // arquivo ativo -> .gz do dia (N = próximo número livre no dia)
+  async rotate() {
+    const day = this.activeDay ?? dayOf(Date.now());
+    const rotating = `${this.path}.rotating`;
+
+    // sobra de uma rotação interrompida (processo caiu no meio do gzip): arquiva antes de reusar o nome
+    const leftover = await fs.stat(rotating).catch(() => null);
+    if (leftover) await this.archive(rotating, dayOf(leftover.mtimeMs));
+
+    await fs.rename(this.path, rotating);
+    let target;
+    try {
+      target = await this.archive(rotating, day);
+    } catch (e) {
+      // gzip falhou (disco cheio, permissão): as linhas voltam para o arquivo ativo e o erro sobe
+      await fs.rename(rotating, this.path);
+      throw e;
+    }
+
+    await this.prune();
+    return target;
+  }
+
+  // comprime src em <dir>/<nome>.<day>.<N>.log.gz e apaga src; em erro não deixa .tmp para trás
+  async archive(src, day) {
+    const seq = (await this.listArchives()).filter((a) => a.day === day).reduce((m, a) => Math.max(m, a.seq), 0) + 1;
+    const target = path.join(this.dir, this.archiveName(day, seq));
+    try {
+      await pipeline(createReadStream(src), createGzip(), createWriteStream(`${target}.tmp`));
+      await fs.rename(`${target}.tmp`, target);
+    } catch (e) {
+      await fs.rm(`${target}.tmp`, { force: true }).catch(() => {});
+      throw e;
+    }
+    await fs.rm(src, { force: true });
+    return target;
+  }
+
+  async prune() {
+    if (!(this.retentionDays > 0)) return 0;
+    const cutoff = dayOf(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+    let removed = 0;
+    for (const a of await this.listArchives()) {
+      if (a.day >= cutoff) break;
+      await fs.rm(a.file, { force: true });
+      this.lineCounts.delete(a.file);
+      removed += 1;
+    }
+    return removed;
+  }
+
+  // arquivos rotacionados, do mais antigo ao mais novo
+  async listArchives() {
+    let names = [];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+    return names
+      .map((n) => {
+        const m = n.match(this.archiveRe);
+        return m ? { name: n, file: path.join(this.dir, n), day: m[1], seq: Number(m[2]) } : null;
+      })
+      .filter(Boolean)
+      .sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : a.seq - b.seq));
+  }
+
+  // todos os segmentos em ordem cronológica (o ativo por último)
+  async segments() {
+    return [...(await this.listArchives()).map((a) => a.file), this.path];
+  }
+
+  async countLines(file) {
+    const cached = this.lineCounts.get(file);
+    if (cached !== undefined) return cached;
+    let n = 0;
+    for await (const _ of segmentLines(file)) n += 1;
+    if (file !== this.path) this.lineCounts.set(file, n);
+    return n;
+  }
+
+  async readTail({ limit = 200 } = {}) {
+    const lim = clampLimit(limit);
+    const segs = await this.segments();
+
+    let lines = [];
+    for (let i = segs.length - 1; i >= 0 && lines.length < lim; i--) {
+      lines = [...(await tailSegment(segs[i], lim - lines.length)), ...lines];
+    }
+
+    return { path: this.path, count: lines.length, lines: lines.map(parseLine) };
+  }
+
+  // offset conta a partir da linha mais antiga (incluindo os arquivos rotacionados)
+  async readRange({ offset = 0, limit = 200 } = {}) {
+    const off = Math.max(0, Number(offset) || 0);
+    const lim = clampLimit(limit);
+
+    const lines = [];
+    let total = 0;
+    for (const file of await this.segments()) {
+      const n = await this.countLines(file);
+      // segmento inteiro fora da janela: só soma o total
+      if (total + n <= off || lines.length >= lim) {
+        total += n;
+        continue;
+      }
+      let i = total;
+      for await (const line of segmentLines(file)) {
+        if (i >= off && lines.length < lim) lines.push(line);
+        i += 1;
+      }
+      total += n;
+    }
+
+    return {
+      path: this.path,
+      offset: off,
+      limit: lim,
+      total,
+      count: lines.length,
+      lines: lines.map(parseLine),
+    };
+  }
+
+  /**
+   * Consulta com filtros e paginação por cursor (ordem por ts; empate mantém a ordem do arquivo).
+   * Percorre só os segmentos do período e guarda no máximo ~2×limit eventos em memória.
+   * @returns {{ order, limit, count, scanned, matched, events, nextCursor }}
+   */
+  async query({ from, to, cursor, limit = 200, order = "desc", ...filters } = {}) {
+    const lim = Math.max(1, Number(limit) || 200);
+    const desc = order !== "asc";
+    const cur = decodeLogCursor(cursor);
+    const match = logMatcher(filters);
+
+    // com cursor, o período encolhe até o ts do cursor (inclusive: pode haver empate)
+    const range = { from, to };
+    if (cur && desc) range.to = to && Date.parse(to) < Date.parse(cur.ts) ? to : cur.ts;
+    if (cur && !desc) range.from = from && Date.parse(from) > Date.parse(cur.ts) ? from : cur.ts;
+
+    // rank: posição na ordem pedida (maior = sai primeiro); i desempata pela ordem do arquivo
+    const better = (a, b) => (a.t !== b.t ? (desc ? a.t > b.t : a.t < b.t) : desc ? a.i > b.i : a.i < b.i);
+    const byRank = (a, b) => (better(a, b) ? -1 : better(b, a) ? 1 : 0);
+
+    let kept = [];
+    const ties = []; // eventos com ts == cursor.ts (alguns já foram entregues)
+    let scanned = 0;
+    let matched = 0;
+    const curMs = cur ? Date.parse(cur.ts) : null;
+
+    for await (const line of this.iterate(range)) {
+      scanned += 1;
+      const e = parseLine(line);
+      if (!match(e, line)) continue;
+      const t = Date.parse(e?.ts);
+      const item = { t: Number.isFinite(t) ? t : 0, i: scanned, e };
+
+      if (cur) {
+        if (desc ? item.t > curMs : item.t < curMs) continue;
+        if (item.t === curMs) {
+          ties.push(item);
+          continue;
+        }
+      }
+      matched += 1;
+      kept.push(item);
+      if (kept.length >= lim * 2) kept = kept.sort(byRank).slice(0, lim + 1);
+    }
+
+    // empates no ts do cursor: os n primeiros (na ordem pedida) já foram entregues
+    if (ties.length) {
+      const rest = ties.sort(byRank).slice(cur.n);
+      matched += rest.length;
+      kept.push(...rest);
+    }
+
+    kept.sort(byRank);
+    const page = kept.slice(0, lim);
+    const more = kept.length > lim;
+
+    let nextCursor = null;
+    if (more && page.length) {
+      const last = page[page.length - 1];
+      const lastTs = new Date(last.t).toISOString();
+      const sameTs = page.filter((p) => p.t === last.t).length;
+      // página inteira com o mesmo ts do cursor anterior: soma com os já entregues
+      nextCursor = encodeLogCursor({ ts: lastTs, n: cur && last.t === curMs ? cur.n + sameTs : sameTs });
+    }
+
+    return {
+      order: desc ? "desc" : "asc",
+      limit: lim,
+      count: page.length,
+      scanned,
+      matched,
+      events: page.map((p) => p.e),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Linhas (texto JSONL) com ts em [from, to], em ordem cronológica, só abrindo os segmentos do período.
+   * Um .gz do dia D só tem eventos <= D (e posteriores ao .gz anterior).
+   */
+  async *iterate({ from, to } = {}) {
+    const fromMs = from ? Date.parse(from) : -Infinity;
+    const toMs = to ? Date.parse(to) : Infinity;
+    const fromDay = Number.isFinite(fromMs) ? dayOf(fromMs) : "";
+    const toDay = Number.isFinite(toMs) ? dayOf(toMs) : "9999-99-99";
+
+    const files = [];
+    let prevDay = "";
+    for (const a of await this.listArchives()) {
+      if (prevDay > toDay) break;
+      if (a.day >= fromDay) files.push(a.file);
+      prevDay = a.day;
+    }
+    if (prevDay <= toDay) files.push(this.path);
+
+    for (const file of files) {
+      for await (const line of segmentLines(file)) {
+        const t = Date.parse(parseLine(line)?.ts);
+        if (Number.isFinite(t) && (t < fromMs || t > toMs)) continue;
+        yield line;
+      }
+    }
+  }
+}
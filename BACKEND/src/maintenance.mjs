@@ -0,0 +1,195 @@
+// src/maintenance.mjs
+import { randomUUID } from "node:crypto";
+import { readJson, writeJsonAtomic } from "./jsonfile.mjs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ONCE_MS = 30 * DAY_MS;
+
+// janelas ativas relevantes para uma WAN: as do site inteiro (sem wanId) + as da própria WAN
+export function maintenanceFor(active, wanId = null) {
+  const list = (active ?? []).filter((w) => !w.wanId || (wanId && w.wanId === String(wanId)));
+  return list.length ? list : null;
+}
+
+// entry do Monitor em manutenção: janela do site inteiro ou da WAN ativa no tick
+export function inMaintenance(entry) {
+  return Boolean(maintenanceFor(entry?.maintenance, entry?.activeWanId ?? null));
+}
+
+// soma da sobreposição de [a, b) com as ocorrências (que podem se sobrepor entre si)
+export function overlapMs(occurrences, a, b) {
+  const parts = occurrences
+    .filter((o) => o.start < b && o.end > a)
+    .map((o) => [Math.max(a, o.start), Math.min(b, o.end)])
+    .sort((x, y) => x[0] - y[0]);
+
+  let total = 0;
+  let cur = null;
+  for (const [s, e] of parts) {
+    if (cur && s <= cur[1]) cur[1] = Math.max(cur[1], e);
+    else {
+      if (cur) total += cur[1] - cur[0];
+      cur = [s, e];
+    }
+  }
+  return cur ? total + cur[1] - cur[0] : total;
+}
+
+function parseTime(hhmm) {
+  const m = String(hhmm ?? "").match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  return m ? { h: Number(m[1]), m: Number(m[2]) } : null;
+}
+
+/**
+ * Valida uma janela vinda da API. Formatos:
+ *  { kind: "once",   title, wanId?, start, end }                                  (ISO)
+ *  { kind: "weekly", title, wanId?, days: [0..6], time: "HH:MM", durationMin, from?, until? }
+ * Horários das recorrentes no fuso do servidor (mesmo dos relatórios). wanId vazio = site inteiro.
+ */
+export function validateWindow(w) {
+  const out = [];
+  const r = {
+    kind: String(w?.kind ?? "once"),
+    title: String(w?.title ?? "").trim(),
+    wanId: w?.wanId ? String(w.wanId) : null,
+    note: w?.note ? String(w.note).slice(0, 500) : null,
+  };
+  if (!r.title) out.push("title: obrigatório");
+  if (r.title.length > 120) out.push("title: máximo 120 caracteres");
+
+  if (r.kind === "once") {
+    const start = Date.parse(w.start);
+    const end = Date.parse(w.end);
+    if (Number.isNaN(start) || Number.isNaN(end)) out.push("start/end: datas ISO obrigatórias");
+    else if (end <= start) out.push("end: precisa ser depois de start");
+    else if (end - start > MAX_ONCE_MS) out.push("end: janela única de no máximo 30 dias");
+    else Object.assign(r, { start: new Date(start).toISOString(), end: new Date(end).toISOString() });
+  } else if (r.kind === "weekly") {
+    const days = Array.isArray(w.days) ? [...new Set(w.days.map(Number))].sort() : [];
+    if (!days.length || days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) out.push("days: dias da semana 0 (dom) a 6 (sáb)");
+    if (!parseTime(w.time)) out.push("time: formato HH:MM");
+    const durationMin = Number(w.durationMin);
+    if (!Number.isInteger(durationMin) || durationMin < 1 || durationMin > 24 * 60) out.push("durationMin: inteiro entre 1 e 1440");
+    for (const k of ["from", "until"]) {
+      if (w[k] && Number.isNaN(Date.parse(w[k]))) out.push(`${k}: data inválida`);
+    }
+    Object.assign(r, {
+      days,
+      time: w.time,
+      durationMin,
+      from: w.from ? new Date(Date.parse(w.from)).toISOString() : null,
+      until: w.until ? new Date(Date.parse(w.until)).toISOString() : null,
+    });
+  } else {
+    out.push("kind: use once/weekly");
+  }
+
+  if (out.length) throw Object.assign(new Error(out.join("; ")), { details: out });
+  return r;
+}
+
+/**
+ * Janelas de manutenção de um site (únicas e semanais), persistidas em JSON.
+ * Durante uma janela: entries/eventos saem marcados com `maintenance`, alertas são suprimidos
+ * e o relatório de disponibilidade desconta o tempo.
+ */
+export class MaintenanceSchedule {
+  constructor({ path }) {
+    this.path = path;
+    this.windows = [];
+  }
+
+  async load() {
+    const saved = await readJson(this.path, []);
+    this.windows = Array.isArray(saved) ? saved : [];
+    return this.windows.length;
+  }
+
+  async persist() {
+    await writeJsonAtomic(this.path, this.windows);
+  }
+
+  get(id) {
+    return this.windows.find((w) => w.id === id) ?? null;
+  }
+
+  async create(data, { by = null } = {}) {
+    const w = { id: randomUUID(), ...validateWindow(data), createdBy: by, createdAt: new Date().toISOString() };
+    this.windows.push(w);
+    await this.persist();
+    return w;
+  }
+
+  async update(id, data) {
+    const i = this.windows.findIndex((w) => w.id === id);
+    if (i < 0) return null;
+    const { id: _id, createdBy, createdAt } = this.windows[i];
+    this.windows[i] = { id: _id, ...validateWindow({ ...this.windows[i], ...data }), createdBy, createdAt };
+    await this.persist();
+    return this.windows[i];
+  }
+
+  async remove(id) {
+    const before = this.windows.length;
+    this.windows = this.windows.filter((w) => w.id !== id);
+    if (this.windows.length === before) return false;
+    await this.persist();
+    return true;
+  }
+
+  // ocorrências que tocam [fromMs, toMs): { id, title, wanId, start, end } (ms)
+  occurrences(fromMs, toMs) {
+    const out = [];
+    for (const w of this.windows) {
+      const ref = { id: w.id, title: w.title, wanId: w.wanId ?? null };
+
+      if (w.kind === "once") {
+        const start = Date.parse(w.start);
+        const end = Date.parse(w.end);
+        if (start < toMs && end > fromMs) out.push({ ...ref, start, end });
+        continue;
+      }
+
+      const t = parseTime(w.time);
+      const dur = w.durationMin * 60000;
+      const from = w.from ? Date.parse(w.from) : -Infinity;
+      const until = w.until ? Date.parse(w.until) : Infinity;
+      // começa um dia antes: ocorrência que atravessa a meia-noite ainda vale
+      const day = new Date(fromMs - DAY_MS);
+      day.setHours(0, 0, 0, 0);
+      for (; day.getTime() < toMs; day.setDate(day.getDate() + 1)) {
+        if (!w.days.includes(day.getDay())) continue;
+        const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), t.h, t.m).getTime();
+        const end = start + dur;
+        if (start < from || start >= until) continue;
+        if (start < toMs && end > fromMs) out.push({ ...ref, start, end });
+      }
+    }
+    return out.sort((a, b) => a.start - b.start);
+  }
+
+  // janelas em vigor agora: [{ id, title, wanId, end }]
+  active(ms = Date.now()) {
+    return this.occurrences(ms, ms + 1).map((o) => ({
+      id: o.id,
+      title: o.title,
+      wanId: o.wanId,
+      end: new Date(o.end).toISOString(),
+    }));
+  }
+
+  // lista para a API: janelas + próximas ocorrências (e se estão ativas)
+  list({ now = Date.now(), horizonMs = 14 * DAY_MS } = {}) {
+    const upcoming = this.occurrences(now, now + horizonMs);
+    return {
+      active: this.active(now),
+      windows: this.windows,
+      upcoming: upcoming.map((o) => ({
+        ...o,
+        start: new Date(o.start).toISOString(),
+        end: new Date(o.end).toISOString(),
+        active: o.start <= now && o.end > now,
+      })),
+    };
+  }
+}
@@ -0,0 +1,235 @@
+// src/metrics.mjs
+// /metrics no formato texto do Prometheus (exposition format 0.0.4), sem dependência externa
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+const STATES = ["OK", "DEGRADED", "DOWN", "UNKNOWN"];
+const LATENCY_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const TICK_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabel(v) {
+  return String(v ?? "").replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function fmtLabels(labels) {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+function fmtValue(v) {
+  if (v === Infinity) return "+Inf";
+  if (v === -Infinity) return "-Inf";
+  return Number.isNaN(v) ? "NaN" : String(v);
+}
+
+// séries guardadas por chave = labels serializados na ordem de labelNames
+class Metric {
+  constructor(type, name, help, labelNames = []) {
+    this.type = type;
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+    this.series = new Map(); // key -> { labels, ... }
+  }
+
+  entry(labels, init) {
+    const clean = Object.fromEntries(this.labelNames.map((k) => [k, String(labels?.[k] ?? "")]));
+    const key = JSON.stringify(this.labelNames.map((k) => clean[k]));
+    let s = this.series.get(key);
+    if (!s) this.series.set(key, (s = { labels: clean, ...init() }));
+    return s;
+  }
+
+  header() {
+    return [`# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${this.name} ${this.type}`];
+  }
+}
+
+export class Counter extends Metric {
+  constructor(name, help, labelNames) {
+    super("counter", name, help, labelNames);
+  }
+
+  inc(labels, by = 1) {
+    this.entry(labels, () => ({ value: 0 })).value += by;
+  }
+
+  // valor absoluto de um contador mantido fora do registry (ex.: UnifiApi.errors)
+  set(labels, value) {
+    this.entry(labels, () => ({ value: 0 })).value = value;
+  }
+
+  lines() {
+    return [...this.series.values()].map((s) => `${this.name}${fmtLabels(s.labels)} ${fmtValue(s.value)}`);
+  }
+}
+
+export class Gauge extends Counter {
+  constructor(name, help, labelNames) {
+    super(name, help, labelNames);
+    this.type = "gauge";
+  }
+
+  reset() {
+    this.series.clear();
+  }
+}
+
+export class Histogram extends Metric {
+  constructor(name, help, labelNames, buckets) {
+    super("histogram", name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels, value) {
+    const s = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((b, i) => {
+      if (value <= b) s.counts[i] += 1;
+    });
+    s.sum += value;
+    s.count += 1;
+  }
+
+  lines() {
+    const out = [];
+    for (const s of this.series.values()) {
+      this.buckets.forEach((b, i) => out.push(`${this.name}_bucket${fmtLabels({ ...s.labels, le: fmtValue(b) })} ${s.counts[i]}`));
+      out.push(`${this.name}_bucket${fmtLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+      out.push(`${this.name}_sum${fmtLabels(s.labels)} ${fmtValue(s.sum)}`);
+      out.push(`${this.name}_count${fmtLabels(s.labels)} ${s.count}`);
+    }
+    return out;
+  }
+}
+
+export class MetricsRegistry {
+  constructor() {
+    this.metrics = [];
+    this.collectors = []; // rodam a cada scrape (gauges de estado atual)
+  }
+
+  register(metric) {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  counter(name, help, labelNames) {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name, help, labelNames) {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name, help, labelNames, buckets) {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  onCollect(fn) {
+    this.collectors.push(fn);
+  }
+
+  render() {
+    for (const fn of this.collectors) fn();
+    const out = [];
+    for (const m of this.metrics) out.push(...m.header(), ...m.lines());
+    return `${out.join("\n")}\n`;
+  }
+}
+
+function gatewayOf(site) {
+  return site.monitor.lastEntry?.gateway?.name ?? "";
+}
+
+/**
+ * Métricas do monitor por site. Labels vêm do que o Monitor.tick já coleta:
+ * gateway (entry.gateway.name), wan (nome do WAN group), url (probe.targets[].url/target).
+ * - contadores/histogramas: alimentados por observeTick/observeChange (callbacks do server)
+ * - gauges de estado atual: lidos dos sites no momento do scrape
+ */
+export class MonitorMetrics {
+  constructor({ sites }) {
+    this.sites = sites; // Map id -> Site
+    const r = (this.registry = new MetricsRegistry());
+
+    this.state = r.gauge("unifi_monitor_state", "Estado atual do site (1 = estado corrente).", ["site", "gateway", "state"]);
+    this.wanState = r.gauge("unifi_monitor_wan_state", "Estado atual de cada WAN (1 = estado corrente).", [
+      "site",
+      "gateway",
+      "wan",
+      "state",
+    ]);
+    this.wanUp = r.gauge("unifi_monitor_wan_up", "WAN com link ativo segundo a UniFi (1/0).", ["site", "gateway", "wan"]);
+    this.wanActive = r.gauge("unifi_monitor_wan_active", "WAN que está carregando o tráfego (1/0).", ["site", "gateway", "wan"]);
+
+    this.probeLatency = r.histogram(
+      "unifi_monitor_probe_latency_seconds",
+      "Latência dos probes que responderam.",
+      ["site", "probe", "kind", "url"],
+      LATENCY_BUCKETS
+    );
+    this.probes = r.counter("unifi_monitor_probe_total", "Probes executados por alvo e resultado.", [
+      "site",
+      "probe",
+      "kind",
+      "url",
+      "result",
+    ]);
+
+    this.transitions = r.counter("unifi_monitor_state_transitions_total", "Mudanças de estado do site por motivo.", [
+      "site",
+      "from",
+      "to",
+      "reason",
+    ]);
+    this.unifiErrors = r.counter("unifi_monitor_unifi_api_errors_total", "Falhas em chamadas à API da UniFi.", ["site", "kind"]);
+
+    this.tickDuration = r.histogram("unifi_monitor_tick_duration_seconds", "Duração do tick do monitor.", ["site"], TICK_BUCKETS);
+    this.tickFailures = r.counter("unifi_monitor_tick_failures_total", "Ticks que terminaram em exceção.", ["site"]);
+    this.lastTick = r.gauge("unifi_monitor_last_tick_timestamp_seconds", "Unix time do último tick concluído.", ["site"]);
+
+    r.onCollect(() => this.collect());
+  }
+
+  // depois de cada tick (ok ou com exceção): duração + probes do entry
+  observeTick(site, result = null) {
+    const t = site.lastTick;
+    if (t) {
+      this.tickDuration.observe({ site: site.id }, t.durationMs / 1000);
+      if (!t.ok) this.tickFailures.inc({ site: site.id });
+    }
+
+    for (const p of result?.entry?.probe?.targets ?? []) {
+      const labels = { site: site.id, probe: p.name, kind: p.kind, url: p.url ?? p.target };
+      this.probes.inc({ ...labels, result: p.ok ? "success" : "failure" });
+      if (p.ok && typeof p.ms === "number") this.probeLatency.observe(labels, p.ms / 1000);
+    }
+  }
+
+  observeChange(site, { prev, next, entry }) {
+    this.transitions.inc({ site: site.id, from: prev, to: next, reason: entry?.reason ?? "" });
+  }
+
+  collect() {
+    for (const g of [this.state, this.wanState, this.wanUp, this.wanActive]) g.reset();
+
+    for (const site of this.sites.values()) {
+      const gateway = gatewayOf(site);
+      for (const s of STATES) this.state.set({ site: site.id, gateway, state: s }, site.monitor.state === s ? 1 : 0);
+
+      for (const w of site.monitor.wanTracker.list()) {
+        const labels = { site: site.id, gateway, wan: w.name ?? w.id };
+        for (const s of STATES) this.wanState.set({ ...labels, state: s }, w.state === s ? 1 : 0);
+        if (typeof w.up === "boolean") this.wanUp.set(labels, w.up ? 1 : 0);
+        this.wanActive.set(labels, w.active ? 1 : 0);
+      }
+
+      for (const [kind, n] of Object.entries(site.monitor.api.errors)) this.unifiErrors.set({ site: site.id, kind }, n);
+      if (site.lastTick) this.lastTick.set({ site: site.id }, Math.floor(site.lastTick.at / 1000));
+    }
+  }
+
+  render() {
+    return this.registry.render();
+  }
+}
@@ -1,7 +1,11 @@
 // src/monitor.mjs
 import { CONFIG } from "./config.mjs";
 import { UnifiApi, pickGateway, readWanUp, readWanStatusFromGroups } from "./unifi.mjs";
-import { probeInternet } from "./probe.mjs";
+import { probeInternet, normalizeProbes } from "./probe.mjs";
+import { WanTracker } from "./wan.mjs";
+import { DeviceTracker } from "./devices.mjs";
+import { RollingStats } from "./stats.mjs";
+import { maintenanceFor } from "./maintenance.mjs";
 
 function iso() {
   return new Date().toISOString();
@@ -15,35 +19,111 @@ export function stateLabel(s) {
 }
 
 export class Monitor {
-  constructor() {
-    this.api = new UnifiApi();
+  constructor({ site = CONFIG.sites[0], store = null, incidents = null, maintenance = null } = {}) {
+    // escola monitorada: controladora, site UniFi, probes e limiares próprios
+    this.site = site;
+    this.api = new UnifiApi({
+      baseUrl: site.unifiBaseUrl,
+      apiKey: site.unifiApiKey,
+      auth: site.unifiAuth,
+      username: site.unifiUsername,
+      password: site.unifiPassword,
+      legacyPort: site.unifiLegacyPort,
+    });
+    // persistência das entries (opcional): sobrevive a restart
+    this.store = store;
+    // agrupamento das entries em incidentes (opcional)
+    this.incidents = incidents;
+    // janelas de manutenção (opcional): marcam entries e eventos
+    this.maintenance = maintenance;
 
     this.state = "UNKNOWN"; // OK | DEGRADED | DOWN | UNKNOWN
     this.fail = 0;
     this.succ = 0;
 
-    this.degradedAfterFails = Number(process.env.DEGRADED_AFTER_FAILS ?? 2);
-    this.downAfterFails = Number(process.env.DOWN_AFTER_FAILS ?? 4);
-    this.okAfterSucc = Number(process.env.OK_AFTER_SUCCESSES ?? 2);
+    // latência/jitter/perda em janelas 1m/5m/1h
+    this.stats = new RollingStats({ thresholds: site.quality });
+    this.qualityBad = 0; // ticks seguidos com qualidade RUIM
+
+    // estado independente por WAN network group (failover/failback)
+    this.wanTracker = new WanTracker();
+
+    // inventário de APs/switches/gateway (online/offline por device)
+    this.deviceTracker = new DeviceTracker();
+
+    this.configure(site);
 
     this.history = [];
-    this.maxHistory = Number(process.env.MAX_HISTORY ?? 300);
+    this.maxHistory = CONFIG.maxHistory;
 
     // callback opcional (server assina)
     this.onChange = () => {};
+    this.onWanEvent = () => {};
+    this.onDeviceEvent = () => {};
 
     // último entry gerado
     this.lastEntry = null;
   }
 
+  // limiares, probes e qualidade do site; chamado no boot e quando o config muda em runtime (PUT /api/config)
+  configure(site) {
+    // alvos http/dns/tcp (valida antes de trocar: config inválido não derruba o monitor)
+    const probes = normalizeProbes(site.probes, site.probeUrls);
+
+    this.site = site;
+    this.probes = probes;
+    this.probeQuorum = site.probeQuorum;
+
+    this.degradedAfterFails = site.thresholds.degradedAfterFails;
+    this.downAfterFails = site.thresholds.downAfterFails;
+    this.okAfterSucc = site.thresholds.okAfterSucc;
+    Object.assign(this.wanTracker, {
+      degradedAfterFails: this.degradedAfterFails,
+      downAfterFails: this.downAfterFails,
+      okAfterSucc: this.okAfterSucc,
+    });
+    this.deviceTracker.offlineAfterTicks = site.thresholds.deviceOfflineAfterTicks;
+
+    Object.assign(this.stats.thresholds, site.quality);
+    this.qualityWindow = site.quality.window;
+    this.qualityDegradedAfterTicks = site.quality.degradedAfterTicks;
+    this.qualityMinSamples = site.quality.minSamples;
+  }
+
   snapshot() {
-    return { ts: iso(), state: this.state, history: this.history };
+    return {
+      ts: iso(),
+      site: { id: this.site.id, name: this.site.name },
+      state: this.state,
+      history: this.history,
+      wans: this.wanTracker.list(),
+      wanEvents: this.wanTracker.events,
+      devices: this.deviceTracker.summary(),
+      stats: this.stats.summary(),
+    };
+  }
+
+  // Recarrega o histórico recente do store (chamado no boot, antes do primeiro tick)
+  async hydrate() {
+    if (!this.store) return 0;
+    const entries = await this.store.readLatest(this.maxHistory);
+    if (!entries.length) return 0;
+
+    this.history = entries;
+    this.lastEntry = entries[0];
+    // retoma o último estado conhecido: uma queda em andamento continua DOWN até confirmar o retorno
+    if (entries[0]?.state) this.state = entries[0].state;
+    return entries.length;
   }
 
   pushHistory(entry) {
     this.history.unshift(entry);
     this.lastEntry = entry;
     if (this.history.length > this.maxHistory) this.history.length = this.maxHistory;
+
+    // antes do store: observe() anota entry.incidentId
+    this.incidents?.observe(entry);
+    this.store?.append(entry).catch((e) => console.error("[store] append failed:", e?.message ?? e));
   }
 
   setState(next, details) {
@@ -62,17 +142,28 @@ export class Monitor {
 
   async tick() {
     const ts = iso();
+    const maintenance = this.maintenance?.active(Date.parse(ts)) ?? [];
+    const tag = (ev, wanId = null) => {
+      const m = maintenanceFor(maintenance, wanId);
+      return m ? { ...ev, maintenance: m } : ev;
+    };
 
     // UniFi devices pode falhar: não mata o tick
     let devices = [];
     let unifiError = null;
     try {
-      devices = await this.api.getAllDevices(CONFIG.siteId);
+      devices = await this.api.getAllDevices(this.site.siteId);
+      // só com leitura válida: controladora fora não pode marcar todos os devices como offline
+      for (const ev of this.deviceTracker.update(devices, { ts }).events) this.onDeviceEvent(tag(ev));
     } catch (e) {
       unifiError = e?.message ?? String(e);
     }
 
-    const probe = await probeInternet();
+    const probe = await probeInternet(this.probes, { quorumRule: this.probeQuorum });
+
+    this.stats.add({ ts, ok: probe.ok, ms: probe.ms });
+    const q = this.stats.window(this.qualityWindow);
+
     const gw = pickGateway(devices);
     // 1) Fallback simples (depende do payload de devices)
     let wanUp = readWanUp(gw); // pode vir null dependendo da API/versão
@@ -80,8 +171,10 @@ export class Monitor {
     // 2) Fonte "oficial" do UI (WAN network groups, traz porta/uptime/prioridade...)
     let wan = null;
     let wanGroups = null;
+    let wans = null;
+    let activeWanId = null;
     try {
-      const resp = await this.api.listWanNetworkGroups(CONFIG.siteId);
+      const resp = await this.api.listWanNetworkGroups(this.site.siteId);
       const groups =
         resp?.wan_network_groups ??
         resp?.wanNetworkGroups ??
@@ -91,8 +184,17 @@ export class Monitor {
       if (Array.isArray(groups)) {
         wanGroups = groups;
         const status = readWanStatusFromGroups(groups);
-        wan = status.primary;
+        // a WAN que carrega o tráfego; sem nenhuma ativa, a principal (é ela que o incidente cita)
+        wan = status.active ?? status.primary;
         if (status.up !== null) wanUp = status.up;
+        // grupos sem veredito (principal down, 4G sem status): o link do device só enxerga a principal,
+        // então um false dele não vira queda; fica com os probes
+        else if (wanUp === false) wanUp = null;
+
+        const tracked = this.wanTracker.update(groups, { ts });
+        wans = tracked.wans;
+        activeWanId = tracked.activeId;
+        for (const ev of tracked.events) this.onWanEvent(tag(ev, ev.wan?.id ?? ev.from?.id));
       }
     } catch (e) {
       // silencioso: WAN rica é "best effort"; mantém o monitor vivo
@@ -104,11 +206,34 @@ export class Monitor {
       wanUp,
       wan,
       wanGroups,
+      wans,
+      activeWanId,
+      diagnosis: probe.diagnosis ?? null,
+      quality: { window: this.qualityWindow, ...q },
+      devices: unifiError ? null : this.deviceTracker.summary(),
       unifiError,
       gateway: gw ? { id: gw.id, name: gw.name, model: gw.model, type: gw.type } : null,
+      // janelas ativas no tick (site inteiro e por WAN); inMaintenance(entry) decide se vale para o site
+      maintenance: maintenance.length ? maintenance : null,
     };
 
-    // 1) Se WAN explícito DOWN -> DOWN imediato
+    return this.step(base);
+  }
+
+  /**
+   * Máquina de estados: aplica a observação de um tick (probe, wanUp, quality) aos contadores e limiares.
+   * Sem I/O: o tick coleta e chama aqui; o simulador (simulate.mjs) reproduz entries gravadas do mesmo jeito.
+   */
+  step(base) {
+    const { probe, wanUp, quality: q } = base;
+    // DNS quebrado com upstream OK também é falha: os clientes da escola não navegam
+    const probeOk = probe.ok && probe.diagnosis !== "DNS_FAILURE";
+    const probeKind = probe.diagnosis === "DNS_FAILURE" ? "DNS" : "PROBE";
+
+    const qualityBad = q.samples >= this.qualityMinSamples && q.quality === "RUIM";
+    this.qualityBad = qualityBad ? this.qualityBad + 1 : 0;
+
+    // 1) Todas as WANs explicitamente DOWN -> DOWN imediato (principal caída com o 4G no ar segue pelos probes)
     if (wanUp === false) {
       this.fail = 0;
       this.succ = 0;
@@ -119,17 +244,17 @@ export class Monitor {
     }
 
     // 2) Probe FAIL
-    if (!probe.ok) {
+    if (!probeOk) {
       this.fail += 1;
       this.succ = 0;
 
       if (this.fail >= this.downAfterFails) {
-        const r = this.setState("DOWN", { ...base, reason: "PROBE_DOWN", note: `failCount=${this.fail}` });
+        const r = this.setState("DOWN", { ...base, reason: `${probeKind}_DOWN`, note: `failCount=${this.fail}` });
         return { ...r, snapshot: { state: this.state, history: this.history } };
       }
 
       if (this.fail >= this.degradedAfterFails) {
-        const r = this.setState("DEGRADED", { ...base, reason: "PROBE_DEGRADED", note: `failCount=${this.fail}` });
+        const r = this.setState("DEGRADED", { ...base, reason: `${probeKind}_DEGRADED`, note: `failCount=${this.fail}` });
         return { ...r, snapshot: { state: this.state, history: this.history } };
       }
 
@@ -149,6 +274,17 @@ export class Monitor {
     this.succ += 1;
     this.fail = 0;
 
+    // 3.1) Probes respondem, mas a qualidade está ruim há muito tempo (latência/jitter/perda)
+    if (this.qualityDegradedAfterTicks > 0 && this.qualityBad >= this.qualityDegradedAfterTicks) {
+      this.succ = 0;
+      const r = this.setState("DEGRADED", {
+        ...base,
+        reason: "QUALITY_DEGRADED",
+        note: `quality=${q.quality} p95=${q.p95}ms jitter=${q.jitter}ms loss=${q.lossPct}% (${this.qualityWindow})`,
+      });
+      return { ...r, snapshot: { state: this.state, history: this.history } };
+    }
+
     if (this.state === "UNKNOWN" || this.succ >= this.okAfterSucc) {
       const r = this.setState("OK", { ...base, reason: "PROBE_OK", note: `okCount=${this.succ}` });
       return { ...r, snapshot: { state: this.state, history: this.history } };
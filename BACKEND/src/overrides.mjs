@@ -0,0 +1,35 @@
+// src/overrides.mjs
+import { readJson, writeJsonAtomic } from "./jsonfile.mjs";
+
+/**
+ * Ajustes feitos em runtime pela API (PUT /api/config), por site.
+ * Ficam num JSON em data/ e são reaplicados por cima do .env/SITES no boot.
+ *  { "<siteId>": { settings: { intervalMs?, probes?, thresholds?, ... }, updatedAt, updatedBy } }
+ */
+export class ConfigOverrides {
+  constructor({ path }) {
+    this.path = path;
+    this.sites = {};
+  }
+
+  async load() {
+    const saved = await readJson(this.path, {});
+    this.sites = saved && typeof saved === "object" && !Array.isArray(saved) ? saved : {};
+    return Object.keys(this.sites).length;
+  }
+
+  get(siteId) {
+    return this.sites[siteId] ?? null;
+  }
+
+  async set(siteId, settings, { by = null } = {}) {
+    this.sites[siteId] = { settings, updatedAt: new Date().toISOString(), updatedBy: by };
+    await writeJsonAtomic(this.path, this.sites);
+    return this.sites[siteId];
+  }
+
+  async clear(siteId) {
+    delete this.sites[siteId];
+    await writeJsonAtomic(this.path, this.sites);
+  }
+}
@@ -1,25 +1,220 @@
-import { CONFIG } from "./config.mjs";
-
-export async function probeInternet() {
-  const urls = CONFIG.probeUrls.length
-    ? CONFIG.probeUrls
-    : ["https://one.one.one.one/cdn-cgi/trace"];
-
-  for (const url of urls) {
-    const controller = new AbortController();
-    const t0 = Date.now();
-    const to = setTimeout(() => controller.abort(), CONFIG.probeTimeoutMs);
-
-    try {
-      const res = await fetch(url, { signal: controller.signal, headers: { "Accept": "*/*" } });
-      const ms = Date.now() - t0;
-      if (res.ok) return { ok: true, url, ms };
-    } catch {
-      // ignore
-    } finally {
-      clearTimeout(to);
-    }
-  }
-
-  return { ok: false, url: urls[0] ?? "", ms: null };
-}
+import net from "node:net";
+import { Resolver } from "node:dns/promises";
+import { CONFIG } from "./config.mjs";
+
+const DEFAULT_URLS = ["https://one.one.one.one/cdn-cgi/trace"];
+const KINDS = ["http", "dns", "tcp"];
+
+// Classifica o erro do fetch (undici) / dns / net em algo útil para diagnóstico
+export function classifyError(e) {
+  if (e?.name === "AbortError" || e?.name === "TimeoutError") return "timeout";
+
+  // happy eyeballs (IPv4+IPv6) devolve AggregateError em cause.errors
+  const code = String(e?.cause?.code ?? e?.cause?.errors?.[0]?.code ?? e?.code ?? "");
+  if (["ENOTFOUND", "EAI_AGAIN", "EAI_NONAME", "EAI_NODATA", "ENODATA", "ESERVFAIL", "EREFUSED"].includes(code)) {
+    return "dns";
+  }
+  if (code === "ECONNREFUSED") return "refused";
+  if (code === "ECONNRESET" || code === "UND_ERR_SOCKET") return "reset";
+  if (["EHOSTUNREACH", "ENETUNREACH", "EHOSTDOWN"].includes(code)) return "unreachable";
+  if (["UND_ERR_CONNECT_TIMEOUT", "ETIMEDOUT", "ETIMEOUT", "ECANCELLED"].includes(code)) return "timeout";
+  if (/CERT|TLS|SSL|SELF_SIGNED|UNABLE_TO_VERIFY/i.test(code) || /certificate|tls|ssl/i.test(e?.cause?.message ?? "")) {
+    return "tls";
+  }
+  return "error";
+}
+
+function withTimeout(promise, ms, onTimeout) {
+  let to;
+  const timer = new Promise((_, reject) => {
+    to = setTimeout(() => {
+      onTimeout?.();
+      reject(Object.assign(new Error("timeout"), { name: "TimeoutError" }));
+    }, ms);
+  });
+  return Promise.race([promise, timer]).finally(() => clearTimeout(to));
+}
+
+/**
+ * Normaliza a lista de probes do config.
+ * PROBES (JSON) aceita:
+ *  { kind: "http", url, expectStatus?: 204 | [200, 204] | "2xx", expectBody?: "texto" | "/regex/i" }
+ *  { kind: "dns",  host, resolver?: "1.1.1.1" | ["1.1.1.1", "8.8.8.8"], type?: "A" }
+ *  { kind: "tcp",  host, port }
+ * Todos aceitam name, timeoutMs e weight (peso no quorum, > 0, padrão 1).
+ * Sem PROBES: cada PROBE_URLS vira um probe http.
+ */
+export function normalizeProbes(list = CONFIG.probes, urls = CONFIG.probeUrls) {
+  const raw = Array.isArray(list) && list.length ? list : (urls.length ? urls : DEFAULT_URLS).map((url) => ({ kind: "http", url }));
+
+  return raw.map((p, i) => {
+    const kind = String(p?.kind ?? "http").toLowerCase();
+    if (!KINDS.includes(kind)) throw new Error(`PROBES[${i}]: kind inválido "${p?.kind}" (use ${KINDS.join("/")})`);
+    if (kind === "http" && !p.url) throw new Error(`PROBES[${i}]: http precisa de url`);
+    if (kind === "dns" && !p.host) throw new Error(`PROBES[${i}]: dns precisa de host`);
+    if (kind === "tcp" && (!p.host || !Number.isInteger(Number(p.port)))) {
+      throw new Error(`PROBES[${i}]: tcp precisa de host e port`);
+    }
+    // peso 0 ou negativo tiraria o alvo do quorum (ou inverteria a conta)
+    const weight = p.weight === undefined || p.weight === null ? 1 : Number(p.weight);
+    if (!Number.isFinite(weight) || weight <= 0) throw new Error(`PROBES[${i}]: weight precisa ser um número > 0`);
+
+    const resolvers = p.resolver ? [].concat(p.resolver).map(String) : [];
+    const target =
+      kind === "http"
+        ? p.url
+        : kind === "tcp"
+          ? `${p.host}:${p.port}`
+          : `${p.host}${resolvers.length ? `@${resolvers.join(",")}` : ""}`;
+
+    return {
+      ...p,
+      kind,
+      name: p.name ?? target,
+      target,
+      resolvers,
+      port: kind === "tcp" ? Number(p.port) : undefined,
+      timeoutMs: Number(p.timeoutMs ?? CONFIG.probeTimeoutMs),
+      weight,
+    };
+  });
+}
+
+function statusMatches(expect, status, ok) {
+  if (expect === undefined || expect === null) return ok;
+  if (Array.isArray(expect)) return expect.map(Number).includes(status);
+  const m = String(expect).match(/^(\d)xx$/i);
+  if (m) return Math.floor(status / 100) === Number(m[1]);
+  return Number(expect) === status;
+}
+
+function bodyMatches(expect, body) {
+  const re = String(expect).match(/^\/(.+)\/([a-z]*)$/);
+  return re ? new RegExp(re[1], re[2]).test(body) : body.includes(String(expect));
+}
+
+async function runHttp(p) {
+  const controller = new AbortController();
+  const t0 = Date.now();
+  const to = setTimeout(() => controller.abort(), p.timeoutMs);
+
+  try {
+    const res = await fetch(p.url, { signal: controller.signal, headers: { "Accept": "*/*" } });
+    const statusOk = statusMatches(p.expectStatus, res.status, res.ok);
+
+    if (p.expectBody === undefined || !statusOk) {
+      // não precisamos do corpo: libera a conexão
+      res.body?.cancel().catch(() => {});
+      const ms = Date.now() - t0;
+      return { ok: statusOk, ms, status: res.status, error: statusOk ? null : "http" };
+    }
+
+    const body = await res.text();
+    const ms = Date.now() - t0;
+    const ok = bodyMatches(p.expectBody, body);
+    return { ok, ms, status: res.status, error: ok ? null : "content" };
+  } finally {
+    clearTimeout(to);
+  }
+}
+
+async function runDns(p) {
+  const resolver = new Resolver({ timeout: p.timeoutMs, tries: 1 });
+  if (p.resolvers.length) resolver.setServers(p.resolvers);
+
+  const t0 = Date.now();
+  const records = await withTimeout(resolver.resolve(p.host, p.type ?? "A"), p.timeoutMs, () => resolver.cancel());
+  return { ok: records.length > 0, ms: Date.now() - t0, answers: records.length, error: records.length ? null : "dns" };
+}
+
+function runTcp(p) {
+  return new Promise((resolve, reject) => {
+    const t0 = Date.now();
+    const socket = net.connect({ host: p.host, port: p.port });
+    socket.setTimeout(p.timeoutMs);
+
+    socket.once("connect", () => {
+      const ms = Date.now() - t0;
+      socket.destroy();
+      resolve({ ok: true, ms, error: null });
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      reject(Object.assign(new Error("timeout"), { code: "ETIMEDOUT" }));
+    });
+    socket.once("error", (e) => {
+      socket.destroy();
+      reject(e);
+    });
+  });
+}
+
+const RUNNERS = { http: runHttp, dns: runDns, tcp: runTcp };
+
+export async function runProbe(p) {
+  const base = { name: p.name, kind: p.kind, target: p.target, weight: p.weight };
+  if (p.kind === "http") base.url = p.url;
+
+  try {
+    const r = await RUNNERS[p.kind](p);
+    return { ...base, status: null, ...r };
+  } catch (e) {
+    return { ...base, ok: false, ms: null, status: null, error: classifyError(e) };
+  }
+}
+
+// PROBE_QUORUM: "any" (padrão) | "majority" | "all" | N — aplicado sobre a soma dos pesos
+export function quorum(rule, targets) {
+  const total = targets.reduce((a, t) => a + t.weight, 0);
+  const passed = targets.filter((t) => t.ok).reduce((a, t) => a + t.weight, 0);
+  const r = String(rule ?? "any").trim().toLowerCase();
+
+  let required;
+  if (r === "all") required = total;
+  else if (r === "majority") required = Math.floor(total / 2) + 1;
+  else if (Number.isFinite(Number(r)) && Number(r) > 0) required = Math.min(Number(r), total);
+  else required = Math.min(...targets.map((t) => t.weight).filter((w) => w > 0), total) || 0; // any
+
+  return { rule: r, required, passed, total, ok: total > 0 && passed >= required };
+}
+
+// Diagnóstico por tipo: separa "DNS quebrado" de "upstream quebrado"
+export function diagnose(targets) {
+  const dns = targets.filter((t) => t.kind === "dns");
+  const other = targets.filter((t) => t.kind !== "dns");
+  const dnsOk = dns.some((t) => t.ok);
+  const otherOk = other.some((t) => t.ok);
+
+  if (!targets.some((t) => t.ok)) return "TOTAL_FAILURE";
+  if (dns.length && !dnsOk && otherOk) return "DNS_FAILURE";
+  if (other.length && !otherOk && (dnsOk || !dns.length)) return "UPSTREAM_FAILURE";
+  return null;
+}
+
+export async function probeInternet(probes = normalizeProbes(), { quorumRule = CONFIG.probeQuorum } = {}) {
+  // todos em paralelo: um alvo morto não atrasa o tick além do timeout
+  const targets = await Promise.all(probes.map((p) => runProbe(p)));
+
+  const { ok, ...q } = quorum(quorumRule, targets);
+
+  const byKind = {};
+  for (const t of targets) {
+    byKind[t.kind] ??= { ok: 0, total: 0 };
+    byKind[t.kind].total += 1;
+    if (t.ok) byKind[t.kind].ok += 1;
+  }
+
+  // url/ms "principais" (compat): alvo HTTP OK mais rápido (ou qualquer um, se não houver http)
+  const okTargets = targets.filter((t) => t.ok).sort((a, b) => a.ms - b.ms);
+  const fastest = okTargets.find((t) => t.kind === "http") ?? okTargets[0];
+
+  return {
+    ok,
+    url: fastest?.url ?? fastest?.target ?? targets[0]?.target ?? "",
+    ms: fastest?.ms ?? null,
+    quorum: q,
+    byKind,
+    diagnosis: diagnose(targets),
+    targets,
+  };
+}
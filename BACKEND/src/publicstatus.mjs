@@ -0,0 +1,108 @@
+// src/publicstatus.mjs
+import { createHash } from "node:crypto";
+import { statusTimeline } from "./report.mjs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// linguagem de pais/funcionários, não de TI
+export const PUBLIC_STATE_LABEL = {
+  OK: "Operacional",
+  DEGRADED: "Instabilidade",
+  DOWN: "Fora do ar",
+  UNKNOWN: "Sem dados",
+};
+
+const BADGE_COLOR = { OK: "#10b981", DEGRADED: "#f59e0b", DOWN: "#f43f5e", UNKNOWN: "#64748b" };
+
+// só o que a página pública mostra: nada de gateway, WAN/network_id, probe ou motivo técnico
+function publicIncident(inc) {
+  return {
+    id: inc.id,
+    start: inc.start,
+    end: inc.end,
+    durationMs: inc.durationMs,
+    state: inc.worstState,
+    label: PUBLIC_STATE_LABEL[inc.worstState] ?? inc.worstState,
+    maintenance: Boolean(inc.maintenance),
+    updates: (inc.updates ?? []).map(({ ts, text }) => ({ ts, text })),
+  };
+}
+
+/**
+ * Payload da página de status pública de um site (escola).
+ * - today: barras por hora desde 00:00, no formato do /timeline (incidentes sem motivo técnico)
+ * - incidents: em aberto + encerrados nos últimos recentDays (máx. recentLimit)
+ * - maintenance: em andamento + próximas nos próximos upcomingDays, só título e horário
+ */
+export async function publicStatus(site, { now = Date.now(), recentDays = 7, recentLimit = 10, upcomingDays = 7 } = {}) {
+  const { monitor, incidents, maintenance } = site;
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+
+  const today = await statusTimeline({
+    store: site.store,
+    incidents,
+    maintenance,
+    from: midnight.toISOString(),
+    to: new Date(now).toISOString(),
+    granularity: "hour",
+    intervalMs: site.config.intervalMs,
+    cache: site.timeline,
+  });
+  for (const b of today.buckets) b.incidents = b.incidents.map((i) => ({ ...i, reason: null }));
+
+  const recent = incidents.query({ from: new Date(now - recentDays * DAY_MS).toISOString(), limit: recentLimit + 1 });
+  const upcoming = maintenance.occurrences(now, now + upcomingDays * DAY_MS);
+
+  return {
+    site: { id: site.id, name: site.name },
+    state: monitor.state,
+    label: PUBLIC_STATE_LABEL[monitor.state] ?? monitor.state,
+    updatedAt: monitor.lastEntry?.ts ?? null,
+    generatedAt: new Date(now).toISOString(),
+    today,
+    incidents: {
+      active: recent.incidents.filter((i) => !i.end).map(publicIncident),
+      recent: recent.incidents
+        .filter((i) => i.end)
+        .slice(0, recentLimit)
+        .map(publicIncident),
+    },
+    maintenance: upcoming.map((o) => ({
+      title: o.title,
+      start: new Date(o.start).toISOString(),
+      end: new Date(o.end).toISOString(),
+      active: o.start <= now && o.end > now,
+    })),
+  };
+}
+
+export function publicEtag(body) {
+  return `W/"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+function esc(s) {
+  return String(s).replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+}
+
+// largura aproximada do texto em Verdana 11px (sem medir fonte de verdade, como os badges do shields.io)
+function textWidth(s) {
+  return Math.round([...s].length * 6.5) + 10;
+}
+
+// Badge SVG estilo shields.io: "internet | Operacional"
+export function statusBadge(state, { label = "internet" } = {}) {
+  const message = PUBLIC_STATE_LABEL[state] ?? state;
+  const color = BADGE_COLOR[state] ?? BADGE_COLOR.UNKNOWN;
+  const lw = textWidth(label);
+  const mw = textWidth(message);
+  const w = lw + mw;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="20" role="img" aria-label="${esc(label)}: ${esc(message)}">
+<title>${esc(label)}: ${esc(message)}</title>
+<clipPath id="r"><rect width="${w}" height="20" rx="3" fill="#fff"/></clipPath>
+<g clip-path="url(#r)"><rect width="${lw}" height="20" fill="#555"/><rect x="${lw}" width="${mw}" height="20" fill="${color}"/></g>
+<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+<text x="${lw / 2}" y="14">${esc(label)}</text><text x="${lw + mw / 2}" y="14">${esc(message)}</text>
+</g>
+</svg>`;
+}
@@ -0,0 +1,515 @@
+// src/report.mjs
+// Relatório de disponibilidade (SLA): uptime %, downtime, MTTR, MTBF e incidentes
+// por dia/semana/mês e por WAN group. Fonte: history store (tempo em cada estado) + incidentes.
+// Janelas de manutenção saem da conta (nem up nem down) e os incidentes nelas não entram no MTTR/MTBF.
+// statusTimeline usa a mesma conta para a linha do tempo (barras por dia/hora, estilo status page).
+import { ROOT_CAUSES } from "./incidents.mjs";
+import { overlapMs } from "./maintenance.mjs";
+
+const GRANULARITIES = ["day", "week", "month"];
+export const TIMELINE_GRANULARITIES = ["day", "hour"];
+// barras por resposta: 1 ano por dia ou ~1 mês por hora
+export const TIMELINE_MAX_BUCKETS = 744;
+// incidentes listados por barra (o total vem em incidentCount)
+const TIMELINE_MAX_INCIDENTS = 10;
+
+export function bucketStart(ms, granularity) {
+  const d = new Date(ms);
+  if (granularity === "hour") {
+    d.setMinutes(0, 0, 0);
+    return d.getTime();
+  }
+  d.setHours(0, 0, 0, 0);
+  if (granularity === "week") d.setDate(d.getDate() - ((d.getDay() + 6) % 7)); // semana começa na segunda
+  if (granularity === "month") d.setDate(1);
+  return d.getTime();
+}
+
+function nextBucket(ms, granularity) {
+  const d = new Date(ms);
+  if (granularity === "hour") d.setHours(d.getHours() + 1);
+  else if (granularity === "month") d.setMonth(d.getMonth() + 1);
+  else d.setDate(d.getDate() + (granularity === "week" ? 7 : 1));
+  return d.getTime();
+}
+
+function newAcc(start, end) {
+  return {
+    start,
+    end,
+    monitoredMs: 0,
+    maintenanceMs: 0,
+    states: { OK: 0, DEGRADED: 0, DOWN: 0, UNKNOWN: 0 },
+    wans: new Map(),
+    incidents: [],
+  };
+}
+
+// windows: ocorrências de manutenção { start, end, wanId } (ms); o site usa as sem WAN + as da WAN ativa
+function addTime(acc, entry, t, dt, windows) {
+  const forWan = (wanId) => windows.filter((o) => !o.wanId || o.wanId === String(wanId ?? ""));
+  const m = windows.length ? overlapMs(forWan(entry.activeWanId), t, t + dt) : 0;
+  acc.maintenanceMs += m;
+  acc.monitoredMs += dt - m;
+  acc.states[entry.state] = (acc.states[entry.state] ?? 0) + dt - m;
+
+  for (const w of Array.isArray(entry.wans) ? entry.wans : []) {
+    let a = acc.wans.get(w.id);
+    if (!a) {
+      a = { id: w.id, name: w.name ?? w.id, monitoredMs: 0, maintenanceMs: 0, states: { OK: 0, DEGRADED: 0, DOWN: 0, UNKNOWN: 0 } };
+      acc.wans.set(w.id, a);
+    }
+    const wm = windows.length ? overlapMs(forWan(w.id), t, t + dt) : 0;
+    a.maintenanceMs += wm;
+    a.monitoredMs += dt - wm;
+    a.states[w.state] = (a.states[w.state] ?? 0) + dt - wm;
+  }
+}
+
+// barras contíguas cobrindo [fromMs, toMs), a primeira e a última cortadas no período
+function makeBuckets(fromMs, toMs, granularity) {
+  const buckets = [];
+  for (let s = bucketStart(fromMs, granularity); s < toMs; s = nextBucket(s, granularity)) {
+    buckets.push(newAcc(Math.max(s, fromMs), Math.min(nextBucket(s, granularity), toMs)));
+  }
+  return buckets;
+}
+
+// índice da barra que contém ms (barras ordenadas e contíguas); -1 fora do período
+function bucketIndex(buckets, ms) {
+  let lo = 0;
+  let hi = buckets.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (ms < buckets[mid].start) hi = mid - 1;
+    else if (ms >= buckets[mid].end) lo = mid + 1;
+    else return mid;
+  }
+  return -1;
+}
+
+// quanto um tick vale no máximo (depois disso é buraco: monitor fora)
+function tickMaxGap(intervalMs) {
+  return Math.max(3 * intervalMs, 60000);
+}
+
+/**
+ * Percorre os ticks do history no período e soma o tempo de cada um nas barras (e em total, se vier).
+ * Cada tick vale até o próximo, limitado: buraco grande = monitor fora (não conta nem como up nem como down).
+ * Tick que atravessa a virada de uma barra é dividido entre as duas.
+ */
+async function accountHistory({ store, fromMs, toMs, intervalMs, buckets, total = null, windows }) {
+  const maxGap = tickMaxGap(intervalMs);
+  const account = (entry, untilMs) => {
+    let t = Date.parse(entry.ts);
+    const end = t + Math.min(maxGap, Math.max(0, untilMs - t));
+    if (total && end > t) addTime(total, entry, t, end - t, windows);
+    let i = bucketIndex(buckets, t);
+    while (i >= 0 && i < buckets.length && t < end) {
+      const stop = Math.min(end, buckets[i].end);
+      // barra que veio pronta do TimelineCache já tem esse tempo
+      if (!buckets[i].cached) addTime(buckets[i], entry, t, stop - t, windows);
+      t = stop;
+      i += 1;
+    }
+  };
+
+  let prev = null;
+  for await (const e of store.iterate({ from: new Date(fromMs).toISOString(), to: new Date(toMs).toISOString() })) {
+    if (prev) account(prev, Date.parse(e.ts));
+    prev = e;
+  }
+  if (prev) account(prev, toMs);
+}
+
+function pct(part, whole) {
+  return whole > 0 ? Math.round((part / whole) * 100000) / 1000 : null;
+}
+
+function mean(nums) {
+  return nums.length ? Math.round(nums.reduce((a, b) => a + b, 0) / nums.length) : null;
+}
+
+// incidentes por causa raiz (null = não classificado), os que mais somaram tempo primeiro
+function rootCauseBreakdown(incidents) {
+  const by = new Map();
+  for (const i of incidents) {
+    const cause = i.rootCause ?? null;
+    const r = by.get(cause) ?? { rootCause: cause, incidents: 0, durationMs: 0 };
+    r.incidents += 1;
+    r.durationMs += i.durationMs;
+    by.set(cause, r);
+  }
+  return [...by.values()].sort((a, b) => b.durationMs - a.durationMs);
+}
+
+function finalize(acc, now) {
+  const periodMs = Math.max(0, Math.min(acc.end, now) - acc.start);
+  const downMs = acc.states.DOWN;
+  const degradedMs = acc.states.DEGRADED;
+
+  const counted = acc.incidents.filter((i) => !i.maintenance);
+  const closed = counted.filter((i) => i.end);
+  const failures = counted.filter((i) => i.worstState === "DOWN");
+
+  return {
+    start: new Date(acc.start).toISOString(),
+    end: new Date(acc.end).toISOString(),
+    periodMs,
+    monitoredMs: acc.monitoredMs,
+    maintenanceMs: acc.maintenanceMs,
+    // manutenção conta como coberta: o monitor estava rodando, só não entra na disponibilidade
+    coveragePct: pct(acc.monitoredMs + acc.maintenanceMs, periodMs),
+    downMs,
+    degradedMs,
+    // disponibilidade: tempo fora de DOWN sobre o tempo efetivamente monitorado
+    uptimePct: pct(acc.monitoredMs - downMs, acc.monitoredMs),
+    okPct: pct(acc.states.OK, acc.monitoredMs),
+    incidents: counted.length,
+    downIncidents: failures.length,
+    maintenanceIncidents: acc.incidents.length - counted.length,
+    mttrMs: mean(closed.map((i) => i.durationMs)),
+    mtbfMs: failures.length ? Math.round((acc.monitoredMs - downMs) / failures.length) : null,
+    // tempo médio até um operador reconhecer (só os reconhecidos)
+    acknowledged: counted.filter((i) => i.ack).length,
+    mttaMs: mean(counted.filter((i) => i.ack).map((i) => Date.parse(i.ack.ts) - Date.parse(i.start))),
+    rootCauses: rootCauseBreakdown(counted),
+    wans: [...acc.wans.values()].map((w) => ({
+      id: w.id,
+      name: w.name,
+      monitoredMs: w.monitoredMs,
+      maintenanceMs: w.maintenanceMs,
+      downMs: w.states.DOWN,
+      degradedMs: w.states.DEGRADED,
+      uptimePct: pct(w.monitoredMs - w.states.DOWN, w.monitoredMs),
+    })),
+  };
+}
+
+/**
+ * @param {{ store, incidents, maintenance?, from, to, granularity, intervalMs }} opts
+ *  - store: SegmentedStore (history)
+ *  - incidents: IncidentTracker
+ *  - maintenance: MaintenanceSchedule (opcional)
+ */
+export async function availabilityReport({
+  store,
+  incidents,
+  maintenance = null,
+  from,
+  to,
+  granularity = "day",
+  intervalMs = 15000,
+}) {
+  if (!GRANULARITIES.includes(granularity)) throw new Error(`granularity inválida: ${granularity}`);
+
+  const now = Date.now();
+  const fromMs = Date.parse(from);
+  const toMs = Math.min(Date.parse(to), now);
+
+  const buckets = makeBuckets(fromMs, toMs, granularity);
+  const total = newAcc(fromMs, toMs);
+  // janelas cadastradas depois do fato também valem (calculado a partir da agenda, não das entries)
+  const windows = maintenance?.occurrences(fromMs, toMs) ?? [];
+  await accountHistory({ store, fromMs, toMs, intervalMs, buckets, total, windows });
+
+  const { incidents: list } = incidents.query({
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    limit: Number.MAX_SAFE_INTEGER,
+  });
+  for (const inc of list) {
+    const start = Date.parse(inc.start);
+    if (start < fromMs || start >= toMs) continue;
+    total.incidents.push(inc);
+    buckets[bucketIndex(buckets, start)]?.incidents.push(inc);
+  }
+
+  return {
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    granularity,
+    generatedAt: new Date(now).toISOString(),
+    total: finalize(total, now),
+    buckets: buckets.map((b) => finalize(b, now)),
+    // lista do período com a triagem do operador (sem detalhes técnicos de probe/ticks)
+    incidents: total.incidents.map((i) => ({
+      id: i.id,
+      start: i.start,
+      end: i.end,
+      durationMs: i.durationMs,
+      worstState: i.worstState,
+      reason: i.reason,
+      maintenance: i.maintenance,
+      ack: i.ack ?? null,
+      assignee: i.assignee ?? null,
+      rootCause: i.rootCause ?? null,
+      notes: i.notes ?? [],
+    })),
+  };
+}
+
+// pior estado com tempo na barra (manutenção não conta); null = sem dados (monitor fora)
+function worstState(states, monitoredMs) {
+  if (states.DOWN > 0) return "DOWN";
+  if (states.DEGRADED > 0) return "DEGRADED";
+  if (states.OK > 0) return "OK";
+  return monitoredMs > 0 ? "UNKNOWN" : null;
+}
+
+/**
+ * Barras já fechadas da linha do tempo de um site (uma instância por Site), para o /timeline de 90 dias
+ * e a página pública não relerem o history inteiro a cada request: só o trecho ainda aberto é lido.
+ * Barra fechada = inteira (não cortada por from/to) e terminada há mais de um tick máximo, então nenhum
+ * tick novo muda o tempo dela. Incidentes não ficam aqui (vêm sempre do tracker, com a triagem atual);
+ * a assinatura guarda as manutenções que tocam a barra e o intervalMs, e qualquer mudança nelas recalcula.
+ */
+export class TimelineCache {
+  constructor({ maxBuckets = 4 * TIMELINE_MAX_BUCKETS } = {}) {
+    this.maxBuckets = maxBuckets;
+    this.bars = new Map(); // "<granularity>:<start>" -> { sig, end, monitoredMs, maintenanceMs, states }
+  }
+
+  static signature(bucket, windows, intervalMs) {
+    const touching = windows.filter((o) => o.start < bucket.end && o.end > bucket.start);
+    return JSON.stringify([intervalMs, touching.map((o) => [o.start, o.end, o.wanId ?? null])]);
+  }
+
+  // copia a barra guardada para `bucket` (e marca cached); false se não há ou a assinatura mudou
+  restore(granularity, bucket, sig) {
+    const hit = this.bars.get(`${granularity}:${bucket.start}`);
+    // barra cortada pelo fim do período (mesmo início, fim antes) não é a barra guardada
+    if (!hit || hit.sig !== sig || hit.end !== bucket.end) return false;
+    bucket.monitoredMs = hit.monitoredMs;
+    bucket.maintenanceMs = hit.maintenanceMs;
+    bucket.states = { ...hit.states };
+    bucket.cached = true;
+    return true;
+  }
+
+  save(granularity, bucket, sig) {
+    const key = `${granularity}:${bucket.start}`;
+    this.bars.delete(key);
+    const { end, monitoredMs, maintenanceMs, states } = bucket;
+    this.bars.set(key, { sig, end, monitoredMs, maintenanceMs, states: { ...states } });
+    // mais antigas (ordem de inserção) saem primeiro
+    while (this.bars.size > this.maxBuckets) this.bars.delete(this.bars.keys().next().value);
+  }
+}
+
+/**
+ * Linha do tempo já agregada (o navegador não carrega ticks): uma barra por dia ou hora com o tempo
+ * em cada estado, o pior estado e os incidentes que tocam a barra.
+ * @param {{ store, incidents, maintenance?, from, to, granularity, intervalMs, cache? }} opts
+ *  como availabilityReport; cache: TimelineCache do site (opcional) para pular as barras já fechadas
+ */
+export async function statusTimeline({
+  store,
+  incidents,
+  maintenance = null,
+  from,
+  to,
+  granularity = "day",
+  intervalMs = 15000,
+  cache = null,
+}) {
+  if (!TIMELINE_GRANULARITIES.includes(granularity)) throw new Error(`granularity inválida: ${granularity}`);
+
+  const now = Date.now();
+  const fromMs = Date.parse(from);
+  const toMs = Math.min(Date.parse(to), now);
+
+  const buckets = makeBuckets(fromMs, toMs, granularity);
+  const windows = maintenance?.occurrences(fromMs, toMs) ?? [];
+  const sigs = cache ? buckets.map((b) => TimelineCache.signature(b, windows, intervalMs)) : [];
+  if (cache) buckets.forEach((b, i) => cache.restore(granularity, b, sigs[i]));
+
+  // lê o history só a partir da primeira barra que não veio do cache (menos um tick, que pode atravessar a virada)
+  const maxGap = tickMaxGap(intervalMs);
+  const first = buckets.find((b) => !b.cached);
+  if (first) {
+    await accountHistory({ store, fromMs: Math.max(fromMs, first.start - maxGap), toMs, intervalMs, buckets, windows });
+  }
+
+  if (cache) {
+    const closedBefore = now - maxGap;
+    buckets.forEach((b, i) => {
+      const whole = b.start === bucketStart(b.start, granularity) && b.end === nextBucket(b.start, granularity);
+      if (!b.cached && whole && b.end <= closedBefore) cache.save(granularity, b, sigs[i]);
+    });
+  }
+
+  const { incidents: list } = incidents.query({
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    limit: Number.MAX_SAFE_INTEGER,
+  });
+  for (const inc of list) {
+    const start = Date.parse(inc.start);
+    const end = inc.end ? Date.parse(inc.end) : now;
+    for (let i = Math.max(0, bucketIndex(buckets, Math.max(start, fromMs))); i < buckets.length && buckets[i].start <= end; i++) {
+      if (buckets[i].end > start) buckets[i].incidents.push(inc);
+    }
+  }
+
+  const bars = buckets.map((b) => ({
+    start: new Date(b.start).toISOString(),
+    end: new Date(b.end).toISOString(),
+    worstState: worstState(b.states, b.monitoredMs),
+    states: b.states,
+    monitoredMs: b.monitoredMs,
+    maintenanceMs: b.maintenanceMs,
+    downMs: b.states.DOWN,
+    degradedMs: b.states.DEGRADED,
+    uptimePct: pct(b.monitoredMs - b.states.DOWN, b.monitoredMs),
+    incidentCount: b.incidents.length,
+    incidents: b.incidents.slice(0, TIMELINE_MAX_INCIDENTS).map((i) => ({
+      id: i.id,
+      start: i.start,
+      end: i.end,
+      durationMs: i.durationMs,
+      worstState: i.worstState,
+      reason: i.reason ?? null,
+      maintenance: Boolean(i.maintenance),
+    })),
+  }));
+
+  const monitoredMs = bars.reduce((a, b) => a + b.monitoredMs, 0);
+  const downMs = bars.reduce((a, b) => a + b.downMs, 0);
+  return {
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    granularity,
+    generatedAt: new Date(now).toISOString(),
+    total: {
+      monitoredMs,
+      maintenanceMs: bars.reduce((a, b) => a + b.maintenanceMs, 0),
+      downMs,
+      degradedMs: bars.reduce((a, b) => a + b.degradedMs, 0),
+      uptimePct: pct(monitoredMs - downMs, monitoredMs),
+      incidents: list.filter((i) => !i.maintenance && Date.parse(i.start) >= fromMs).length,
+    },
+    buckets: bars,
+  };
+}
+
+function fmtMin(ms) {
+  return ms == null ? "" : (ms / 60000).toFixed(1);
+}
+
+function csvCell(v) {
+  const s = v == null ? "" : String(v);
+  return /[",\n;]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function reportToCsv(report) {
+  const header = [
+    "scope",
+    "start",
+    "end",
+    "uptime_pct",
+    "ok_pct",
+    "coverage_pct",
+    "downtime_min",
+    "degraded_min",
+    "maintenance_min",
+    "incidents",
+    "down_incidents",
+    "mttr_min",
+    "mtbf_min",
+    "mtta_min",
+  ];
+  const rows = [header];
+
+  const push = (scope, b) =>
+    rows.push([
+      scope,
+      b.start,
+      b.end,
+      b.uptimePct,
+      b.okPct ?? "",
+      b.coveragePct ?? "",
+      fmtMin(b.downMs),
+      fmtMin(b.degradedMs),
+      fmtMin(b.maintenanceMs),
+      b.incidents ?? "",
+      b.downIncidents ?? "",
+      fmtMin(b.mttrMs),
+      fmtMin(b.mtbfMs),
+      fmtMin(b.mttaMs),
+    ]);
+
+  push("total", report.total);
+  for (const b of report.buckets) push(report.granularity, b);
+  for (const b of report.buckets) {
+    for (const w of b.wans) push(`wan:${w.name}`, { ...w, start: b.start, end: b.end });
+  }
+
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+function esc(s) {
+  return String(s ?? "").replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]);
+}
+
+function causeLabel(cause) {
+  return cause ? (ROOT_CAUSES[cause] ?? cause) : "Não classificada";
+}
+
+export function reportToHtml(report, { title = "Relatório de disponibilidade" } = {}) {
+  const d = (iso) => new Date(iso).toLocaleString("pt-BR");
+  const p = (v) => (v == null ? "—" : `${v.toFixed(3)}%`);
+  const row = (label, b) =>
+    `<tr><td>${esc(label)}</td><td>${p(b.uptimePct)}</td><td>${fmtMin(b.downMs)}</td><td>${fmtMin(b.degradedMs)}</td>` +
+    `<td>${fmtMin(b.maintenanceMs)}</td><td>${b.incidents ?? ""}</td><td>${fmtMin(b.mttrMs)}</td><td>${fmtMin(b.mtbfMs)}</td><td>${p(b.coveragePct)}</td></tr>`;
+
+  return `<!doctype html>
+<html lang="pt-BR"><head><meta charset="utf-8"><title>${esc(title)}</title>
+<style>
+body{font-family:system-ui,sans-serif;margin:32px;color:#0f172a}
+table{border-collapse:collapse;width:100%;margin:16px 0}
+th,td{border:1px solid #cbd5e1;padding:6px 10px;text-align:right;font-size:13px}
+th:first-child,td:first-child{text-align:left}
+th{background:#f1f5f9}
+td.notes{text-align:left}
+.kpi{display:inline-block;margin-right:32px}.kpi b{font-size:22px;display:block}
+</style></head><body>
+<h1>${esc(title)}</h1>
+<p>Período: ${esc(d(report.from))} — ${esc(d(report.to))} • gerado em ${esc(d(report.generatedAt))}</p>
+<div>
+<span class="kpi">Disponibilidade<b>${p(report.total.uptimePct)}</b></span>
+<span class="kpi">Tempo fora do ar<b>${fmtMin(report.total.downMs)} min</b></span>
+<span class="kpi">Incidentes<b>${report.total.incidents}</b></span>
+<span class="kpi">MTTR<b>${fmtMin(report.total.mttrMs) || "—"} min</b></span>
+<span class="kpi">Tempo até reconhecer<b>${fmtMin(report.total.mttaMs) || "—"} min</b></span>
+</div>
+<h2>Por período</h2>
+<table><thead><tr><th>Período</th><th>Disponibilidade</th><th>Fora (min)</th><th>Instável (min)</th><th>Manutenção (min)</th><th>Incidentes</th><th>MTTR (min)</th><th>MTBF (min)</th><th>Cobertura</th></tr></thead>
+<tbody>${report.buckets.map((b) => row(d(b.start), b)).join("")}${row("Total", report.total)}</tbody></table>
+<h2>Por link WAN</h2>
+<table><thead><tr><th>WAN</th><th>Disponibilidade</th><th>Fora (min)</th><th>Instável (min)</th><th>Monitorado (min)</th></tr></thead>
+<tbody>${report.total.wans
+    .map(
+      (w) =>
+        `<tr><td>${esc(w.name)}</td><td>${p(w.uptimePct)}</td><td>${fmtMin(w.downMs)}</td><td>${fmtMin(w.degradedMs)}</td><td>${fmtMin(w.monitoredMs)}</td></tr>`
+    )
+    .join("")}</tbody></table>
+<h2>Por causa raiz</h2>
+<table><thead><tr><th>Causa</th><th>Incidentes</th><th>Duração (min)</th></tr></thead>
+<tbody>${report.total.rootCauses
+    .map((c) => `<tr><td>${esc(causeLabel(c.rootCause))}</td><td>${c.incidents}</td><td>${fmtMin(c.durationMs)}</td></tr>`)
+    .join("")}</tbody></table>
+<h2>Incidentes</h2>
+<table><thead><tr><th>Início</th><th>Duração (min)</th><th>Pior estado</th><th>Causa raiz</th><th>Responsável</th><th>Reconhecido</th><th>Notas</th></tr></thead>
+<tbody>${(report.incidents ?? [])
+    .map(
+      (i) =>
+        `<tr><td>${esc(d(i.start))}</td><td>${fmtMin(i.durationMs)}</td><td>${esc(i.worstState)}${i.maintenance ? " (manutenção)" : ""}</td>` +
+        `<td>${esc(causeLabel(i.rootCause))}</td><td>${esc(i.assignee?.name ?? "—")}</td>` +
+        `<td>${i.ack ? `${esc(i.ack.by ?? "—")} • ${esc(d(i.ack.ts))}` : "—"}</td>` +
+        `<td class="notes">${i.notes.map((n) => `${esc(d(n.ts))} ${esc(n.by ?? "")}: ${esc(n.text)}`).join("<br>")}</td></tr>`
+    )
+    .join("")}</tbody></table>
+</body></html>
+`;
+}
@@ -1,167 +1,1135 @@
-// src/server.mjs
-import Fastify from "fastify";
-import websocket from "@fastify/websocket";
-import cors from "@fastify/cors";
-import { createReadStream, existsSync } from "node:fs";
-
-import { CONFIG } from "./config.mjs";
-import { Monitor, stateLabel } from "./monitor.mjs";
-import { appendEvent, readTail, readRange, getLogPath } from "./logger.mjs";
-
-const app = Fastify({ logger: true });
-
-await app.register(cors, { origin: true });
-await app.register(websocket);
-
-// TLS self-signed (LAN)
-if (process.env.ALLOW_SELF_SIGNED_TLS === "1") {
-  process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
-  app.log.warn("[TLS] ALLOW_SELF_SIGNED_TLS=1 -> NODE_TLS_REJECT_UNAUTHORIZED=0");
-}
-
-const monitor = new Monitor();
-
-// WS clients
-const clients = new Set();
-
-function safeSend(ws, payload) {
-  try {
-    if (ws.readyState === 1) ws.send(payload);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-function broadcast(obj) {
-  const payload = JSON.stringify(obj);
-  for (const ws of clients) {
-    const ok = safeSend(ws, payload);
-    if (!ok) clients.delete(ws);
-  }
-}
-
-// Sempre que o estado muda, a gente:
-// 1) notifica WS
-// 2) grava no .log se for queda/retorno (DOWN/OK)
-monitor.onChange = async ({ prev, next, entry }) => {
-  broadcast({
-    type: "state_change",
-    prev,
-    next,
-    label: stateLabel(next),
-    entry,
-  });
-
-  // ✅ log só em queda/retorno (ajuste como quiser)
-  if (next === "DOWN") {
-    await appendEvent({
-      ts: new Date().toISOString(),
-      kind: "INTERNET_DOWN",
-      prev,
-      next,
-      probe: entry?.probe ?? null,
-      wanUp: entry?.wanUp ?? null,
-      gateway: entry?.gateway ?? null,
-      note: entry?.note ?? entry?.reason ?? null,
-    });
-  }
-
-  if (prev === "DOWN" && next === "OK") {
-    await appendEvent({
-      ts: new Date().toISOString(),
-      kind: "INTERNET_RESTORED",
-      prev,
-      next,
-      probe: entry?.probe ?? null,
-      wanUp: entry?.wanUp ?? null,
-      gateway: entry?.gateway ?? null,
-      note: entry?.note ?? entry?.reason ?? null,
-    });
-  }
-};
-
-// -------------------- WS --------------------
-app.get("/ws", { websocket: true }, (conn, req) => {
-  // compat com versões (conn pode ser ws direto ou { socket })
-  const ws = conn?.socket ?? conn;
-  if (!ws) return;
-
-  clients.add(ws);
-
-  // snapshot inicial
-  safeSend(
-    ws,
-    JSON.stringify({
-      type: "snapshot",
-      data: monitor.snapshot(),
-      label: stateLabel(monitor.state),
-      state: monitor.state,
-    })
-  );
-
-  ws.on("close", () => clients.delete(ws));
-  ws.on("error", () => clients.delete(ws));
-});
-
-// -------------------- API Status --------------------
-app.get("/api/status", async () => {
-  return {
-    state: monitor.state,
-    label: stateLabel(monitor.state),
-    history: monitor.history,
-  };
-});
-
-app.get("/healthz", async () => ({ ok: true }));
-
-// -------------------- API Logs --------------------
-// tail (últimas linhas)
-app.get("/api/logs/tail", async (req) => {
-  const limit = Number(req.query?.limit ?? 200);
-  return readTail({ limit });
-});
-
-// paginação por offset/limit
-app.get("/api/logs", async (req) => {
-  const offset = Number(req.query?.offset ?? 0);
-  const limit = Number(req.query?.limit ?? 200);
-  return readRange({ offset, limit });
-});
-
-// download arquivo .log
-app.get("/api/logs/download", async (req, reply) => {
-  const p = getLogPath();
-  if (!existsSync(p)) {
-    return reply.code(404).send({ error: "log_not_found", path: p });
-  }
-  reply
-    .header("Content-Type", "text/plain; charset=utf-8")
-    .header("Content-Disposition", `attachment; filename="internet-events.log"`);
-  return reply.send(createReadStream(p));
-});
-
-// -------------------- Loop do Monitor (tick real-time) --------------------
-setInterval(async () => {
-  try {
-    const r = await monitor.tick(); // { entry, changed, prev, next, snapshot }
-
-    broadcast({
-      type: "tick",
-      state: monitor.state,
-      label: stateLabel(monitor.state),
-      entry: r.entry,
-    });
-  } catch (e) {
-    app.log.error(e, "monitor tick failed");
-  }
-}, CONFIG.intervalMs);
-
-// tick inicial
-monitor.tick().catch((e) => app.log.error(e, "initial tick failed"));
-
-// start
-app.listen({ port: CONFIG.port, host: "0.0.0.0" }).then(() => {
-  app.log.info(`Monitor API/WS: http://localhost:${CONFIG.port}`);
-  app.log.info(`Log file: ${getLogPath()}`);
-});
+// src/server.mjs
+import Fastify from "fastify";
+import websocket from "@fastify/websocket";
+import cors from "@fastify/cors";
+import { createReadStream, existsSync } from "node:fs";
+import { Readable } from "node:stream";
+import path from "node:path";
+
+import { CONFIG, EDITABLE_SITE_SETTINGS, validateSiteSettings } from "./config.mjs";
+import { stateLabel } from "./monitor.mjs";
+import { AlertDispatcher, ackSilenced, alertVars, gateStateAlert, heldAlertDue } from "./alerts.mjs";
+import { channelsFromConfig } from "./channels.mjs";
+import { Site } from "./sites.mjs";
+import {
+  TIMELINE_GRANULARITIES,
+  TIMELINE_MAX_BUCKETS,
+  availabilityReport,
+  reportToCsv,
+  reportToHtml,
+  statusTimeline,
+} from "./report.mjs";
+import { decodeLogCursor, logEventsToCsv } from "./logger.mjs";
+import { AUTH_COOKIE, Auth, isPasswordHash, roleAllows } from "./auth.mjs";
+import { METRICS_CONTENT_TYPE, MonitorMetrics } from "./metrics.mjs";
+import { ConfigOverrides } from "./overrides.mjs";
+import { simulate } from "./simulate.mjs";
+import { publicEtag, publicStatus, statusBadge } from "./publicstatus.mjs";
+import {
+  SSE_PING_MS,
+  SSE_RETRY_MS,
+  WS_HELLO_TIMEOUT_MS,
+  WS_PROTOCOL_VERSION,
+  WsJournal,
+  WsProtocolError,
+  helloFromQuery,
+  parseHello,
+  subscribed,
+} from "./wsproto.mjs";
+
+const app = Fastify({ logger: true, trustProxy: CONFIG.trustProxy.length ? CONFIG.trustProxy : false });
+
+// só as origens do allow-list (CORS_ORIGINS); o front passa pelo proxy do Next (mesma origem)
+await app.register(cors, { origin: CONFIG.corsOrigins.length ? CONFIG.corsOrigins : false, credentials: true });
+await app.register(websocket);
+
+// -------------------- Auth (viewer/admin) --------------------
+const auth = new Auth({
+  users: CONFIG.authUsers,
+  tokens: CONFIG.authTokens,
+  secret: CONFIG.authSecret,
+  ttlMs: CONFIG.authTokenTtlMs,
+  allowPlaintext: CONFIG.authAllowPlaintext,
+});
+if (CONFIG.authDisabled) app.log.warn("[auth] AUTH_DISABLED=1 -> API e WS sem autenticação");
+const plaintextUsers = CONFIG.authUsers.filter((u) => !isPasswordHash(u.password)).map((u) => u.username);
+if (!CONFIG.authDisabled && plaintextUsers.length) {
+  app.log.warn(`[auth] AUTH_ALLOW_PLAINTEXT_PASSWORDS=1 -> senha em texto no AUTH_USERS (${plaintextUsers.join(", ")}); use node src/auth.mjs hash <senha>`);
+}
+
+const PUBLIC_ROUTES = new Set(["/healthz", "/api/auth/login", "/api/auth/logout"]);
+
+// Origin de outro site com cookie de sessão (WS/POST) = CSRF / cross-site WS hijacking
+function originAllowed(req) {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (CONFIG.corsOrigins.includes(origin)) return true;
+  try {
+    // mesmo host do backend (porta pode ser outra: front :3000, WS :3333); atrás do gateway, o host original
+    return new URL(origin).hostname === String(req.hostname ?? req.headers.host ?? "").replace(/:\d+$/, "");
+  } catch {
+    return false;
+  }
+}
+
+// atrás do gateway do Next com TRUST_PROXY=none o host comparado é o do backend: toda escrita com cookie dá 403
+let proxyWarned = false;
+function warnUntrustedProxy(req) {
+  if (proxyWarned || CONFIG.trustProxy.length || !req.headers["x-forwarded-host"]) return;
+  proxyWarned = true;
+  app.log.warn(
+    `[auth] Origin ${req.headers.origin} recusado numa request com X-Forwarded-Host (${req.headers["x-forwarded-host"]}): ` +
+      "atrás do gateway do Next defina TRUST_PROXY (ex.: loopback ou o IP do Next)"
+  );
+}
+
+// toda rota exige login (papel mínimo em config.role, padrão viewer), inclusive o handshake do /ws
+app.addHook("onRequest", async (req, reply) => {
+  if (CONFIG.authDisabled) {
+    req.user = { name: "anonymous", role: "admin" };
+    return;
+  }
+  if (PUBLIC_ROUTES.has(req.routeOptions?.url)) return;
+
+  const token = auth.tokenFrom(req);
+  const user = auth.verify(token);
+  if (!user) return reply.code(401).send({ error: "unauthorized" });
+
+  const viaCookie = !/^bearer\s/i.test(String(req.headers.authorization ?? ""));
+  const unsafe = req.method !== "GET" || req.routeOptions?.url === "/ws";
+  if (viaCookie && unsafe && !originAllowed(req)) {
+    warnUntrustedProxy(req);
+    return reply.code(403).send({ error: "origin_not_allowed" });
+  }
+
+  const required = req.routeOptions?.config?.role ?? "viewer";
+  if (!roleAllows(user.role, required)) return reply.code(403).send({ error: "forbidden", required });
+  req.user = user;
+});
+
+function authCookie(req, value, maxAgeSec) {
+  const secure = req.protocol === "https" || req.headers["x-forwarded-proto"] === "https";
+  return `${AUTH_COOKIE}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSec}${secure ? "; Secure" : ""}`;
+}
+
+app.post("/api/auth/login", async (req, reply) => {
+  if (CONFIG.authDisabled) return { user: { name: "anonymous", role: "admin" }, authDisabled: true };
+  if (auth.locked(req.ip)) return reply.code(429).send({ error: "too_many_attempts" });
+
+  const { username, password } = req.body ?? {};
+  const r = auth.login(username, password, { ip: req.ip });
+  if (!r) {
+    app.log.warn(`[auth] login falhou: ${String(username ?? "")} (${req.ip})`);
+    return reply.code(401).send({ error: "invalid_credentials" });
+  }
+  reply.header("Set-Cookie", authCookie(req, r.token, Math.floor(auth.ttlMs / 1000)));
+  return r;
+});
+
+app.post("/api/auth/logout", async (req, reply) => {
+  reply.header("Set-Cookie", authCookie(req, "", 0));
+  return { ok: true };
+});
+
+app.get("/api/auth/me", async (req) => ({ user: req.user, authDisabled: CONFIG.authDisabled }));
+
+// TLS self-signed (LAN)
+if (CONFIG.allowSelfSignedTls) {
+  process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
+  app.log.warn("[TLS] ALLOW_SELF_SIGNED_TLS=1 -> NODE_TLS_REJECT_UNAUTHORIZED=0");
+}
+
+// -------------------- Sites (uma escola = um Monitor) --------------------
+const sites = new Map(CONFIG.sites.map((cfg) => [cfg.id, new Site(cfg)]));
+const defaultSite = sites.values().next().value;
+const multiSite = sites.size > 1;
+const metrics = new MonitorMetrics({ sites });
+
+// ajustes feitos pela API (PUT /api/config) sobrevivem ao restart
+const overrides = new ConfigOverrides({ path: path.join(CONFIG.dataDir, "config-overrides.json") });
+await overrides.load();
+
+for (const site of sites.values()) {
+  const restored = await site.init();
+  if (restored) app.log.info(`[history] ${site.id}: ${restored} entries restauradas (estado ${site.monitor.state})`);
+
+  const saved = overrides.get(site.id);
+  if (saved) {
+    try {
+      site.reconfigure(validateSiteSettings(site.id, saved.settings));
+      app.log.info(`[config] ${site.id}: ajustes de ${saved.updatedAt} aplicados`);
+    } catch (e) {
+      // override antigo inválido (ex.: limites mudaram): segue com o .env
+      app.log.error(`[config] ${site.id}: ajustes salvos ignorados: ${e.message}`);
+    }
+  }
+}
+
+// -------------------- Alertas --------------------
+const alerts = new AlertDispatcher({
+  channels: channelsFromConfig(CONFIG),
+  outboxPath: path.join(CONFIG.dataDir, "alert-outbox.json"),
+  maxAgeMs: CONFIG.alertMaxAgeDays * 86400000,
+  retryBaseMs: CONFIG.alertRetryBaseMs,
+  retryMaxMs: CONFIG.alertRetryMaxMs,
+  log: app.log,
+});
+await alerts.start();
+app.log.info(`[alerts] canais: ${alerts.channels.map((c) => c.name).join(", ") || "nenhum"}`);
+
+// Stream ao vivo (WS ou SSE): função de envio do cliente -> assinatura negociada ({ site, types });
+// eventos numerados no journal
+const clients = new Map();
+const journal = new WsJournal({ size: CONFIG.wsJournalSize });
+
+function safeSend(ws, payload) {
+  try {
+    if (ws.readyState === 1) ws.send(payload);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function broadcast(site, obj) {
+  let msg;
+  try {
+    msg = journal.append(site.id, obj);
+  } catch (e) {
+    // evento fora do esquema (bug aqui no server): não derruba o tick nem os alertas que vêm depois
+    app.log.error(e, `ws: evento descartado (${site.id})`);
+    return;
+  }
+  const payload = JSON.stringify(msg);
+  for (const [send, sub] of clients) {
+    if (!subscribed(sub, msg)) continue;
+    if (!send(msg, payload)) clients.delete(send);
+  }
+}
+
+// welcome + (só os eventos perdidos | snapshot) e entra no broadcast; tudo síncrono até o clients.set,
+// então nenhum evento cai entre a resposta e o ao vivo
+function openStream(send, sub) {
+  const frame = (obj) => {
+    const msg = { v: WS_PROTOCOL_VERSION, ts: new Date().toISOString(), ...obj };
+    return send(msg, JSON.stringify(msg));
+  };
+
+  const missed = sub.resume ? journal.since(sub.resume) : null;
+  frame({
+    type: "welcome",
+    epoch: journal.epoch,
+    seq: journal.seq,
+    site: sub.site,
+    types: sub.types,
+    history: sub.history,
+    resumed: Boolean(missed),
+  });
+
+  if (missed) {
+    for (const m of missed) if (subscribed(sub, m)) send(m, JSON.stringify(m));
+  } else if (sub.site === "*") {
+    frame({ type: "sites", seq: journal.seq, sites: [...sites.values()].map((s) => s.summary()) });
+  } else {
+    const { monitor } = sites.get(sub.site);
+    const data = monitor.snapshot();
+    if (sub.history != null) data.history = data.history.slice(0, sub.history);
+    frame({
+      type: "snapshot",
+      seq: journal.seq,
+      site: sub.site,
+      data,
+      label: stateLabel(monitor.state),
+      state: monitor.state,
+    });
+  }
+
+  clients.set(send, sub);
+}
+
+const protocolError = (e) => ({ error: e.code, details: e.details, ...(e.supported && { supported: e.supported }) });
+
+// com várias escolas, o nome do site vai no título do alerta
+function siteLabel(site, label) {
+  return multiSite ? `${label} • ${site.name}` : label;
+}
+
+// WAN ativa (ou a primária) de uma entry, só id/nome: vai para o .log e permite filtrar por WAN
+function entryWan(entry) {
+  const w = entry?.wans?.find((x) => x.id === entry.activeWanId) ?? entry?.wan ?? null;
+  return w ? { id: String(w.id ?? ""), name: w.name ?? w.id ?? null } : null;
+}
+
+function alertStateChange(site, { prev, next, entry, note = null }) {
+  const ts = new Date().toISOString();
+  const label = siteLabel(site, note ? `${stateLabel(next)} (${note})` : stateLabel(next));
+  alerts
+    .notify({
+      ts,
+      kind: "STATE_CHANGE",
+      state: next,
+      label,
+      vars: alertVars({ ts, kind: "STATE_CHANGE", prev, next, label, entry, site: site.name }),
+      details: {
+        site: site.id,
+        prev,
+        probe: entry?.probe ?? null,
+        wanUp: entry?.wanUp ?? null,
+        wan: entry?.wan ?? null,
+        gateway: entry?.gateway ?? null,
+        reason: entry?.reason ?? null,
+        stats: site.monitor.stats.summary(),
+      },
+    })
+    .catch((e) => app.log.error(e, "alert notify failed"));
+}
+
+// Liga os callbacks de um site (Monitor/incidentes) ao WS, aos alertas e ao log do próprio site
+function wireSite(site) {
+  const { monitor, incidents, log } = site;
+
+  // Sempre que o estado muda, a gente:
+  // 1) notifica WS
+  // 2) grava no .log se for queda/retorno (DOWN/OK)
+  // 3) dispara alertas nos canais configurados
+  monitor.onChange = async ({ prev, next, entry }) => {
+    metrics.observeChange(site, { prev, next, entry });
+    broadcast(site, {
+      type: "state_change",
+      prev,
+      next,
+      label: stateLabel(next),
+      entry,
+    });
+
+    const gate = gateStateAlert({ prev, next, entry, suppressed: site.suppressedAlert });
+    site.suppressedAlert = gate.suppressed;
+    if (gate.held) app.log.info(`[maintenance] ${site.id}: alerta ${prev} -> ${next} suprimido`);
+    if (gate.send && ackSilenced(incidents.current, next)) {
+      app.log.info(`[incidents] ${site.id}: alerta ${prev} -> ${next} silenciado (incidente reconhecido)`);
+    } else if (gate.send) alertStateChange(site, { prev, next, entry });
+
+    // ✅ log só em queda/instabilidade/retorno (ajuste como quiser)
+    if (next === "DOWN" || next === "DEGRADED") {
+      await log.append({
+        ts: new Date().toISOString(),
+        kind: next === "DOWN" ? "INTERNET_DOWN" : "INTERNET_DEGRADED",
+        prev,
+        next,
+        incidentId: entry?.incidentId ?? null,
+        reason: entry?.reason ?? null,
+        probe: entry?.probe ?? null,
+        wanUp: entry?.wanUp ?? null,
+        wan: entryWan(entry),
+        gateway: entry?.gateway ?? null,
+        quality: entry?.quality ?? null,
+        maintenance: entry?.maintenance ?? null,
+        note: entry?.note ?? entry?.reason ?? null,
+      });
+    }
+
+    if (prev === "DOWN" && next === "OK") {
+      await log.append({
+        ts: new Date().toISOString(),
+        kind: "INTERNET_RESTORED",
+        prev,
+        next,
+        incidentId: entry?.incidentId ?? null,
+        reason: entry?.reason ?? null,
+        probe: entry?.probe ?? null,
+        wanUp: entry?.wanUp ?? null,
+        wan: entryWan(entry),
+        gateway: entry?.gateway ?? null,
+        quality: entry?.quality ?? null,
+        maintenance: entry?.maintenance ?? null,
+        note: entry?.note ?? entry?.reason ?? null,
+      });
+    }
+  };
+
+  // Eventos por WAN (dual-WAN): troca de link ativo e mudança de estado de cada grupo
+  monitor.onWanEvent = async (event) => {
+    broadcast(site, { type: "wan_event", event });
+
+    const failover = event.kind === "WAN_FAILOVER" || event.kind === "WAN_FAILBACK";
+    if (failover && !event.maintenance && !ackSilenced(incidents.current)) {
+      const title = event.kind === "WAN_FAILOVER" ? "🟠 WAN FAILOVER" : "🟢 WAN FAILBACK";
+      const label = siteLabel(site, `${title}: ${event.from?.name ?? "—"} → ${event.to?.name ?? "—"}`);
+      const entry = { ...monitor.lastEntry, wan: event.to, reason: event.kind };
+      alerts
+        .notify({
+          ts: event.ts,
+          kind: event.kind,
+          state: event.kind === "WAN_FAILOVER" ? "DEGRADED" : "OK",
+          label,
+          vars: alertVars({ ts: event.ts, kind: event.kind, prev: monitor.state, next: monitor.state, label, entry, site: site.name }),
+          details: { site: site.id, ...event },
+        })
+        .catch((e) => app.log.error(e, "alert notify failed"));
+    }
+
+    try {
+      await log.append({
+        ...event,
+        gateway: monitor.lastEntry?.gateway ?? null,
+      });
+    } catch (e) {
+      app.log.error(e, "append wan event failed");
+    }
+  };
+
+  // Devices (APs/switches/gateway): queda e retorno de cada equipamento
+  monitor.onDeviceEvent = async (event) => {
+    broadcast(site, { type: "device_event", event });
+
+    const d = event.device;
+    const down = event.kind === "DEVICE_DOWN";
+    const label = siteLabel(site, `${down ? "🔴 DEVICE OFFLINE" : "🟢 DEVICE ONLINE"}: ${d.name} (${d.kind})`);
+    const entry = { ...monitor.lastEntry, reason: event.kind, note: `${d.name} ${d.model ?? ""}`.trim() };
+    // técnico mexendo no rack durante a manutenção: sem alerta, só log
+    if (!event.maintenance) {
+      alerts
+        .notify({
+          ts: event.ts,
+          kind: event.kind,
+          state: down ? "DEGRADED" : "OK",
+          label,
+          vars: alertVars({ ts: event.ts, kind: event.kind, prev: monitor.state, next: monitor.state, label, entry, site: site.name }),
+          details: { site: site.id, ...event },
+        })
+        .catch((e) => app.log.error(e, "alert notify failed"));
+    }
+
+    try {
+      await log.append(event);
+    } catch (e) {
+      app.log.error(e, "append device event failed");
+    }
+  };
+
+  // Incidentes: abertura/fechamento vão para o WS e para o .log (com a duração já calculada)
+  incidents.onChange = ({ type, incident }) => {
+    broadcast(site, { type: "incident", event: type, incident });
+
+    if (type === "opened" || type === "closed") {
+      log.append({
+        ts: new Date().toISOString(),
+        kind: type === "opened" ? "INCIDENT_OPENED" : "INCIDENT_CLOSED",
+        // cópia: o tracker continua mutando o incidente aberto
+        incident: structuredClone(incident),
+      }).catch((e) => app.log.error(e, "append incident event failed"));
+    }
+  };
+}
+
+for (const site of sites.values()) wireSite(site);
+
+// -------------------- WS / SSE --------------------
+// Protocolo versionado (ver wsproto.mjs): o cliente manda o hello, recebe welcome e depois
+// snapshot (ou só os eventos que perdeu, se pediu resume) seguido do ao vivo
+app.get("/ws", { websocket: true }, (conn, req) => {
+  // compat com versões (conn pode ser ws direto ou { socket })
+  const ws = conn?.socket ?? conn;
+  if (!ws) return;
+
+  const send = (msg, payload) => safeSend(ws, payload);
+  const fail = (e) => {
+    safeSend(ws, JSON.stringify({ v: WS_PROTOCOL_VERSION, ts: new Date().toISOString(), type: "error", ...protocolError(e) }));
+    ws.close(1008, e.code);
+  };
+
+  // cliente sem hello (versão antiga) recebe um erro claro em vez de ficar sem dados
+  const timer = setTimeout(() => fail(new WsProtocolError("hello_timeout", [`hello não chegou em ${WS_HELLO_TIMEOUT_MS} ms`])), WS_HELLO_TIMEOUT_MS);
+
+  ws.once("message", (raw) => {
+    clearTimeout(timer);
+    let sub;
+    try {
+      let msg;
+      try {
+        msg = JSON.parse(String(raw));
+      } catch {
+        throw new WsProtocolError("invalid_json", ["mensagem não é JSON"]);
+      }
+      sub = parseHello(msg, { sites, defaultSite: String(req.query?.site ?? defaultSite.id) });
+    } catch (e) {
+      return fail(e);
+    }
+    openStream(send, sub);
+  });
+
+  ws.on("close", () => {
+    clearTimeout(timer);
+    clients.delete(send);
+  });
+  ws.on("error", () => clients.delete(send));
+});
+
+// GET /api/stream?v=1&site=&types=tick,incident&history=50 — o mesmo protocolo por Server-Sent Events,
+// para o gateway do frontend e proxies que não repassam WebSocket. O hello vai na query e o resume
+// no Last-Event-ID (o EventSource manda sozinho ao reconectar) ou em ?resume=<epoch>:<seq>
+app.get("/api/stream", async (req, reply) => {
+  let sub;
+  try {
+    sub = parseHello(helloFromQuery(req.query, req.headers["last-event-id"]), { sites, defaultSite: defaultSite.id });
+  } catch (e) {
+    if (!(e instanceof WsProtocolError)) throw e;
+    return reply.code(400).send(protocolError(e));
+  }
+
+  reply.hijack();
+  const res = reply.raw;
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    // no-transform: proxy/compressão não seguram o stream
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  const send = (msg, payload) => {
+    if (res.destroyed || res.writableEnded) return false;
+    // id só em mensagens com seq próprio: é o que volta no Last-Event-ID
+    const id = msg.seq != null && msg.type !== "welcome" ? `id: ${journal.epoch}:${msg.seq}\n` : "";
+    res.write(`${id}data: ${payload}\n\n`);
+    return true;
+  };
+  // comentário periódico: proxies não derrubam a conexão ociosa entre ticks
+  const ping = setInterval(() => res.write(": ping\n\n"), SSE_PING_MS);
+  req.raw.on("close", () => {
+    clearInterval(ping);
+    clients.delete(send);
+  });
+
+  openStream(send, sub);
+});
+
+// -------------------- API Sites --------------------
+app.get("/api/sites", async () => {
+  return { sites: [...sites.values()].map((s) => s.summary()) };
+});
+
+// Rotas por site: /api/sites/:site/<rota> e a forma antiga /api/<rota>?site= (padrão: primeiro site)
+// role: papel mínimo exigido (padrão viewer); bodyLimit: para uploads maiores que o padrão do Fastify (1 MiB)
+function siteRoute(suffix, handler, { role = "viewer", method = "GET", bodyLimit } = {}) {
+  const run = (id) => async (req, reply) => {
+    const site = sites.get(String(id(req)));
+    if (!site) return reply.code(404).send({ error: "site_not_found" });
+    return handler(site, req, reply);
+  };
+  const route = (url, id) => app.route({ method, url, bodyLimit, config: { role }, handler: run(id) });
+  route(`/api${suffix}`, (req) => req.query?.site ?? defaultSite.id);
+  route(`/api/sites/:site${suffix}`, (req) => req.params.site);
+}
+
+// -------------------- API Status --------------------
+siteRoute("/status", async ({ id, name, monitor }) => {
+  return {
+    site: { id, name },
+    state: monitor.state,
+    label: stateLabel(monitor.state),
+    history: monitor.history,
+    wans: monitor.wanTracker.list(),
+    wanEvents: monitor.wanTracker.events,
+    stats: monitor.stats.summary(),
+  };
+});
+
+// -------------------- API Devices --------------------
+// ?kind=gateway|switch|ap|other &status=ONLINE|OFFLINE &q=
+siteRoute("/devices", async ({ monitor }, req) => {
+  const q = req.query ?? {};
+  return monitor.deviceTracker.query({ kind: q.kind, status: q.status, q: q.q });
+});
+
+// -------------------- API Wi-Fi --------------------
+// última coleta + APs mais carregados (?limit=)
+siteRoute("/wifi", async ({ config, wifi }, req) => {
+  const limit = Math.max(1, Math.min(200, Number(req.query?.limit) || 10));
+  return {
+    intervalMs: config.wifiIntervalMs,
+    latest: wifi.latest,
+    busiest: wifi.busiest(limit),
+    error: wifi.lastError,
+  };
+});
+
+// série agregada: ?from=&to= (padrão: hoje, desde 00:00) &bucketMin=15 &top=5
+siteRoute("/wifi/series", async ({ wifi }, req, reply) => {
+  const q = req.query ?? {};
+  const now = new Date();
+  const from = q.from ? new Date(q.from) : new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const to = q.to ? new Date(q.to) : now;
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    return reply.code(400).send({ error: "invalid_range" });
+  }
+
+  const bucketMin = Math.max(1, Math.min(24 * 60, Number(q.bucketMin) || 15));
+  const top = Math.max(1, Math.min(20, Number(q.top) || 5));
+  return wifi.series({ from: from.toISOString(), to: to.toISOString(), bucketMs: bucketMin * 60 * 1000, top });
+});
+
+// -------------------- API History (persistido) --------------------
+// ?from=&to= (ISO) &state=DOWN,DEGRADED &limit= &slim=1 (sem wanGroups)
+siteRoute("/history", async ({ store }, req, reply) => {
+  const q = req.query ?? {};
+  const to = q.to ? new Date(q.to) : new Date();
+  const from = q.from ? new Date(q.from) : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return reply.code(400).send({ error: "invalid_range" });
+  }
+
+  const limit = Math.max(1, Math.min(50000, Number(q.limit) || 5000));
+  const r = await store.query({ from: from.toISOString(), to: to.toISOString(), state: q.state, limit });
+  const entries = q.slim === "1" ? r.entries.map(({ wanGroups, ...rest }) => rest) : r.entries;
+
+  return { from: from.toISOString(), to: to.toISOString(), limit, ...r, entries };
+});
+
+// -------------------- API Incidents --------------------
+// ?from=&to= &state=DOWN|DEGRADED &reason=WAN_LINK_DOWN &open=1|0 &gateway= &wan= &offset= &limit=
+// &ack=1|0 &assignee= &rootCause=ISP|none
+siteRoute("/incidents", async ({ incidents }, req) => {
+  const q = req.query ?? {};
+  const bool = (v) => (v === "1" ? true : v === "0" ? false : undefined);
+  return incidents.query({
+    from: q.from,
+    to: q.to,
+    state: q.state,
+    reason: q.reason,
+    gateway: q.gateway,
+    wan: q.wan,
+    open: bool(q.open),
+    acknowledged: bool(q.ack),
+    assignee: q.assignee,
+    rootCause: q.rootCause,
+    offset: Math.max(0, Number(q.offset) || 0),
+    limit: Math.max(1, Math.min(1000, Number(q.limit) || 200)),
+  });
+});
+
+siteRoute("/incidents/:id", async ({ incidents }, req, reply) => {
+  const inc = incidents.get(req.params.id);
+  if (!inc) return reply.code(404).send({ error: "incident_not_found" });
+  return inc;
+});
+
+// ações do operador num incidente vão para o .log do site (quem fez, em qual incidente, o quê)
+function incidentAction(site, req, kind, inc, note, extra = {}) {
+  site.log
+    .append({ ts: new Date().toISOString(), kind, user: req.user?.name ?? null, incidentId: inc.id, note, ...extra })
+    .catch((e) => app.log.error(e, "append incident action failed"));
+}
+
+// PATCH { acknowledged?, assignee?, rootCause? }: triagem (reconhecer para de repetir alertas do incidente)
+siteRoute(
+  "/incidents/:id",
+  async (site, req, reply) => {
+    const by = req.user?.name ?? null;
+    let r;
+    try {
+      r = await site.incidents.triage(req.params.id, req.body ?? {}, { by });
+    } catch (e) {
+      if (!e.details) throw e;
+      return reply.code(400).send({ error: "invalid_triage", message: e.message, details: e.details });
+    }
+    if (!r) return reply.code(404).send({ error: "incident_not_found" });
+
+    const inc = r.incident;
+    for (const change of r.changes) {
+      if (change === "acknowledged") incidentAction(site, req, "INCIDENT_ACKNOWLEDGED", inc, `reconhecido por ${by ?? "—"}`);
+      if (change === "unacknowledged") incidentAction(site, req, "INCIDENT_UNACKNOWLEDGED", inc, `reconhecimento removido por ${by ?? "—"}`);
+      if (change === "assigned") {
+        incidentAction(site, req, "INCIDENT_ASSIGNED", inc, inc.assignee ? `responsável: ${inc.assignee.name}` : "sem responsável", {
+          assignee: inc.assignee?.name ?? null,
+        });
+      }
+      if (change === "root_cause") {
+        incidentAction(site, req, "INCIDENT_ROOT_CAUSE", inc, `causa raiz: ${inc.rootCause ?? "não classificada"}`, {
+          rootCause: inc.rootCause,
+        });
+      }
+    }
+    return inc;
+  },
+  { role: "admin", method: "PATCH" }
+);
+
+// POST { text }: nota interna com data/hora (contexto da queda: chamado na operadora, causa, etc.)
+siteRoute(
+  "/incidents/:id/notes",
+  async (site, req, reply) => {
+    try {
+      const inc = await site.incidents.addNote(req.params.id, { text: req.body?.text, by: req.user?.name ?? null });
+      if (!inc) return reply.code(404).send({ error: "incident_not_found" });
+      incidentAction(site, req, "INCIDENT_NOTE", inc, inc.notes.at(-1).text);
+      return reply.code(201).send(inc);
+    } catch (e) {
+      if (!e.details) throw e;
+      return reply.code(400).send({ error: "invalid_note", message: e.message, details: e.details });
+    }
+  },
+  { role: "admin", method: "POST" }
+);
+
+// POST { text }: atualização pública do incidente (aparece na página de status da escola)
+siteRoute(
+  "/incidents/:id/updates",
+  async (site, req, reply) => {
+    try {
+      const inc = await site.incidents.addUpdate(req.params.id, { text: req.body?.text, by: req.user?.name ?? null });
+      if (!inc) return reply.code(404).send({ error: "incident_not_found" });
+      publicCache.delete(site.id);
+      incidentAction(site, req, "INCIDENT_UPDATE_POSTED", inc, inc.updates.at(-1).text);
+      return reply.code(201).send(inc);
+    } catch (e) {
+      if (!e.details) throw e;
+      return reply.code(400).send({ error: "invalid_update", message: e.message, details: e.details });
+    }
+  },
+  { role: "admin", method: "POST" }
+);
+
+// -------------------- API Reports (SLA) --------------------
+// ?from=&to= (default: mês corrente) &granularity=day|week|month &format=json|csv|html
+siteRoute("/reports/availability", async (site, req, reply) => {
+  const q = req.query ?? {};
+  const now = new Date();
+  const from = q.from ? new Date(q.from) : new Date(now.getFullYear(), now.getMonth(), 1);
+  const to = q.to ? new Date(q.to) : now;
+  const granularity = q.granularity ?? "day";
+
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    return reply.code(400).send({ error: "invalid_range" });
+  }
+  if (!["day", "week", "month"].includes(granularity)) {
+    return reply.code(400).send({ error: "invalid_granularity" });
+  }
+
+  const report = await availabilityReport({
+    store: site.store,
+    incidents: site.incidents,
+    maintenance: site.maintenance,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    granularity,
+    intervalMs: site.config.intervalMs,
+  });
+
+  const name = `disponibilidade-${multiSite ? `${site.id}-` : ""}${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}`;
+  if (q.format === "csv") {
+    return reply
+      .header("Content-Type", "text/csv; charset=utf-8")
+      .header("Content-Disposition", `attachment; filename="${name}.csv"`)
+      .send(reportToCsv(report));
+  }
+  if (q.format === "html") {
+    return reply
+      .header("Content-Type", "text/html; charset=utf-8")
+      .header("Content-Disposition", `${q.download === "1" ? "attachment" : "inline"}; filename="${name}.html"`)
+      .send(reportToHtml(report, { title: `Relatório de disponibilidade — ${site.name}` }));
+  }
+  return report;
+});
+
+// Linha do tempo (status page): ?days=90 (uma barra por dia, padrão) ou ?granularity=hour&days=2 /
+// ?from=&to= (zoom por hora). Já vem agregada por barra, então 90 dias não trazem nenhum tick cru.
+siteRoute("/timeline", async (site, req, reply) => {
+  const q = req.query ?? {};
+  const granularity = q.granularity ?? "day";
+  if (!TIMELINE_GRANULARITIES.includes(granularity)) {
+    return reply.code(400).send({ error: "invalid_granularity", allowed: TIMELINE_GRANULARITIES });
+  }
+
+  const hourly = granularity === "hour";
+  const days = q.days == null ? (hourly ? 1 : 90) : Number(q.days);
+  if (!Number.isInteger(days) || days < 1) return reply.code(400).send({ error: "invalid_days" });
+
+  const to = q.to ? new Date(q.to) : new Date();
+  let from;
+  if (q.from) from = new Date(q.from);
+  else if (hourly) from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+  else {
+    // dias corridos inteiros: hoje + os (days - 1) anteriores
+    from = new Date(to);
+    from.setHours(0, 0, 0, 0);
+    from.setDate(from.getDate() - days + 1);
+  }
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    return reply.code(400).send({ error: "invalid_range" });
+  }
+  const bars = Math.ceil((to - from) / (hourly ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000));
+  if (bars > TIMELINE_MAX_BUCKETS) {
+    return reply.code(400).send({ error: "range_too_large", maxBuckets: TIMELINE_MAX_BUCKETS });
+  }
+
+  return statusTimeline({
+    store: site.store,
+    incidents: site.incidents,
+    maintenance: site.maintenance,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    granularity,
+    intervalMs: site.config.intervalMs,
+    cache: site.timeline,
+  });
+});
+
+app.get("/healthz", async () => ({
+  ok: true,
+  sites: Object.fromEntries([...sites.values()].map((s) => [s.id, s.monitor.state])),
+}));
+
+// Prometheus (scrape com "authorization: bearer <token>" de AUTH_TOKENS)
+app.get("/metrics", async (req, reply) => reply.header("Content-Type", METRICS_CONTENT_TYPE).send(metrics.render()));
+
+// -------------------- API Logs --------------------
+// tail (últimas linhas)
+siteRoute("/logs/tail", async ({ log }, req) => {
+  const limit = Number(req.query?.limit ?? 200);
+  return log.readTail({ limit });
+});
+
+// paginação por offset/limit
+siteRoute("/logs", async ({ log }, req) => {
+  const offset = Number(req.query?.offset ?? 0);
+  const limit = Number(req.query?.limit ?? 200);
+  return log.readRange({ offset, limit });
+});
+
+// consulta estruturada: ?kind=INTERNET_DOWN,WAN_* &from=&to= &gateway= &wan= &reason= &q= (texto livre)
+// &order=desc|asc &limit= &cursor= (nextCursor da página anterior) &format=json|csv|ndjson
+siteRoute("/logs/query", async ({ id, log }, req, reply) => {
+  const q = req.query ?? {};
+  const format = String(q.format ?? "json").toLowerCase();
+  if (!["json", "csv", "ndjson"].includes(format)) return reply.code(400).send({ error: "invalid_format" });
+  if (q.order && !["asc", "desc"].includes(q.order)) return reply.code(400).send({ error: "invalid_order" });
+  if (q.cursor && !decodeLogCursor(q.cursor)) return reply.code(400).send({ error: "invalid_cursor" });
+
+  const from = q.from ? new Date(q.from) : null;
+  const to = q.to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(q.to) ? `${q.to}T23:59:59.999Z` : q.to) : null;
+  if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+    return reply.code(400).send({ error: "invalid_range" });
+  }
+
+  // exportação aceita páginas bem maiores que a UI
+  const maxLimit = format === "json" ? 1000 : 100000;
+  const r = await log.query({
+    from: from?.toISOString(),
+    to: to?.toISOString(),
+    kind: q.kind,
+    gateway: q.gateway,
+    wan: q.wan,
+    reason: q.reason,
+    q: q.q,
+    order: q.order,
+    cursor: q.cursor,
+    limit: Math.max(1, Math.min(maxLimit, Number(q.limit) || (format === "json" ? 200 : 10000))),
+  });
+
+  if (format === "json") return r;
+
+  const name = `${multiSite ? `${id}-` : ""}eventos.${format === "csv" ? "csv" : "ndjson"}`;
+  if (r.nextCursor) reply.header("X-Next-Cursor", r.nextCursor);
+  reply.header("Content-Disposition", `attachment; filename="${name}"`);
+  if (format === "csv") {
+    return reply.header("Content-Type", "text/csv; charset=utf-8").send(logEventsToCsv(r.events));
+  }
+  return reply
+    .header("Content-Type", "application/x-ndjson; charset=utf-8")
+    .send(r.events.map((e) => JSON.stringify(e)).join("\n") + (r.events.length ? "\n" : ""));
+});
+
+// download: sem período, o arquivo .log ativo; com ?from=&to= (ISO ou YYYY-MM-DD), as linhas do período
+// atravessando os .gz rotacionados
+siteRoute("/logs/download", async ({ id, log }, req, reply) => {
+  const q = req.query ?? {};
+  const prefix = multiSite ? `${id}-` : "";
+
+  if (q.from || q.to) {
+    const from = q.from ? new Date(q.from) : new Date(0);
+    // data sem hora no "to" = até o fim do dia
+    const to = q.to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(q.to) ? `${q.to}T23:59:59.999Z` : q.to) : new Date();
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+      return reply.code(400).send({ error: "invalid_range" });
+    }
+
+    async function* body() {
+      for await (const line of log.iterate({ from: from.toISOString(), to: to.toISOString() })) yield `${line}\n`;
+    }
+    const name = `${prefix}internet-events_${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}.log`;
+    reply
+      .header("Content-Type", "text/plain; charset=utf-8")
+      .header("Content-Disposition", `attachment; filename="${name}"`);
+    return reply.send(Readable.from(body()));
+  }
+
+  if (!existsSync(log.path)) {
+    return reply.code(404).send({ error: "log_not_found", path: log.path });
+  }
+  reply
+    .header("Content-Type", "text/plain; charset=utf-8")
+    .header("Content-Disposition", `attachment; filename="${prefix}internet-events.log"`);
+  return reply.send(createReadStream(log.path));
+}, { role: "admin" });
+
+// -------------------- API Manutenção --------------------
+// janelas únicas/semanais por site (ou só uma WAN): marcam entries/logs, seguram alertas e saem do SLA
+siteRoute("/maintenance", async ({ maintenance }) => maintenance.list());
+
+function maintenanceChanged(site, req, kind, window) {
+  broadcast(site, { type: "maintenance", event: kind, window, active: site.maintenance.active() });
+  site.log
+    .append({ ts: new Date().toISOString(), kind, user: req.user?.name ?? null, window })
+    .catch((e) => app.log.error(e, "append maintenance event failed"));
+}
+
+siteRoute(
+  "/maintenance",
+  async (site, req, reply) => {
+    try {
+      const w = await site.maintenance.create(req.body ?? {}, { by: req.user?.name ?? null });
+      maintenanceChanged(site, req, "MAINTENANCE_SCHEDULED", w);
+      return reply.code(201).send(w);
+    } catch (e) {
+      if (!e.details) throw e;
+      return reply.code(400).send({ error: "invalid_window", message: e.message, details: e.details });
+    }
+  },
+  { role: "admin", method: "POST" }
+);
+
+siteRoute(
+  "/maintenance/:id",
+  async (site, req, reply) => {
+    try {
+      const w = await site.maintenance.update(req.params.id, req.body ?? {});
+      if (!w) return reply.code(404).send({ error: "window_not_found" });
+      maintenanceChanged(site, req, "MAINTENANCE_UPDATED", w);
+      return w;
+    } catch (e) {
+      if (!e.details) throw e;
+      return reply.code(400).send({ error: "invalid_window", message: e.message, details: e.details });
+    }
+  },
+  { role: "admin", method: "PUT" }
+);
+
+siteRoute(
+  "/maintenance/:id",
+  async (site, req, reply) => {
+    const w = site.maintenance.get(req.params.id);
+    if (!w || !(await site.maintenance.remove(w.id))) return reply.code(404).send({ error: "window_not_found" });
+    maintenanceChanged(site, req, "MAINTENANCE_REMOVED", w);
+    return { ok: true };
+  },
+  { role: "admin", method: "DELETE" }
+);
+
+// -------------------- API Config (admin) --------------------
+// segredos nunca saem pela API (senhas, tokens, API keys, webhooks com token na URL)
+const SECRET_KEY = /(pass|password|secret|token|apikey|webhook)$/i;
+
+function redact(value, key = "") {
+  if (Array.isArray(value)) return value.map((v) => redact(v));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  if (SECRET_KEY.test(key) && value) return "***";
+  return value;
+}
+
+function siteConfig(site) {
+  return {
+    site: { id: site.id, name: site.name },
+    settings: site.settings(),
+    defaults: Object.fromEntries(EDITABLE_SITE_SETTINGS.map((k) => [k, site.baseConfig[k]])),
+    override: overrides.get(site.id),
+  };
+}
+
+function configChanged(site, req, settings) {
+  const ts = new Date().toISOString();
+  broadcast(site, { type: "config", settings: site.settings() });
+  site.log
+    .append({ ts, kind: "CONFIG_CHANGED", user: req.user?.name ?? null, settings })
+    .catch((e) => app.log.error(e, "append config event failed"));
+}
+
+// config efetivo completo (global + todos os sites), sem segredos
+app.get("/api/config/effective", { config: { role: "admin" } }, async () => {
+  const { sites: list, ...global } = CONFIG;
+  return {
+    config: redact(global),
+    sites: list.map((cfg) => ({ ...redact(cfg), ...siteConfig(sites.get(cfg.id)) })),
+  };
+});
+
+siteRoute("/config", async (site) => siteConfig(site), { role: "admin" });
+
+// PUT: patch parcial (intervalMs, wifiIntervalMs, probeQuorum, probes, thresholds, quality); vale na hora e persiste
+siteRoute(
+  "/config",
+  async (site, req, reply) => {
+    const body = req.body;
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return reply.code(400).send({ error: "invalid_body" });
+    }
+    const unknown = Object.keys(body).filter((k) => !EDITABLE_SITE_SETTINGS.includes(k));
+    if (unknown.length) return reply.code(400).send({ error: "unknown_settings", fields: unknown });
+
+    const current = overrides.get(site.id)?.settings ?? {};
+    let settings;
+    try {
+      const patch = validateSiteSettings(site.id, body);
+      settings = {
+        ...current,
+        ...patch,
+        ...(patch.thresholds && { thresholds: { ...current.thresholds, ...patch.thresholds } }),
+        ...(patch.quality && { quality: { ...current.quality, ...patch.quality } }),
+      };
+      site.reconfigure(settings);
+    } catch (e) {
+      return reply.code(400).send({ error: "invalid_settings", message: e.message, details: e.details ?? [e.message] });
+    }
+
+    await overrides.set(site.id, settings, { by: req.user?.name ?? null });
+    configChanged(site, req, settings);
+    return siteConfig(site);
+  },
+  { role: "admin", method: "PUT" }
+);
+
+// DELETE: descarta os ajustes da API e volta ao .env/SITES
+siteRoute(
+  "/config",
+  async (site, req) => {
+    await overrides.clear(site.id);
+    site.reconfigure({});
+    configChanged(site, req, null);
+    return siteConfig(site);
+  },
+  { role: "admin", method: "DELETE" }
+);
+
+// -------------------- Status público (PUBLIC_STATUS=1) --------------------
+// Página de status da escola para pais e funcionários: sem login, só leitura e cacheável por proxy/CDN.
+// O payload (publicstatus.mjs) não leva IDs de gateway, network_id nem URLs de probe.
+const publicCache = new Map(); // site.id -> { at, body, etag }
+
+async function cachedPublicStatus(site) {
+  const hit = publicCache.get(site.id);
+  if (hit && Date.now() - hit.at < CONFIG.publicStatusMaxAgeSec * 1000) return hit;
+  const body = JSON.stringify(await publicStatus(site));
+  const entry = { at: Date.now(), body, etag: publicEtag(body) };
+  publicCache.set(site.id, entry);
+  return entry;
+}
+
+// If-None-Match bate -> 304 sem corpo; o intranet da escola pode embutir de qualquer origem (sem cookie)
+function sendPublic(req, reply, { body, etag, type }) {
+  reply
+    .header("Cache-Control", `public, max-age=${CONFIG.publicStatusMaxAgeSec}`)
+    .header("ETag", etag)
+    .header("Access-Control-Allow-Origin", "*")
+    .removeHeader("Access-Control-Allow-Credentials");
+  if (req.headers["if-none-match"] === etag) return reply.code(304).send();
+  return reply.header("Content-Type", type).send(body);
+}
+
+function publicRoute(url, handler) {
+  PUBLIC_ROUTES.add(url);
+  app.get(url, async (req, reply) => {
+    const site = sites.get(String(req.params.site));
+    if (!site) return reply.code(404).send({ error: "site_not_found" });
+    return handler(site, req, reply);
+  });
+}
+
+if (CONFIG.publicStatus) {
+  // estado, disponibilidade de hoje (barras por hora), incidentes com as atualizações e manutenções
+  publicRoute("/api/public/sites/:site", async (site, req, reply) => {
+    const { body, etag } = await cachedPublicStatus(site);
+    return sendPublic(req, reply, { body, etag, type: "application/json; charset=utf-8" });
+  });
+
+  // badge para embutir: <img src=".../badge.svg?label=internet">
+  publicRoute("/api/public/sites/:site/badge.svg", async (site, req, reply) => {
+    const label = String(req.query?.label ?? "").trim().slice(0, 40) || "internet";
+    const body = statusBadge(site.monitor.state, { label });
+    return sendPublic(req, reply, { body, etag: publicEtag(body), type: "image/svg+xml; charset=utf-8" });
+  });
+}
+
+// -------------------- API Simulação (admin) --------------------
+// POST { scenarios: [{ name, thresholds, quality }], from?, to? (ISO, padrão: últimas 24h do history) | entries?: [...] (export), limit? }
+// replay das entries gravadas com limiares alternativos; sempre compara com "atual" e "gravado"
+siteRoute(
+  "/simulate",
+  async (site, req, reply) => {
+    const body = req.body ?? {};
+    if (typeof body !== "object" || Array.isArray(body) || (body.scenarios !== undefined && !Array.isArray(body.scenarios))) {
+      return reply.code(400).send({ error: "invalid_body" });
+    }
+
+    let entries;
+    if (Array.isArray(body.entries)) {
+      entries = [...body.entries].sort((a, b) => Date.parse(a?.ts) - Date.parse(b?.ts));
+    } else {
+      const to = body.to ? new Date(body.to) : new Date();
+      const from = body.from ? new Date(body.from) : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+      if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+        return reply.code(400).send({ error: "invalid_range" });
+      }
+      entries = site.store.iterate({ from: from.toISOString(), to: to.toISOString() });
+    }
+
+    try {
+      return await simulate({
+        site: site.config,
+        entries,
+        scenarios: body.scenarios ?? [],
+        limit: Math.max(1, Math.min(2000, Number(body.limit) || 200)),
+      });
+    } catch (e) {
+      if (!e.details) throw e;
+      return reply.code(400).send({ error: "invalid_scenarios", message: e.message, details: e.details });
+    }
+  },
+  { role: "admin", method: "POST", bodyLimit: 50 * 1024 * 1024 }
+);
+
+// -------------------- Loop dos Monitores (tick real-time, um por site) --------------------
+for (const site of sites.values()) {
+  site.start({
+    onTick: (r) => {
+      metrics.observeTick(site, r);
+      // janela acabou e o site continua fora: agora sim alerta
+      const state = site.monitor.state;
+      if (heldAlertDue({ state, entry: r.entry, suppressed: site.suppressedAlert })) {
+        site.suppressedAlert = null;
+        if (!ackSilenced(site.incidents.current, state)) {
+          alertStateChange(site, { prev: state, next: state, entry: r.entry, note: "após manutenção" });
+        }
+      }
+      broadcast(site, {
+        type: "tick",
+        state: site.monitor.state,
+        label: stateLabel(site.monitor.state),
+        entry: r.entry,
+        stats: site.monitor.stats.summary(),
+      });
+    },
+    onError: (e) => {
+      metrics.observeTick(site);
+      app.log.error(e, `monitor tick failed (${site.id})`);
+    },
+  });
+}
+
+// start
+app.listen({ port: CONFIG.port, host: "0.0.0.0" }).then(() => {
+  app.log.info(`Monitor API/WS: http://localhost:${CONFIG.port}`);
+  for (const site of sites.values()) app.log.info(`Site ${site.id} (${site.name}) -> log ${site.log.path}`);
+});
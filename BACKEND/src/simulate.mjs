@@ -0,0 +1,347 @@
+// src/simulate.mjs
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { CONFIG, validateSiteSettings } from "./config.mjs";
+import { Monitor } from "./monitor.mjs";
+import { IncidentTracker, incidentDuration } from "./incidents.mjs";
+import { gateStateAlert, heldAlertDue } from "./alerts.mjs";
+import { inMaintenance } from "./maintenance.mjs";
+import { SegmentedStore } from "./store.mjs";
+
+const STATES = ["OK", "DEGRADED", "DOWN", "UNKNOWN"];
+export const MAX_SCENARIOS = 10;
+
+// entry do Monitor que dá para reproduzir: precisa do resultado do probe (logs de eventos não servem)
+export function replayable(e) {
+  return Boolean(e?.ts) && !Number.isNaN(Date.parse(e.ts)) && typeof e.probe?.ok === "boolean";
+}
+
+/**
+ * Entries gravadas a partir de um arquivo: segmento do history (.jsonl), export de /api/history
+ * ({ entries }) ou array JSON. Linhas que não são ticks (ex.: eventos do .log) são contadas em ignored.
+ */
+export function parseRecorded(text) {
+  let items;
+  try {
+    const json = JSON.parse(text);
+    items = Array.isArray(json) ? json : Array.isArray(json?.entries) ? json.entries : [json];
+  } catch {
+    items = [];
+    for (const line of String(text).split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      try {
+        items.push(JSON.parse(line));
+      } catch {
+        items.push(null);
+      }
+    }
+  }
+  const entries = items.filter(replayable).sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts));
+  return { entries, ignored: items.length - entries.length };
+}
+
+/**
+ * Cenário = limiares/qualidade alternativos sobre o config atual do site (mesma validação do PUT /api/config).
+ *  { name?, thresholds?: { degradedAfterFails, downAfterFails, okAfterSucc }, quality?: { degradedAfterTicks, window, ... } }
+ */
+export function scenarioConfig(site, scenario = {}, i = 0) {
+  const name = String(scenario.name ?? `cenário ${i + 1}`).slice(0, 60);
+  const s = validateSiteSettings(name, { thresholds: scenario.thresholds ?? {}, quality: scenario.quality ?? {} });
+  const config = {
+    ...site,
+    thresholds: { ...site.thresholds, ...s.thresholds },
+    quality: { ...site.quality, ...s.quality },
+  };
+  if (config.thresholds.degradedAfterFails > config.thresholds.downAfterFails) {
+    throw Object.assign(new Error(`${name}.thresholds: degradedAfterFails maior que downAfterFails`), {
+      details: [`${name}.thresholds: degradedAfterFails maior que downAfterFails`],
+    });
+  }
+  return { name, config };
+}
+
+/**
+ * Contabiliza uma sequência de entries (gravadas ou simuladas) como o server faria ao vivo:
+ * transições, alertas (gateStateAlert + heldAlertDue), incidentes (IncidentTracker em memória) e tempo por estado.
+ */
+class ReplayTally {
+  constructor({ intervalMs, limit }) {
+    // mesmo critério do relatório: buraco grande = monitor fora, não conta tempo em nenhum estado
+    this.maxGap = Math.max(3 * intervalMs, 60000);
+    this.limit = limit;
+    this.incidents = new IncidentTracker({ path: null, maxIncidents: Number.MAX_SAFE_INTEGER });
+    this.transitions = [];
+    this.transitionCount = 0;
+    this.byTransition = {};
+    this.alerts = { total: 0, DOWN: 0, DEGRADED: 0, OK: 0, held: 0, afterMaintenance: 0 };
+    this.suppressed = null;
+    this.stateMs = Object.fromEntries(STATES.map((s) => [s, 0]));
+    this.prev = null;
+    this.ticks = 0;
+  }
+
+  add(entry, prevState) {
+    const t = Date.parse(entry.ts);
+    if (this.prev) this.stateMs[this.prev.state] += Math.min(this.maxGap, Math.max(0, t - Date.parse(this.prev.ts)));
+    this.prev = entry;
+    this.ticks += 1;
+    this.incidents.observe(entry);
+
+    const next = entry.state;
+    if (prevState !== next) {
+      const key = `${prevState}->${next}`;
+      this.byTransition[key] = (this.byTransition[key] ?? 0) + 1;
+      this.transitionCount += 1;
+      if (this.transitions.length < this.limit) {
+        this.transitions.push({ ts: entry.ts, prev: prevState, next, reason: entry.reason ?? null, maintenance: inMaintenance(entry) });
+      }
+
+      const gate = gateStateAlert({ prev: prevState, next, entry, suppressed: this.suppressed });
+      this.suppressed = gate.suppressed;
+      if (gate.held) this.alerts.held += 1;
+      if (gate.send) this.count(next);
+    }
+
+    if (heldAlertDue({ state: next, entry, suppressed: this.suppressed })) {
+      this.suppressed = null;
+      this.alerts.afterMaintenance += 1;
+      this.count(next);
+    }
+  }
+
+  count(state) {
+    this.alerts.total += 1;
+    this.alerts[state] += 1;
+  }
+
+  result() {
+    const all = [...this.incidents.incidents].reverse();
+    const closed = all.filter((i) => i.end);
+    const durations = all.map((i) => i.durationMs);
+    const sum = (xs) => xs.reduce((a, b) => a + b, 0);
+    return {
+      ticks: this.ticks,
+      stateMs: this.stateMs,
+      transitions: {
+        total: this.transitionCount,
+        byKind: this.byTransition,
+        list: this.transitions,
+        truncated: this.transitionCount > this.transitions.length,
+      },
+      alerts: this.alerts,
+      incidents: {
+        total: all.length,
+        down: all.filter((i) => i.worstState === "DOWN").length,
+        maintenance: all.filter((i) => i.maintenance).length,
+        open: all.length - closed.length,
+        totalMs: sum(durations),
+        maxMs: durations.length ? Math.max(...durations) : null,
+        mttrMs: closed.length ? Math.round(sum(closed.map((i) => incidentDuration(i))) / closed.length) : null,
+        list: all.slice(0, this.limit).map((i) => ({
+          start: i.start,
+          end: i.end,
+          durationMs: i.durationMs,
+          worstState: i.worstState,
+          reason: i.reason,
+          maintenance: i.maintenance,
+        })),
+      },
+    };
+  }
+}
+
+// Um cenário: Monitor próprio (sem store/incidentes/API), alimentado entry a entry via step()
+class ScenarioRun {
+  constructor({ name, config }, { limit }) {
+    this.name = name;
+    this.config = config;
+    this.monitor = new Monitor({ site: config });
+    this.monitor.maxHistory = 1;
+    this.tally = new ReplayTally({ intervalMs: config.intervalMs, limit });
+    this.started = false;
+  }
+
+  feed(recorded) {
+    const m = this.monitor;
+    // retoma do estado gravado, como o hydrate() num restart: comparação justa com o que aconteceu
+    if (!this.started) {
+      this.started = true;
+      if (STATES.includes(recorded.state)) m.state = recorded.state;
+    }
+
+    // qualidade recalculada com a janela/limiares do cenário (o entry gravado traz a do config da época)
+    const ts = Date.parse(recorded.ts);
+    m.stats.add({ ts: recorded.ts, ok: recorded.probe.ok, ms: recorded.probe.ms });
+    const q = m.stats.window(m.qualityWindow, ts);
+
+    const { state, reason, note, incidentId, ...observed } = recorded;
+    const prev = m.state;
+    const r = m.step({ ...observed, wanUp: observed.wanUp ?? null, quality: { window: m.qualityWindow, ...q } });
+    this.tally.add(r.entry, prev);
+  }
+
+  result() {
+    const t = this.config.thresholds;
+    return {
+      name: this.name,
+      thresholds: { degradedAfterFails: t.degradedAfterFails, downAfterFails: t.downAfterFails, okAfterSucc: t.okAfterSucc },
+      quality: { window: this.config.quality.window, degradedAfterTicks: this.config.quality.degradedAfterTicks },
+      ...this.tally.result(),
+    };
+  }
+}
+
+// O que de fato aconteceu (estados gravados), contabilizado da mesma forma
+class RecordedRun {
+  constructor({ intervalMs, limit }) {
+    this.tally = new ReplayTally({ intervalMs, limit });
+    this.last = null;
+  }
+
+  feed(recorded) {
+    const { incidentId, ...entry } = recorded;
+    this.tally.add(entry, this.last ?? entry.state);
+    this.last = entry.state;
+  }
+
+  result() {
+    return { name: "gravado", ...this.tally.result() };
+  }
+}
+
+/**
+ * Replay das entries gravadas (iterável sync/async, em ordem cronológica) pelo Monitor.step() de cada cenário.
+ * Uma passada só: não guarda o histórico em memória, dá para simular semanas direto do store.
+ * Sempre inclui "atual" (config em vigor) e "gravado" (o que aconteceu) para comparação.
+ */
+export async function simulate({ site, entries, scenarios = [], limit = 200 }) {
+  if (scenarios.length > MAX_SCENARIOS) {
+    throw Object.assign(new Error(`máximo de ${MAX_SCENARIOS} cenários`), { details: [`scenarios: máximo ${MAX_SCENARIOS}`] });
+  }
+
+  const details = [];
+  const configs = [{ name: "atual", config: site }];
+  scenarios.forEach((s, i) => {
+    try {
+      configs.push(scenarioConfig(site, s, i));
+    } catch (e) {
+      details.push(...(e.details ?? [e.message]));
+    }
+  });
+  if (details.length) throw Object.assign(new Error(details.join("; ")), { details });
+
+  const recorded = new RecordedRun({ intervalMs: site.intervalMs, limit });
+  const runs = configs.map((c) => new ScenarioRun(c, { limit }));
+
+  let first = null;
+  let last = null;
+  let ignored = 0;
+  for await (const e of entries) {
+    if (!replayable(e)) {
+      ignored += 1;
+      continue;
+    }
+    first ??= e.ts;
+    last = e.ts;
+    recorded.feed(e);
+    for (const r of runs) r.feed(e);
+  }
+
+  return {
+    site: { id: site.id, name: site.name },
+    from: first,
+    to: last,
+    ignored,
+    recorded: recorded.result(),
+    scenarios: runs.map((r) => r.result()),
+  };
+}
+
+// -------------------- CLI --------------------
+// node src/simulate.mjs [--site <id>] [--from <ISO>] [--to <ISO>] [--file <history.jsonl|json>] [--json]
+//   --scenario "nome:degradedAfterFails=2,downAfterFails=4,okAfterSucc=3,quality.degradedAfterTicks=8" (repetível)
+const ALIASES = { degraded: "degradedAfterFails", down: "downAfterFails", ok: "okAfterSucc" };
+
+export function parseScenarioArg(arg) {
+  const [head, rest] = String(arg).includes(":") ? String(arg).split(/:(.*)/s) : [null, arg];
+  const scenario = { name: head || String(arg), thresholds: {}, quality: {} };
+  for (const pair of String(rest ?? "").split(",")) {
+    if (!pair.trim()) continue;
+    const [k, v] = pair.split("=").map((x) => x.trim());
+    const [group, key] = k.includes(".") ? k.split(".") : ["thresholds", ALIASES[k] ?? k];
+    if (!scenario[group]) throw new Error(`--scenario: grupo desconhecido "${group}" (use thresholds/quality)`);
+    scenario[group][key] = group === "quality" && key === "window" ? v : Number(v);
+  }
+  return scenario;
+}
+
+function fmtMin(ms) {
+  return ms == null ? "—" : `${(ms / 60000).toFixed(1)}min`;
+}
+
+function printTable(result) {
+  const rows = [result.recorded, ...result.scenarios].map((r) => [
+    r.name,
+    r.thresholds ? `${r.thresholds.degradedAfterFails}/${r.thresholds.downAfterFails}/${r.thresholds.okAfterSucc}` : "—",
+    String(r.transitions.total),
+    `${r.alerts.total} (${r.alerts.DOWN}↓ ${r.alerts.DEGRADED}~ ${r.alerts.OK}↑)`,
+    `${r.incidents.total} (${r.incidents.down} DOWN)`,
+    fmtMin(r.incidents.totalMs),
+    fmtMin(r.incidents.mttrMs),
+    fmtMin(r.incidents.maxMs),
+  ]);
+  const head = ["cenário", "deg/down/ok", "transições", "alertas", "incidentes", "tempo", "MTTR", "maior"];
+  const widths = head.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (cols) => cols.map((c, i) => c.padEnd(widths[i])).join("  ");
+
+  console.log(`${result.site.name}: ${result.recorded.ticks} ticks de ${result.from ?? "—"} a ${result.to ?? "—"}`);
+  if (result.ignored) console.log(`(${result.ignored} linhas ignoradas: não são ticks do monitor)`);
+  console.log(line(head));
+  for (const r of rows) console.log(line(r));
+}
+
+async function main(argv) {
+  const opts = { scenarios: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--json") opts.json = true;
+    else if (a === "--scenario") opts.scenarios.push(parseScenarioArg(argv[++i]));
+    else if (["--site", "--from", "--to", "--file"].includes(a)) opts[a.slice(2)] = argv[++i];
+    else throw new Error(`argumento desconhecido: ${a}`);
+  }
+
+  const site = CONFIG.sites.find((s) => s.id === (opts.site ?? CONFIG.sites[0].id));
+  if (!site) throw new Error(`site "${opts.site}" não existe (SITES)`);
+
+  let entries;
+  let ignored = 0;
+  if (opts.file) {
+    // arquivo exportado: já é o período desejado, --from/--to só recortam
+    const fromMs = opts.from ? Date.parse(opts.from) : -Infinity;
+    const toMs = opts.to ? Date.parse(opts.to) : Infinity;
+    const parsed = parseRecorded(await readFile(opts.file, "utf8"));
+    ignored = parsed.ignored;
+    entries = parsed.entries.filter((e) => {
+      const t = Date.parse(e.ts);
+      return t >= fromMs && t <= toMs;
+    });
+  } else {
+    const store = new SegmentedStore({ dir: path.join(site.dataDir, "history") });
+    const to = opts.to ? new Date(opts.to) : new Date();
+    const from = opts.from ? new Date(opts.from) : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+    entries = store.iterate({ from: from.toISOString(), to: to.toISOString() });
+  }
+
+  const result = await simulate({ site, entries, scenarios: opts.scenarios });
+  result.ignored += ignored;
+  if (opts.json) console.log(JSON.stringify(result, null, 2));
+  else printTable(result);
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  main(process.argv.slice(2)).catch((e) => {
+    console.error(e?.message ?? e);
+    process.exit(1);
+  });
+}
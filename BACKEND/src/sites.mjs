@@ -0,0 +1,154 @@
+// src/sites.mjs
+import path from "node:path";
+import { CONFIG, EDITABLE_SITE_SETTINGS } from "./config.mjs";
+import { Monitor, stateLabel } from "./monitor.mjs";
+import { SegmentedStore } from "./store.mjs";
+import { IncidentTracker } from "./incidents.mjs";
+import { EventLog } from "./logger.mjs";
+import { WifiCollector } from "./wifi.mjs";
+import { MaintenanceSchedule } from "./maintenance.mjs";
+import { TimelineCache } from "./report.mjs";
+
+/**
+ * Runtime de uma escola: Monitor + histórico + incidentes + manutenção + log + carga do Wi-Fi, isolados por site.
+ * O server só liga os callbacks (WS/alertas/log) e agenda os ticks.
+ */
+export class Site {
+  constructor(config) {
+    this.id = config.id;
+    this.name = config.name;
+    this.config = config;
+    // config de boot (.env/SITES); ajustes da API são aplicados por cima dele
+    this.baseConfig = config;
+
+    this.store = new SegmentedStore({
+      dir: path.join(config.dataDir, "history"),
+      retentionDays: CONFIG.historyRetentionDays,
+    });
+    this.incidents = new IncidentTracker({ path: path.join(config.dataDir, "incidents.json") });
+    this.maintenance = new MaintenanceSchedule({ path: path.join(config.dataDir, "maintenance.json") });
+    // barras já fechadas do /timeline e da página pública
+    this.timeline = new TimelineCache();
+    this.monitor = new Monitor({
+      site: config,
+      store: this.store,
+      incidents: this.incidents,
+      maintenance: this.maintenance,
+    });
+    this.log = new EventLog({
+      path: config.logPath,
+      maxBytes: CONFIG.logMaxBytes,
+      retentionDays: CONFIG.logRetentionDays,
+    });
+    this.wifi = new WifiCollector({
+      api: this.monitor.api,
+      siteId: config.siteId,
+      store: new SegmentedStore({ dir: path.join(config.dataDir, "wifi"), retentionDays: CONFIG.historyRetentionDays }),
+    });
+
+    this.timer = null;
+    this.wifiTimer = null;
+    this.lastTick = null; // { at, durationMs, ok } (exposto em /metrics)
+    this.suppressedAlert = null; // estado cujo alerta a manutenção segurou (DOWN/DEGRADED)
+    this.callbacks = { onTick: () => {}, onError: () => {} };
+  }
+
+  // carrega incidentes e histórico persistidos; devolve quantas entries voltaram
+  async init() {
+    await this.incidents.load();
+    await this.maintenance.load();
+    await this.wifi.hydrate();
+    return this.monitor.hydrate();
+  }
+
+  start({ onTick = () => {}, onError = () => {} } = {}) {
+    this.callbacks = { onTick, onError };
+    this.schedule({ immediate: true });
+  }
+
+  schedule({ immediate = false } = {}) {
+    this.stop();
+    const { onTick, onError } = this.callbacks;
+
+    const run = () => {
+      const t0 = Date.now();
+      const done = (ok) => {
+        this.lastTick = { at: Date.now(), durationMs: Date.now() - t0, ok };
+      };
+      return this.monitor.tick().then(
+        (r) => (done(true), onTick(r)),
+        (e) => (done(false), onError(e))
+      );
+    };
+    this.timer = setInterval(run, this.config.intervalMs);
+    if (immediate) run(); // tick inicial
+
+    if (this.config.wifiIntervalMs > 0) {
+      // falha fica em wifi.lastError (exposto em /api/wifi): controladora fora já aparece no tick
+      const collect = () => this.wifi.collect().catch(() => {});
+      this.wifiTimer = setInterval(collect, this.config.wifiIntervalMs);
+      if (immediate) collect();
+    }
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    if (this.wifiTimer) clearInterval(this.wifiTimer);
+    this.timer = null;
+    this.wifiTimer = null;
+  }
+
+  // ajustes editáveis em runtime (intervalo, probes, limiares, qualidade)
+  settings() {
+    return Object.fromEntries(EDITABLE_SITE_SETTINGS.map((k) => [k, this.config[k]]));
+  }
+
+  /**
+   * Aplica ajustes (já validados por validateSiteSettings) sobre o config de boot, sem restart.
+   * Probes inválidos lançam antes de qualquer mudança; o timer só reinicia se o intervalo mudou.
+   */
+  reconfigure(settings = {}) {
+    const base = this.baseConfig;
+    const next = {
+      ...base,
+      ...settings,
+      thresholds: { ...base.thresholds, ...settings.thresholds },
+      quality: { ...base.quality, ...settings.quality },
+    };
+    if (next.thresholds.degradedAfterFails > next.thresholds.downAfterFails) {
+      throw new Error("thresholds: degradedAfterFails maior que downAfterFails");
+    }
+
+    this.monitor.configure(next);
+    const reschedule =
+      this.timer && (next.intervalMs !== this.config.intervalMs || next.wifiIntervalMs !== this.config.wifiIntervalMs);
+    this.config = next;
+    if (reschedule) this.schedule();
+    return this.settings();
+  }
+
+  // resumo para a visão geral (/api/sites)
+  summary() {
+    const m = this.monitor;
+    const last = m.lastEntry;
+    const active = m.wanTracker.list().find((w) => w.active) ?? null;
+    const q = m.stats.window(m.qualityWindow);
+    return {
+      id: this.id,
+      name: this.name,
+      state: m.state,
+      label: stateLabel(m.state),
+      lastTs: last?.ts ?? null,
+      reason: last?.reason ?? null,
+      probeMs: last?.probe?.ms ?? null,
+      quality: { window: m.qualityWindow, ...q },
+      gateway: last?.gateway ?? null,
+      activeWan: active ? { id: active.id, name: active.name, mobile: active.mobile ?? false } : null,
+      devices: m.deviceTracker.summary(),
+      wifiClients: this.wifi.latest?.total ?? null,
+      incident: this.incidents.current,
+      maintenance: this.maintenance.active(),
+      unifiError: last?.unifiError ?? null,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+// src/stats.mjs
+// Estatísticas de latência/jitter/perda em janelas deslizantes (1m/5m/1h).
+// Mesma régua de qualidade que o dashboard usava no browser (BOA/REGULAR/RUIM),
+// agora calculada uma vez no backend para alertas, logs e todos os clientes.
+
+export const DEFAULT_WINDOWS = { "1m": 60_000, "5m": 300_000, "1h": 3_600_000 };
+
+export function percentile(sorted, p) {
+  if (!sorted.length) return null;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[idx];
+}
+
+function mean(nums) {
+  return nums.length ? nums.reduce((a, b) => a + b, 0) / nums.length : 0;
+}
+
+function stddev(nums) {
+  if (nums.length < 2) return 0;
+  const m = mean(nums);
+  return Math.sqrt(mean(nums.map((x) => (x - m) ** 2)));
+}
+
+export function qualityOf({ avg, jitter, lossPct, samples }, t) {
+  if (!samples) return null;
+  if (avg >= t.verySlowMs || jitter >= t.badJitterMs || lossPct >= t.badLossPct) return "RUIM";
+  if (avg >= t.slowMs || jitter >= t.jitterMs || lossPct >= t.lossPct) return "REGULAR";
+  return "BOA";
+}
+
+export class RollingStats {
+  constructor({ windows = DEFAULT_WINDOWS, thresholds = {} } = {}) {
+    this.windows = windows;
+    this.maxWindow = Math.max(...Object.values(windows));
+    this.thresholds = {
+      slowMs: 120,
+      verySlowMs: 250,
+      jitterMs: 60,
+      badJitterMs: 120,
+      lossPct: 5,
+      badLossPct: 20,
+      ...thresholds,
+    };
+    this.samples = []; // { t, ok, ms } em ordem cronológica
+  }
+
+  add({ ts, ok, ms }) {
+    const t = ts ? Date.parse(ts) : Date.now();
+    this.samples.push({ t, ok: Boolean(ok), ms: typeof ms === "number" && Number.isFinite(ms) ? ms : null });
+
+    const cutoff = t - this.maxWindow;
+    let drop = 0;
+    while (drop < this.samples.length && this.samples[drop].t < cutoff) drop++;
+    if (drop) this.samples.splice(0, drop);
+  }
+
+  window(name, now = Date.now()) {
+    const since = now - this.windows[name];
+    const win = this.samples.filter((s) => s.t >= since);
+    const lat = win.filter((s) => s.ok && s.ms !== null).map((s) => s.ms);
+    const sorted = [...lat].sort((a, b) => a - b);
+    const failed = win.filter((s) => !s.ok).length;
+
+    const out = {
+      samples: win.length,
+      lossPct: win.length ? Math.round((failed / win.length) * 1000) / 10 : 0,
+      avg: Math.round(mean(lat)),
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99),
+      jitter: Math.round(stddev(lat)),
+    };
+    out.quality = qualityOf(out, this.thresholds);
+    return out;
+  }
+
+  summary(now = Date.now()) {
+    const out = {};
+    for (const name of Object.keys(this.windows)) out[name] = this.window(name, now);
+    return out;
+  }
+}
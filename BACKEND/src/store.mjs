@@ -0,0 +1,151 @@
+// src/store.mjs
+import { promises as fs, createReadStream } from "node:fs";
+import readline from "node:readline";
+import path from "node:path";
+
+const SEGMENT_RE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+function dayOf(ts) {
+  const d = new Date(ts);
+  return (Number.isNaN(d.getTime()) ? new Date() : d).toISOString().slice(0, 10);
+}
+
+async function* readLines(file) {
+  let stream;
+  try {
+    await fs.access(file);
+    stream = createReadStream(file, { encoding: "utf8" });
+  } catch {
+    return;
+  }
+  const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  try {
+    for await (const line of rl) {
+      if (!line) continue;
+      try {
+        yield JSON.parse(line);
+      } catch {
+        // linha truncada (queda no meio de um append): ignora
+      }
+    }
+  } finally {
+    rl.close();
+    stream.destroy();
+  }
+}
+
+/**
+ * Store append-only segmentado por dia (UTC): <dir>/YYYY-MM-DD.jsonl
+ * - cada entry do Monitor vira uma linha
+ * - leitura por intervalo só abre os segmentos do período
+ * - retenção por dias (apaga segmentos antigos inteiros)
+ */
+export class SegmentedStore {
+  constructor({ dir, retentionDays = 90 } = {}) {
+    this.dir = dir;
+    this.retentionDays = retentionDays;
+    this.queue = Promise.resolve();
+    this.lastDay = null;
+  }
+
+  segmentPath(day) {
+    return path.join(this.dir, `${day}.jsonl`);
+  }
+
+  async listSegments() {
+    try {
+      const names = await fs.readdir(this.dir);
+      return names
+        .map((n) => n.match(SEGMENT_RE)?.[1])
+        .filter(Boolean)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  // appends serializados (mantém a ordem mesmo com ticks concorrentes)
+  append(entry) {
+    const day = dayOf(entry?.ts);
+    const line = JSON.stringify(entry) + "\n";
+
+    this.queue = this.queue.catch(() => {}).then(async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.appendFile(this.segmentPath(day), line, "utf8");
+
+      if (this.lastDay !== day) {
+        this.lastDay = day;
+        await this.prune();
+      }
+    });
+
+    return this.queue;
+  }
+
+  async prune() {
+    if (!(this.retentionDays > 0)) return 0;
+    const cutoff = dayOf(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+    let removed = 0;
+    for (const day of await this.listSegments()) {
+      if (day >= cutoff) break;
+      await fs.rm(this.segmentPath(day), { force: true });
+      removed += 1;
+    }
+    return removed;
+  }
+
+  // últimas N entries, mais recente primeiro (mesma ordem de Monitor.history)
+  async readLatest(n) {
+    const out = [];
+    const days = await this.listSegments();
+
+    for (let i = days.length - 1; i >= 0 && out.length < n; i--) {
+      const chunk = [];
+      for await (const e of readLines(this.segmentPath(days[i]))) chunk.push(e);
+      for (let j = chunk.length - 1; j >= 0 && out.length < n; j--) out.push(chunk[j]);
+    }
+
+    return out;
+  }
+
+  // entries em ordem cronológica dentro de [from, to]
+  async *iterate({ from, to } = {}) {
+    const fromMs = from ? Date.parse(from) : -Infinity;
+    const toMs = to ? Date.parse(to) : Infinity;
+    const fromDay = Number.isFinite(fromMs) ? dayOf(fromMs) : "";
+    const toDay = Number.isFinite(toMs) ? dayOf(toMs) : "9999-99-99";
+
+    for (const day of await this.listSegments()) {
+      if (day < fromDay || day > toDay) continue;
+      for await (const e of readLines(this.segmentPath(day))) {
+        const t = Date.parse(e?.ts);
+        if (t < fromMs || t > toMs) continue;
+        yield e;
+      }
+    }
+  }
+
+  async query({ from, to, state, limit = 5000 } = {}) {
+    const states = state
+      ? new Set(
+          String(state)
+            .split(",")
+            .map((s) => s.trim().toUpperCase())
+            .filter(Boolean)
+        )
+      : null;
+
+    const entries = [];
+    let total = 0;
+    for await (const e of this.iterate({ from, to })) {
+      if (states && !states.has(e?.state)) continue;
+      total += 1;
+      entries.push(e);
+      // mantém só as mais recentes quando o período excede o limite
+      if (entries.length >= limit * 2) entries.splice(0, entries.length - limit);
+    }
+
+    const kept = entries.slice(-limit);
+    return { total, count: kept.length, truncated: total > kept.length, entries: kept };
+  }
+}
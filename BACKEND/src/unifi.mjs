@@ -1,30 +1,162 @@
-import { CONFIG } from "./config.mjs";
+import { AUTH_MODES, CONFIG } from "./config.mjs";
+import { deviceKind } from "./devices.mjs";
 
+function getSetCookies(res) {
+  // Node fetch (undici) tem getSetCookie() nas versões novas
+  const list = res.headers?.getSetCookie?.() ?? [];
+  if (list.length) return list;
+  const sc = res.headers.get("set-cookie");
+  return sc ? [sc] : [];
+}
+
+function mergeCookies(setCookies) {
+  return setCookies
+    .map((c) => c.split(";")[0])
+    .filter(Boolean)
+    .join("; ");
+}
+
+function withPort(url, port) {
+  // porta explícita na URL tem prioridade
+  const m = url.match(/^(https?:\/\/[^/:]+)(:\d+)?(\/.*)?$/i);
+  if (!m) return url;
+  return `${m[1]}${m[2] ?? `:${port}`}${m[3] ?? ""}`;
+}
+
+// UniFi clássico devolve { meta, data: [...] }
+function dataOf(json) {
+  if (Array.isArray(json)) return json;
+  if (Array.isArray(json?.data)) return json.data;
+  return [];
+}
+
+// Cliente da controladora em uma das estratégias de AUTH_MODES (config.mjs).
+// Sessões expiradas (401/403) são renovadas uma vez por request.
 export class UnifiApi {
-  constructor() {
-    this.base = CONFIG.unifiBaseUrl.replace(/\/$/, "");
-    this.key = CONFIG.unifiApiKey;
+  constructor({
+    baseUrl = CONFIG.unifiBaseUrl,
+    apiKey = CONFIG.unifiApiKey,
+    auth = apiKey ? "apikey" : "auto",
+    username = "",
+    password = "",
+    legacyPort = 8443,
+  } = {}) {
+    if (!AUTH_MODES.includes(auth)) throw new Error(`auth inválido "${auth}" (use ${AUTH_MODES.join("/")})`);
+    this.base = baseUrl.replace(/\/$/, "");
+    this.key = apiKey;
+    this.auth = auth;
+    this.username = username;
+    this.password = password;
+    this.legacyBase = withPort(this.base, legacyPort);
+
+    this.session = null; // { mode: "unifios" | "legacy", base, cookie, csrf }
+    this.loggingIn = null; // login em andamento (ticks concorrentes esperam o mesmo)
+    this.legacyCache = null; // { at, siteId, devices } — stat/device serve devices e WANs no mesmo tick
+
+    // falhas acumuladas por tipo (exportadas em /metrics)
+    this.errors = { login: 0, network: 0, http: 0 };
+  }
+
+  // fetch que conta falhas de rede (DNS, recusa, timeout) antes de repassar o erro
+  async request(url, init) {
+    try {
+      return await fetch(url, init);
+    } catch (e) {
+      this.errors.network += 1;
+      throw e;
+    }
+  }
+
+  // modo efetivo: apikey | unifios | legacy (null até o primeiro login em auto)
+  get mode() {
+    return this.auth === "apikey" ? "apikey" : (this.session?.mode ?? null);
   }
 
-  async get(path) {
-    const url = `${this.base}${path}`;
+  async login(mode) {
+    const base = mode === "legacy" ? this.legacyBase : this.base;
+    const path = mode === "legacy" ? "/api/login" : "/api/auth/login";
 
-    const res = await fetch(url, {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-        "X-API-KEY": this.key,
-      },
+    const res = await this.request(`${base}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ username: this.username, password: this.password }),
     });
 
     if (!res.ok) {
+      this.errors.login += 1;
+      const text = await res.text().catch(() => "");
+      throw new Error(`UniFi login (${mode}) -> HTTP ${res.status} ${text}`);
+    }
+    const cookie = mergeCookies(getSetCookies(res));
+    if (!cookie) {
+      this.errors.login += 1;
+      throw new Error(`UniFi login (${mode}) OK, mas sem cookie (Set-Cookie ausente)`);
+    }
+
+    this.session = { mode, base, cookie, csrf: res.headers.get("x-csrf-token") };
+    return this.session;
+  }
+
+  async ensureSession() {
+    if (this.session) return this.session;
+    this.loggingIn ??= (async () => {
+      if (this.auth === "unifios" || this.auth === "legacy") return this.login(this.auth);
+
+      // auto: UniFi OS primeiro; controladora antiga (:8443) como fallback
+      try {
+        return await this.login("unifios");
+      } catch (e1) {
+        try {
+          return await this.login("legacy");
+        } catch (e2) {
+          throw new Error(`UniFi login (auto) falhou: unifios: ${e1.message} | legacy: ${e2.message}`);
+        }
+      }
+    })().finally(() => {
+      this.loggingIn = null;
+    });
+    return this.loggingIn;
+  }
+
+  async get(path, { retry = true } = {}) {
+    const headers = { Accept: "application/json" };
+    let url = `${this.base}${path}`;
+
+    if (this.auth === "apikey") {
+      headers["X-API-KEY"] = this.key;
+    } else {
+      const s = await this.ensureSession();
+      url = `${s.base}${path}`;
+      headers.Cookie = s.cookie;
+      if (s.csrf) headers["X-CSRF-Token"] = s.csrf;
+    }
+
+    const res = await this.request(url, { method: "GET", headers });
+
+    // sessão expirou: novo login e repete uma vez
+    if ((res.status === 401 || res.status === 403) && this.auth !== "apikey" && retry) {
+      res.body?.cancel().catch(() => {});
+      this.session = null;
+      return this.get(path, { retry: false });
+    }
+
+    if (!res.ok) {
+      this.errors.http += 1;
       const text = await res.text().catch(() => "");
       throw new Error(`UniFi GET ${path} -> HTTP ${res.status} ${text}`);
     }
     return res.json();
   }
 
+  // Endpoints "clássicos" (/api/...): no UniFi OS ficam atrás de /proxy/network
+  async classic(path) {
+    const s = await this.ensureSession();
+    const prefix = s.mode === "unifios" ? "/proxy/network" : "";
+    return dataOf(await this.get(`${prefix}${path}`));
+  }
+
   async listSites() {
+    if (this.auth !== "apikey") return this.classic("/api/self/sites");
     return this.get(`/proxy/network/integration/v1/sites`);
   }
 
@@ -34,9 +166,19 @@ export class UnifiApi {
     );
   }
 
+  async legacyDevices(siteId) {
+    const c = this.legacyCache;
+    if (c && c.siteId === siteId && Date.now() - c.at < 5000) return c.devices;
+    const devices = await this.classic(`/api/s/${siteId}/stat/device`);
+    this.legacyCache = { at: Date.now(), siteId, devices };
+    return devices;
+  }
+
   // UniFi Network (v2) - WAN network groups (backs the UniFi UI "Internet" view)
   // Example path: /proxy/network/v2/api/site/default/wan/networkgroups
   async listWanNetworkGroups(siteId) {
+    if (this.auth !== "apikey") return this.listWanGroupsSession(siteId);
+
     try {
       return await this.get(`/proxy/network/v2/api/site/${siteId}/wan/networkgroups`);
     } catch (e) {
@@ -52,13 +194,43 @@ export class UnifiApi {
     }
   }
 
-  async getAllDevices(siteId) {
+  // Sessão: UniFi OS ainda tem o v2; controladora legacy não -> monta os grupos a partir de stat/device + stat/health
+  async listWanGroupsSession(siteId) {
+    const s = await this.ensureSession();
+    if (s.mode === "unifios") {
+      try {
+        return await this.get(`/proxy/network/v2/api/site/${siteId}/wan/networkgroups`);
+      } catch {
+        // firmware sem v2: cai no mapeamento clássico
+      }
+    }
+
+    const [devices, health] = await Promise.all([
+      this.legacyDevices(siteId),
+      this.classic(`/api/s/${siteId}/stat/health`).catch(() => []),
+    ]);
+    const gw = devices.find(isLegacyGateway) ?? null;
+    return legacyWanGroups(gw, health);
+  }
+
+  async listClients(siteId, { limit = 200, offset = 0 } = {}) {
+    return this.get(
+      `/proxy/network/integration/v1/sites/${siteId}/clients?limit=${limit}&offset=${offset}`
+    );
+  }
+
+  async getDeviceStatistics(siteId, deviceId) {
+    return this.get(`/proxy/network/integration/v1/sites/${siteId}/devices/${deviceId}/statistics/latest`);
+  }
+
+  // percorre as páginas do integration API (limit/offset)
+  async paged(fetchPage) {
     const out = [];
     let offset = 0;
     const limit = 200;
 
     for (;;) {
-      const page = await this.listDevices(siteId, { limit, offset });
+      const page = await fetchPage({ limit, offset });
       const data = Array.isArray(page?.data) ? page.data : [];
       out.push(...data);
 
@@ -68,6 +240,175 @@ export class UnifiApi {
 
     return out;
   }
+
+  async getAllDevices(siteId) {
+    if (this.auth !== "apikey") return (await this.legacyDevices(siteId)).map(mapLegacyDevice);
+    return this.paged((p) => this.listDevices(siteId, p));
+  }
+
+  async getAllClients(siteId) {
+    return this.paged((p) => this.listClients(siteId, p));
+  }
+
+  /**
+   * Carga do Wi-Fi por AP (clientes por banda/SSID, utilização de canal por rádio), no mesmo formato nos dois modos:
+   * - sessão: stat/device já traz radio_table_stats (num_sta, cu_total) e vap_table (essid, num_sta)
+   * - apikey: clientes WIRELESS contados por uplinkDeviceId + statistics/latest de cada AP;
+   *   banda/SSID/utilização só quando o firmware expõe (senão ficam vazios/null)
+   */
+  async getWifiStats(siteId) {
+    if (this.auth !== "apikey") {
+      const aps = (await this.legacyDevices(siteId)).filter((d) => deviceKind(d) === "ap").map(mapLegacyAp);
+      return { source: "legacy", aps };
+    }
+
+    const [devices, clients] = await Promise.all([this.getAllDevices(siteId), this.getAllClients(siteId)]);
+    const aps = devices.filter((d) => deviceKind(d) === "ap");
+    // estatística de um AP falhar não derruba a coleta inteira
+    const stats = await Promise.all(aps.map((d) => this.getDeviceStatistics(siteId, d.id).catch(() => null)));
+    const wireless = clients.filter((c) => String(c?.type ?? "").toUpperCase() === "WIRELESS");
+
+    return {
+      source: "integration",
+      aps: aps.map((d, i) => mapIntegrationAp(d, stats[i], wireless.filter((c) => c?.uplinkDeviceId === d.id))),
+    };
+  }
+}
+
+// -------------------- Payloads clássicos (stat/device, stat/health) --------------------
+const LEGACY_GATEWAY_TYPES = ["ugw", "udm", "uxg"];
+// stat/device "state" (int) -> estados do integration API
+const LEGACY_STATES = {
+  0: "OFFLINE",
+  1: "ONLINE",
+  2: "PENDING_ADOPTION",
+  4: "UPDATING",
+  5: "PROVISIONING",
+  6: "CONNECTION_INTERRUPTED",
+  7: "ADOPTING",
+  9: "ADOPTION_FAILED",
+  10: "ISOLATED",
+};
+
+function isLegacyGateway(d) {
+  return LEGACY_GATEWAY_TYPES.includes(String(d?.type ?? "").toLowerCase());
+}
+
+// stat/device -> mesmo formato do integration API (o que pickGateway/readWanUp esperam)
+export function mapLegacyDevice(d) {
+  const gateway = isLegacyGateway(d);
+  const wanUp = d?.wan1?.up ?? d?.uplink?.up;
+  return {
+    id: d?._id ?? d?.mac ?? null,
+    name: d?.name ?? d?.model ?? null,
+    model: d?.model ?? null,
+    type: gateway ? "gateway" : (d?.type ?? null),
+    ipAddress: d?.ip ?? null,
+    macAddress: d?.mac ?? null,
+    firmwareVersion: d?.version ?? null,
+    firmwareUpdatable: typeof d?.upgradable === "boolean" ? d.upgradable : null,
+    state: LEGACY_STATES[d?.state] ?? "UNKNOWN",
+    uptimeSec: Number.isFinite(Number(d?.uptime)) ? Number(d.uptime) : null,
+    lastSeen: Number.isFinite(Number(d?.last_seen)) ? new Date(Number(d.last_seen) * 1000).toISOString() : null,
+    ...(gateway && typeof wanUp === "boolean" ? { wan: { up: wanUp } } : {}),
+  };
+}
+
+// -------------------- Wi-Fi (carga por AP) --------------------
+function num(v) {
+  const n = Number(v);
+  return v === null || v === undefined || v === "" || !Number.isFinite(n) ? null : n;
+}
+
+// "ng"/"na"/"6e" (stat/device) ou frequência em GHz (integration API) -> "2.4" | "5" | "6"
+export function wifiBand(v) {
+  const s = String(v ?? "").toLowerCase();
+  if (s === "ng" || s.startsWith("2")) return "2.4";
+  if (s === "na" || s.startsWith("5")) return "5";
+  if (s === "6e" || s.startsWith("6")) return "6";
+  return null;
+}
+
+function countInto(map, key, n = 1) {
+  if (key) map[key] = (map[key] ?? 0) + n;
+}
+
+// stat/device (type "uap") -> { id, mac, name, model, clients, bands, ssids, radios }
+export function mapLegacyAp(d) {
+  const radios = (Array.isArray(d?.radio_table_stats) ? d.radio_table_stats : []).map((r) => ({
+    band: wifiBand(r?.radio),
+    channel: num(r?.channel),
+    utilPct: num(r?.cu_total),
+    clients: num(r?.num_sta) ?? 0,
+    txRetriesPct: null,
+  }));
+
+  const bands = {};
+  for (const r of radios) countInto(bands, r.band, r.clients);
+  const ssids = {};
+  for (const v of Array.isArray(d?.vap_table) ? d.vap_table : []) countInto(ssids, v?.essid, num(v?.num_sta) ?? 0);
+
+  return {
+    id: d?._id ?? d?.mac ?? null,
+    mac: d?.mac ?? null,
+    name: d?.name ?? d?.model ?? null,
+    model: d?.model ?? null,
+    clients: num(d?.num_sta) ?? radios.reduce((a, r) => a + r.clients, 0),
+    bands,
+    ssids,
+    radios,
+  };
+}
+
+// device + statistics/latest + clientes WIRELESS ligados a ele (integration API)
+export function mapIntegrationAp(d, stats, clients = []) {
+  const radios = (stats?.interfaces?.radios ?? d?.interfaces?.radios ?? []).map((r) => ({
+    band: wifiBand(r?.frequencyGHz ?? r?.band),
+    channel: num(r?.channel),
+    utilPct: num(r?.channelUtilizationPct ?? r?.utilizationPct),
+    clients: null,
+    txRetriesPct: num(r?.txRetriesPct),
+  }));
+
+  const bands = {};
+  const ssids = {};
+  for (const c of clients) {
+    countInto(bands, wifiBand(c?.frequencyGHz ?? c?.radio ?? c?.band));
+    countInto(ssids, c?.ssid ?? c?.wifi?.ssid ?? c?.network?.ssid);
+  }
+
+  return {
+    id: d?.id ?? null,
+    mac: d?.macAddress ?? null,
+    name: d?.name ?? d?.model ?? null,
+    model: d?.model ?? null,
+    clients: clients.length,
+    bands,
+    ssids,
+    radios,
+  };
+}
+
+// wan1/wan2 do gateway (+ subsistema "wan" do stat/health) -> WAN network groups do v2
+export function legacyWanGroups(gw, health = []) {
+  const ports = ["wan1", "wan2", "wan3"].map((k) => gw?.[k]).filter(Boolean);
+  const wanHealth = (Array.isArray(health) ? health : []).find((h) => String(h?.subsystem ?? "").toLowerCase() === "wan");
+
+  if (!ports.length) {
+    if (!wanHealth) return null;
+    return [{ id: "WAN", name: "WAN", priority: 1, status: wanHealth.status === "ok" ? "up" : "down" }];
+  }
+
+  const uplinkIf = gw?.uplink?.ifname ?? null;
+  return ports.map((p, i) => ({
+    id: i === 0 ? "WAN" : `WAN${i + 1}`,
+    name: p.name ? String(p.name).toUpperCase() : `WAN${i + 1}`,
+    priority: i + 1,
+    up: typeof p.up === "boolean" ? p.up : undefined,
+    active: uplinkIf ? p.ifname === uplinkIf : undefined,
+    port_info: { port_ifname: p.ifname ?? null, port_idx: p.port_idx ?? null },
+    is_mobile_broadband: false,
+  }));
 }
 
 export function pickPrimaryWanGroup(groups) {
@@ -85,20 +426,54 @@ export function pickPrimaryWanGroup(groups) {
   return withPrio[0]?.g ?? groups[0] ?? null;
 }
 
-export function readWanStatusFromGroups(groups) {
-  const primary = pickPrimaryWanGroup(groups);
-  if (!primary) return { up: null, primary: null };
+export function readWanGroupUp(group) {
+  if (!group) return null;
+
+  // 1) Flags explícitos (alguns firmwares trazem)
+  for (const v of [group?.up, group?.is_up, group?.isUp, group?.connected]) {
+    if (typeof v === "boolean") return v;
+  }
 
-  const disabled = Boolean(primary?.port_info?.disabled);
-  const uptime = Number(primary?.uptime);
+  const st = String(group?.status ?? group?.state ?? "").toLowerCase();
+  if (["up", "online", "connected", "ok", "active"].includes(st)) return true;
+  if (["down", "offline", "disconnected", "no_link", "failed"].includes(st)) return false;
+
+  const disabled = Boolean(group?.port_info?.disabled);
+  const uptime = Number(group?.uptime);
 
   // NOTE: UniFi's "uptime" in this endpoint appears to map to the UI "Tempo de At" (%).
   // Treat "disabled" as down; otherwise infer up when uptime is a finite number.
-  let up = null;
-  if (disabled) up = false;
-  else if (Number.isFinite(uptime)) up = uptime > 0;
+  if (disabled) return false;
+  if (Number.isFinite(uptime)) return uptime > 0;
+  return null;
+}
+
+// Internet pela UniFi: up se algum grupo tem link ou é o ativo marcado pela controladora (failover para o 4G
+// não derruba o site), down só com todos explicitamente down; null quando não dá para afirmar nenhum dos dois.
+export function readWanStatusFromGroups(groups) {
+  const primary = pickPrimaryWanGroup(groups);
+  if (!primary) return { up: null, primary: null, active: null };
+  const links = groups.map((g) => (flaggedActive(g) && readWanGroupUp(g) !== false ? true : readWanGroupUp(g)));
+  const up = links.includes(true) ? true : links.every((v) => v === false) ? false : null;
+  return { up, primary, active: pickActiveWanGroup(groups) };
+}
+
+function flaggedActive(g) {
+  return g?.active === true || g?.is_active === true || g?.isActive === true;
+}
+
+// Grupo que está efetivamente carregando o tráfego.
+// Usa flag explícito quando existe; senão, o de menor prioridade que não está DOWN.
+export function pickActiveWanGroup(groups) {
+  if (!Array.isArray(groups) || !groups.length) return null;
+
+  const flagged = groups.find(flaggedActive);
+  if (flagged) return flagged;
+
+  const prio = (g) => (Number.isFinite(Number(g?.priority)) ? Number(g.priority) : 9999);
+  const candidates = groups.filter((g) => readWanGroupUp(g) !== false).sort((a, b) => prio(a) - prio(b));
 
-  return { up, primary };
+  return candidates[0] ?? null;
 }
 
 export function pickGateway(devices) {
@@ -0,0 +1,143 @@
+// src/wan.mjs
+import { pickPrimaryWanGroup, pickActiveWanGroup, readWanGroupUp } from "./unifi.mjs";
+
+function iso() {
+  return new Date().toISOString();
+}
+
+function wanRef(g) {
+  if (!g) return null;
+  return { id: String(g.id ?? ""), name: g.name ?? g.id ?? null, mobile: Boolean(g.is_mobile_broadband) };
+}
+
+/**
+ * Estado independente por WAN network group (dual-WAN: fibra + 4G, etc.)
+ * - cada grupo tem sua própria histerese OK/DEGRADED/DOWN
+ * - detecta troca de grupo ativo/primário -> WAN_FAILOVER / WAN_FAILBACK
+ */
+export class WanTracker {
+  constructor({ degradedAfterFails = 2, downAfterFails = 4, okAfterSucc = 2, maxEvents = 100 } = {}) {
+    this.degradedAfterFails = degradedAfterFails;
+    this.downAfterFails = downAfterFails;
+    this.okAfterSucc = okAfterSucc;
+
+    this.wans = new Map(); // id -> { id, name, state, fail, succ, up, since, ... }
+    this.primaryId = null;
+    this.activeId = null;
+
+    this.events = [];
+    this.maxEvents = maxEvents;
+  }
+
+  list() {
+    return [...this.wans.values()].map((w) => ({
+      id: w.id,
+      name: w.name,
+      state: w.state,
+      up: w.up,
+      since: w.since,
+      priority: w.priority,
+      mobile: w.mobile,
+      primary: w.id === this.primaryId,
+      active: w.id === this.activeId,
+    }));
+  }
+
+  pushEvent(ev) {
+    this.events.unshift(ev);
+    if (this.events.length > this.maxEvents) this.events.length = this.maxEvents;
+    return ev;
+  }
+
+  step(w, up, ts) {
+    const prev = w.state;
+    w.up = up;
+
+    if (up === false) {
+      w.fail += 1;
+      w.succ = 0;
+      if (w.fail >= this.downAfterFails) w.state = "DOWN";
+      else if (w.fail >= this.degradedAfterFails) w.state = "DEGRADED";
+    } else if (up === true) {
+      w.succ += 1;
+      w.fail = 0;
+      if (w.state === "UNKNOWN" || w.succ >= this.okAfterSucc) w.state = "OK";
+    }
+    // up === null: sem informação, mantém o estado
+
+    if (prev !== w.state) w.since = ts;
+    return prev;
+  }
+
+  // Retorna { wans, primaryId, activeId, events } onde events são só os gerados neste update
+  update(groups, { ts = iso() } = {}) {
+    const events = [];
+    if (!Array.isArray(groups)) return { wans: this.list(), primaryId: this.primaryId, activeId: this.activeId, events };
+
+    const seen = new Set();
+    for (const g of groups) {
+      const id = String(g?.id ?? "");
+      if (!id) continue;
+      seen.add(id);
+
+      let w = this.wans.get(id);
+      if (!w) {
+        w = { id, state: "UNKNOWN", fail: 0, succ: 0, up: null, since: ts };
+        this.wans.set(id, w);
+      }
+      w.name = g.name ?? id;
+      w.priority = Number.isFinite(Number(g?.priority)) ? Number(g.priority) : null;
+      w.mobile = Boolean(g.is_mobile_broadband);
+
+      const prev = this.step(w, readWanGroupUp(g), ts);
+      if (prev !== w.state && prev !== "UNKNOWN") {
+        events.push(
+          this.pushEvent({ ts, kind: "WAN_STATE_CHANGE", wan: wanRef(g), prev, next: w.state })
+        );
+      }
+    }
+
+    // grupos que sumiram do payload
+    for (const id of this.wans.keys()) {
+      if (!seen.has(id)) this.wans.delete(id);
+    }
+
+    const primary = pickPrimaryWanGroup(groups);
+    const active = pickActiveWanGroup(groups);
+    const primaryId = primary ? String(primary.id) : null;
+    const activeId = active ? String(active.id) : null;
+
+    const prevPrimaryId = this.primaryId;
+    const prevActiveId = this.activeId;
+    this.primaryId = primaryId;
+    this.activeId = activeId;
+
+    // Primeira leitura só estabelece a referência
+    const known = prevPrimaryId !== null || prevActiveId !== null;
+    const changed = prevPrimaryId !== primaryId || prevActiveId !== activeId;
+
+    if (known && changed && activeId) {
+      const wasOnPrimary = prevActiveId !== null && prevActiveId === prevPrimaryId;
+      const onPrimary = activeId === primaryId;
+
+      let kind = null;
+      if (onPrimary && !wasOnPrimary) kind = "WAN_FAILBACK";
+      else if (!onPrimary && (wasOnPrimary || prevActiveId !== activeId)) kind = "WAN_FAILOVER";
+
+      if (kind) {
+        const byId = (id) => wanRef(groups.find((g) => String(g?.id ?? "") === id)) ?? (id ? { id, name: id } : null);
+        events.push(
+          this.pushEvent({
+            ts,
+            kind,
+            from: byId(prevActiveId),
+            to: byId(activeId),
+            primary: byId(primaryId),
+          })
+        );
+      }
+    }
+
+    return { wans: this.list(), primaryId, activeId, events };
+  }
+}
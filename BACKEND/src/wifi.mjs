@@ -0,0 +1,141 @@
+// src/wifi.mjs
+
+function iso() {
+  return new Date().toISOString();
+}
+
+function add(map, key, n) {
+  if (key && Number.isFinite(n)) map[key] = (map[key] ?? 0) + n;
+}
+
+// maior utilização de canal entre os rádios do AP (o rádio mais congestionado é o que o usuário sente)
+function apUtil(radios) {
+  const vals = radios.map((r) => r.utilPct).filter((v) => v !== null && Number.isFinite(v));
+  return vals.length ? Math.max(...vals) : null;
+}
+
+// UnifiApi.getWifiStats() -> amostra gravada na série (totais do site + cada AP)
+export function wifiSample({ source, aps = [] } = {}, ts = iso()) {
+  const bands = {};
+  const ssids = {};
+  let total = 0;
+
+  const list = aps.map((ap) => {
+    total += ap.clients ?? 0;
+    for (const [k, n] of Object.entries(ap.bands ?? {})) add(bands, k, n);
+    for (const [k, n] of Object.entries(ap.ssids ?? {})) add(ssids, k, n);
+    return {
+      id: ap.id,
+      name: ap.name,
+      model: ap.model,
+      clients: ap.clients ?? 0,
+      bands: ap.bands ?? {},
+      ssids: ap.ssids ?? {},
+      util: apUtil(ap.radios ?? []),
+      radios: ap.radios ?? [],
+    };
+  });
+
+  return { ts, source, total, bands, ssids, aps: list };
+}
+
+/**
+ * Coleta periódica da carga do Wi-Fi (clientes por AP/SSID/banda + utilização) de um site.
+ * - intervalo próprio (WIFI_INTERVAL_MS): não atrasa o tick do monitor de internet
+ * - cada coleta vira uma linha no store (data/.../wifi/YYYY-MM-DD.jsonl)
+ * - series() agrega em buckets para os gráficos do dia letivo
+ */
+export class WifiCollector {
+  constructor({ api, siteId, store = null } = {}) {
+    this.api = api;
+    this.siteId = siteId;
+    this.store = store;
+
+    this.latest = null;
+    this.lastError = null;
+  }
+
+  async hydrate() {
+    if (!this.store) return;
+    this.latest = (await this.store.readLatest(1))[0] ?? null;
+  }
+
+  async collect({ ts = iso() } = {}) {
+    let raw;
+    try {
+      raw = await this.api.getWifiStats(this.siteId);
+    } catch (e) {
+      this.lastError = e?.message ?? String(e);
+      throw e;
+    }
+
+    const sample = wifiSample(raw, ts);
+    this.latest = sample;
+    this.lastError = null;
+    this.store?.append(sample).catch((e) => console.error("[wifi] append failed:", e?.message ?? e));
+    return sample;
+  }
+
+  // APs mais carregados da última coleta (clientes, depois utilização)
+  busiest(limit = 10) {
+    const aps = this.latest?.aps ?? [];
+    return [...aps]
+      .sort((a, b) => b.clients - a.clients || (b.util ?? -1) - (a.util ?? -1))
+      .slice(0, limit);
+  }
+
+  /**
+   * Série agregada em [from, to]:
+   * points[] = { ts, clients (média), max, bands (média), aps: { <id>: pico } } por bucket
+   * aps[]    = os `top` APs com maior pico no período (os que aparecem em points[].aps)
+   */
+  async series({ from, to, bucketMs = 15 * 60 * 1000, top = 5 } = {}) {
+    const fromMs = Date.parse(from);
+    const buckets = new Map();
+    const peaks = new Map(); // id -> { id, name, peak, sum, n }
+
+    for await (const s of this.store?.iterate({ from, to }) ?? []) {
+      const t = Date.parse(s?.ts);
+      if (!Number.isFinite(t)) continue;
+      const key = fromMs + Math.floor((t - fromMs) / bucketMs) * bucketMs;
+
+      let b = buckets.get(key);
+      if (!b) {
+        b = { n: 0, sum: 0, max: 0, bands: {}, aps: {} };
+        buckets.set(key, b);
+      }
+      b.n += 1;
+      b.sum += s.total ?? 0;
+      b.max = Math.max(b.max, s.total ?? 0);
+      for (const [k, n] of Object.entries(s.bands ?? {})) add(b.bands, k, n);
+
+      for (const ap of s.aps ?? []) {
+        b.aps[ap.id] = Math.max(b.aps[ap.id] ?? 0, ap.clients ?? 0);
+        const p = peaks.get(ap.id) ?? { id: ap.id, name: ap.name, peak: 0, sum: 0, n: 0 };
+        p.name = ap.name ?? p.name;
+        p.peak = Math.max(p.peak, ap.clients ?? 0);
+        p.sum += ap.clients ?? 0;
+        p.n += 1;
+        peaks.set(ap.id, p);
+      }
+    }
+
+    const aps = [...peaks.values()]
+      .sort((a, b) => b.peak - a.peak || b.sum - a.sum)
+      .slice(0, top)
+      .map(({ id, name, peak, sum, n }) => ({ id, name, peak, avg: Math.round((sum / n) * 10) / 10 }));
+    const topIds = aps.map((a) => a.id);
+
+    const points = [...buckets.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([key, b]) => ({
+        ts: new Date(key).toISOString(),
+        clients: Math.round(b.sum / b.n),
+        max: b.max,
+        bands: Object.fromEntries(Object.entries(b.bands).map(([k, n]) => [k, Math.round(n / b.n)])),
+        aps: Object.fromEntries(topIds.map((id) => [id, b.aps[id] ?? 0])),
+      }));
+
+    return { from, to, bucketMs, samples: [...buckets.values()].reduce((a, b) => a + b.n, 0), aps, points };
+  }
+}
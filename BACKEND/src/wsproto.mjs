@@ -0,0 +1,171 @@
+// src/wsproto.mjs
+// Protocolo do stream ao vivo, versão WS_PROTOCOL_VERSION. Dois transportes com as mesmas mensagens:
+// /ws (WebSocket, hello como primeira mensagem) e /api/stream (SSE, hello na query; ver helloFromQuery).
+//
+// Cliente -> servidor: a primeira mensagem tem que ser o hello (até WS_HELLO_TIMEOUT_MS após conectar)
+//   { type: "hello", v: 1, site?: "<id>" | "*", types?: [...], history?: n, resume?: { epoch, seq } }
+//   site     padrão: ?site= da URL ou o primeiro site; "*" = todas as escolas
+//   types    eventos assinados (subconjunto de WS_EVENT_TYPES); padrão: todos
+//   history  quantas entries vêm no snapshot (0..MAX_HISTORY); padrão: todas as que o Monitor tem
+//   resume   epoch/seq da última mensagem recebida, para retomar depois de uma reconexão
+//
+// Servidor -> cliente: toda mensagem tem { v, type, ts }
+//   welcome   { epoch, seq, site, types, history, resumed }   resposta ao hello com o que foi aceito
+//   snapshot  { seq, site, state, label, data }               estado completo do site (data.history já cortado)
+//   sites     { seq, sites }                                  resumo de todas as escolas (site "*")
+//   eventos   { seq, site, ...payload }                       um de WS_EVENT_TYPES (payload só com os campos de EVENT_FIELDS)
+//   error     { error, details?, supported? }                 hello inválido; o WS fecha em seguida (no SSE é HTTP 400)
+//
+// seq é um contador único do processo (epoch muda a cada boot) e só cresce. snapshot/sites levam o seq
+// do último evento já refletido neles. Com resume, se o epoch bate e o journal ainda tem tudo depois
+// do seq pedido, o servidor manda welcome { resumed: true } e só os eventos que faltaram (do site e
+// dos tipos assinados); senão welcome { resumed: false } e um snapshot novo. Depois disso vem o ao vivo,
+// na ordem do seq; o cliente descarta qualquer seq <= ao último que já viu.
+import { randomUUID } from "node:crypto";
+
+export const WS_PROTOCOL_VERSION = 1;
+export const WS_HELLO_TIMEOUT_MS = 10_000;
+export const MAX_HISTORY = 1000;
+export const SSE_RETRY_MS = 3000;
+export const SSE_PING_MS = 15_000;
+
+// payload de cada evento (além do envelope v/type/ts/seq/site): campo -> tipo, "?" no fim = opcional.
+// Mesmo esquema que o cliente confere em lib/live.ts (FIELDS); o journal recusa o que não bate.
+export const EVENT_FIELDS = {
+  tick: { state: "string", label: "string", entry: "object", stats: "object" },
+  state_change: { prev: "string", next: "string", label: "string", entry: "object" },
+  wan_event: { event: "object" },
+  device_event: { event: "object" },
+  incident: { event: "string", incident: "object" },
+  maintenance: { event: "string", window: "object?", active: "array" },
+  config: { settings: "object" },
+};
+export const WS_EVENT_TYPES = Object.keys(EVENT_FIELDS);
+
+export class WsProtocolError extends Error {
+  constructor(code, details = []) {
+    super(code);
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Valida o hello (já com JSON.parse) e devolve a assinatura; erro vira WsProtocolError com details
+export function parseHello(msg, { sites, defaultSite }) {
+  if (!msg || typeof msg !== "object" || Array.isArray(msg) || msg.type !== "hello") {
+    throw new WsProtocolError("hello_required", ['primeira mensagem deve ser { type: "hello", v, ... }']);
+  }
+  if (msg.v !== WS_PROTOCOL_VERSION) {
+    const err = new WsProtocolError("unsupported_version", [`v: esperado ${WS_PROTOCOL_VERSION}, recebido ${JSON.stringify(msg.v ?? null)}`]);
+    err.supported = [WS_PROTOCOL_VERSION];
+    throw err;
+  }
+
+  const details = [];
+  const site = msg.site == null ? defaultSite : String(msg.site);
+  if (site !== "*" && !sites.has(site)) throw new WsProtocolError("site_not_found", [`site: "${site}" não existe`]);
+
+  let types = WS_EVENT_TYPES;
+  if (msg.types != null) {
+    if (!Array.isArray(msg.types)) details.push("types: deve ser uma lista");
+    else {
+      const unknown = msg.types.filter((t) => !WS_EVENT_TYPES.includes(t));
+      if (unknown.length) details.push(`types: desconhecido(s) ${unknown.join(", ")} (aceitos: ${WS_EVENT_TYPES.join(", ")})`);
+      types = WS_EVENT_TYPES.filter((t) => msg.types.includes(t));
+    }
+  }
+
+  let history = null;
+  if (msg.history != null) {
+    if (!Number.isInteger(msg.history) || msg.history < 0 || msg.history > MAX_HISTORY) {
+      details.push(`history: inteiro entre 0 e ${MAX_HISTORY}`);
+    } else history = msg.history;
+  }
+
+  let resume = null;
+  if (msg.resume != null) {
+    const r = msg.resume;
+    if (typeof r !== "object" || typeof r.epoch !== "string" || !Number.isInteger(r.seq) || r.seq < 0) {
+      details.push("resume: { epoch: string, seq: inteiro >= 0 }");
+    } else resume = { epoch: r.epoch, seq: r.seq };
+  }
+
+  if (details.length) throw new WsProtocolError("invalid_hello", details);
+  return { site, types, history, resume };
+}
+
+// "epoch:seq" (id do SSE) -> { epoch, seq }; formato inválido segue adiante e o parseHello recusa
+function parseCursor(raw) {
+  if (raw == null || raw === "") return undefined;
+  const m = String(raw).match(/^([^:]+):(\d+)$/);
+  return m ? { epoch: m[1], seq: Number(m[2]) } : String(raw);
+}
+
+// hello do SSE a partir da query (types separado por vírgula; sem v = versão atual);
+// o Last-Event-ID do EventSource tem prioridade sobre ?resume=
+export function helloFromQuery(query = {}, lastEventId = null) {
+  const num = (v) => (v == null || v === "" ? undefined : Number(v));
+  return {
+    type: "hello",
+    v: query.v == null ? WS_PROTOCOL_VERSION : Number(query.v),
+    site: query.site,
+    types: query.types == null ? undefined : String(query.types).split(",").filter(Boolean),
+    history: num(query.history),
+    resume: parseCursor(lastEventId || query.resume),
+  };
+}
+
+// Assinatura recebe a mensagem? site "*" recebe todos; snapshot/sites/welcome/error não passam por aqui
+export function subscribed(sub, msg) {
+  return (sub.site === "*" || sub.site === msg.site) && sub.types.includes(msg.type);
+}
+
+function hasKind(value, kind) {
+  if (kind === "array") return Array.isArray(value);
+  if (kind === "object") return typeof value === "object" && value !== null && !Array.isArray(value);
+  return typeof value === kind;
+}
+
+// Evento -> { type, ...só os campos declarados }; campo faltando ou com tipo errado vira erro com details
+export function projectEvent(obj) {
+  const fields = EVENT_FIELDS[obj?.type];
+  if (!fields) throw new Error(`ws: tipo de evento desconhecido "${obj?.type}"`);
+  const out = { type: obj.type };
+  const details = [];
+  for (const [key, spec] of Object.entries(fields)) {
+    const optional = spec.endsWith("?");
+    const kind = optional ? spec.slice(0, -1) : spec;
+    if (optional && obj[key] === undefined) continue;
+    if (!hasKind(obj[key], kind)) details.push(`${key}: esperado ${kind}`);
+    else out[key] = obj[key];
+  }
+  if (details.length) throw Object.assign(new Error(`ws: evento "${obj.type}" inválido (${details.join("; ")})`), { details });
+  return out;
+}
+
+// Numera os eventos e guarda os últimos `size` para quem reconecta (ring buffer simples)
+export class WsJournal {
+  constructor({ size = 2000 } = {}) {
+    this.size = size;
+    this.epoch = randomUUID().slice(0, 8);
+    this.seq = 0;
+    this.buffer = [];
+  }
+
+  // evento fora do esquema lança antes de gastar um seq (nada sai para os clientes)
+  append(siteId, obj) {
+    const payload = projectEvent(obj);
+    const msg = { v: WS_PROTOCOL_VERSION, seq: ++this.seq, ts: new Date().toISOString(), ...payload, site: siteId };
+    this.buffer.push(msg);
+    if (this.buffer.length > this.size) this.buffer.splice(0, this.buffer.length - this.size);
+    return msg;
+  }
+
+  // eventos com seq > `seq` deste boot; null quando não dá para retomar sem buraco
+  since({ epoch, seq }) {
+    if (epoch !== this.epoch || seq > this.seq) return null;
+    const first = this.buffer[0]?.seq ?? this.seq + 1;
+    if (seq < first - 1) return null;
+    return this.buffer.slice(seq - first + 1);
+  }
+}
@@ -0,0 +1,154 @@
+// test/alerts.test.mjs
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { setImmediate as tick } from "node:timers/promises";
+import { AlertDispatcher, alertVars, renderTemplate, shouldAlert } from "../src/alerts.mjs";
+import { readJson, writeJsonAtomic } from "../src/jsonfile.mjs";
+
+const dir = await mkdtemp(path.join(os.tmpdir(), "alerts-"));
+after(() => rm(dir, { recursive: true, force: true }));
+
+const quiet = { info() {}, warn() {}, error() {} };
+
+// canal em memória: falha nas `failures` primeiras chamadas
+function channel(name, { failures = 0, template = "{{label}} ({{reason}})" } = {}) {
+  const ch = { name, template, sent: [], calls: 0 };
+  ch.send = async (text) => {
+    ch.calls += 1;
+    if (ch.calls <= failures) throw new Error(`HTTP 503 (${ch.calls})`);
+    ch.sent.push(text);
+  };
+  return ch;
+}
+
+// espera o drain disparado pelo notify terminar
+async function settle(d) {
+  while (d.draining) await tick();
+}
+
+const alert = (label = "Internet caiu") => ({
+  ts: "2026-03-02T10:00:00.000Z",
+  kind: "STATE_CHANGE",
+  state: "DOWN",
+  label,
+  vars: alertVars({ label, entry: { reason: "WAN_LINK_DOWN", wan: { name: "WAN" } } }),
+});
+
+describe("shouldAlert / renderTemplate", () => {
+  it("alerta queda, instabilidade e retorno; boot em OK e repetição não", () => {
+    assert.equal(shouldAlert("OK", "DOWN"), true);
+    assert.equal(shouldAlert("DOWN", "DEGRADED"), true);
+    assert.equal(shouldAlert("DEGRADED", "OK"), true);
+    assert.equal(shouldAlert("UNKNOWN", "OK"), false);
+    assert.equal(shouldAlert("DOWN", "DOWN"), false);
+  });
+
+  it("placeholder sem valor vira —", () => {
+    assert.equal(renderTemplate("{{label}} | wan={{ wan }} | {{probeMs}}ms", { label: "x", wan: "WAN" }), "x | wan=WAN | —ms");
+  });
+});
+
+describe("AlertDispatcher", () => {
+  it("fan-out: um job por canal, texto do template de cada canal, outbox vazio no fim", async () => {
+    const slack = channel("slack");
+    const hook = channel("webhook", { template: "{{wan}}: {{label}}" });
+    const d = new AlertDispatcher({ channels: [slack, hook], outboxPath: path.join(dir, "fanout.json"), log: quiet });
+
+    const jobs = await d.notify(alert());
+    await settle(d);
+
+    assert.equal(jobs.length, 2);
+    assert.deepEqual(slack.sent, ["Internet caiu (WAN_LINK_DOWN)"]);
+    assert.deepEqual(hook.sent, ["WAN: Internet caiu"]);
+    assert.deepEqual(d.outbox, []);
+    assert.deepEqual(await readJson(path.join(dir, "fanout.json")), []);
+  });
+
+  it("canal fora: job fica no outbox em disco com backoff e sai quando o envio passa", async () => {
+    const outboxPath = path.join(dir, "retry.json");
+    const slack = channel("slack", { failures: 2 });
+    const d = new AlertDispatcher({ channels: [slack], outboxPath, retryBaseMs: 60000, log: quiet });
+
+    await d.notify(alert());
+    await settle(d);
+    const [job] = d.outbox;
+    assert.equal(job.attempts, 1);
+    assert.match(job.lastError, /HTTP 503/);
+    assert.ok(job.nextAt > Date.now() + 50000, "espera o backoff antes de tentar de novo");
+    assert.equal((await readJson(outboxPath))[0].attempts, 1);
+
+    await d.drain();
+    assert.equal(slack.calls, 1, "antes do nextAt não tenta");
+
+    job.nextAt = 0;
+    await d.drain();
+    assert.equal(d.outbox[0].attempts, 2);
+    assert.equal(d.backoff(2), 120000);
+
+    d.outbox[0].nextAt = 0;
+    await d.drain();
+    assert.deepEqual(slack.sent, ["Internet caiu (WAN_LINK_DOWN)"]);
+    assert.deepEqual(await readJson(outboxPath), []);
+  });
+
+  it("desiste só de alerta mais velho que maxAgeMs; backoff limitado por retryMaxMs", async () => {
+    const d = new AlertDispatcher({
+      channels: [channel("slack", { failures: 99 })],
+      outboxPath: path.join(dir, "giveup.json"),
+      maxAgeMs: 60 * 60000,
+      retryBaseMs: 0,
+      retryMaxMs: 1000,
+      log: quiet,
+    });
+    await d.notify(alert());
+    await settle(d);
+    for (let i = 0; i < 30; i++) await d.drain();
+    assert.equal(d.outbox.length, 1, "número de tentativas não descarta o alerta");
+
+    d.outbox[0].createdAt = new Date(Date.now() - 61 * 60000).toISOString();
+    await d.drain();
+    assert.deepEqual(d.outbox, []);
+
+    assert.equal(new AlertDispatcher({ retryBaseMs: 400, retryMaxMs: 1000 }).backoff(5), 1000);
+  });
+
+  it("ordem por canal: job em backoff segura os seguintes do mesmo canal, não os dos outros", async () => {
+    const slack = channel("slack", { failures: 1 });
+    const hook = channel("webhook");
+    const d = new AlertDispatcher({ channels: [slack, hook], outboxPath: path.join(dir, "fifo.json"), retryBaseMs: 60000, log: quiet });
+
+    await d.notify(alert("Internet caiu"));
+    await settle(d);
+    await d.notify(alert("Internet voltou"));
+    await settle(d);
+    assert.deepEqual(slack.sent, [], "o retorno não sai antes da queda");
+    assert.deepEqual(hook.sent, ["Internet caiu (WAN_LINK_DOWN)", "Internet voltou (WAN_LINK_DOWN)"]);
+
+    d.outbox[0].nextAt = 0;
+    await d.drain();
+    assert.deepEqual(slack.sent, ["Internet caiu (WAN_LINK_DOWN)", "Internet voltou (WAN_LINK_DOWN)"]);
+    assert.deepEqual(d.outbox, []);
+  });
+
+  it("start reenvia o que ficou pendente no outbox de um boot anterior", async () => {
+    const outboxPath = path.join(dir, "boot.json");
+    const before = new AlertDispatcher({ channels: [channel("slack", { failures: 1 })], outboxPath, retryBaseMs: 60000, log: quiet });
+    await before.notify(alert("Instabilidade"));
+    await settle(before);
+
+    // backoff já vencido quando o processo volta
+    await writeJsonAtomic(outboxPath, (await readJson(outboxPath)).map((j) => ({ ...j, nextAt: 0 })));
+
+    const slack = channel("slack");
+    const d = new AlertDispatcher({ channels: [slack], outboxPath, log: quiet });
+    await d.start({ pollMs: 60000 });
+    await settle(d);
+    d.stop();
+
+    assert.deepEqual(slack.sent, ["Instabilidade (WAN_LINK_DOWN)"]);
+    assert.deepEqual(d.outbox, []);
+  });
+});
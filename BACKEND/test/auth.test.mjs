@@ -0,0 +1,99 @@
+// test/auth.test.mjs
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Auth, hashPassword, parseCookies, roleAllows, verifyPassword } from "../src/auth.mjs";
+
+const SECRET = "segredo-de-teste";
+
+function auth(opts = {}) {
+  return new Auth({
+    users: [
+      { username: "ana", password: hashPassword("s3nha"), role: "admin" },
+      { username: "bia", password: hashPassword("outra"), role: "viewer" },
+    ],
+    tokens: [{ name: "grafana", token: "token-fixo-para-integracoes-000", role: "viewer" }],
+    secret: SECRET,
+    ...opts,
+  });
+}
+
+describe("Auth", () => {
+  it("hash scrypt com salt: confere a senha certa e recusa a errada", () => {
+    const stored = hashPassword("s3nha");
+    assert.match(stored, /^scrypt\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    assert.notEqual(hashPassword("s3nha"), stored);
+    assert.equal(verifyPassword("s3nha", stored), true);
+    assert.equal(verifyPassword("S3nha", stored), false);
+    assert.equal(verifyPassword("x", "scrypt$sem-hash"), false);
+    assert.equal(verifyPassword("", ""), false);
+  });
+
+  it("senha em texto só vale com allowPlaintext", () => {
+    assert.equal(verifyPassword("s3nha", "s3nha"), false);
+    assert.equal(verifyPassword("s3nha", "s3nha", { allowPlaintext: true }), true);
+    assert.equal(verifyPassword("errada", "s3nha", { allowPlaintext: true }), false);
+
+    const users = [{ username: "lab", password: "s3nha", role: "viewer" }];
+    assert.equal(auth({ users }).login("lab", "s3nha"), null);
+    assert.ok(auth({ users, allowPlaintext: true }).login("lab", "s3nha"));
+  });
+
+  it("papéis: admin pode tudo, viewer só leitura, papel desconhecido nada", () => {
+    assert.equal(roleAllows("admin", "admin"), true);
+    assert.equal(roleAllows("admin"), true);
+    assert.equal(roleAllows("viewer", "admin"), false);
+    assert.equal(roleAllows("root", "viewer"), false);
+  });
+
+  it("login devolve token assinado; adulterado, expirado ou de usuário removido não vale", () => {
+    const a = auth();
+    const r = a.login("ana", "s3nha", { ip: "10.0.0.1" });
+    assert.deepEqual(r.user, { name: "ana", role: "admin" });
+    assert.deepEqual(a.verify(r.token), { name: "ana", role: "admin" });
+
+    const [body, sig] = r.token.split(".");
+    const forged = Buffer.from(JSON.stringify({ sub: "ana", exp: Date.now() + 1e9 })).toString("base64url");
+    assert.equal(a.verify(`${forged}.${sig}`), null);
+    assert.equal(auth({ secret: "outro-segredo" }).verify(r.token), null);
+    assert.equal(a.verify(`${body}.`), null);
+
+    const expired = auth({ ttlMs: -1 }).login("ana", "s3nha").token;
+    assert.equal(a.verify(expired), null);
+
+    a.users.delete("ana");
+    assert.equal(a.verify(r.token), null);
+    assert.deepEqual(a.verify("token-fixo-para-integracoes-000"), { name: "grafana", role: "viewer" });
+  });
+
+  it("bloqueia o IP após N falhas seguidas; login certo zera; a trava expira", () => {
+    const a = auth({ maxLoginFailures: 3, lockMs: 60000 });
+    for (let i = 0; i < 2; i++) assert.equal(a.login("ana", "errada", { ip: "10.0.0.9" }), null);
+    assert.equal(a.locked("10.0.0.9"), false);
+    assert.ok(a.login("ana", "s3nha", { ip: "10.0.0.9" }));
+
+    for (let i = 0; i < 3; i++) a.login("nao-existe", "x", { ip: "10.0.0.9" });
+    assert.equal(a.locked("10.0.0.9"), true);
+    assert.equal(a.locked("10.0.0.10"), false);
+
+    a.failures.get("10.0.0.9").until = Date.now() - 1;
+    assert.equal(a.locked("10.0.0.9"), false);
+    a.login("ana", "errada", { ip: "10.0.0.9" });
+    assert.equal(a.failures.get("10.0.0.9").count, 1);
+  });
+
+  it("token vem do Bearer ou do cookie, nessa ordem; nunca da URL", () => {
+    const a = auth();
+    assert.equal(a.tokenFrom({ headers: { authorization: "Bearer abc", cookie: "monitor_token=def" } }), "abc");
+    assert.equal(a.tokenFrom({ headers: { cookie: "x=1; monitor_token=d%3De" } }), "d=e");
+    assert.equal(a.tokenFrom({ headers: {}, query: { token: "ghi" } }), null);
+    assert.equal(a.tokenFrom({ headers: {} }), null);
+    assert.deepEqual(parseCookies("a=1; ;b = 2"), { a: "1", b: "2" });
+  });
+
+  it("cookie com %-encoding inválido conta como sem cookie, inclusive de outro app", () => {
+    const a = auth();
+    assert.equal(a.tokenFrom({ headers: { cookie: "monitor_token=abc%E0%A4%A" } }), null);
+    assert.equal(a.tokenFrom({ headers: { cookie: "outro=100%; monitor_token=def" } }), "def");
+    assert.deepEqual(parseCookies("outro=100%"), { outro: "100%" });
+  });
+});
@@ -0,0 +1,21 @@
+// test/channels.test.mjs
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { channelsFromConfig } from "../src/channels.mjs";
+
+describe("channelsFromConfig", () => {
+  it("só ativa os canais configurados, com o template de CONFIG.alertTemplates ou o padrão", () => {
+    const channels = channelsFromConfig({
+      alertSlackWebhook: "http://slack.invalid/hook",
+      alertWebhook: "http://hook.invalid/",
+      smtp: { host: "smtp.invalid", to: ["ti@escola"] },
+      alertTemplates: { slack: "{{label}}\n{{reason}}", email_subject: "[{{site}}] {{state}}", webhook: "" },
+    });
+    const by = Object.fromEntries(channels.map((c) => [c.name, c]));
+
+    assert.deepEqual(Object.keys(by).sort(), ["email", "slack", "webhook"]);
+    assert.equal(by.slack.template, "{{label}}\n{{reason}}");
+    assert.match(by.webhook.template, /\{\{label\}\} \| gateway=/);
+    assert.equal(by.email.subject, "[{{site}}] {{state}}");
+  });
+});
@@ -0,0 +1,178 @@
+// test/config.test.mjs
+// config.mjs lê o ambiente no import: cada cenário roda num processo filho com o env dele.
+import "./env.mjs";
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { hashPassword } from "../src/auth.mjs";
+import { CONFIG, validateSiteSettings } from "../src/config.mjs";
+import { ConfigOverrides } from "../src/overrides.mjs";
+import { Site } from "../src/sites.mjs";
+
+const CONFIG_URL = new URL("../src/config.mjs", import.meta.url).href;
+const run = promisify(execFile);
+
+// cwd vazio: nenhum .env do desenvolvedor é lido e DATA_DIR/LOG_DIR relativos caem aqui
+const cwd = await mkdtemp(path.join(os.tmpdir(), "config-"));
+after(() => rm(cwd, { recursive: true, force: true }));
+
+const BASE_ENV = {
+  PATH: process.env.PATH,
+  UNIFI_BASE_URL: "http://unifi.local",
+  UNIFI_API_KEY: "chave-global",
+  UNIFI_SITE_ID: "default",
+  AUTH_DISABLED: "1",
+  DATA_DIR: "dados",
+  LOG_DIR: "registros",
+};
+
+// devolve CONFIG.sites (só os campos pedidos) ou a mensagem de erro do import
+async function loadSites(env, fields) {
+  const script = `
+    try {
+      const { CONFIG } = await import(${JSON.stringify(CONFIG_URL)});
+      const pick = ${JSON.stringify(fields)};
+      console.log(JSON.stringify({ sites: CONFIG.sites.map((s) => Object.fromEntries(pick.map((k) => [k, s[k]]))) }));
+    } catch (e) {
+      console.log(JSON.stringify({ error: e.message }));
+    }`;
+  const { stdout } = await run(process.execPath, ["--input-type=module", "-e", script], {
+    cwd,
+    env: { ...BASE_ENV, ...env },
+    timeout: 10000,
+  });
+  return JSON.parse(stdout.trim().split("\n").at(-1));
+}
+
+describe("SITES", () => {
+  it("sem SITES: um site default com os caminhos de sempre", async () => {
+    const r = await loadSites({}, ["id", "dataDir", "logPath"]);
+    assert.equal(r.sites.length, 1);
+    assert.equal(r.sites[0].id, "default");
+    assert.equal(r.sites[0].dataDir, path.join(cwd, "dados"));
+  });
+
+  it("cada site com data/ e logs/ próprios; herda o .env e sobrescreve o que declarar", async () => {
+    const SITES = JSON.stringify([
+      { id: "escola-a", name: "Escola A" },
+      { id: "escola-b", siteId: "b1", unifiBaseUrl: "http://outra/", unifiApiKey: "chave-b", thresholds: { downAfterFails: 5 } },
+    ]);
+    const r = await loadSites({ SITES }, ["id", "name", "siteId", "unifiBaseUrl", "unifiApiKey", "thresholds", "dataDir", "logPath"]);
+    const [a, b] = r.sites;
+    assert.deepEqual([a.id, a.name, a.siteId, a.unifiBaseUrl, a.unifiApiKey], ["escola-a", "Escola A", "default", "http://unifi.local", "chave-global"]);
+    assert.deepEqual([b.name, b.siteId, b.unifiBaseUrl, b.unifiApiKey], ["escola-b", "b1", "http://outra", "chave-b"]);
+    assert.equal(b.thresholds.downAfterFails, 5);
+    assert.equal(a.dataDir, path.join(cwd, "dados", "sites", "escola-a"));
+    assert.notEqual(a.logPath, b.logPath);
+  });
+
+  it("id inválido ou repetido derruba a configuração", async () => {
+    const dup = await loadSites({ SITES: JSON.stringify([{ id: "a" }, { id: "a" }]) }, ["id"]);
+    assert.match(dup.error, /SITES\[1\]: id "a" duplicado/);
+    const bad = await loadSites({ SITES: JSON.stringify([{ id: "../x" }]) }, ["id"]);
+    assert.match(bad.error, /SITES\[0\]: id inválido/);
+  });
+
+  it("unifiLegacyPort de cada site é validado; sem ele vale o UNIFI_LEGACY_PORT", async () => {
+    const SITES = JSON.stringify([{ id: "a" }, { id: "b", unifiLegacyPort: "443" }]);
+    const r = await loadSites({ UNIFI_LEGACY_PORT: "8444", SITES }, ["unifiLegacyPort"]);
+    assert.deepEqual(r.sites.map((x) => x.unifiLegacyPort), [8444, 443]);
+    for (const port of ["abc", 70000, 0]) {
+      const bad = await loadSites({ SITES: JSON.stringify([{ id: "a", unifiLegacyPort: port }]) }, ["id"]);
+      assert.match(bad.error, /SITES\[0\] \(a\)\.unifiLegacyPort=".*": esperado inteiro entre 1 e 65535/);
+    }
+  });
+
+  it("MAX_HISTORY e ALLOW_SELF_SIGNED_TLS passam pelos mesmos validadores do resto do .env", async () => {
+    const bad = await loadSites({ MAX_HISTORY: "0", ALLOW_SELF_SIGNED_TLS: "talvez" }, ["id"]);
+    assert.match(bad.error, /MAX_HISTORY="0"/);
+    assert.match(bad.error, /ALLOW_SELF_SIGNED_TLS="talvez": use 1 ou 0/);
+  });
+});
+
+describe("AUTH_USERS", () => {
+  const env = (password, extra = {}) => ({
+    AUTH_DISABLED: "0",
+    AUTH_SECRET: "s".repeat(32),
+    AUTH_USERS: JSON.stringify([{ username: "ana", password, role: "admin" }]),
+    ...extra,
+  });
+
+  it("senha em texto derruba a configuração, a não ser com AUTH_ALLOW_PLAINTEXT_PASSWORDS=1", async () => {
+    const plain = await loadSites(env("s3nha"), ["id"]);
+    assert.match(plain.error, /AUTH_USERS\[0\] \(ana\): password precisa ser um hash scrypt/);
+    assert.equal((await loadSites(env("s3nha", { AUTH_ALLOW_PLAINTEXT_PASSWORDS: "1" }), ["id"])).error, undefined);
+    assert.equal((await loadSites(env(hashPassword("s3nha")), ["id"])).error, undefined);
+  });
+});
+
+describe("validateSiteSettings", () => {
+  it("patch parcial: só o que veio, normalizado", () => {
+    assert.deepEqual(validateSiteSettings("s", { intervalMs: "5000", probeQuorum: " Majority ", quality: { window: "1h" } }), {
+      intervalMs: 5000,
+      probeQuorum: "majority",
+      quality: { window: "1h" },
+    });
+    assert.deepEqual(validateSiteSettings("s", { probeQuorum: 2 }), { probeQuorum: "2" });
+  });
+
+  it("junta todos os problemas em details, com o rótulo do site", () => {
+    assert.throws(
+      () =>
+        validateSiteSettings("escola-a", {
+          intervalMs: 500,
+          probes: "x",
+          thresholds: { degradedAfterFails: 4, downAfterFails: 3, foo: 1 },
+          quality: { window: "2m" },
+        }),
+      (e) => {
+        assert.deepEqual(e.details, [
+          'escola-a.intervalMs="500": esperado inteiro entre 1000 e 3600000',
+          "escola-a.probes: esperado um array",
+          "escola-a.thresholds.foo: campo desconhecido",
+          'escola-a.quality.window="2m": use 1m/5m/1h',
+          "escola-a.thresholds: degradedAfterFails (4) maior que downAfterFails (3)",
+        ]);
+        return true;
+      }
+    );
+  });
+});
+
+describe("ajustes em runtime", () => {
+  it("reconfigure aplica sobre o config de boot, sem acumular; limiares conflitantes não mudam nada", () => {
+    const site = new Site({ ...CONFIG.sites[0], dataDir: path.join(cwd, "site"), logPath: path.join(cwd, "site", "events.log") });
+    const boot = site.settings();
+
+    site.reconfigure({ probeQuorum: "all", thresholds: { okAfterSucc: 3 } });
+    assert.deepEqual([site.monitor.probeQuorum, site.monitor.okAfterSucc], ["all", 3]);
+    assert.equal(site.settings().thresholds.downAfterFails, boot.thresholds.downAfterFails);
+
+    site.reconfigure({ intervalMs: 5000 });
+    assert.deepEqual([site.settings().probeQuorum, site.settings().intervalMs], [boot.probeQuorum, 5000]);
+
+    assert.throws(() => site.reconfigure({ thresholds: { degradedAfterFails: 99 } }), /degradedAfterFails maior/);
+    assert.equal(site.settings().intervalMs, 5000);
+
+    site.reconfigure({});
+    assert.deepEqual(site.settings(), boot);
+  });
+
+  it("overrides persistidos por site e relidos no boot", async () => {
+    const file = path.join(cwd, "config-overrides.json");
+    const saved = new ConfigOverrides({ path: file });
+    await saved.set("escola-a", { intervalMs: 5000 }, { by: "admin" });
+    await saved.set("escola-b", { probeQuorum: "all" });
+    await saved.clear("escola-b");
+
+    const boot = new ConfigOverrides({ path: file });
+    assert.equal(await boot.load(), 1);
+    assert.deepEqual(boot.get("escola-a").settings, { intervalMs: 5000 });
+    assert.equal(boot.get("escola-a").updatedBy, "admin");
+    assert.equal(boot.get("escola-b"), null);
+  });
+});
@@ -0,0 +1,77 @@
+// test/devices.test.mjs
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DeviceTracker, deviceKind, deviceOnline } from "../src/devices.mjs";
+
+const T0 = Date.parse("2026-03-02T10:00:00.000Z");
+const at = (min) => new Date(T0 + min * 60000).toISOString();
+
+const dev = (id, state, extra = {}) => ({ id, name: `Dev ${id}`, state, ...extra });
+const gw = (state) => dev("gw", state, { type: "gateway", model: "UDM-Pro", ipAddress: "10.0.0.1" });
+const ap = (state) => dev("ap", state, { features: ["accessPoint"], model: "U6-Lite", macAddress: "aa:bb" });
+const sw = (state) => dev("sw", state, { features: ["switching"], model: "USW-24" });
+
+describe("DeviceTracker", () => {
+  it("tipo pelo type/features/modelo; estados transitórios não são online nem offline", () => {
+    assert.deepEqual(
+      [gw(), ap(), sw(), { model: "USG-Pro-4" }, { type: "uap" }, {}].map(deviceKind),
+      ["gateway", "ap", "switch", "gateway", "ap", "other"]
+    );
+    assert.deepEqual(["ONLINE", "isolated", "UPDATING", undefined].map((state) => deviceOnline({ state })), [true, false, null, null]);
+  });
+
+  it("primeira leitura só estabelece a referência; offline depois de N leituras seguidas", () => {
+    const t = new DeviceTracker({ offlineAfterTicks: 2 });
+    let r = t.update([gw("ONLINE"), ap("ONLINE"), sw("OFFLINE")], { ts: at(0) });
+    assert.deepEqual(r.events, []);
+    assert.deepEqual(r.devices.map((d) => [d.id, d.kind, d.status]), [
+      ["gw", "gateway", "ONLINE"],
+      ["ap", "ap", "ONLINE"],
+      ["sw", "switch", "OFFLINE"],
+    ]);
+
+    // reboot rápido: uma leitura offline não alarma
+    r = t.update([gw("ONLINE"), ap("OFFLINE"), sw("OFFLINE")], { ts: at(1) });
+    assert.deepEqual(r.events, []);
+    r = t.update([gw("ONLINE"), ap("ONLINE"), sw("OFFLINE")], { ts: at(2) });
+    assert.deepEqual(r.events, []);
+
+    t.update([gw("ONLINE"), ap("OFFLINE"), sw("OFFLINE")], { ts: at(3) });
+    r = t.update([gw("ONLINE"), ap("OFFLINE"), sw("OFFLINE")], { ts: at(4) });
+    assert.deepEqual(r.events.map((e) => [e.kind, e.device.id, e.prev, e.next]), [["DEVICE_DOWN", "ap", "ONLINE", "OFFLINE"]]);
+    assert.equal(t.devices.get("ap").since, at(4));
+    assert.equal(t.devices.get("ap").lastSeen, at(2));
+
+    // atualizando: mantém o estado, sem evento
+    r = t.update([gw("ONLINE"), ap("UPDATING"), sw("ONLINE")], { ts: at(5) });
+    assert.deepEqual(r.events.map((e) => [e.kind, e.device.id]), [["DEVICE_UP", "sw"]]);
+    assert.equal(t.devices.get("ap").status, "OFFLINE");
+    assert.deepEqual(t.events.map((e) => e.kind), ["DEVICE_UP", "DEVICE_DOWN"]);
+  });
+
+  it("device removido da controladora sai do inventário; lista inválida não mexe em nada", () => {
+    const t = new DeviceTracker();
+    t.update([gw("ONLINE"), ap("ONLINE")]);
+    assert.equal(t.update(null).devices.length, 2);
+    assert.deepEqual(t.update([gw("ONLINE")]).devices.map((d) => d.id), ["gw"]);
+  });
+
+  it("query: filtros por tipo, estado e texto; offline primeiro", () => {
+    const t = new DeviceTracker({ offlineAfterTicks: 1 });
+    t.update([gw("ONLINE"), ap("ONLINE"), sw("ONLINE")]);
+    t.update([gw("ONLINE"), ap("ONLINE"), sw("OFFLINE")]);
+
+    const all = t.query();
+    assert.deepEqual(all.devices.map((d) => d.id), ["sw", "gw", "ap"]);
+    assert.deepEqual(all.summary, {
+      total: 3,
+      online: 2,
+      offline: 1,
+      byKind: { gateway: { total: 1, offline: 0 }, ap: { total: 1, offline: 0 }, switch: { total: 1, offline: 1 } },
+    });
+    assert.deepEqual(t.query({ kind: "ap" }).devices.map((d) => d.id), ["ap"]);
+    assert.deepEqual(t.query({ status: "online" }).devices.map((d) => d.id), ["gw", "ap"]);
+    assert.deepEqual(t.query({ q: "AA:BB" }).devices.map((d) => d.id), ["ap"]);
+    assert.deepEqual(t.query({ q: "10.0.0" }).devices.map((d) => d.id), ["gw"]);
+  });
+});
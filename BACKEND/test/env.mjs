@@ -0,0 +1,11 @@
+// test/env.mjs
+// config.mjs valida o ambiente no import: importar isto antes de qualquer módulo de src/
+// (valores mínimos; cada teste monta o config do site apontando para a controladora fake)
+const defaults = {
+  UNIFI_BASE_URL: "http://127.0.0.1:9",
+  UNIFI_API_KEY: "fake-api-key",
+  UNIFI_SITE_ID: "default",
+  AUTH_DISABLED: "1",
+  PROBE_TIMEOUT_MS: "1000",
+};
+for (const [k, v] of Object.entries(defaults)) process.env[k] ??= v;
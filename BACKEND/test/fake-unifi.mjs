@@ -0,0 +1,353 @@
+// test/fake-unifi.mjs
+// Controladora UniFi de mentira (integration API, v2 wan/networkgroups, login UniFi OS/legacy + stat/*) e alvo de probe.
+// Usada pelos testes e, à mão, para rodar o monitor sem gateway: node test/fake-unifi.mjs --scenario flapping
+import http from "node:http";
+import { pathToFileURL } from "node:url";
+
+export const API_KEY = "fake-api-key";
+export const USERNAME = "admin";
+export const PASSWORD = "fake-password";
+
+/**
+ * Variações de payload por firmware (o que readWanUp / readWanStatusFromGroups / pickGateway precisam entender):
+ *  - gateway: como o gateway aparece no integration API (type, model USG*, productLine)
+ *  - wanField: onde vem o link da WAN no device (interfaces.ports, uplink, porta com role/status, nenhum)
+ *  - groups: formato do v2 wan/networkgroups (status string, flags, uptime %, envelopes, sem v2)
+ */
+export const FIRMWARES = {
+  // USG-Pro-4 no integration API: sem type, WAN pelas portas
+  usg: { gateway: "usg", wanField: "ports", groups: "status" },
+  // UDM: productLine "gateway", uplink.up, grupos com flags e active explícito em { data }
+  udm: { gateway: "product-line", wanField: "uplink", groups: "flags" },
+  // UXG: type "gateway", porta com role/status string, grupos com uptime % em { wan_network_groups }
+  uxg: { gateway: "typed", wanField: "port-status", groups: "uptime" },
+  // firmware antigo: v2 só responde em site "default" (siteId UUID no integration API)
+  "v2-default-only": { gateway: "usg", wanField: "ports", groups: "status", v2DefaultOnly: true },
+  // sem v2 e sem campo de WAN no device: estado vem só dos probes
+  "no-v2": { gateway: "typed", wanField: "none", groups: "missing" },
+};
+
+// up: null = controladora sem veredito sobre o link
+function portStatus(up) {
+  return up == null ? "unknown" : up ? "up" : "down";
+}
+
+// WAN que carrega o tráfego: a de menor prioridade com link (igual ao failover do gateway)
+function activeWan(wans) {
+  return [...wans].filter((w) => w.up).sort((a, b) => a.priority - b.priority)[0] ?? null;
+}
+
+export class FakeUnifi {
+  constructor({ siteId = "default", firmware = "usg", apiKey = API_KEY, username = USERNAME, password = PASSWORD } = {}) {
+    this.siteId = siteId;
+    this.apiKey = apiKey;
+    this.username = username;
+    this.password = password;
+    this.setFirmware(firmware);
+
+    this.wans = [
+      { id: "WAN", name: "Fibra", up: true, priority: 1 },
+      { id: "WAN2", name: "4G", up: true, priority: 2, mobile: true },
+    ];
+    this.devices = [
+      { id: "ap-1", name: "AP Sala 1", model: "U6-LR", kind: "ap", online: true },
+      { id: "ap-2", name: "AP Biblioteca", model: "U6-Lite", kind: "ap", online: true },
+      { id: "sw-1", name: "Switch Bloco B", model: "USW-Lite-16-PoE", kind: "switch", online: true },
+    ];
+
+    // falhas programadas: [{ match: RegExp, status, times }] (times = Infinity até clearFaults)
+    this.faults = [];
+    this.sessions = new Set();
+    this.requests = []; // { method, path } de tudo que chegou (asserts de login/retry)
+    this.server = null;
+    this.url = null;
+  }
+
+  setFirmware(name) {
+    if (!FIRMWARES[name]) throw new Error(`firmware desconhecido: ${name}`);
+    this.firmwareName = name;
+    this.firmware = FIRMWARES[name];
+  }
+
+  setWan(id, patch) {
+    const w = this.wans.find((x) => x.id === id);
+    if (!w) throw new Error(`WAN desconhecida: ${id}`);
+    Object.assign(w, patch);
+  }
+
+  setDevice(id, patch) {
+    const d = this.devices.find((x) => x.id === id);
+    if (!d) throw new Error(`device desconhecido: ${id}`);
+    Object.assign(d, patch);
+  }
+
+  // erro HTTP nas próximas `times` requests cujo path casa com `match` (padrão: toda a API, menos login)
+  fail({ status = 500, match = /^\/(proxy|api\/s|api\/self)/, times = Infinity } = {}) {
+    this.faults.push({ status, match, times });
+  }
+
+  clearFaults() {
+    this.faults = [];
+  }
+
+  // derruba as sessões: a próxima request com cookie recebe 401 (UnifiApi refaz o login)
+  expireSessions() {
+    this.sessions.clear();
+  }
+
+  count(pattern) {
+    return this.requests.filter((r) => pattern.test(`${r.method} ${r.path}`)).length;
+  }
+
+  // -------------------- payloads --------------------
+  gatewayDevice() {
+    const { gateway, wanField } = this.firmware;
+    const up = this.wans[0].up;
+    const gw = { id: "gw-1", name: "Gateway Escola", macAddress: "aa:bb:cc:00:00:01", ipAddress: "10.0.0.1", state: "ONLINE" };
+
+    if (gateway === "usg") Object.assign(gw, { model: "USG-Pro-4", name: "USG-Pro-4" });
+    if (gateway === "product-line") Object.assign(gw, { model: "UDM-Pro", productLine: "gateway" });
+    if (gateway === "typed") Object.assign(gw, { model: "UXG-Lite", type: "gateway" });
+
+    if (wanField === "ports") {
+      gw.interfaces = { ports: [{ idx: 1, name: "LAN", up: true }, ...this.wans.map((w, i) => ({ idx: 9 + i, name: `WAN${i + 1}`, up: w.up }))] };
+    }
+    if (wanField === "uplink") gw.uplink = { up };
+    if (wanField === "port-status") gw.interfaces = { ports: [{ idx: 5, role: "wan", status: portStatus(up) }] };
+    return gw;
+  }
+
+  integrationDevices() {
+    return [
+      this.gatewayDevice(),
+      ...this.devices.map((d) => ({
+        id: d.id,
+        name: d.name,
+        model: d.model,
+        macAddress: `aa:bb:cc:00:01:${d.id.slice(-1).padStart(2, "0")}`,
+        state: d.online ? "ONLINE" : "OFFLINE",
+        features: d.kind === "ap" ? ["accessPoint"] : ["switching"],
+      })),
+    ];
+  }
+
+  wanGroups() {
+    const active = activeWan(this.wans);
+    const groups = this.wans.map((w) => {
+      const g = { id: w.id, name: w.name, priority: w.priority, is_mobile_broadband: Boolean(w.mobile) };
+      if (this.firmware.groups === "status") g.status = portStatus(w.up);
+      if (this.firmware.groups === "flags") Object.assign(g, { up: w.up, active: w === active });
+      if (this.firmware.groups === "uptime") Object.assign(g, { uptime: w.up ? 99.9 : 0, port_info: { disabled: false } });
+      return g;
+    });
+    if (this.firmware.groups === "flags") return { data: groups };
+    if (this.firmware.groups === "uptime") return { wan_network_groups: groups };
+    return groups;
+  }
+
+  // stat/device da controladora antiga (ugw com wan1/wan2 + uplink.ifname da WAN ativa)
+  legacyDevices() {
+    const active = activeWan(this.wans);
+    const ports = Object.fromEntries(
+      this.wans.map((w, i) => [`wan${i + 1}`, { name: `wan${i ? i + 1 : ""}`, ifname: `eth${2 + i}`, up: w.up }])
+    );
+    return [
+      {
+        _id: "gw-1",
+        type: "ugw",
+        model: "UGW4",
+        name: "USG-Pro-4",
+        ip: "10.0.0.1",
+        mac: "aa:bb:cc:00:00:01",
+        state: 1,
+        ...ports,
+        uplink: { ifname: active ? `eth${2 + this.wans.indexOf(active)}` : null, up: Boolean(active) },
+      },
+      ...this.devices.map((d) => ({
+        _id: d.id,
+        type: d.kind === "ap" ? "uap" : "usw",
+        model: d.model,
+        name: d.name,
+        mac: `aa:bb:cc:00:01:${d.id.slice(-1).padStart(2, "0")}`,
+        state: d.online ? 1 : 0,
+        num_sta: d.kind === "ap" ? 10 : undefined,
+      })),
+    ];
+  }
+
+  legacyHealth() {
+    return [{ subsystem: "wan", status: this.wans.some((w) => w.up) ? "ok" : "error" }];
+  }
+
+  // -------------------- HTTP --------------------
+  handle(req, res, body) {
+    const url = new URL(req.url, "http://fake");
+    const p = url.pathname;
+    this.requests.push({ method: req.method, path: p });
+
+    const send = (status, obj, headers = {}) => {
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify(obj));
+    };
+    const meta = (data) => ({ meta: { rc: "ok" }, data });
+
+    // logins (UniFi OS e legacy)
+    if (req.method === "POST" && (p === "/api/auth/login" || p === "/api/login")) {
+      let creds = {};
+      try {
+        creds = JSON.parse(body || "{}");
+      } catch {
+        // corpo inválido = credencial errada
+      }
+      if (creds.username !== this.username || creds.password !== this.password) {
+        return send(p === "/api/login" ? 400 : 401, { meta: { rc: "error", msg: "api.err.Invalid" } });
+      }
+      const sid = `s${this.sessions.size + 1}-${Date.now()}`;
+      this.sessions.add(sid);
+      const cookie = p === "/api/login" ? `unifises=${sid}; Path=/; HttpOnly` : `TOKEN=${sid}; Path=/; HttpOnly`;
+      return send(200, meta([]), { "Set-Cookie": cookie, "X-CSRF-Token": "fake-csrf" });
+    }
+
+    const fault = this.faults.find((f) => f.times > 0 && f.match.test(p));
+    if (fault) {
+      fault.times -= 1;
+      return send(fault.status, { error: "fake_fault" });
+    }
+
+    // autenticação: X-API-KEY nos endpoints integration/v2, cookie de sessão no resto
+    const cookie = String(req.headers.cookie ?? "");
+    const sid = cookie.match(/(?:TOKEN|unifises)=([^;]+)/)?.[1];
+    const apiKeyOk = req.headers["x-api-key"] === this.apiKey;
+    if (!apiKeyOk && !(sid && this.sessions.has(sid))) return send(401, { meta: { rc: "error", msg: "api.err.LoginRequired" } });
+
+    let m;
+    if ((m = p.match(/^\/proxy\/network\/integration\/v1\/sites\/([^/]+)\/devices$/))) {
+      if (m[1] !== this.siteId) return send(404, { error: "site_not_found" });
+      const all = this.integrationDevices();
+      const limit = Number(url.searchParams.get("limit") ?? 25);
+      const offset = Number(url.searchParams.get("offset") ?? 0);
+      return send(200, { offset, limit, count: Math.min(limit, all.length - offset), totalCount: all.length, data: all.slice(offset, offset + limit) });
+    }
+    if ((m = p.match(/^\/proxy\/network\/integration\/v1\/sites\/([^/]+)\/clients$/))) return send(200, { data: [] });
+    if ((m = p.match(/^\/proxy\/network\/integration\/v1\/sites\/([^/]+)\/devices\/[^/]+\/statistics\/latest$/))) return send(200, {});
+
+    if ((m = p.match(/^\/proxy\/network\/v2\/api\/site\/([^/]+)\/wan\/networkgroups$/))) {
+      if (this.firmware.groups === "missing") return send(404, { error: "not_found" });
+      if (this.firmware.v2DefaultOnly && m[1] !== "default") return send(400, { error: "api.err.InvalidSite" });
+      if (!this.firmware.v2DefaultOnly && m[1] !== this.siteId) return send(404, { error: "site_not_found" });
+      return send(200, this.wanGroups());
+    }
+
+    // clássicos: /api/s/<site>/... (legacy) ou /proxy/network/api/s/<site>/... (UniFi OS)
+    if ((m = p.match(/^(?:\/proxy\/network)?\/api\/s\/([^/]+)\/stat\/(device|health)$/))) {
+      if (m[1] !== this.siteId) return send(400, { meta: { rc: "error", msg: "api.err.NoSiteContext" } });
+      return send(200, meta(m[2] === "device" ? this.legacyDevices() : this.legacyHealth()));
+    }
+    if (/^(?:\/proxy\/network)?\/api\/self\/sites$/.test(p)) return send(200, meta([{ name: this.siteId, desc: "Escola" }]));
+
+    return send(404, { error: "not_found" });
+  }
+
+  async start({ port = 0, host = "127.0.0.1" } = {}) {
+    this.server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (c) => (body += c));
+      req.on("end", () => this.handle(req, res, body));
+    });
+    await new Promise((resolve) => this.server.listen(port, host, resolve));
+    this.url = `http://${host}:${this.server.address().port}`;
+    return this.url;
+  }
+
+  async stop() {
+    if (!this.server) return;
+    this.server.closeAllConnections?.();
+    await new Promise((resolve) => this.server.close(resolve));
+    this.server = null;
+  }
+}
+
+/**
+ * Alvo dos probes HTTP: 204 quando "ok", 503 quando "fail".
+ * sequence(["ok", "fail", ...]) responde na ordem e repete o último (flapping determinístico por tick).
+ */
+export class FakeProbeTarget {
+  constructor() {
+    this.mode = "ok";
+    this.queue = [];
+    this.hits = 0;
+    this.server = null;
+    this.url = null;
+  }
+
+  set(mode) {
+    this.queue = [];
+    this.mode = mode;
+  }
+
+  sequence(modes) {
+    this.queue = [...modes];
+  }
+
+  next() {
+    if (this.queue.length) this.mode = this.queue.shift();
+    return this.mode;
+  }
+
+  async start({ port = 0, host = "127.0.0.1" } = {}) {
+    this.server = http.createServer((req, res) => {
+      this.hits += 1;
+      res.writeHead(this.next() === "ok" ? 204 : 503);
+      res.end();
+    });
+    await new Promise((resolve) => this.server.listen(port, host, resolve));
+    this.url = `http://${host}:${this.server.address().port}/generate_204`;
+    return this.url;
+  }
+
+  async stop() {
+    if (!this.server) return;
+    this.server.closeAllConnections?.();
+    await new Promise((resolve) => this.server.close(resolve));
+    this.server = null;
+  }
+}
+
+/**
+ * Roteiros para rodar à mão: mudam o estado da fake a cada `stepMs`.
+ *  - link-down: WAN principal cai (failover para o 4G) e volta depois de 6 passos
+ *  - flapping:  probe alterna ok/fail a cada passo
+ *  - controller-500: controladora responde 500 por 5 passos, probes seguem ok
+ */
+export const SCENARIOS = {
+  "link-down": (fake, probe, i) => fake.setWan("WAN", { up: i % 12 >= 6 }),
+  flapping: (fake, probe, i) => probe.set(i % 2 ? "fail" : "ok"),
+  "controller-500": (fake, probe, i) => {
+    fake.clearFaults();
+    if (i % 10 < 5) fake.fail({ status: 500 });
+  },
+};
+
+// node test/fake-unifi.mjs [--port 3397] [--probe-port 3398] [--firmware usg] [--scenario link-down] [--step-ms 5000]
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  const args = Object.fromEntries(
+    process.argv.slice(2).reduce((acc, a, i, all) => (a.startsWith("--") ? [...acc, [a.slice(2), all[i + 1]]] : acc), [])
+  );
+  const fake = new FakeUnifi({ firmware: args.firmware ?? "usg", siteId: args.site ?? "default" });
+  const probe = new FakeProbeTarget();
+  await fake.start({ port: Number(args.port ?? 3397) });
+  await probe.start({ port: Number(args["probe-port"] ?? 3398) });
+
+  const scenario = args.scenario ? SCENARIOS[args.scenario] : null;
+  if (args.scenario && !scenario) {
+    console.error(`cenário desconhecido: ${args.scenario} (${Object.keys(SCENARIOS).join(", ")})`);
+    process.exit(1);
+  }
+  if (scenario) {
+    let i = 0;
+    setInterval(() => scenario(fake, probe, i++), Number(args["step-ms"] ?? 5000));
+  }
+
+  console.log(`UNIFI_BASE_URL=${fake.url} UNIFI_API_KEY=${fake.apiKey} UNIFI_SITE_ID=${fake.siteId} PROBE_URLS=${probe.url}`);
+  console.log(`(sessão: UNIFI_USERNAME=${fake.username} UNIFI_PASSWORD=${fake.password})`);
+}
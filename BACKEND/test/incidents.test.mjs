@@ -0,0 +1,154 @@
+// test/incidents.test.mjs
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { setImmediate as tick } from "node:timers/promises";
+import { IncidentTracker } from "../src/incidents.mjs";
+import { readJson } from "../src/jsonfile.mjs";
+import { ackSilenced } from "../src/alerts.mjs";
+
+// tracker em memória com um incidente aberto (DOWN) e outro já fechado
+function tracker() {
+  const t = new IncidentTracker();
+  const events = [];
+  t.onChange = (e) => events.push(e.type);
+  t.observe({ ts: "2026-03-02T10:00:00.000Z", state: "DOWN", reason: "WAN_LINK_DOWN" });
+  t.observe({ ts: "2026-03-02T10:05:00.000Z", state: "OK" });
+  t.observe({ ts: "2026-03-02T11:00:00.000Z", state: "DEGRADED", reason: "PROBE_DEGRADED" });
+  events.length = 0;
+  return { t, events, open: t.current, closed: t.incidents[1] };
+}
+
+describe("IncidentTracker: ações do operador", () => {
+  it("triage reconhece, atribui e classifica; só o que mudou conta", async () => {
+    const { t, events, open } = tracker();
+    const r = await t.triage(open.id, { acknowledged: true, assignee: " Ana ", rootCause: "isp" }, { by: "admin" });
+    assert.deepEqual(r.changes, ["acknowledged", "assigned", "root_cause"]);
+    assert.equal(open.ack.by, "admin");
+    assert.equal(open.assignee.name, "Ana");
+    assert.equal(open.rootCause, "ISP");
+    assert.deepEqual(events, ["updated"]);
+
+    const again = await t.triage(open.id, { acknowledged: true, assignee: "Ana" }, { by: "outro" });
+    assert.deepEqual(again.changes, []);
+    assert.equal(open.ack.by, "admin");
+    assert.equal(events.length, 1);
+
+    assert.equal(await t.triage("nao-existe", { acknowledged: true }), null);
+  });
+
+  it("triage e notas inválidas: erro com details, nada muda", async () => {
+    const { t, open } = tracker();
+    await assert.rejects(t.triage(open.id, { acknowledged: "sim", rootCause: "ALIENS", extra: 1 }), (e) => {
+      assert.equal(e.details.length, 3);
+      return true;
+    });
+    await assert.rejects(t.addNote(open.id, { text: "   " }), /text: obrigatório/);
+    assert.equal(open.ack, null);
+    assert.deepEqual(open.notes, []);
+  });
+
+  it("notas com data e autor; filtros por reconhecimento e causa raiz", async () => {
+    const { t, open, closed } = tracker();
+    await t.addNote(open.id, { text: "Chamado #123 na operadora", by: "ana", ts: "2026-03-02T11:10:00.000Z" });
+    assert.deepEqual(
+      open.notes.map(({ ts, by, text }) => ({ ts, by, text })),
+      [{ ts: "2026-03-02T11:10:00.000Z", by: "ana", text: "Chamado #123 na operadora" }]
+    );
+
+    await t.triage(closed.id, { rootCause: "POWER" });
+    await t.triage(open.id, { acknowledged: true });
+    assert.deepEqual(t.query({ acknowledged: true }).incidents.map((i) => i.id), [open.id]);
+    assert.deepEqual(t.query({ rootCause: "power" }).incidents.map((i) => i.id), [closed.id]);
+    assert.deepEqual(t.query({ rootCause: "none" }).incidents.map((i) => i.id), [open.id]);
+  });
+
+  it("reconhecido e aberto silencia queda/instabilidade/failover, não o retorno", async () => {
+    const { t, open } = tracker();
+    assert.equal(ackSilenced(open, "DOWN"), false);
+    await t.triage(open.id, { acknowledged: true });
+    assert.equal(ackSilenced(open, "DOWN"), true);
+    assert.equal(ackSilenced(open), true);
+    assert.equal(ackSilenced(open, "OK"), false);
+
+    t.observe({ ts: "2026-03-02T11:30:00.000Z", state: "OK" });
+    assert.equal(ackSilenced(open, "DOWN"), false);
+    assert.equal(ackSilenced(t.current, "DOWN"), false);
+  });
+});
+
+describe("IncidentTracker: pareamento queda/retorno", () => {
+  it("abre no primeiro tick ruim, guarda o pior estado e fecha no OK com a duração", () => {
+    const t = new IncidentTracker();
+    const events = [];
+    t.onChange = (e) => events.push(e.type);
+    const wan = { id: "WAN", name: "Fibra", network_id: "n1" };
+
+    assert.equal(t.observe({ ts: "2026-03-02T09:59:00.000Z", state: "OK" }), null);
+    const first = { ts: "2026-03-02T10:00:00.000Z", state: "DEGRADED", reason: "PROBE_DEGRADED", probe: { ok: true, ms: 300 } };
+    t.observe(first);
+    t.observe({ ts: "2026-03-02T10:01:00.000Z", state: "DOWN", reason: "WAN_LINK_DOWN", wan, probe: { ok: false } });
+    t.observe({ ts: "2026-03-02T10:02:00.000Z", state: "DEGRADED", reason: "PROBE_DEGRADED", probe: { ok: true, ms: 120 } });
+    const inc = t.current;
+    assert.equal(first.incidentId, inc.id);
+    assert.equal(inc.worstState, "DOWN");
+    assert.equal(inc.reason, "WAN_LINK_DOWN");
+    assert.deepEqual(inc.wan, wan);
+    assert.deepEqual(inc.probe, { minMs: 120, maxMs: 300, failures: 1 });
+
+    const r = t.observe({ ts: "2026-03-02T10:04:00.000Z", state: "OK" });
+    assert.equal(r.type, "closed");
+    assert.equal(t.current, null);
+    assert.equal(inc.end, "2026-03-02T10:04:00.000Z");
+    assert.equal(inc.durationMs, 4 * 60000);
+    assert.equal(inc.ticks, 4);
+    assert.deepEqual(events, ["opened", "updated", "closed"]);
+
+    // próximo problema é outro incidente
+    t.observe({ ts: "2026-03-02T11:00:00.000Z", state: "DOWN", reason: "PROBE_DOWN" });
+    assert.equal(t.incidents.length, 2);
+    assert.notEqual(t.current.id, inc.id);
+  });
+
+  it("buraco sem ticks conta como monitor fora; tick em manutenção marca o incidente", () => {
+    const t = new IncidentTracker({ gapMs: 5 * 60000 });
+    t.observe({ ts: "2026-03-02T10:00:00.000Z", state: "DOWN", reason: "WAN_LINK_DOWN" });
+    t.observe({ ts: "2026-03-02T10:01:00.000Z", state: "DOWN" });
+    assert.equal(t.current.maintenance, false);
+    t.observe({ ts: "2026-03-02T10:21:00.000Z", state: "DOWN", maintenance: [{ id: "m1", wanId: null }] });
+    t.observe({ ts: "2026-03-02T10:22:00.000Z", state: "OK" });
+    const inc = t.incidents[0];
+    assert.equal(inc.unmonitoredMs, 20 * 60000);
+    assert.equal(inc.maintenance, true);
+  });
+
+  it("manutenção só de outra WAN não marca o incidente", () => {
+    const t = new IncidentTracker();
+    t.observe({ ts: "2026-03-02T10:00:00.000Z", state: "DOWN", activeWanId: "WAN", maintenance: [{ id: "m1", wanId: "WAN2" }] });
+    assert.equal(t.current.maintenance, false);
+  });
+
+  it("persistido em JSON: restart no meio da queda retoma o incidente aberto", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "incidents-"));
+    try {
+      const file = path.join(dir, "incidents.json");
+      // abrir/fechar grava em segundo plano: espera o arquivo refletir o incidente
+      const saved = async () => (await readJson(file, []))[0] ?? {};
+      const a = new IncidentTracker({ path: file });
+      a.observe({ ts: "2026-03-02T10:00:00.000Z", state: "DOWN", reason: "WAN_LINK_DOWN" });
+      while (!(await saved()).id) await tick();
+
+      const b = new IncidentTracker({ path: file });
+      assert.equal(await b.load(), 1);
+      assert.equal(b.current.id, a.current.id);
+      const r = b.observe({ ts: "2026-03-02T10:30:00.000Z", state: "OK" });
+      assert.equal(r.type, "closed");
+      assert.equal(r.incident.durationMs, 30 * 60000);
+      while (!(await saved()).end) await tick();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
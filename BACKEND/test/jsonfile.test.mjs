@@ -0,0 +1,38 @@
+// test/jsonfile.test.mjs
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { readJson, writeJsonAtomic } from "../src/jsonfile.mjs";
+
+const dir = await mkdtemp(path.join(os.tmpdir(), "jsonfile-"));
+after(() => rm(dir, { recursive: true, force: true }));
+
+describe("writeJsonAtomic", () => {
+  it("gravações concorrentes no mesmo arquivo: nenhuma falha, vale a última e não sobra .tmp", async () => {
+    const file = path.join(dir, "sub", "state.json");
+    const data = { n: 0, items: [] };
+    const writes = [];
+    for (let i = 1; i <= 20; i++) {
+      data.n = i;
+      data.items.push(i);
+      writes.push(writeJsonAtomic(file, data));
+    }
+    await Promise.all(writes);
+
+    assert.deepEqual(await readJson(file), { n: 20, items: Array.from({ length: 20 }, (_, i) => i + 1) });
+    assert.deepEqual(await readdir(path.dirname(file)), ["state.json"]);
+  });
+
+  it("gravação que falha rejeita, não deixa .tmp e não trava as seguintes", async () => {
+    const file = path.join(dir, "busy.json");
+    await mkdir(file); // rename por cima de um diretório falha
+    await assert.rejects(writeJsonAtomic(file, { a: 1 }));
+    assert.deepEqual(await readdir(dir).then((names) => names.filter((n) => n.endsWith(".tmp"))), []);
+
+    await rm(file, { recursive: true });
+    await writeJsonAtomic(file, { ok: true });
+    assert.deepEqual(await readJson(file), { ok: true });
+  });
+});
@@ -0,0 +1,177 @@
+// test/logger.test.mjs
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { EventLog, logEventsToCsv } from "../src/logger.mjs";
+
+const root = await mkdtemp(path.join(os.tmpdir(), "eventlog-"));
+after(() => rm(root, { recursive: true, force: true }));
+
+const ts = "2026-03-02T10:00:00.000Z";
+const texts = async (log) => (await log.readTail({ limit: 100 })).lines.map((l) => l.text);
+
+describe("EventLog: rotação", () => {
+  it("rotaciona por tamanho em .gz e as leituras atravessam os arquivos", async () => {
+    const dir = path.join(root, "ok");
+    const log = new EventLog({ path: path.join(dir, "internet-events.log"), maxBytes: 1 });
+    for (const text of ["a", "b", "c"]) await log.append({ ts, text });
+
+    assert.deepEqual((await log.listArchives()).map((a) => a.name), [
+      "internet-events.2026-03-02.1.log.gz",
+      "internet-events.2026-03-02.2.log.gz",
+    ]);
+    assert.deepEqual(await texts(log), ["a", "b", "c"]);
+  });
+
+  it("gzip falha: as linhas voltam para o arquivo ativo, o erro aparece e a próxima rotação funciona", async (t) => {
+    const dir = path.join(root, "fail");
+    const log = new EventLog({ path: path.join(dir, "internet-events.log"), maxBytes: 1 });
+    const errors = t.mock.method(console, "error", () => {});
+
+    await log.append({ ts, text: "a" });
+    // um diretório no lugar do .tmp faz o createWriteStream falhar
+    const blocker = path.join(dir, "internet-events.2026-03-02.1.log.gz.tmp");
+    await mkdir(blocker);
+    await log.append({ ts, text: "b" });
+
+    assert.equal(errors.mock.callCount(), 1);
+    assert.match(String(errors.mock.calls[0].arguments[0]), /rotate failed/);
+    assert.deepEqual(await texts(log), ["a", "b"]);
+    assert.ok(!(await readdir(dir)).some((n) => n.endsWith(".rotating")));
+
+    await rm(blocker, { recursive: true });
+    await log.append({ ts, text: "c" });
+    assert.deepEqual(await texts(log), ["a", "b", "c"]);
+    assert.equal((await log.listArchives()).length, 1);
+  });
+
+  it("sobra de rotação interrompida é arquivada, não sobrescrita", async () => {
+    const dir = path.join(root, "crash");
+    const file = path.join(dir, "internet-events.log");
+    await mkdir(dir, { recursive: true });
+    await writeFile(`${file}.rotating`, JSON.stringify({ ts, text: "perdida?" }) + "\n");
+    await writeFile(file, JSON.stringify({ ts, text: "a" }) + "\n");
+
+    const log = new EventLog({ path: file, maxBytes: 1 });
+    await log.append({ ts, text: "b" });
+
+    assert.deepEqual((await texts(log)).sort(), ["a", "b", "perdida?"]);
+    assert.ok(!(await readdir(dir)).some((n) => n.endsWith(".rotating")));
+  });
+
+  it("virada do dia (UTC) fecha o arquivo do dia anterior", async () => {
+    const log = new EventLog({ path: path.join(root, "day", "internet-events.log"), maxBytes: 0 });
+    await log.append({ ts: "2026-03-02T23:59:00.000Z", text: "a" });
+    await log.append({ ts: "2026-03-02T23:59:30.000Z", text: "b" });
+    await log.append({ ts: "2026-03-03T00:00:10.000Z", text: "c" });
+
+    assert.deepEqual((await log.listArchives()).map((a) => a.name), ["internet-events.2026-03-02.1.log.gz"]);
+    assert.deepEqual(await texts(log), ["a", "b", "c"]);
+  });
+
+  it("retenção apaga os .gz mais velhos que retentionDays", async () => {
+    const dir = path.join(root, "retention");
+    const file = path.join(dir, "internet-events.log");
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, "internet-events.2020-01-01.1.log.gz"), "");
+    await writeFile(path.join(dir, "outro.2020-01-01.1.log.gz"), "");
+
+    const log = new EventLog({ path: file, maxBytes: 1, retentionDays: 30 });
+    const today = new Date().toISOString();
+    await log.append({ ts: today, text: "a" });
+    await log.append({ ts: today, text: "b" });
+
+    assert.deepEqual((await log.listArchives()).map((a) => a.day), [today.slice(0, 10)]);
+    assert.ok((await readdir(dir)).includes("outro.2020-01-01.1.log.gz"), "só os arquivos deste log");
+  });
+
+  it("range por offset e período atravessam os arquivos em ordem cronológica", async () => {
+    const log = new EventLog({ path: path.join(root, "range", "internet-events.log"), maxBytes: 0 });
+    const days = ["2026-03-01", "2026-03-02", "2026-03-03"];
+    for (const day of days) {
+      for (let h = 10; h < 13; h++) await log.append({ ts: `${day}T${h}:00:00.000Z`, text: `${day.slice(8)}-${h}` });
+    }
+
+    const r = await log.readRange({ offset: 2, limit: 3 });
+    assert.deepEqual([r.total, r.count], [9, 3]);
+    assert.deepEqual(r.lines.map((l) => l.text), ["01-12", "02-10", "02-11"]);
+
+    const lines = [];
+    for await (const line of log.iterate({ from: "2026-03-02T11:00:00.000Z", to: "2026-03-03T10:00:00.000Z" })) {
+      lines.push(JSON.parse(line).text);
+    }
+    assert.deepEqual(lines, ["02-11", "02-12", "03-10"]);
+  });
+
+  it("tail lê blocos do fim sem quebrar linhas maiores que o bloco", async () => {
+    const log = new EventLog({ path: path.join(root, "tail", "internet-events.log"), maxBytes: 0 });
+    const big = "x".repeat(100 * 1024);
+    for (const text of ["a", big, "b", "c"]) await log.append({ ts, text });
+
+    const r = await log.readTail({ limit: 3 });
+    assert.deepEqual(r.lines.map((l) => l.text.length), [big.length, 1, 1]);
+  });
+});
+
+describe("EventLog: consulta", () => {
+  const gw = { id: "gw-1", name: "UDM Pro", model: "UDMPRO" };
+  const events = [
+    { ts: "2026-03-02T10:00:00.000Z", kind: "INTERNET_DOWN", prev: "OK", next: "DOWN", reason: "WAN_LINK_DOWN", gateway: gw, wan: { id: "WAN", name: "Fibra" } },
+    { ts: "2026-03-02T10:00:00.000Z", kind: "WAN_FAILOVER", from: { id: "WAN", name: "Fibra" }, to: { id: "WAN2", name: "4G" } },
+    { ts: "2026-03-02T10:00:00.000Z", kind: "DEVICE_DOWN", device: { name: "AP Pátio" } },
+    { ts: "2026-03-02T10:05:00.000Z", kind: "INTERNET_UP", prev: "DOWN", next: "OK", reason: "PROBE_OK", gateway: gw, note: 'fibra "voltou", ok' },
+    { ts: "2026-03-03T08:00:00.000Z", kind: "INTERNET_DEGRADED", prev: "OK", next: "DEGRADED", reason: "PROBE_DEGRADED", gateway: gw },
+  ];
+
+  async function eventLog(name) {
+    // maxBytes: 1 -> cada evento acaba num .gz próprio: a consulta atravessa os arquivos rotacionados
+    const log = new EventLog({ path: path.join(root, name, "internet-events.log"), maxBytes: 1 });
+    for (const e of events) await log.append(e);
+    return log;
+  }
+
+  async function pages(log, opts) {
+    const out = [];
+    let cursor;
+    do {
+      const r = await log.query({ ...opts, cursor });
+      out.push(r.events.map((e) => e.kind));
+      cursor = r.nextCursor;
+    } while (cursor);
+    return out;
+  }
+
+  it("filtros: kind com prefixo, gateway, WAN (inclusive do failover), reason e texto livre", async () => {
+    const log = await eventLog("query");
+    const kinds = async (f) => (await log.query(f)).events.map((e) => e.kind);
+    assert.deepEqual(await kinds({ kind: "internet_*" }), ["INTERNET_DEGRADED", "INTERNET_UP", "INTERNET_DOWN"]);
+    assert.deepEqual(await kinds({ kind: "DEVICE_DOWN,WAN_FAILOVER", order: "asc" }), ["WAN_FAILOVER", "DEVICE_DOWN"]);
+    assert.deepEqual(await kinds({ gateway: "udm", reason: "probe" }), ["INTERNET_DEGRADED", "INTERNET_UP"]);
+    assert.deepEqual(await kinds({ wan: "4g" }), ["WAN_FAILOVER"]);
+    assert.deepEqual(await kinds({ q: "pátio" }), ["DEVICE_DOWN"]);
+    assert.deepEqual(await kinds({ from: "2026-03-02T10:01:00.000Z", to: "2026-03-02T23:59:59.999Z" }), ["INTERNET_UP"]);
+  });
+
+  it("cursor: páginas sem repetir nem pular eventos com o mesmo ts, nas duas ordens", async () => {
+    const log = await eventLog("cursor");
+    assert.deepEqual(await pages(log, { limit: 2 }), [
+      ["INTERNET_DEGRADED", "INTERNET_UP"],
+      ["DEVICE_DOWN", "WAN_FAILOVER"],
+      ["INTERNET_DOWN"],
+    ]);
+    assert.deepEqual(await pages(log, { limit: 1, order: "asc", kind: "INTERNET_DOWN,WAN_FAILOVER,DEVICE_DOWN" }), [
+      ["INTERNET_DOWN"],
+      ["WAN_FAILOVER"],
+      ["DEVICE_DOWN"],
+    ]);
+  });
+
+  it("CSV com as colunas comuns e aspas escapadas", () => {
+    const [header, down, , , up] = logEventsToCsv(events).trim().split("\n");
+    assert.equal(header, "ts,kind,prev,next,reason,gateway,wan,device,incidentId,probeMs,note");
+    assert.equal(down, "2026-03-02T10:00:00.000Z,INTERNET_DOWN,OK,DOWN,WAN_LINK_DOWN,UDM Pro / UDMPRO,Fibra,,,,");
+    assert.equal(up, '2026-03-02T10:05:00.000Z,INTERNET_UP,DOWN,OK,PROBE_OK,UDM Pro / UDMPRO,,,,,"fibra ""voltou"", ok"');
+  });
+});
@@ -0,0 +1,124 @@
+// test/maintenance.test.mjs
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { MaintenanceSchedule, inMaintenance, overlapMs, validateWindow } from "../src/maintenance.mjs";
+import { gateStateAlert, heldAlertDue } from "../src/alerts.mjs";
+
+const root = await mkdtemp(path.join(os.tmpdir(), "maintenance-"));
+after(() => rm(root, { recursive: true, force: true }));
+
+const MIN = 60000;
+// horários das recorrentes são no fuso do servidor: monta as datas no fuso local
+const local = (d, h = 0, m = 0) => new Date(2026, 2, d, h, m).getTime(); // março/2026, 1º = domingo
+
+const siteWide = [{ id: "m1", wanId: null }];
+
+describe("janelas de manutenção", () => {
+  it("validateWindow: erros com details, janela única de no máximo 30 dias", () => {
+    assert.throws(
+      () => validateWindow({ kind: "weekly", title: "", days: [7], time: "25:00", durationMin: 0 }),
+      (e) => {
+        assert.deepEqual(e.details, [
+          "title: obrigatório",
+          "days: dias da semana 0 (dom) a 6 (sáb)",
+          "time: formato HH:MM",
+          "durationMin: inteiro entre 1 e 1440",
+        ]);
+        return true;
+      }
+    );
+    assert.throws(
+      () => validateWindow({ title: "x", start: "2026-03-01T00:00:00Z", end: "2026-04-15T00:00:00Z" }),
+      /no máximo 30 dias/
+    );
+    const w = validateWindow({ title: " Troca do roteador ", start: "2026-03-02T22:00:00Z", end: "2026-03-02T23:00:00Z" });
+    assert.equal(w.kind, "once");
+    assert.equal(w.title, "Troca do roteador");
+    assert.equal(w.wanId, null);
+  });
+
+  it("occurrences: semanal que atravessa a meia-noite, respeitando from/until", async () => {
+    const s = new MaintenanceSchedule({ path: path.join(root, "weekly.json") });
+    // toda segunda 23:30 por 60 min, a partir de 09/03
+    await s.create({ kind: "weekly", title: "Backup", days: [1], time: "23:30", durationMin: 60, from: new Date(local(9)).toISOString() });
+
+    const occ = s.occurrences(local(1), local(17));
+    assert.deepEqual(
+      occ.map((o) => [o.start, o.end]),
+      [[local(9, 23, 30), local(10, 0, 30)], [local(16, 23, 30), local(17, 0, 30)]]
+    );
+    // consulta começando depois da meia-noite ainda pega a ocorrência de segunda
+    assert.equal(s.occurrences(local(10, 0, 10), local(10, 0, 20)).length, 1);
+    assert.deepEqual(s.active(local(10, 0, 29)).map((a) => a.title), ["Backup"]);
+    assert.deepEqual(s.active(local(10, 0, 30)), []);
+  });
+
+  it("create/update/remove persistem; load relê do disco", async () => {
+    const file = path.join(root, "crud.json");
+    const s = new MaintenanceSchedule({ path: file });
+    const w = await s.create({ title: "Operadora", wanId: "WAN2", start: "2026-03-02T10:00:00Z", end: "2026-03-02T12:00:00Z" }, { by: "ana" });
+    const u = await s.update(w.id, { title: "Operadora (janela estendida)", end: "2026-03-02T13:00:00Z" });
+    assert.equal(u.createdBy, "ana");
+    assert.equal(u.end, "2026-03-02T13:00:00.000Z");
+    assert.equal(await s.update("nao-existe", { title: "x" }), null);
+
+    const again = new MaintenanceSchedule({ path: file });
+    assert.equal(await again.load(), 1);
+    assert.equal(again.get(w.id).title, "Operadora (janela estendida)");
+    assert.equal(await again.remove(w.id), true);
+    assert.equal(await again.remove(w.id), false);
+  });
+
+  it("overlapMs não conta duas vezes ocorrências sobrepostas", () => {
+    const occ = [
+      { start: 10 * MIN, end: 30 * MIN },
+      { start: 20 * MIN, end: 40 * MIN },
+      { start: 50 * MIN, end: 70 * MIN },
+    ];
+    assert.equal(overlapMs(occ, 0, 60 * MIN), 40 * MIN);
+    assert.equal(overlapMs([], 0, 60 * MIN), 0);
+  });
+
+  it("inMaintenance: janela do site inteiro ou só da WAN ativa", () => {
+    assert.equal(inMaintenance({ maintenance: siteWide }), true);
+    assert.equal(inMaintenance({ maintenance: [{ id: "m2", wanId: "WAN2" }], activeWanId: "WAN" }), false);
+    assert.equal(inMaintenance({ maintenance: [{ id: "m2", wanId: "WAN2" }], activeWanId: "WAN2" }), true);
+    assert.equal(inMaintenance({ maintenance: null }), false);
+  });
+});
+
+describe("supressão de alertas na manutenção", () => {
+  it("queda na janela é segurada; retorno dentro ou depois da janela não alerta", () => {
+    let g = gateStateAlert({ prev: "OK", next: "DOWN", entry: { maintenance: siteWide } });
+    assert.deepEqual(g, { send: false, held: true, suppressed: "DOWN" });
+
+    // janela acabou e a queda voltou sozinha: nem queda nem retorno saem
+    g = gateStateAlert({ prev: "DOWN", next: "OK", entry: { maintenance: null }, suppressed: g.suppressed });
+    assert.deepEqual(g, { send: false, held: false, suppressed: null });
+
+    g = gateStateAlert({ prev: "OK", next: "DOWN", entry: { maintenance: siteWide } });
+    g = gateStateAlert({ prev: "DOWN", next: "OK", entry: { maintenance: siteWide }, suppressed: g.suppressed });
+    assert.deepEqual(g, { send: false, held: true, suppressed: null });
+  });
+
+  it("fora da janela alerta normal; sem mudança de estado não mexe no que foi segurado", () => {
+    assert.deepEqual(gateStateAlert({ prev: "OK", next: "DEGRADED", entry: {} }), { send: true, held: false, suppressed: null });
+    assert.deepEqual(gateStateAlert({ prev: "DOWN", next: "OK", entry: {} }), { send: true, held: false, suppressed: null });
+    assert.deepEqual(gateStateAlert({ prev: "DOWN", next: "DOWN", entry: {}, suppressed: "DOWN" }), {
+      send: false,
+      held: false,
+      suppressed: "DOWN",
+    });
+  });
+
+  it("heldAlertDue: janela acabou e o site continua fora -> alerta segurado sai", () => {
+    assert.equal(heldAlertDue({ state: "DOWN", entry: { maintenance: siteWide }, suppressed: "DOWN" }), false);
+    assert.equal(heldAlertDue({ state: "DOWN", entry: {}, suppressed: "DOWN" }), true);
+    assert.equal(heldAlertDue({ state: "DEGRADED", entry: {}, suppressed: "DOWN" }), true);
+    assert.equal(heldAlertDue({ state: "OK", entry: {}, suppressed: "DOWN" }), false);
+    assert.equal(heldAlertDue({ state: "DOWN", entry: {}, suppressed: null }), false);
+  });
+});
@@ -0,0 +1,99 @@
+// test/metrics.test.mjs
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MetricsRegistry, MonitorMetrics } from "../src/metrics.mjs";
+
+// Site mínimo com o que o MonitorMetrics lê no scrape
+function fakeSite({ id = "escola-a", state = "OK", wans = [], errors = {} } = {}) {
+  return {
+    id,
+    lastTick: null,
+    monitor: {
+      state,
+      lastEntry: { gateway: { name: "UDM Pro" } },
+      wanTracker: { list: () => wans },
+      api: { errors },
+    },
+  };
+}
+
+describe("metrics", () => {
+  it("formato texto: HELP/TYPE, labels escapados e histograma cumulativo com +Inf", () => {
+    const r = new MetricsRegistry();
+    const c = r.counter("x_total", "Contador\nde teste.", ["name"]);
+    c.inc({ name: 'a"b\\c' });
+    c.inc({ name: 'a"b\\c' }, 2);
+    const h = r.histogram("lat_seconds", "Latência.", [], [0.1, 1]);
+    h.observe({}, 0.05);
+    h.observe({}, 0.5);
+    h.observe({}, 3);
+
+    assert.equal(
+      r.render(),
+      [
+        "# HELP x_total Contador\\nde teste.",
+        "# TYPE x_total counter",
+        'x_total{name="a\\"b\\\\c"} 3',
+        "# HELP lat_seconds Latência.",
+        "# TYPE lat_seconds histogram",
+        'lat_seconds_bucket{le="0.1"} 1',
+        'lat_seconds_bucket{le="1"} 2',
+        'lat_seconds_bucket{le="+Inf"} 3',
+        "lat_seconds_sum 3.55",
+        "lat_seconds_count 3",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("estado do site e das WANs como gauges 0/1, lidos na hora do scrape", () => {
+    const site = fakeSite({
+      state: "DEGRADED",
+      wans: [
+        { id: "WAN", name: "Fibra", state: "DOWN", up: false, active: false },
+        { id: "WAN2", name: "4G", state: "OK", up: true, active: true },
+      ],
+      errors: { http: 2 },
+    });
+    const m = new MonitorMetrics({ sites: new Map([[site.id, site]]) });
+    let text = m.render();
+    assert.match(text, /unifi_monitor_state\{site="escola-a",gateway="UDM Pro",state="DEGRADED"\} 1/);
+    assert.match(text, /unifi_monitor_state\{site="escola-a",gateway="UDM Pro",state="OK"\} 0/);
+    assert.match(text, /unifi_monitor_wan_up\{site="escola-a",gateway="UDM Pro",wan="Fibra"\} 0/);
+    assert.match(text, /unifi_monitor_wan_active\{site="escola-a",gateway="UDM Pro",wan="4G"\} 1/);
+    assert.match(text, /unifi_monitor_unifi_api_errors_total\{site="escola-a",kind="http"\} 2/);
+
+    // WAN que sumiu da controladora não fica com série velha
+    site.monitor.wanTracker.list = () => [];
+    site.monitor.state = "OK";
+    text = m.render();
+    assert.doesNotMatch(text, /wan="Fibra"/);
+    assert.match(text, /unifi_monitor_state\{site="escola-a",gateway="UDM Pro",state="OK"\} 1/);
+  });
+
+  it("tick: duração, falha, probes por alvo/resultado e transições por motivo", () => {
+    const site = fakeSite();
+    const m = new MonitorMetrics({ sites: new Map([[site.id, site]]) });
+    site.lastTick = { durationMs: 800, ok: false, at: Date.parse("2026-03-02T10:00:00Z") };
+    m.observeTick(site, {
+      entry: {
+        probe: {
+          targets: [
+            { name: "google", kind: "http", url: "https://www.google.com", ok: true, ms: 40 },
+            { name: "dns", kind: "dns", target: "escola.local", ok: false, ms: null },
+          ],
+        },
+      },
+    });
+    m.observeChange(site, { prev: "OK", next: "DOWN", entry: { reason: "PROBE_DOWN" } });
+
+    const text = m.render();
+    assert.match(text, /unifi_monitor_tick_duration_seconds_bucket\{site="escola-a",le="1"\} 1/);
+    assert.match(text, /unifi_monitor_tick_failures_total\{site="escola-a"\} 1/);
+    assert.match(text, /unifi_monitor_last_tick_timestamp_seconds\{site="escola-a"\} 1772445600/);
+    assert.match(text, /unifi_monitor_probe_total\{site="escola-a",probe="dns",kind="dns",url="escola.local",result="failure"\} 1/);
+    assert.match(text, /unifi_monitor_probe_latency_seconds_count\{site="escola-a",probe="google",kind="http",url="https:\/\/www.google.com"\} 1/);
+    assert.doesNotMatch(text, /probe_latency_seconds_count\{[^}]*probe="dns"/);
+    assert.match(text, /unifi_monitor_state_transitions_total\{site="escola-a",from="OK",to="DOWN",reason="PROBE_DOWN"\} 1/);
+  });
+});
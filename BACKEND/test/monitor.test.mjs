@@ -0,0 +1,254 @@
+// test/monitor.test.mjs
+import "./env.mjs";
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CONFIG } from "../src/config.mjs";
+import { Monitor } from "../src/monitor.mjs";
+import { UnifiApi } from "../src/unifi.mjs";
+import { API_KEY, FakeProbeTarget, FakeUnifi, PASSWORD, USERNAME } from "./fake-unifi.mjs";
+
+const fake = new FakeUnifi();
+const probe = new FakeProbeTarget();
+
+before(async () => {
+  await fake.start();
+  await probe.start();
+});
+
+after(async () => {
+  await fake.stop();
+  await probe.stop();
+});
+
+beforeEach(() => {
+  fake.setFirmware("usg");
+  fake.siteId = "default";
+  fake.clearFaults();
+  fake.expireSessions();
+  fake.requests = [];
+  for (const w of fake.wans) w.up = true;
+  for (const d of fake.devices) d.online = true;
+  probe.set("ok");
+});
+
+// site apontando para a fake; histerese curta para os cenários caberem em poucos ticks
+function newMonitor(overrides = {}) {
+  const site = {
+    ...CONFIG.sites[0],
+    unifiBaseUrl: fake.url,
+    unifiApiKey: API_KEY,
+    unifiAuth: "apikey",
+    siteId: fake.siteId,
+    probes: [{ kind: "http", url: probe.url, timeoutMs: 1000 }],
+    probeUrls: [],
+    probeQuorum: "any",
+    thresholds: { degradedAfterFails: 2, downAfterFails: 3, okAfterSucc: 2, deviceOfflineAfterTicks: 2 },
+    quality: { ...CONFIG.quality, degradedAfterTicks: 0 },
+    ...overrides,
+  };
+  const monitor = new Monitor({ site });
+  const events = { changes: [], wan: [], devices: [] };
+  monitor.onChange = (c) => events.changes.push(`${c.prev}->${c.next}`);
+  monitor.onWanEvent = (e) => events.wan.push(e.kind);
+  monitor.onDeviceEvent = (e) => events.devices.push(`${e.kind}:${e.device.id}`);
+  return { monitor, events };
+}
+
+async function ticks(monitor, n) {
+  let r;
+  for (let i = 0; i < n; i++) r = await monitor.tick();
+  return r;
+}
+
+describe("Monitor + controladora fake", () => {
+  it("sobe em OK com gateway, WANs e devices lidos", async () => {
+    const { monitor, events } = newMonitor();
+    const r = await monitor.tick();
+
+    assert.equal(monitor.state, "OK");
+    assert.deepEqual(events.changes, ["UNKNOWN->OK"]);
+    assert.equal(r.entry.wanUp, true);
+    assert.equal(r.entry.gateway.id, "gw-1");
+    assert.equal(r.entry.activeWanId, "WAN");
+    assert.equal(r.entry.unifiError, null);
+    assert.equal(r.entry.devices.total, 4);
+  });
+
+  it("link das WANs cai: DOWN imediato (WAN_LINK_DOWN) e volta após okAfterSucc", async () => {
+    const { monitor, events } = newMonitor();
+    await monitor.tick();
+
+    fake.setWan("WAN", { up: false });
+    fake.setWan("WAN2", { up: false });
+    const down = await monitor.tick();
+    assert.equal(monitor.state, "DOWN");
+    assert.equal(down.entry.reason, "WAN_LINK_DOWN");
+    assert.equal(down.entry.wan.id, "WAN");
+
+    fake.setWan("WAN", { up: true });
+    fake.setWan("WAN2", { up: true });
+    const soft = await monitor.tick();
+    assert.equal(soft.entry.reason, "PROBE_OK_SOFT");
+    assert.equal(monitor.state, "DOWN");
+    await monitor.tick();
+    assert.equal(monitor.state, "OK");
+    assert.deepEqual(events.changes, ["UNKNOWN->OK", "OK->DOWN", "DOWN->OK"]);
+  });
+
+  it("failover para o 4G: site segue OK com os probes passando; eventos de WAN no failover e no failback", async () => {
+    const { monitor, events } = newMonitor({ thresholds: { degradedAfterFails: 1, downAfterFails: 1, okAfterSucc: 1, deviceOfflineAfterTicks: 2 } });
+    fake.setFirmware("udm");
+    await monitor.tick();
+
+    fake.setWan("WAN", { up: false });
+    const r = await monitor.tick();
+    assert.equal(monitor.state, "OK");
+    assert.equal(r.entry.wanUp, true);
+    assert.equal(r.entry.activeWanId, "WAN2");
+    assert.equal(r.entry.wan.id, "WAN2");
+    assert.ok(events.wan.includes("WAN_FAILOVER"));
+
+    fake.setWan("WAN", { up: true });
+    await monitor.tick();
+    assert.equal(monitor.state, "OK");
+    assert.ok(events.wan.includes("WAN_FAILBACK"));
+    assert.deepEqual(events.changes, ["UNKNOWN->OK"]);
+  });
+
+  it("principal down e 4G sem status nos grupos: link do device não derruba o site", async () => {
+    const { monitor, events } = newMonitor();
+    await monitor.tick();
+
+    fake.setWan("WAN", { up: false });
+    fake.setWan("WAN2", { up: null });
+    const r = await monitor.tick();
+    assert.equal(r.entry.wanUp, null);
+    assert.notEqual(r.entry.reason, "WAN_LINK_DOWN");
+    assert.equal(monitor.state, "OK");
+    assert.deepEqual(events.changes, ["UNKNOWN->OK"]);
+  });
+
+  it("flapping: probe alternando não passa de soft; falhas seguidas degradam e derrubam", async () => {
+    const { monitor, events } = newMonitor();
+    await monitor.tick();
+
+    probe.sequence(["fail", "ok", "fail", "ok", "fail", "ok"]);
+    await ticks(monitor, 6);
+    assert.equal(monitor.state, "OK");
+    assert.deepEqual(events.changes, ["UNKNOWN->OK"]);
+
+    probe.set("fail");
+    await ticks(monitor, 2);
+    assert.equal(monitor.state, "DEGRADED");
+    await monitor.tick();
+    assert.equal(monitor.state, "DOWN");
+    assert.equal(monitor.lastEntry.reason, "PROBE_DOWN");
+  });
+
+  it("controladora com 500: tick não quebra, unifiError anotado e estado segue os probes", async () => {
+    const { monitor } = newMonitor();
+    await monitor.tick();
+
+    fake.fail({ status: 500 });
+    const r = await ticks(monitor, 3);
+    assert.match(r.entry.unifiError, /HTTP 500/);
+    assert.equal(r.entry.wanUp, null);
+    assert.equal(r.entry.devices, null);
+    assert.equal(monitor.state, "OK");
+    assert.ok(monitor.api.errors.http >= 3);
+
+    probe.set("fail");
+    await ticks(monitor, 3);
+    assert.equal(monitor.state, "DOWN");
+    assert.equal(monitor.lastEntry.reason, "PROBE_DOWN");
+  });
+
+  it("controladora fora não marca devices como offline", async () => {
+    const { monitor, events } = newMonitor();
+    await monitor.tick();
+    fake.fail({ status: 500 });
+    await ticks(monitor, 3);
+    assert.deepEqual(events.devices, []);
+  });
+
+  it("AP offline só vira DEVICE_DOWN depois de deviceOfflineAfterTicks leituras", async () => {
+    const { monitor, events } = newMonitor();
+    await monitor.tick();
+
+    fake.setDevice("ap-2", { online: false });
+    await monitor.tick();
+    assert.deepEqual(events.devices, []);
+    await monitor.tick();
+    assert.deepEqual(events.devices, ["DEVICE_DOWN:ap-2"]);
+
+    fake.setDevice("ap-2", { online: true });
+    await monitor.tick();
+    assert.deepEqual(events.devices, ["DEVICE_DOWN:ap-2", "DEVICE_UP:ap-2"]);
+  });
+
+  it("firmware sem v2 e sem WAN no device: só probes decidem", async () => {
+    fake.setFirmware("no-v2");
+    const { monitor } = newMonitor();
+    fake.setWan("WAN", { up: false });
+    const r = await monitor.tick();
+    assert.equal(r.entry.wanUp, null);
+    assert.equal(r.entry.wans, null);
+    assert.equal(monitor.state, "OK");
+  });
+
+  it("v2 só em site default: UnifiApi repete com default quando o siteId é UUID", async () => {
+    fake.setFirmware("v2-default-only");
+    fake.siteId = "88f7af54-98f8-306a-a1c7-c9349722b1f6";
+    const { monitor } = newMonitor();
+    const r = await monitor.tick();
+    assert.equal(r.entry.activeWanId, "WAN");
+    assert.equal(fake.count(/v2\/api\/site\/default\//), 1);
+  });
+});
+
+describe("UnifiApi por sessão", () => {
+  const session = (auth) =>
+    new UnifiApi({ baseUrl: fake.url, apiKey: "", auth, username: USERNAME, password: PASSWORD, legacyPort: 8443 });
+
+  it("legacy: login em /api/login, devices e grupos montados do stat/device", async () => {
+    const api = session("legacy");
+    const devices = await api.getAllDevices("default");
+    assert.equal(api.mode, "legacy");
+    assert.equal(devices.find((d) => d.type === "gateway").id, "gw-1");
+
+    fake.setWan("WAN", { up: false });
+    api.legacyCache = null;
+    const groups = await api.listWanNetworkGroups("default");
+    assert.deepEqual(
+      groups.map((g) => [g.id, g.up]),
+      [
+        ["WAN", false],
+        ["WAN2", true],
+      ]
+    );
+  });
+
+  it("auto: tenta UniFi OS primeiro e usa os endpoints em /proxy/network", async () => {
+    const api = session("auto");
+    await api.getAllDevices("default");
+    assert.equal(api.mode, "unifios");
+    assert.equal(fake.count(/POST \/api\/auth\/login/), 1);
+    assert.equal(fake.count(/GET \/proxy\/network\/api\/s\/default\/stat\/device/), 1);
+  });
+
+  it("sessão expirada (401): refaz o login uma vez e repete a request", async () => {
+    const api = session("legacy");
+    await api.getAllDevices("default");
+    fake.expireSessions();
+    api.legacyCache = null;
+    await api.getAllDevices("default");
+    assert.equal(fake.count(/POST \/api\/login/), 2);
+    assert.equal(api.errors.http, 0);
+  });
+
+  it("credencial errada conta erro de login", async () => {
+    const api = new UnifiApi({ baseUrl: fake.url, apiKey: "", auth: "legacy", username: USERNAME, password: "errada" });
+    await assert.rejects(api.getAllDevices("default"), /UniFi login \(legacy\)/);
+    assert.equal(api.errors.login, 1);
+  });
+});
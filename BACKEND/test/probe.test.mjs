@@ -0,0 +1,186 @@
+// test/probe.test.mjs
+import "./env.mjs";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import dgram from "node:dgram";
+import http from "node:http";
+import net from "node:net";
+import { diagnose, normalizeProbes, probeInternet, quorum, runProbe } from "../src/probe.mjs";
+
+// alvos locais: /ok (204), /slow (204 depois de 400ms), /down (503), /page (200 com HTML)
+let server;
+let base;
+let dns;
+let dnsAddr;
+
+// DNS mínimo: escola.test -> A 10.0.0.1; qualquer outro nome -> NXDOMAIN
+function dnsReply(msg) {
+  let end = 12;
+  const labels = [];
+  while (msg[end]) {
+    labels.push(msg.subarray(end + 1, end + 1 + msg[end]).toString());
+    end += msg[end] + 1;
+  }
+  const question = msg.subarray(12, end + 5);
+  const found = labels.join(".") === "escola.test";
+  const header = Buffer.from([0, 0, 0x81, found ? 0x80 : 0x83, 0, 1, 0, found ? 1 : 0, 0, 0, 0, 0]);
+  msg.copy(header, 0, 0, 2);
+  const answer = Buffer.from([0xc0, 12, 0, 1, 0, 1, 0, 0, 0, 60, 0, 4, 10, 0, 0, 1]);
+  return Buffer.concat(found ? [header, question, answer] : [header, question]);
+}
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const reply = (status) => res.writeHead(status).end();
+    if (req.url === "/slow") setTimeout(() => reply(204), 400);
+    else if (req.url === "/page") res.writeHead(200, { "Content-Type": "text/html" }).end("<h1>Bem-vindo à Escola</h1>");
+    else reply(req.url === "/ok" ? 204 : 503);
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${server.address().port}`;
+
+  dns = dgram.createSocket("udp4");
+  dns.on("message", (msg, rinfo) => dns.send(dnsReply(msg), rinfo.port, rinfo.address));
+  await new Promise((resolve) => dns.bind(0, "127.0.0.1", resolve));
+  dnsAddr = `127.0.0.1:${dns.address().port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  await new Promise((resolve) => dns.close(resolve));
+});
+
+// porta local sem ninguém escutando
+function closedPort() {
+  return new Promise((resolve) => {
+    const s = net.createServer().listen(0, "127.0.0.1", () => {
+      const { port } = s.address();
+      s.close(() => resolve(port));
+    });
+  });
+}
+
+const run = (p) => runProbe(normalizeProbes([{ timeoutMs: 2000, ...p }])[0]);
+
+describe("normalizeProbes", () => {
+  it("weight padrão 1; aceita número ou string > 0", () => {
+    const probes = normalizeProbes([
+      { kind: "http", url: "http://a" },
+      { kind: "tcp", host: "b", port: 53, weight: 2 },
+      { kind: "dns", host: "c", weight: "0.5" },
+    ]);
+    assert.deepEqual(probes.map((p) => p.weight), [1, 2, 0.5]);
+  });
+
+  it("weight zero, negativo ou não numérico: erro com o índice do probe", () => {
+    for (const weight of [0, -1, "-2", "muito"]) {
+      assert.throws(
+        () => normalizeProbes([{ kind: "http", url: "http://a" }, { kind: "http", url: "http://b", weight }]),
+        /PROBES\[1\]: weight precisa ser um número > 0/
+      );
+    }
+  });
+});
+
+describe("tipos de probe", () => {
+  it("http: expectStatus (código, lista ou classe) e expectBody (texto ou /regex/)", async () => {
+    assert.equal((await run({ url: `${base}/ok` })).ok, true);
+    assert.equal((await run({ url: `${base}/down`, expectStatus: "5xx" })).ok, true);
+    assert.equal((await run({ url: `${base}/ok`, expectStatus: [200, 204] })).ok, true);
+    const wrong = await run({ url: `${base}/ok`, expectStatus: 200 });
+    assert.deepEqual([wrong.ok, wrong.status, wrong.error], [false, 204, "http"]);
+
+    assert.equal((await run({ url: `${base}/page`, expectBody: "Bem-vindo" })).ok, true);
+    assert.equal((await run({ url: `${base}/page`, expectBody: "/bem-vindo à escola/i" })).ok, true);
+    // portal cativo / página de bloqueio: responde 200 mas não com o conteúdo esperado
+    const content = await run({ url: `${base}/page`, expectBody: "google" });
+    assert.deepEqual([content.ok, content.status, content.error], [false, 200, "content"]);
+  });
+
+  it("tcp: conecta e mede; porta fechada = refused", async () => {
+    const { port } = server.address();
+    const ok = await run({ kind: "tcp", host: "127.0.0.1", port });
+    assert.deepEqual([ok.ok, ok.target, typeof ok.ms], [true, `127.0.0.1:${port}`, "number"]);
+    const refused = await run({ kind: "tcp", host: "127.0.0.1", port: await closedPort() });
+    assert.deepEqual([refused.ok, refused.error], [false, "refused"]);
+  });
+
+  it("dns: resolve no resolver configurado; nome inexistente = dns", async () => {
+    const ok = await run({ kind: "dns", host: "escola.test", resolver: dnsAddr });
+    assert.deepEqual([ok.ok, ok.answers, ok.target], [true, 1, `escola.test@${dnsAddr}`]);
+    const nx = await run({ kind: "dns", host: "nao-existe.test", resolver: dnsAddr });
+    assert.deepEqual([nx.ok, nx.error], [false, "dns"]);
+  });
+
+  it("config inválido: erro com o índice do probe", () => {
+    assert.throws(() => normalizeProbes([{ kind: "icmp", host: "a" }]), /PROBES\[0\]: kind inválido "icmp"/);
+    assert.throws(() => normalizeProbes([{ kind: "tcp", host: "a" }]), /PROBES\[0\]: tcp precisa de host e port/);
+    assert.throws(() => normalizeProbes([{ kind: "dns" }]), /PROBES\[0\]: dns precisa de host/);
+  });
+});
+
+describe("quorum", () => {
+  const targets = [
+    { ok: true, weight: 1 },
+    { ok: false, weight: 2 },
+  ];
+
+  it("majority e all somam pesos", () => {
+    assert.equal(quorum("majority", targets).ok, false);
+    assert.equal(quorum("all", targets).ok, false);
+    assert.equal(quorum("any", targets).ok, true);
+    assert.equal(quorum("1", targets).ok, true);
+  });
+});
+
+describe("probeInternet", () => {
+  it("roda os alvos em paralelo e devolve o resultado de cada um", async () => {
+    const probes = normalizeProbes([
+      { name: "lento", kind: "http", url: `${base}/slow`, timeoutMs: 2000 },
+      { name: "lento-2", kind: "http", url: `${base}/slow`, timeoutMs: 2000 },
+      { name: "fora", kind: "http", url: `${base}/down`, timeoutMs: 2000 },
+      { name: "rapido", kind: "http", url: `${base}/ok`, timeoutMs: 2000 },
+    ]);
+    const t0 = Date.now();
+    const r = await probeInternet(probes, { quorumRule: "majority" });
+    assert.ok(Date.now() - t0 < 750, "dois alvos de 400ms não somam");
+
+    assert.equal(r.ok, true);
+    assert.deepEqual(r.quorum, { rule: "majority", required: 3, passed: 3, total: 4 });
+    assert.deepEqual(
+      r.targets.map((t) => [t.name, t.ok, t.error]),
+      [
+        ["lento", true, null],
+        ["lento-2", true, null],
+        ["fora", false, "http"],
+        ["rapido", true, null],
+      ]
+    );
+    assert.equal(r.targets[2].status, 503);
+    // url/ms principais = http OK mais rápido
+    assert.equal(r.url, `${base}/ok`);
+    assert.deepEqual(r.byKind, { http: { ok: 3, total: 4 } });
+    assert.equal(r.diagnosis, null);
+
+    assert.equal((await probeInternet(probes, { quorumRule: "all" })).ok, false);
+  });
+
+  it("alvo que não responde vira timeout sem segurar os outros", async () => {
+    const probes = normalizeProbes([
+      { name: "preso", kind: "http", url: `${base}/slow`, timeoutMs: 50 },
+      { name: "rapido", kind: "http", url: `${base}/ok`, timeoutMs: 2000 },
+    ]);
+    const r = await probeInternet(probes, { quorumRule: "any" });
+    assert.equal(r.ok, true);
+    assert.deepEqual(r.targets.map((t) => t.error), ["timeout", null]);
+  });
+
+  it("diagnóstico separa DNS quebrado de upstream quebrado", () => {
+    const t = (kind, ok) => ({ kind, ok, weight: 1 });
+    assert.equal(diagnose([t("dns", false), t("http", true)]), "DNS_FAILURE");
+    assert.equal(diagnose([t("dns", true), t("http", false), t("tcp", false)]), "UPSTREAM_FAILURE");
+    assert.equal(diagnose([t("http", false)]), "TOTAL_FAILURE");
+    assert.equal(diagnose([t("dns", true), t("http", true)]), null);
+  });
+});
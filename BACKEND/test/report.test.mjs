@@ -0,0 +1,156 @@
+// test/report.test.mjs
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TimelineCache, availabilityReport, reportToHtml, statusTimeline } from "../src/report.mjs";
+
+const MIN = 60 * 1000;
+// datas locais: as barras seguem o fuso do servidor
+const at = (h, m = 0, day = 5) => new Date(2026, 0, day, h, m).getTime();
+
+// um tick por minuto com o estado do trecho
+function ticks(from, to, state) {
+  const out = [];
+  for (let t = from; t < to; t += MIN) out.push({ ts: new Date(t).toISOString(), state });
+  return out;
+}
+
+function sources(entries, incidents = [], occurrences = []) {
+  return {
+    store: {
+      async *iterate({ from, to }) {
+        for (const e of entries) if (e.ts >= from && e.ts <= to) yield e;
+      },
+    },
+    incidents: {
+      query: () => ({ incidents: incidents.map((i) => ({ ...i, durationMs: Date.parse(i.end) - Date.parse(i.start) })) }),
+    },
+    maintenance: { occurrences: () => occurrences },
+    intervalMs: MIN,
+  };
+}
+
+describe("statusTimeline", () => {
+  it("por dia: pior estado, minutos fora e incidente listado em todas as barras que toca", async () => {
+    const entries = [
+      ...ticks(at(0), at(23, 50), "OK"),
+      ...ticks(at(23, 50), at(0, 10, 6), "DOWN"),
+      ...ticks(at(0, 10, 6), at(12, 0, 6), "OK"),
+      ...ticks(at(12, 0, 6), at(12, 5, 6), "DEGRADED"),
+      ...ticks(at(12, 5, 6), at(0, 0, 8), "OK"),
+    ];
+    const inc = { id: "i1", start: new Date(at(23, 50)).toISOString(), end: new Date(at(0, 10, 6)).toISOString(), worstState: "DOWN" };
+    const tl = await statusTimeline({
+      ...sources(entries, [inc]),
+      from: new Date(at(0)).toISOString(),
+      to: new Date(at(0, 0, 8)).toISOString(),
+      granularity: "day",
+    });
+
+    assert.equal(tl.buckets.length, 3);
+    assert.deepEqual(tl.buckets.map((b) => b.worstState), ["DOWN", "DOWN", "OK"]);
+    assert.deepEqual(tl.buckets.map((b) => b.downMs / MIN), [10, 10, 0]);
+    assert.equal(tl.buckets[1].degradedMs, 5 * MIN);
+    assert.deepEqual(tl.buckets.map((b) => b.incidents.map((i) => i.id)), [["i1"], ["i1"], []]);
+    assert.equal(tl.total.downMs, 20 * MIN);
+    assert.equal(tl.total.incidents, 1);
+  });
+
+  it("por hora: tick que atravessa a virada é dividido; buraco = sem dados; manutenção não pinta de vermelho", async () => {
+    const entries = [
+      { ts: new Date(at(9, 59)).toISOString(), state: "DOWN" },
+      { ts: new Date(at(10, 1)).toISOString(), state: "OK" },
+      ...ticks(at(10, 2), at(10, 50), "OK"),
+      ...ticks(at(12, 0), at(13, 0), "DOWN"),
+    ];
+    const tl = await statusTimeline({
+      ...sources(entries, [], [{ start: at(12, 0), end: at(13, 0), wanId: null }]),
+      from: new Date(at(9)).toISOString(),
+      to: new Date(at(13)).toISOString(),
+      granularity: "hour",
+    });
+
+    const [h9, h10, h11, h12] = tl.buckets;
+    assert.equal(h9.downMs, MIN);
+    assert.equal(h10.downMs, MIN);
+    assert.equal(h10.worstState, "DOWN");
+    assert.equal(h11.worstState, null);
+    assert.equal(h12.worstState, null);
+    assert.equal(h12.maintenanceMs, 60 * MIN);
+  });
+
+  it("com TimelineCache: barras fechadas não relêem o history; manutenção nova na barra recalcula", async () => {
+    const iso = (ms) => new Date(ms).toISOString();
+    const src = sources([
+      ...ticks(at(0), at(9, 0, 6), "OK"),
+      ...ticks(at(9, 0, 6), at(9, 30, 6), "DOWN"),
+      ...ticks(at(9, 30, 6), at(0, 0, 8), "OK"),
+    ]);
+    const reads = [];
+    const iterate = src.store.iterate;
+    src.store = { iterate: (range) => (reads.push(range.from), iterate(range)) };
+    const cache = new TimelineCache();
+    const range = { from: iso(at(0)), to: iso(at(0, 0, 8)), granularity: "day", cache };
+
+    const first = await statusTimeline({ ...src, ...range });
+    const again = await statusTimeline({ ...src, ...range });
+    assert.deepEqual(again.buckets, first.buckets);
+    assert.deepEqual(first.buckets.map((b) => b.downMs / MIN), [0, 30, 0]);
+    assert.deepEqual(reads, [iso(at(0))], "segunda chamada veio toda do cache");
+
+    // período que termina no meio do dia: só a barra aberta (menos um tick) é lida
+    await statusTimeline({ ...src, ...range, to: iso(at(12, 0, 7)) });
+    assert.equal(reads.at(-1), iso(at(0, 0, 7) - 3 * MIN));
+
+    src.maintenance = { occurrences: () => [{ start: at(9, 0, 6), end: at(10, 0, 6), wanId: null }] };
+    const withWindow = await statusTimeline({ ...src, ...range });
+    assert.equal(withWindow.buckets[1].downMs, 0);
+    assert.equal(withWindow.buckets[1].maintenanceMs, 60 * MIN);
+    assert.equal(reads.at(-1), iso(at(0, 0, 6) - 3 * MIN), "só o dia com a manutenção nova é relido");
+  });
+});
+
+describe("availabilityReport", () => {
+  it("triagem do operador: tempo até reconhecer, causa raiz e notas no relatório", async () => {
+    const iso = (ms) => new Date(ms).toISOString();
+    const incs = [
+      { id: "a", start: iso(at(8)), end: iso(at(8, 30)), worstState: "DOWN", rootCause: "ISP", ack: { by: "ana", ts: iso(at(8, 10)) } },
+      { id: "b", start: iso(at(14)), end: iso(at(14, 10)), worstState: "DEGRADED", notes: [{ ts: iso(at(14, 5)), by: "rui", text: "queda de energia <bloco B>" }] },
+    ];
+    const report = await availabilityReport({
+      ...sources(ticks(at(0), at(0, 0, 6), "OK"), incs),
+      from: iso(at(0)),
+      to: iso(at(0, 0, 6)),
+      granularity: "day",
+    });
+
+    assert.equal(report.total.acknowledged, 1);
+    assert.equal(report.total.mttaMs, 10 * MIN);
+    assert.deepEqual(
+      report.total.rootCauses.map((c) => [c.rootCause, c.incidents, c.durationMs / MIN]),
+      [
+        ["ISP", 1, 30],
+        [null, 1, 10],
+      ]
+    );
+    assert.equal(report.incidents[1].notes[0].by, "rui");
+    const html = reportToHtml(report);
+    assert.match(html, /Operadora \/ link/);
+    assert.match(html, /queda de energia &lt;bloco B&gt;/);
+  });
+
+  it("tick que atravessa a meia-noite é dividido entre os dias, igual à linha do tempo", async () => {
+    const iso = (ms) => new Date(ms).toISOString();
+    const entries = [
+      ...ticks(at(23, 0), at(23, 59), "OK"),
+      { ts: iso(at(23, 59)), state: "DOWN" },
+      ...ticks(at(0, 1, 6), at(1, 0, 6), "OK"),
+    ];
+    const range = { from: iso(at(23, 0)), to: iso(at(1, 0, 6)), granularity: "day" };
+    const report = await availabilityReport({ ...sources(entries), ...range });
+    const tl = await statusTimeline({ ...sources(entries), ...range });
+
+    assert.deepEqual(report.buckets.map((b) => b.downMs / MIN), [1, 1]);
+    assert.deepEqual(report.buckets.map((b) => b.downMs), tl.buckets.map((b) => b.downMs));
+    assert.equal(report.total.downMs, 2 * MIN);
+  });
+});
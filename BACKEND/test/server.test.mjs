@@ -0,0 +1,460 @@
+// test/server.test.mjs
+// Server de verdade (processo filho) contra a controladora fake: REST, auth, log de eventos e /metrics.
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import WebSocket from "ws";
+import { API_KEY, FakeProbeTarget, FakeUnifi } from "./fake-unifi.mjs";
+
+const SERVER = fileURLToPath(new URL("../src/server.mjs", import.meta.url));
+const ADMIN_TOKEN = "admin-token-for-tests-0123456789";
+const VIEWER_TOKEN = "viewer-token-for-tests-012345678";
+
+const fake = new FakeUnifi();
+const probe = new FakeProbeTarget();
+let dir;
+let child;
+let base;
+let output = "";
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const s = net.createServer();
+    s.once("error", reject);
+    s.listen(0, "127.0.0.1", () => {
+      const { port } = s.address();
+      s.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitFor(fn, { timeoutMs = 10000, stepMs = 100, what = "condição" } = {}) {
+  const end = Date.now() + timeoutMs;
+  let last;
+  while (Date.now() < end) {
+    try {
+      last = await fn();
+      if (last) return last;
+    } catch (e) {
+      last = e;
+    }
+    await new Promise((r) => setTimeout(r, stepMs));
+  }
+  throw new Error(`timeout esperando ${what} (último: ${last?.message ?? JSON.stringify(last)})\n${output.slice(-2000)}`);
+}
+
+function api(p, { token = ADMIN_TOKEN, ...init } = {}) {
+  const headers = { ...(token && { Authorization: `Bearer ${token}` }), ...init.headers };
+  return fetch(`${base}${p}`, { ...init, headers });
+}
+
+async function json(p, opts) {
+  const res = await api(p, opts);
+  assert.equal(res.status, 200, `${p} -> HTTP ${res.status}`);
+  return res.json();
+}
+
+// cliente do /ws: manda o hello ao abrir e acumula as mensagens recebidas
+function wsClient(hello, { token = ADMIN_TOKEN } = {}) {
+  const ws = new WebSocket(`${base.replace("http", "ws")}/ws`, { headers: { Authorization: `Bearer ${token}` } });
+  const client = { ws, messages: [], closed: null };
+  ws.on("open", () => ws.send(JSON.stringify({ type: "hello", v: 1, ...hello })));
+  ws.on("message", (raw) => client.messages.push(JSON.parse(String(raw))));
+  ws.on("close", (code) => (client.closed = code));
+  return client;
+}
+
+// lê o SSE até `until(mensagens)`; devolve as mensagens e o último id
+async function sse(p, until, { headers = {} } = {}) {
+  const ctrl = new AbortController();
+  const res = await api(p, { headers, signal: ctrl.signal });
+  assert.equal(res.status, 200);
+  assert.match(res.headers.get("content-type"), /text\/event-stream/);
+  const messages = [];
+  let lastId = null;
+  let buf = "";
+  const decoder = new TextDecoder();
+  try {
+    for await (const chunk of res.body) {
+      buf += decoder.decode(chunk, { stream: true });
+      let i;
+      while ((i = buf.indexOf("\n\n")) >= 0) {
+        const block = buf.slice(0, i);
+        buf = buf.slice(i + 2);
+        for (const line of block.split("\n")) {
+          if (line.startsWith("id: ")) lastId = line.slice(4);
+          if (line.startsWith("data: ")) messages.push(JSON.parse(line.slice(6)));
+        }
+      }
+      if (until(messages)) break;
+    }
+  } finally {
+    ctrl.abort();
+  }
+  return { messages, lastId };
+}
+
+const state = async () => (await json("/api/status")).state;
+
+before(async () => {
+  await fake.start();
+  await probe.start();
+  dir = await mkdtemp(path.join(os.tmpdir(), "unifi-monitor-test-"));
+  const port = await freePort();
+  base = `http://127.0.0.1:${port}`;
+
+  // cwd = pasta temporária: data/ e logs/ isolados e nenhum .env do desenvolvedor é lido
+  child = spawn(process.execPath, [SERVER], {
+    cwd: dir,
+    env: {
+      PATH: process.env.PATH,
+      PORT: String(port),
+      UNIFI_BASE_URL: fake.url,
+      UNIFI_API_KEY: API_KEY,
+      UNIFI_SITE_ID: fake.siteId,
+      PROBE_URLS: probe.url,
+      PROBE_TIMEOUT_MS: "1000",
+      INTERVAL_MS: "1000",
+      WIFI_INTERVAL_MS: "0",
+      DEGRADED_AFTER_FAILS: "1",
+      DOWN_AFTER_FAILS: "2",
+      OK_AFTER_SUCCESSES: "1",
+      QUALITY_DEGRADED_AFTER_TICKS: "0",
+      PUBLIC_STATUS: "1",
+      AUTH_TOKENS: JSON.stringify([
+        { name: "ci-admin", token: ADMIN_TOKEN, role: "admin" },
+        { name: "ci-viewer", token: VIEWER_TOKEN, role: "viewer" },
+      ]),
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  child.stdout.on("data", (c) => (output += c));
+  child.stderr.on("data", (c) => (output += c));
+
+  await waitFor(async () => (await fetch(`${base}/healthz`)).ok, { what: "server subir" });
+});
+
+after(async () => {
+  if (child && child.exitCode === null) {
+    const exited = new Promise((r) => child.once("exit", r));
+    child.kill();
+    await exited;
+  }
+  await fake.stop();
+  await probe.stop();
+  if (dir) await rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  fake.clearFaults();
+  for (const w of fake.wans) w.up = true;
+  probe.set("ok");
+});
+
+describe("server end-to-end", () => {
+  it("exige token e respeita o papel (viewer não acessa rota admin)", async () => {
+    assert.equal((await api("/api/status", { token: null })).status, 401);
+    assert.equal((await api("/api/status", { token: "token-errado-que-nao-existe-000" })).status, 401);
+    // token na URL não autentica; cookie malformado = sem login (401), não 500
+    assert.equal((await api(`/api/status?token=${ADMIN_TOKEN}`, { token: null })).status, 401);
+    assert.equal((await api("/api/status", { token: null, headers: { cookie: "monitor_token=%E0%A4%A" } })).status, 401);
+    assert.equal((await api("/api/status", { token: VIEWER_TOKEN })).status, 200);
+    assert.equal((await api("/api/config", { token: VIEWER_TOKEN })).status, 403);
+    assert.equal((await api("/api/config")).status, 200);
+  });
+
+  it("escrita com cookie: Origin confere com o host original que o gateway manda; outro host é recusado", async () => {
+    const post = (origin, extra = {}) =>
+      api("/api/incidents/nao-existe/notes", {
+        token: null,
+        method: "POST",
+        headers: { cookie: `monitor_token=${ADMIN_TOKEN}`, origin, "content-type": "application/json", ...extra },
+        body: JSON.stringify({ text: "x" }),
+      });
+
+    assert.equal((await post(base)).status, 404, "mesma origem passa pela checagem");
+    assert.equal((await post("http://outro.site")).status, 403);
+
+    // deploy padrão: gateway do Next na mesma máquina, sem TRUST_PROXY (= loopback)
+    const gateway = { "x-forwarded-host": "monitor.escola:3000", "x-forwarded-proto": "http" };
+    assert.equal((await post("http://monitor.escola:3000", gateway)).status, 404);
+    assert.equal((await post("http://outro.site", gateway)).status, 403);
+    assert.doesNotMatch(output, /defina TRUST_PROXY/);
+  });
+
+  it("fica OK com gateway e WANs da controladora", async () => {
+    await waitFor(async () => (await state()) === "OK", { what: "estado OK" });
+    const status = await json("/api/status");
+    const last = status.history[0];
+    assert.equal(last.gateway.id, "gw-1");
+    assert.equal(last.wanUp, true);
+    assert.deepEqual(
+      status.wans.map((w) => [w.id, w.active]),
+      [
+        ["WAN", true],
+        ["WAN2", false],
+      ]
+    );
+  });
+
+  it("rotas por site: /api/sites/:site e ?site= equivalem à forma antiga; site desconhecido dá 404", async () => {
+    await waitFor(async () => (await state()) === "OK", { what: "estado OK" });
+    const { sites } = await json("/api/sites");
+    assert.deepEqual(
+      sites.map((s) => [s.id, s.state]),
+      [["default", "OK"]]
+    );
+    assert.equal(sites[0].gateway.id, "gw-1");
+
+    const bySite = await json("/api/sites/default/status");
+    assert.deepEqual(bySite.site, { id: "default", name: sites[0].name });
+    assert.equal((await json("/api/status?site=default")).site.id, "default");
+    assert.deepEqual(
+      (await json("/api/sites/default/devices")).devices.map((d) => d.id),
+      (await json("/api/devices")).devices.map((d) => d.id)
+    );
+
+    for (const p of ["/api/sites/escola-x/status", "/api/status?site=escola-x"]) {
+      const res = await api(p);
+      assert.equal(res.status, 404, p);
+      assert.deepEqual(await res.json(), { error: "site_not_found" });
+    }
+  });
+
+  it("link down: DOWN, INTERNET_DOWN no log e incidente aberto; volta e fecha", async () => {
+    await waitFor(async () => (await state()) === "OK", { what: "estado OK" });
+
+    fake.setWan("WAN", { up: false });
+    fake.setWan("WAN2", { up: false });
+    await waitFor(async () => (await state()) === "DOWN", { what: "estado DOWN" });
+
+    const logs = await waitFor(
+      async () => {
+        const r = await json("/api/logs/query?kind=INTERNET_DOWN&limit=5");
+        return r.events.length ? r : null;
+      },
+      { what: "INTERNET_DOWN no log" }
+    );
+    assert.equal(logs.events[0].reason, "WAN_LINK_DOWN");
+    const open = await json("/api/incidents?open=1");
+    assert.equal(open.incidents[0].reason, "WAN_LINK_DOWN");
+
+    fake.setWan("WAN", { up: true });
+    fake.setWan("WAN2", { up: true });
+    await waitFor(async () => (await state()) === "OK", { what: "retorno para OK" });
+    const inc = await json(`/api/incidents/${open.incidents[0].id}`);
+    assert.ok(inc.end, "incidente fechado");
+  });
+
+  it("probe falhando com a controladora em 500: estado segue os probes e unifiError aparece", async () => {
+    fake.fail({ status: 500 });
+    probe.set("fail");
+    await waitFor(async () => (await state()) === "DOWN", { what: "DOWN pelos probes" });
+    const last = (await json("/api/status")).history[0];
+    assert.equal(last.reason, "PROBE_DOWN");
+    assert.match(last.unifiError, /HTTP 500/);
+
+    fake.clearFaults();
+    probe.set("ok");
+    await waitFor(async () => (await state()) === "OK", { what: "retorno para OK" });
+  });
+
+  it("/metrics expõe estado, transições e erros da UniFi", async () => {
+    const res = await api("/metrics");
+    assert.equal(res.status, 200);
+    const text = await res.text();
+    assert.match(text, /unifi_monitor_state\{site="default",gateway="USG-Pro-4",state="OK"\} 1/);
+    assert.match(text, /unifi_monitor_state_transitions_total\{site="default",from="OK",to="DOWN",reason="WAN_LINK_DOWN"\} [1-9]/);
+    assert.match(text, /unifi_monitor_unifi_api_errors_total\{site="default",kind="http"\} [1-9]/);
+  });
+
+  it("grava o history em data/ (JSONL por dia)", async () => {
+    const day = new Date().toISOString().slice(0, 10);
+    const file = path.join(dir, "data", "history", `${day}.jsonl`);
+    const lines = (await readFile(file, "utf8")).trim().split("\n");
+    assert.ok(lines.length > 3);
+    assert.ok(JSON.parse(lines.at(-1)).probe);
+  });
+
+  it("/ws: welcome + snapshot, eventos com seq e resume só com o que faltou", async () => {
+    const first = wsClient({ types: ["tick", "state_change"], history: 2 });
+    await waitFor(() => first.messages.some((m) => m.type === "tick"), { what: "tick no WS" });
+    const [welcome, snapshot] = first.messages;
+    assert.equal(welcome.type, "welcome");
+    assert.equal(welcome.resumed, false);
+    assert.deepEqual(welcome.types, ["tick", "state_change"]);
+    assert.equal(snapshot.type, "snapshot");
+    assert.ok(snapshot.data.history.length <= 2);
+
+    const events = first.messages.slice(2);
+    assert.ok(events.every((m) => m.v === 1 && ["tick", "state_change"].includes(m.type)));
+    assert.ok(events.every((m, i) => m.seq > (i ? events[i - 1].seq : snapshot.seq)));
+    const lastSeen = events.at(-1).seq;
+    first.ws.close();
+
+    // alguns ticks sem ninguém ouvindo; depois retoma do último seq visto
+    await new Promise((r) => setTimeout(r, 2200));
+    const again = wsClient({ types: ["tick", "state_change"], resume: { epoch: welcome.epoch, seq: lastSeen } });
+    await waitFor(() => again.messages.length >= 3, { what: "replay no resume" });
+    assert.equal(again.messages[0].type, "welcome");
+    assert.equal(again.messages[0].resumed, true);
+    const replay = again.messages.slice(1);
+    assert.ok(replay.every((m) => m.type === "tick" || m.type === "state_change"));
+    assert.ok(replay[0].seq > lastSeen);
+    assert.ok(replay.every((m, i) => !i || m.seq > replay[i - 1].seq));
+    again.ws.close();
+
+    // epoch de outro boot: sem resume, snapshot novo
+    const stale = wsClient({ resume: { epoch: "outro-boot", seq: 1 } });
+    await waitFor(() => stale.messages.length >= 2, { what: "snapshot após resume inválido" });
+    assert.equal(stale.messages[0].resumed, false);
+    assert.equal(stale.messages[1].type, "snapshot");
+    stale.ws.close();
+  });
+
+  it("/ws: hello inválido recebe erro com detalhes e a conexão fecha", async () => {
+    const bad = wsClient({ v: 2 });
+    await waitFor(() => bad.closed, { what: "fechar" });
+    assert.equal(bad.closed, 1008);
+    assert.equal(bad.messages[0].type, "error");
+    assert.equal(bad.messages[0].error, "unsupported_version");
+    assert.deepEqual(bad.messages[0].supported, [1]);
+  });
+
+  it("/api/stream (SSE): mesmo protocolo, id epoch:seq e resume pelo Last-Event-ID", async () => {
+    const first = await sse("/api/stream?types=tick&history=1", (m) => m.filter((x) => x.type === "tick").length >= 2);
+    const [welcome, snapshot] = first.messages;
+    assert.equal(welcome.type, "welcome");
+    assert.deepEqual(welcome.types, ["tick"]);
+    assert.equal(snapshot.type, "snapshot");
+    assert.ok(snapshot.data.history.length <= 1);
+    const lastTick = first.messages.at(-1);
+    assert.equal(first.lastId, `${welcome.epoch}:${lastTick.seq}`);
+
+    await new Promise((r) => setTimeout(r, 1500));
+    const again = await sse("/api/stream?types=tick", (m) => m.length >= 2, { headers: { "Last-Event-ID": first.lastId } });
+    assert.equal(again.messages[0].resumed, true);
+    assert.equal(again.messages[1].type, "tick");
+    assert.ok(again.messages[1].seq > lastTick.seq);
+
+    const bad = await api("/api/stream?types=nope");
+    assert.equal(bad.status, 400);
+    assert.equal((await bad.json()).error, "invalid_hello");
+  });
+
+  it("status público: sem login, cacheável, com as atualizações do operador e sem IDs internos", async () => {
+    const [inc] = (await json("/api/incidents?limit=1")).incidents;
+    assert.ok(inc, "incidente do teste de link down");
+    const post = (token) =>
+      api(`/api/incidents/${inc.id}/updates`, {
+        token,
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: "Operadora acionada, link voltou." }),
+      });
+    assert.equal((await post(VIEWER_TOKEN)).status, 403);
+    assert.equal((await post(ADMIN_TOKEN)).status, 201);
+
+    const res = await api("/api/public/sites/default", { token: null });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("cache-control"), /^public, max-age=\d+/);
+    assert.equal(res.headers.get("access-control-allow-origin"), "*");
+    const text = await res.text();
+    for (const secret of ["gw-1", "network_id", new URL(probe.url).host, "WAN_LINK_DOWN"]) {
+      assert.ok(!text.includes(secret), `vazou ${secret}`);
+    }
+    const body = JSON.parse(text);
+    assert.equal(body.site.id, "default");
+    assert.equal(body.today.granularity, "hour");
+    const listed = [...body.incidents.active, ...body.incidents.recent].find((i) => i.id === inc.id);
+    assert.deepEqual(listed.updates.map((u) => u.text), ["Operadora acionada, link voltou."]);
+
+    const cached = await api("/api/public/sites/default", { token: null, headers: { "If-None-Match": res.headers.get("etag") } });
+    assert.equal(cached.status, 304);
+
+    const badge = await api("/api/public/sites/default/badge.svg?label=wifi", { token: null });
+    assert.match(badge.headers.get("content-type"), /image\/svg\+xml/);
+    assert.match(await badge.text(), /<svg[\s\S]*wifi/);
+    assert.equal((await api("/api/public/sites/nao-existe", { token: null })).status, 404);
+  });
+
+  it("incidente: reconhecer, atribuir, causa raiz e notas (admin), persistidos e no .log", async () => {
+    const [inc] = (await json("/api/incidents?limit=1")).incidents;
+    const send = (p, method, body, token = ADMIN_TOKEN) =>
+      api(`/api/incidents/${inc.id}${p}`, { token, method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+    assert.equal((await send("", "PATCH", { acknowledged: true }, VIEWER_TOKEN)).status, 403);
+    assert.equal((await send("", "PATCH", { rootCause: "nope" })).status, 400);
+    const patched = await (await send("", "PATCH", { acknowledged: true, assignee: "Ana", rootCause: "ISP" })).json();
+    assert.equal(patched.ack.by, "ci-admin");
+    assert.equal((await send("/notes", "POST", { text: "Chamado #123, fibra rompida na rua" })).status, 201);
+
+    const saved = await json(`/api/incidents/${inc.id}`);
+    assert.equal(saved.assignee.name, "Ana");
+    assert.equal(saved.notes[0].text, "Chamado #123, fibra rompida na rua");
+    assert.ok((await json("/api/incidents?ack=1&rootCause=ISP")).incidents.some((i) => i.id === inc.id));
+
+    const log = await waitFor(
+      async () => {
+        const r = await json("/api/logs/query?kind=INCIDENT_NOTE&limit=5");
+        return r.events.length ? r : null;
+      },
+      { what: "INCIDENT_NOTE no log" }
+    );
+    assert.equal(log.events[0].incidentId, inc.id);
+    assert.equal(log.events[0].user, "ci-admin");
+  });
+
+  it("PUT /api/config: valida, aplica sem restart, persiste e o DELETE volta ao .env", async () => {
+    const put = (body, token = ADMIN_TOKEN) =>
+      api("/api/config", { token, method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+    assert.equal((await put({ intervalMs: 2000 }, VIEWER_TOKEN)).status, 403);
+    let res = await put({ intervalMs: 10, thresholds: { okAfterSucc: "x" }, siteId: "outro" });
+    assert.equal(res.status, 400);
+    assert.deepEqual((await res.json()).fields, ["siteId"]);
+    res = await put({ intervalMs: 10, thresholds: { okAfterSucc: "x" } });
+    assert.equal((await res.json()).details.length, 2);
+    // só o degradedAfterFails no patch: o conflito com o DOWN_AFTER_FAILS do .env também é pego
+    assert.equal((await put({ thresholds: { degradedAfterFails: 5 } })).status, 400);
+
+    res = await put({ probeQuorum: "ALL", thresholds: { okAfterSucc: 3 } });
+    assert.equal(res.status, 200);
+    const cfg = await res.json();
+    assert.equal(cfg.settings.probeQuorum, "all");
+    assert.equal(cfg.settings.thresholds.okAfterSucc, 3);
+    assert.equal(cfg.settings.thresholds.downAfterFails, 2);
+    assert.equal(cfg.defaults.thresholds.okAfterSucc, 1);
+    assert.equal(cfg.override.updatedBy, "ci-admin");
+    const saved = JSON.parse(await readFile(path.join(dir, "data", "config-overrides.json"), "utf8"));
+    assert.deepEqual(saved.default.settings, { probeQuorum: "all", thresholds: { okAfterSucc: 3 } });
+
+    const reset = await (await api("/api/config", { method: "DELETE" })).json();
+    assert.equal(reset.override, null);
+    assert.equal(reset.settings.probeQuorum, cfg.defaults.probeQuorum);
+    assert.equal(reset.settings.thresholds.okAfterSucc, 1);
+  });
+
+  it("pelo gateway (cookie de sessão): stream no GET; escrita só da mesma origem", async () => {
+    const cookie = `monitor_token=${ADMIN_TOKEN}`;
+    const ctrl = new AbortController();
+    const stream = await api("/api/stream?types=tick", { token: null, headers: { cookie }, signal: ctrl.signal });
+    assert.equal(stream.status, 200);
+    assert.match(stream.headers.get("content-type"), /text\/event-stream/);
+    ctrl.abort();
+
+    const remove = (origin) =>
+      api("/api/maintenance/nao-existe", { token: null, method: "DELETE", headers: { cookie, ...(origin && { origin }) } });
+    // front em outra porta do mesmo host passa; 404 = chegou na rota
+    assert.equal((await remove(base.replace(/:\d+$/, ":3000"))).status, 404);
+    assert.equal((await remove(null)).status, 404);
+    const cross = await remove("http://outro-site.example");
+    assert.equal(cross.status, 403);
+    assert.equal((await cross.json()).error, "origin_not_allowed");
+  });
+});
@@ -0,0 +1,91 @@
+// test/simulate.test.mjs
+import "./env.mjs";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CONFIG } from "../src/config.mjs";
+import { parseRecorded, parseScenarioArg, simulate } from "../src/simulate.mjs";
+
+const T0 = Date.parse("2026-03-02T10:00:00.000Z");
+const MIN = 60000;
+
+const site = {
+  ...CONFIG.sites[0],
+  intervalMs: MIN,
+  thresholds: { ...CONFIG.sites[0].thresholds, degradedAfterFails: 2, downAfterFails: 3, okAfterSucc: 2 },
+  quality: { ...CONFIG.sites[0].quality, degradedAfterTicks: 0 },
+};
+
+// 3 ok, 4 falhas, 3 ok (1 tick/min), com os estados que o monitor ao vivo gravou com os limiares de `site`
+const PROBES = ["ok", "ok", "ok", "fail", "fail", "fail", "fail", "ok", "ok", "ok"];
+const STATES = ["OK", "OK", "OK", "OK", "DEGRADED", "DOWN", "DOWN", "DOWN", "OK", "OK"];
+
+function recorded({ maintenance = () => null } = {}) {
+  return PROBES.map((p, i) => ({
+    ts: new Date(T0 + i * MIN).toISOString(),
+    state: STATES[i],
+    probe: { ok: p === "ok", ms: p === "ok" ? 30 : null },
+    wanUp: null,
+    maintenance: maintenance(i),
+  }));
+}
+
+describe("simulate", () => {
+  it("atual reproduz o gravado; cenário mais tolerante troca a queda por instabilidade", async () => {
+    const r = await simulate({
+      site,
+      entries: recorded(),
+      scenarios: [{ name: "tolerante", thresholds: { downAfterFails: 5 } }],
+    });
+    const [atual, tolerante] = r.scenarios;
+    assert.equal(r.from, "2026-03-02T10:00:00.000Z");
+    assert.equal(r.recorded.ticks, 10);
+
+    for (const run of [r.recorded, atual]) {
+      assert.deepEqual(run.transitions.byKind, { "OK->DEGRADED": 1, "DEGRADED->DOWN": 1, "DOWN->OK": 1 });
+      assert.deepEqual([run.alerts.total, run.alerts.DEGRADED, run.alerts.DOWN, run.alerts.OK], [3, 1, 1, 1]);
+      assert.deepEqual([run.incidents.total, run.incidents.down, run.incidents.mttrMs], [1, 1, 4 * MIN]);
+    }
+
+    assert.deepEqual(tolerante.thresholds, { degradedAfterFails: 2, downAfterFails: 5, okAfterSucc: 2 });
+    assert.deepEqual(tolerante.transitions.byKind, { "OK->DEGRADED": 1, "DEGRADED->OK": 1 });
+    assert.equal(tolerante.alerts.DOWN, 0);
+    assert.deepEqual([tolerante.incidents.total, tolerante.incidents.down], [1, 0]);
+    assert.equal(tolerante.stateMs.DEGRADED, 4 * MIN);
+  });
+
+  it("queda que começa na manutenção e passa do fim da janela alerta uma vez, depois da janela", async () => {
+    const inWindow = (i) => (i >= 3 && i <= 5 ? [{ id: "m1", title: "Troca do roteador", wanId: null }] : null);
+    const r = await simulate({ site, entries: recorded({ maintenance: inWindow }) });
+    const [atual] = r.scenarios;
+    assert.deepEqual(atual.alerts, { total: 2, DOWN: 1, DEGRADED: 0, OK: 1, held: 2, afterMaintenance: 1 });
+    assert.equal(atual.incidents.maintenance, 1);
+    assert.equal(atual.transitions.list[0].maintenance, true);
+  });
+
+  it("cenário inválido: erro com details, nada é simulado", async () => {
+    await assert.rejects(
+      simulate({ site, entries: recorded(), scenarios: [{ name: "ruim", thresholds: { degradedAfterFails: 4, downAfterFails: 3 } }] }),
+      (e) => {
+        assert.match(e.details[0], /^ruim\.thresholds/);
+        return true;
+      }
+    );
+  });
+
+  it("arquivo gravado: JSONL, { entries } ou array; linhas que não são ticks são ignoradas", () => {
+    const lines = recorded().slice(0, 2).reverse().map((e) => JSON.stringify(e));
+    const jsonl = parseRecorded([...lines, '{"ts":"2026-03-02T10:05:00.000Z","kind":"INTERNET_DOWN"}', "lixo", ""].join("\n"));
+    assert.deepEqual(jsonl.entries.map((e) => e.ts), ["2026-03-02T10:00:00.000Z", "2026-03-02T10:01:00.000Z"]);
+    assert.equal(jsonl.ignored, 2);
+    assert.equal(parseRecorded(JSON.stringify({ entries: recorded() })).entries.length, 10);
+  });
+
+  it("--scenario do CLI: nome, apelidos e grupo quality", () => {
+    assert.deepEqual(parseScenarioArg("lento:degraded=3,down=6,ok=2,quality.window=1h,quality.degradedAfterTicks=4"), {
+      name: "lento",
+      thresholds: { degradedAfterFails: 3, downAfterFails: 6, okAfterSucc: 2 },
+      quality: { window: "1h", degradedAfterTicks: 4 },
+    });
+    assert.throws(() => parseScenarioArg("x:foo.bar=1"), /grupo desconhecido "foo"/);
+  });
+});
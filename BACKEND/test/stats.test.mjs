@@ -0,0 +1,104 @@
+// test/stats.test.mjs
+import "./env.mjs";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { CONFIG } from "../src/config.mjs";
+import { Monitor } from "../src/monitor.mjs";
+import { RollingStats, percentile, qualityOf } from "../src/stats.mjs";
+
+const T0 = Date.parse("2026-03-02T10:00:00.000Z");
+const at = (s) => new Date(T0 + s * 1000).toISOString();
+
+describe("RollingStats", () => {
+  it("percentil pelo método nearest-rank; lista vazia = null", () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+    assert.equal(percentile(sorted, 50), 50);
+    assert.equal(percentile(sorted, 95), 100);
+    assert.equal(percentile([42], 99), 42);
+    assert.equal(percentile([], 50), null);
+  });
+
+  it("cada janela só olha as amostras dela; perda conta as falhas, latência só os sucessos", () => {
+    const s = new RollingStats();
+    // 10 min atrás: latência alta que só aparece no 1h
+    s.add({ ts: at(-600), ok: true, ms: 900 });
+    for (let i = 0; i < 8; i++) s.add({ ts: at(-50 + i * 5), ok: true, ms: 100 + i * 10 });
+    s.add({ ts: at(-5), ok: false, ms: null });
+    s.add({ ts: at(0), ok: false, ms: 5000 });
+
+    const now = T0;
+    const m1 = s.window("1m", now);
+    assert.equal(m1.samples, 10);
+    assert.equal(m1.lossPct, 20);
+    assert.equal(m1.avg, 135);
+    assert.equal(m1.p50, 130);
+    assert.equal(m1.p99, 170);
+    assert.equal(m1.jitter, 23);
+
+    const h1 = s.window("1h", now);
+    assert.equal(h1.samples, 11);
+    assert.equal(h1.p99, 900);
+    assert.deepEqual(Object.keys(s.summary(now)), ["1m", "5m", "1h"]);
+  });
+
+  it("descarta amostras mais velhas que a maior janela", () => {
+    const s = new RollingStats({ windows: { "1m": 60_000 } });
+    s.add({ ts: at(0), ok: true, ms: 10 });
+    s.add({ ts: at(30), ok: true, ms: 20 });
+    s.add({ ts: at(61), ok: true, ms: 30 });
+    assert.deepEqual(s.samples.map((x) => x.ms), [20, 30]);
+  });
+
+  it("qualidade: BOA/REGULAR/RUIM pelos limites configurados; sem amostras = null", () => {
+    const s = new RollingStats({ thresholds: { slowMs: 50 } });
+    const t = s.thresholds;
+    assert.equal(qualityOf({ avg: 40, jitter: 5, lossPct: 0, samples: 3 }, t), "BOA");
+    assert.equal(qualityOf({ avg: 60, jitter: 5, lossPct: 0, samples: 3 }, t), "REGULAR");
+    assert.equal(qualityOf({ avg: 40, jitter: 5, lossPct: 25, samples: 3 }, t), "RUIM");
+    assert.equal(qualityOf({ avg: 40, jitter: 130, lossPct: 0, samples: 3 }, t), "RUIM");
+    assert.equal(s.window("5m", T0).quality, null);
+  });
+});
+
+describe("Monitor: qualidade", () => {
+  let server;
+  before(async () => {
+    server = http.createServer((req, res) => res.writeHead(204).end());
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+  after(() => new Promise((resolve) => server.close(resolve)));
+
+  it("qualidade RUIM sustentada degrada com os probes passando; poucas amostras não contam", async () => {
+    const site = {
+      ...CONFIG.sites[0],
+      probes: [],
+      probeUrls: [`http://127.0.0.1:${server.address().port}/`],
+      quality: { ...CONFIG.sites[0].quality, degradedAfterTicks: 3, minSamples: 5, window: "1h" },
+    };
+    const monitor = new Monitor({ site });
+    // sem controladora: só os probes decidem
+    monitor.api = { getAllDevices: async () => [], listWanNetworkGroups: async () => null };
+    const changes = [];
+    monitor.onChange = (c) => changes.push(`${c.prev}->${c.next}`);
+
+    // qualquer latência conta como muito lenta
+    monitor.stats.thresholds.verySlowMs = 0;
+    for (let i = 0; i < 4; i++) await monitor.tick();
+    assert.equal(monitor.state, "OK", "menos de minSamples amostras não contam");
+
+    await monitor.tick();
+    await monitor.tick();
+    assert.equal(monitor.state, "OK");
+    await monitor.tick();
+    assert.equal(monitor.state, "DEGRADED");
+    assert.equal(monitor.lastEntry.reason, "QUALITY_DEGRADED");
+
+    // REGULAR não segura o DEGRADED: volta após okAfterSucc
+    Object.assign(monitor.stats.thresholds, { verySlowMs: 60000, slowMs: 0 });
+    await monitor.tick();
+    await monitor.tick();
+    assert.equal(monitor.state, "OK");
+    assert.deepEqual(changes, ["UNKNOWN->OK", "OK->DEGRADED", "DEGRADED->OK"]);
+  });
+});
@@ -0,0 +1,55 @@
+// test/store.test.mjs
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { appendFile, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { SegmentedStore } from "../src/store.mjs";
+
+const root = await mkdtemp(path.join(os.tmpdir(), "store-"));
+after(() => rm(root, { recursive: true, force: true }));
+
+const entry = (ts, state = "OK") => ({ ts, state });
+
+describe("SegmentedStore", () => {
+  it("um segmento por dia (UTC); iterate só no intervalo, em ordem; readLatest do mais novo para trás", async () => {
+    const store = new SegmentedStore({ dir: path.join(root, "days"), retentionDays: 0 });
+    await Promise.all([
+      store.append(entry("2026-03-01T23:59:00.000Z")),
+      store.append(entry("2026-03-02T00:00:00.000Z", "DOWN")),
+      store.append(entry("2026-03-02T10:00:00.000Z")),
+      store.append(entry("2026-03-03T08:00:00.000Z", "DEGRADED")),
+    ]);
+
+    assert.deepEqual(await store.listSegments(), ["2026-03-01", "2026-03-02", "2026-03-03"]);
+    const got = [];
+    for await (const e of store.iterate({ from: "2026-03-01T23:59:30.000Z", to: "2026-03-02T10:00:00.000Z" })) got.push(e.ts);
+    assert.deepEqual(got, ["2026-03-02T00:00:00.000Z", "2026-03-02T10:00:00.000Z"]);
+
+    assert.deepEqual((await store.readLatest(3)).map((e) => e.state), ["DEGRADED", "OK", "DOWN"]);
+    const q = await store.query({ state: "down,degraded", limit: 1 });
+    assert.deepEqual([q.total, q.count, q.truncated, q.entries[0].state], [2, 1, true, "DEGRADED"]);
+  });
+
+  it("linha truncada (queda no meio do append) é ignorada na releitura", async () => {
+    const dir = path.join(root, "crash");
+    const store = new SegmentedStore({ dir, retentionDays: 0 });
+    await store.append(entry("2026-03-02T10:00:00.000Z"));
+    await appendFile(path.join(dir, "2026-03-02.jsonl"), '{"ts":"2026-03-02T10:00:15');
+
+    const reopened = new SegmentedStore({ dir, retentionDays: 0 });
+    assert.deepEqual((await reopened.readLatest(10)).map((e) => e.ts), ["2026-03-02T10:00:00.000Z"]);
+  });
+
+  it("retenção apaga segmentos inteiros mais velhos que retentionDays", async () => {
+    const dir = path.join(root, "retention");
+    const store = new SegmentedStore({ dir, retentionDays: 2 });
+    await store.append(entry(new Date().toISOString()));
+    await writeFile(path.join(dir, "2001-01-01.jsonl"), JSON.stringify(entry("2001-01-01T00:00:00.000Z")) + "\n");
+    await writeFile(path.join(dir, "notas.txt"), "fica");
+
+    assert.equal(await store.prune(), 1);
+    assert.ok(!(await readdir(dir)).includes("2001-01-01.jsonl"));
+    assert.ok((await readdir(dir)).includes("notas.txt"));
+  });
+});
@@ -0,0 +1,234 @@
+// test/unifi.test.mjs
+import "./env.mjs";
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import {
+  UnifiApi,
+  legacyWanGroups,
+  mapLegacyDevice,
+  pickActiveWanGroup,
+  pickGateway,
+  readWanStatusFromGroups,
+  readWanUp,
+} from "../src/unifi.mjs";
+import { FIRMWARES, FakeUnifi } from "./fake-unifi.mjs";
+
+// controladora mínima: UniFi OS (/api/auth/login + /proxy/network) e legacy (/api/login)
+const USER = { username: "monitor", password: "segredo" };
+const UGW = {
+  _id: "gw-1",
+  type: "ugw",
+  model: "UGW4",
+  name: "USG",
+  state: 1,
+  wan1: { ifname: "eth0", up: false, name: "wan" },
+  wan2: { ifname: "eth2", up: true, name: "wan2" },
+  uplink: { ifname: "eth2", up: true },
+};
+const AP = { _id: "ap-1", type: "uap", model: "U6-Lite", name: "Sala 1", state: 0 };
+
+let server;
+let base;
+let ctl;
+
+function reset() {
+  ctl = { unifios: true, logins: [], requests: [], expireOnce: false };
+}
+
+function json(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+before(async () => {
+  server = http.createServer(async (req, res) => {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    const { pathname } = new URL(req.url, "http://x");
+
+    if (req.method === "POST" && (pathname === "/api/auth/login" || pathname === "/api/login")) {
+      const mode = pathname === "/api/login" ? "legacy" : "unifios";
+      if (mode === "unifios" && !ctl.unifios) return json(res, 404, {});
+      const creds = JSON.parse(body || "{}");
+      if (creds.username !== USER.username || creds.password !== USER.password) return json(res, 400, {});
+      ctl.logins.push(mode);
+      const extra = mode === "unifios" ? { "X-CSRF-Token": "csrf-1" } : {};
+      return json(res, 200, {}, { "Set-Cookie": `${mode === "unifios" ? "TOKEN" : "unifises"}=s${ctl.logins.length}; Path=/`, ...extra });
+    }
+
+    ctl.requests.push({ path: pathname, key: req.headers["x-api-key"], cookie: req.headers.cookie, csrf: req.headers["x-csrf-token"] });
+    if (ctl.expireOnce && req.headers.cookie) {
+      ctl.expireOnce = false;
+      return json(res, 401, {});
+    }
+    if (pathname.endsWith("/integration/v1/sites/s1/devices")) return json(res, 200, { data: [{ id: "gw-1" }] });
+    if (pathname.endsWith("/api/s/default/stat/device")) return json(res, 200, { meta: { rc: "ok" }, data: [UGW, AP] });
+    if (pathname.endsWith("/api/s/default/stat/health")) return json(res, 200, { data: [{ subsystem: "wan", status: "ok" }] });
+    json(res, 404, {});
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise((resolve) => server.close(resolve)));
+beforeEach(reset);
+
+const session = (auth, password = USER.password) => new UnifiApi({ baseUrl: base, apiKey: "", auth, ...USER, password });
+
+// grupos como o UnifiApi devolve para o Monitor (envelope varia por firmware)
+function groupsOf(resp) {
+  return resp?.wan_network_groups ?? resp?.wanNetworkGroups ?? resp?.data ?? (Array.isArray(resp) ? resp : null);
+}
+
+describe("payloads por firmware", () => {
+  for (const name of Object.keys(FIRMWARES).filter((f) => FIRMWARES[f].groups !== "missing")) {
+    describe(name, () => {
+      it("acha o gateway no meio dos devices", () => {
+        const fake = new FakeUnifi({ firmware: name });
+        const gw = pickGateway(fake.integrationDevices());
+        assert.equal(gw?.id, "gw-1");
+      });
+
+      it("lê o link da WAN no device e nos grupos (up -> down)", () => {
+        const fake = new FakeUnifi({ firmware: name });
+        assert.equal(readWanUp(pickGateway(fake.integrationDevices())), true);
+        assert.equal(readWanStatusFromGroups(groupsOf(fake.wanGroups())).up, true);
+
+        fake.setWan("WAN", { up: false });
+        assert.equal(readWanUp(pickGateway(fake.integrationDevices())), false);
+        const failover = readWanStatusFromGroups(groupsOf(fake.wanGroups()));
+        assert.equal(failover.up, true);
+        assert.equal(failover.primary.id, "WAN");
+        assert.equal(failover.active.id, "WAN2");
+
+        fake.setWan("WAN2", { up: false });
+        const status = readWanStatusFromGroups(groupsOf(fake.wanGroups()));
+        assert.equal(status.up, false);
+        assert.equal(status.primary.id, "WAN");
+      });
+
+      it("WAN ativa passa para o 4G quando a principal cai", () => {
+        const fake = new FakeUnifi({ firmware: name });
+        assert.equal(pickActiveWanGroup(groupsOf(fake.wanGroups())).id, "WAN");
+        fake.setWan("WAN", { up: false });
+        assert.equal(pickActiveWanGroup(groupsOf(fake.wanGroups())).id, "WAN2");
+      });
+    });
+  }
+
+  it("device sem campo de WAN: readWanUp devolve null (estado fica com os probes)", () => {
+    const fake = new FakeUnifi({ firmware: "no-v2" });
+    assert.equal(readWanUp(pickGateway(fake.integrationDevices())), null);
+  });
+
+  it("sem gateway na lista: pickGateway e readWanUp devolvem null", () => {
+    const fake = new FakeUnifi();
+    const devices = fake.integrationDevices().filter((d) => d.id !== "gw-1");
+    assert.equal(pickGateway(devices), null);
+    assert.equal(readWanUp(null), null);
+  });
+});
+
+describe("controladora legacy (stat/device)", () => {
+  it("mapeia o ugw para o formato do integration API", () => {
+    const fake = new FakeUnifi();
+    const devices = fake.legacyDevices().map(mapLegacyDevice);
+    const gw = pickGateway(devices);
+    assert.equal(gw.type, "gateway");
+    assert.equal(readWanUp(gw), true);
+    assert.equal(devices.find((d) => d.id === "ap-1").state, "ONLINE");
+  });
+
+  it("monta os grupos a partir de wan1/wan2 e marca a ativa pelo uplink", () => {
+    const fake = new FakeUnifi();
+    fake.setWan("WAN", { up: false });
+    const gw = fake.legacyDevices().find((d) => d.type === "ugw");
+    const groups = legacyWanGroups(gw, fake.legacyHealth());
+
+    assert.deepEqual(
+      groups.map((g) => [g.id, g.up, g.active]),
+      [
+        ["WAN", false, false],
+        ["WAN2", true, true],
+      ]
+    );
+    assert.equal(readWanStatusFromGroups(groups).up, true);
+    assert.equal(readWanStatusFromGroups(groups).active.id, "WAN2");
+    assert.equal(pickActiveWanGroup(groups).id, "WAN2");
+  });
+
+  it("grupo ativo marcado pela controladora conta como link, mesmo sem status", () => {
+    const groups = [
+      { id: "WAN", up: false, priority: 1 },
+      { id: "WAN2", priority: 2 },
+    ];
+    assert.equal(readWanStatusFromGroups(groups).up, null);
+    groups[1].active = true;
+    assert.equal(readWanStatusFromGroups(groups).up, true);
+    groups[1].up = false;
+    assert.equal(readWanStatusFromGroups(groups).up, false);
+  });
+
+  it("sem portas wan no gateway: cai no stat/health", () => {
+    const groups = legacyWanGroups(null, [{ subsystem: "wan", status: "error" }]);
+    assert.equal(readWanStatusFromGroups(groups).up, false);
+  });
+
+  it("WAN network groups montados de stat/device + stat/health", async () => {
+    const groups = await session("legacy").listWanNetworkGroups("default");
+    assert.deepEqual(
+      groups.map((g) => [g.id, g.name, g.up, g.active]),
+      [
+        ["WAN", "WAN", false, false],
+        ["WAN2", "WAN2", true, true],
+      ]
+    );
+    assert.equal(ctl.requests.filter((r) => r.path.endsWith("/stat/device")).length, 1);
+  });
+});
+
+describe("UnifiApi: autenticação", () => {
+  it("apikey: X-API-KEY nos endpoints integration, sem login", async () => {
+    const api = new UnifiApi({ baseUrl: base, apiKey: "chave" });
+    assert.deepEqual(await api.getAllDevices("s1"), [{ id: "gw-1" }]);
+    assert.equal(api.mode, "apikey");
+    assert.deepEqual(ctl.logins, []);
+    assert.equal(ctl.requests[0].key, "chave");
+  });
+
+  it("unifios: cookie + CSRF da sessão e endpoints clássicos em /proxy/network", async () => {
+    const api = session("unifios");
+    const devices = await api.getAllDevices("default");
+    assert.deepEqual(devices.map((d) => [d.id, d.type, d.state]), [
+      ["gw-1", "gateway", "ONLINE"],
+      ["ap-1", "uap", "OFFLINE"],
+    ]);
+    assert.equal(api.mode, "unifios");
+    assert.deepEqual(ctl.requests[0], { path: "/proxy/network/api/s/default/stat/device", key: undefined, cookie: "TOKEN=s1", csrf: "csrf-1" });
+  });
+
+  it("auto: sem UniFi OS cai para a controladora legacy", async () => {
+    ctl.unifios = false;
+    const api = session("auto");
+    await api.getAllDevices("default");
+    assert.equal(api.mode, "legacy");
+    assert.deepEqual(ctl.logins, ["legacy"]);
+    assert.equal(ctl.requests[0].path, "/api/s/default/stat/device");
+    assert.equal(ctl.requests[0].cookie, "unifises=s1");
+  });
+
+  it("sessão expirada (401): refaz o login uma vez e repete a request", async () => {
+    const api = session("legacy");
+    await api.getAllDevices("default");
+    ctl.expireOnce = true;
+    api.legacyCache = null;
+    await api.getAllDevices("default");
+    assert.deepEqual(ctl.logins, ["legacy", "legacy"]);
+    assert.equal(ctl.requests.at(-1).cookie, "unifises=s2");
+  });
+
+  it("credencial errada: erro com o modo e o status do login", async () => {
+    await assert.rejects(session("legacy", "errada").getAllDevices("default"), /UniFi login \(legacy\) -> HTTP 400/);
+    await assert.rejects(session("auto", "errada").getAllDevices("default"), /UniFi login \(auto\) falhou: unifios: .* \| legacy: /);
+  });
+});
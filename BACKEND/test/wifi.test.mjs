@@ -0,0 +1,107 @@
+// test/wifi.test.mjs
+import "./env.mjs";
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { SegmentedStore } from "../src/store.mjs";
+import { mapIntegrationAp, mapLegacyAp } from "../src/unifi.mjs";
+import { WifiCollector, wifiSample } from "../src/wifi.mjs";
+
+const root = await mkdtemp(path.join(os.tmpdir(), "wifi-"));
+after(() => rm(root, { recursive: true, force: true }));
+
+const ap = (id, clients, bands = {}, util = null) => ({
+  id,
+  name: `AP ${id}`,
+  clients,
+  bands,
+  ssids: { Alunos: clients },
+  radios: [{ band: "2.4", utilPct: util }, { band: "5", utilPct: util === null ? null : util / 2 }],
+});
+
+describe("Wi-Fi", () => {
+  it("AP do integration API e do stat/device no mesmo formato: clientes por banda e SSID", () => {
+    const integ = mapIntegrationAp(
+      { id: "ap1", name: "Sala 1", model: "U6-Lite", macAddress: "aa" },
+      { interfaces: { radios: [{ frequencyGHz: 2.4, channel: 6, channelUtilizationPct: 70 }] } },
+      [
+        { frequencyGHz: 5, ssid: "Alunos" },
+        { frequencyGHz: 2.4, ssid: "Alunos" },
+        { frequencyGHz: 5, ssid: "Professores" },
+      ]
+    );
+    assert.deepEqual(
+      [integ.clients, integ.bands, integ.ssids, integ.radios[0].utilPct],
+      [3, { 5: 2, 2.4: 1 }, { Alunos: 2, Professores: 1 }, 70]
+    );
+
+    const legacy = mapLegacyAp({
+      _id: "ap2",
+      name: "Pátio",
+      radio_table_stats: [
+        { radio: "ng", channel: 1, cu_total: 35, num_sta: 4 },
+        { radio: "na", channel: 36, cu_total: 10, num_sta: 6 },
+      ],
+      vap_table: [
+        { essid: "Alunos", num_sta: 7 },
+        { essid: "Professores", num_sta: 3 },
+      ],
+    });
+    assert.deepEqual([legacy.id, legacy.clients, legacy.bands, legacy.ssids], ["ap2", 10, { 2.4: 4, 5: 6 }, { Alunos: 7, Professores: 3 }]);
+  });
+
+  it("amostra soma os APs; utilização do AP = rádio mais congestionado", () => {
+    const s = wifiSample({ source: "integration", aps: [ap("a", 5, { 5: 3, 2.4: 2 }, 80), ap("b", 2, { 5: 2 })] }, "2026-03-02T10:00:00.000Z");
+    assert.deepEqual([s.total, s.bands, s.ssids], [7, { 5: 5, 2.4: 2 }, { Alunos: 7 }]);
+    assert.deepEqual(s.aps.map((x) => x.util), [80, null]);
+  });
+
+  it("coleta grava no store; falha da controladora fica em lastError e mantém a última amostra", async () => {
+    const store = new SegmentedStore({ dir: path.join(root, "collect"), retentionDays: 0 });
+    let fail = false;
+    const api = {
+      getWifiStats: async () => {
+        if (fail) throw new Error("HTTP 500");
+        return { source: "integration", aps: [ap("a", 1), ap("b", 9, {}, 40), ap("c", 9, {}, 90)] };
+      },
+    };
+    const w = new WifiCollector({ api, siteId: "default", store });
+    await w.collect({ ts: "2026-03-02T10:00:00.000Z" });
+    assert.deepEqual(w.busiest(2).map((x) => x.id), ["c", "b"]);
+
+    fail = true;
+    await assert.rejects(w.collect(), /HTTP 500/);
+    assert.equal(w.lastError, "HTTP 500");
+    assert.equal(w.latest.total, 19);
+
+    // collect() não espera a gravação (não segura o timer): espera a fila do store aqui
+    await store.queue;
+    const again = new WifiCollector({ api, siteId: "default", store });
+    await again.hydrate();
+    assert.equal(again.latest.ts, "2026-03-02T10:00:00.000Z");
+  });
+
+  it("série: média e pico por bucket, top APs pelo pico do período", async () => {
+    const store = new SegmentedStore({ dir: path.join(root, "series"), retentionDays: 0 });
+    const samples = [
+      ["10:00", [ap("a", 10, { 5: 10 }), ap("b", 2, { 5: 2 }), ap("c", 1, { 5: 1 })]],
+      ["10:10", [ap("a", 20, { 5: 20 }), ap("b", 4, { 5: 4 }), ap("c", 0)]],
+      ["10:20", [ap("a", 6, { 5: 6 }), ap("b", 30, { 5: 30 }), ap("c", 3, { 5: 3 })]],
+    ];
+    for (const [hhmm, aps] of samples) await store.append(wifiSample({ aps }, `2026-03-02T${hhmm}:00.000Z`));
+
+    const w = new WifiCollector({ store });
+    const r = await w.series({ from: "2026-03-02T10:00:00.000Z", to: "2026-03-02T11:00:00.000Z", bucketMs: 15 * 60000, top: 2 });
+    assert.equal(r.samples, 3);
+    assert.deepEqual(r.aps, [
+      { id: "b", name: "AP b", peak: 30, avg: 12 },
+      { id: "a", name: "AP a", peak: 20, avg: 12 },
+    ]);
+    assert.deepEqual(r.points, [
+      { ts: "2026-03-02T10:00:00.000Z", clients: 19, max: 24, bands: { 5: 19 }, aps: { b: 4, a: 20 } },
+      { ts: "2026-03-02T10:15:00.000Z", clients: 39, max: 39, bands: { 5: 39 }, aps: { b: 30, a: 6 } },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+// test/wsproto.test.mjs
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_HISTORY, WS_EVENT_TYPES, WsJournal, helloFromQuery, parseHello, subscribed } from "../src/wsproto.mjs";
+
+const sites = new Map([
+  ["escola-a", {}],
+  ["escola-b", {}],
+]);
+const ctx = { sites, defaultSite: "escola-a" };
+
+describe("hello", () => {
+  it("padrões: site da URL, todos os tipos, history do Monitor, sem resume", () => {
+    assert.deepEqual(parseHello({ type: "hello", v: 1 }, ctx), {
+      site: "escola-a",
+      types: WS_EVENT_TYPES,
+      history: null,
+      resume: null,
+    });
+  });
+
+  it("aceita site *, subconjunto de tipos (na ordem do protocolo), history e resume", () => {
+    const sub = parseHello(
+      { type: "hello", v: 1, site: "*", types: ["incident", "tick"], history: 0, resume: { epoch: "abc", seq: 7 } },
+      ctx
+    );
+    assert.deepEqual(sub, { site: "*", types: ["tick", "incident"], history: 0, resume: { epoch: "abc", seq: 7 } });
+  });
+
+  it("recusa versão, site e campos inválidos com o código e os detalhes", () => {
+    assert.throws(() => parseHello({ type: "snapshot" }, ctx), { code: "hello_required" });
+    assert.throws(() => parseHello({ type: "hello", v: 2 }, ctx), { code: "unsupported_version", supported: [1] });
+    assert.throws(() => parseHello({ type: "hello", v: 1, site: "x" }, ctx), { code: "site_not_found" });
+    assert.throws(
+      () => parseHello({ type: "hello", v: 1, types: ["tick", "nope"], history: MAX_HISTORY + 1, resume: { seq: -1 } }, ctx),
+      (e) => e.code === "invalid_hello" && e.details.length === 3
+    );
+  });
+});
+
+describe("hello do SSE (query)", () => {
+  it("monta o hello da query e prefere o Last-Event-ID ao ?resume=", () => {
+    const hello = helloFromQuery({ site: "escola-b", types: "tick,incident", history: "5", resume: "abc:3" }, "abc:9");
+    assert.deepEqual(parseHello(hello, ctx), {
+      site: "escola-b",
+      types: ["tick", "incident"],
+      history: 5,
+      resume: { epoch: "abc", seq: 9 },
+    });
+    assert.deepEqual(parseHello(helloFromQuery({}), ctx).resume, null);
+  });
+
+  it("query inválida cai nas mesmas validações do hello", () => {
+    assert.throws(() => parseHello(helloFromQuery({ v: "2" }), ctx), { code: "unsupported_version" });
+    assert.throws(
+      () => parseHello(helloFromQuery({ history: "muitas" }, "sem-seq"), ctx),
+      (e) => e.code === "invalid_hello" && e.details.length === 2
+    );
+  });
+});
+
+const tick = () => ({ type: "tick", state: "OK", label: "Online", entry: {}, stats: {} });
+
+describe("journal", () => {
+  it("numera em ordem e filtra por site e tipo", () => {
+    const j = new WsJournal();
+    const a = j.append("escola-a", tick());
+    const b = j.append("escola-b", { type: "incident", event: "opened", incident: {} });
+    assert.deepEqual([a.seq, b.seq], [1, 2]);
+    assert.equal(a.v, 1);
+    assert.ok(subscribed({ site: "*", types: WS_EVENT_TYPES }, b));
+    assert.ok(!subscribed({ site: "escola-a", types: WS_EVENT_TYPES }, b));
+    assert.ok(!subscribed({ site: "escola-b", types: ["tick"] }, b));
+    assert.throws(() => j.append("escola-a", { type: "qualquer" }), /desconhecido/);
+  });
+
+  it("since devolve só o que faltou e null quando não dá para retomar sem buraco", () => {
+    const j = new WsJournal({ size: 3 });
+    for (let i = 0; i < 5; i++) j.append("escola-a", tick());
+
+    assert.deepEqual(j.since({ epoch: j.epoch, seq: 3 }).map((m) => m.seq), [4, 5]);
+    assert.deepEqual(j.since({ epoch: j.epoch, seq: 2 }).map((m) => m.seq), [3, 4, 5]);
+    assert.deepEqual(j.since({ epoch: j.epoch, seq: 5 }), []);
+    assert.equal(j.since({ epoch: j.epoch, seq: 1 }), null, "seq 2 já saiu do buffer");
+    assert.equal(j.since({ epoch: "outro-boot", seq: 4 }), null);
+    assert.equal(j.since({ epoch: j.epoch, seq: 9 }), null);
+  });
+
+  it("segue EVENT_FIELDS: só os campos declarados saem; faltando ou com tipo errado é recusado sem gastar seq", () => {
+    const j = new WsJournal();
+    const m = j.append("escola-a", { type: "maintenance", event: "created", active: [], extra: "x", site: "outro" });
+    assert.deepEqual(Object.keys(m).sort(), ["active", "event", "seq", "site", "ts", "type", "v"]);
+    assert.equal(m.site, "escola-a");
+    assert.ok("window" in j.append("escola-a", { type: "maintenance", event: "created", window: {}, active: [] }));
+
+    assert.throws(
+      () => j.append("escola-a", { type: "state_change", prev: "OK", next: "DOWN", entry: [] }),
+      (e) => e.details.length === 2 && /label: esperado string/.test(e.message)
+    );
+    assert.throws(() => j.append("escola-a", { type: "maintenance", event: "x", window: null, active: [] }), /window/);
+    assert.equal(j.seq, 2);
+  });
+});
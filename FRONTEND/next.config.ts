@@ -1,13 +1,7 @@
 import type { NextConfig } from "next";
 
-const nextConfig: NextConfig = {
-  async rewrites() {
-    return [
-      // API do monitor (Fastify)
-      { source: "/api/monitor/:path*", destination: "http://192.168.1.125:3030/api/:path*" },
-      // WS não passa por rewrite do Next, vamos usar URL direto no front
-    ];
-  },
-};
+// API e stream ao vivo do monitor passam pelo gateway em src/app/api/monitor/[...path]/route.ts;
+// o endereço do backend vem de MONITOR_API_URL no runtime (não entra na build)
+const nextConfig: NextConfig = {};
 
 export default nextConfig;
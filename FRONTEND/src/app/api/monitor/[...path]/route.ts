@@ -0,0 +1,57 @@
+import type { NextRequest } from "next/server";
+import { forwardedFor, proxyHops } from "@/lib/forwarded";
+
+// Gateway do backend (Fastify): /api/monitor/* -> <MONITOR_API_URL>/api/*, inclusive o stream ao vivo
+// (/api/monitor/stream, SSE). O endereço é lido em runtime, então a mesma build serve qualquer deploy.
+export const dynamic = "force-dynamic";
+
+const DEFAULT_BACKEND = "http://127.0.0.1:3333";
+
+// hop-by-hop e o que o fetch recalcula sozinho
+const DROP_REQUEST = ["host", "connection", "keep-alive", "upgrade", "transfer-encoding", "content-length", "accept-encoding"];
+const DROP_RESPONSE = ["connection", "keep-alive", "transfer-encoding", "content-length", "content-encoding"];
+
+function backendUrl() {
+  return (process.env.MONITOR_API_URL?.trim() || DEFAULT_BACKEND).replace(/\/$/, "");
+}
+
+async function proxy(req: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params;
+  const target = `${backendUrl()}/api/${path.map(encodeURIComponent).join("/")}${req.nextUrl.search}`;
+
+  const headers = new Headers(req.headers);
+  for (const h of DROP_REQUEST) headers.delete(h);
+  // o fetch manda o Host do backend: o host do navegador vai no X-Forwarded-Host, que o backend (TRUST_PROXY,
+  // padrão loopback) usa na checagem de Origin; também IP do cliente (lockout do login) e https (cookie Secure)
+  headers.set("x-forwarded-host", req.headers.get("host") ?? req.nextUrl.host);
+  headers.set("x-forwarded-proto", req.nextUrl.protocol.replace(/:$/, ""));
+  const ip = forwardedFor(req.headers.get("x-forwarded-for"), proxyHops());
+  if (ip) headers.set("x-forwarded-for", ip);
+  else headers.delete("x-forwarded-for");
+
+  let res: Response;
+  try {
+    res = await fetch(target, {
+      method: req.method,
+      headers,
+      body: req.method === "GET" || req.method === "HEAD" ? undefined : await req.arrayBuffer(),
+      redirect: "manual",
+      cache: "no-store",
+      // aba fechada -> conexão com o backend fecha junto (importante no SSE)
+      signal: req.signal,
+    });
+  } catch {
+    return Response.json({ error: "backend_unreachable" }, { status: 502 });
+  }
+
+  const out = new Headers(res.headers);
+  for (const h of DROP_RESPONSE) out.delete(h);
+  if (out.get("content-type")?.startsWith("text/event-stream")) {
+    // sem compressão/buffer no caminho: cada evento sai na hora
+    out.set("cache-control", "no-cache, no-transform");
+    out.set("x-accel-buffering", "no");
+  }
+  return new Response(res.body, { status: res.status, statusText: res.statusText, headers: out });
+}
+
+export { proxy as DELETE, proxy as GET, proxy as HEAD, proxy as PATCH, proxy as POST, proxy as PUT };
@@ -0,0 +1,235 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { ArrowDownCircle, ArrowUpCircle, HardDrive, Router, Server, Wifi, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { apiFetch } from "@/lib/auth";
+import { apiPath, useSite } from "@/lib/site";
+import {
+  fmtDateTime,
+  fmtDuration,
+  type Device,
+  type DeviceKind,
+  type DevicesPayload,
+} from "@/lib/monitor";
+import { Badge, Card, Notice, Segmented } from "@/components/ui";
+import { PageShell } from "@/components/shell";
+
+const REFRESH_MS = 30000;
+
+const KIND_LABEL: Record<DeviceKind, string> = {
+  gateway: "Gateway",
+  switch: "Switch",
+  ap: "Access point",
+  other: "Outro",
+};
+
+const KIND_ICON: Record<DeviceKind, React.ComponentType<{ className?: string }>> = {
+  gateway: Router,
+  switch: Server,
+  ap: Wifi,
+  other: HardDrive,
+};
+
+export default function DevicesPage() {
+  const site = useSite();
+  const [kind, setKind] = useState<"" | DeviceKind>("");
+  const [status, setStatus] = useState<"" | "ONLINE" | "OFFLINE">("");
+  const [q, setQ] = useState("");
+
+  const [data, setData] = useState<DevicesPayload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (kind) params.set("kind", kind);
+      if (status) params.set("status", status);
+      if (q.trim()) params.set("q", q.trim());
+
+      const res = await apiFetch(`${apiPath("/devices", site)}?${params}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setData((await res.json()) as DevicesPayload);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao carregar dispositivos");
+    } finally {
+      setLoading(false);
+    }
+  }, [site, kind, status, q]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const devices = data?.devices ?? [];
+  const summary = data?.summary;
+  const events = (data?.events ?? []).slice(0, 20);
+
+  return (
+    <PageShell
+      title="Dispositivos"
+      icon={<HardDrive className="h-5 w-5 text-indigo-300" />}
+      actions={
+        <button
+          onClick={load}
+          className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-900/70 hover:border-slate-700"
+        >
+          {loading ? "Carregando..." : "Atualizar"}
+        </button>
+      }
+    >
+      {error && (
+        <div className="mb-6">
+          <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title="Erro">
+            {error}
+          </Notice>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <Segmented
+            value={kind}
+            onChange={setKind}
+            options={[
+              { value: "", label: "Todos" },
+              { value: "gateway", label: "Gateway" },
+              { value: "switch", label: "Switches" },
+              { value: "ap", label: "APs" },
+              { value: "other", label: "Outros" },
+            ]}
+          />
+          <Segmented
+            value={status}
+            onChange={setStatus}
+            options={[
+              { value: "", label: "Qualquer" },
+              { value: "OFFLINE", label: "Offline" },
+              { value: "ONLINE", label: "Online" },
+            ]}
+          />
+          <input
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            placeholder="Nome, modelo, IP ou MAC"
+            className="rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-xs font-semibold text-slate-300 placeholder:text-slate-600"
+          />
+
+          <div className="ml-auto flex items-center gap-2">
+            <Badge className="bg-slate-950/40 text-slate-300 ring-slate-800">
+              <span className="font-mono">{summary?.total ?? 0}</span>&nbsp;dispositivos
+            </Badge>
+            <Badge className="bg-emerald-500/10 text-emerald-300 ring-emerald-500/20">
+              Online&nbsp;<span className="font-mono">{summary?.online ?? 0}</span>
+            </Badge>
+            <Badge className="bg-rose-500/10 text-rose-300 ring-rose-500/20">
+              Offline&nbsp;<span className="font-mono">{summary?.offline ?? 0}</span>
+            </Badge>
+          </div>
+        </div>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="overflow-hidden rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-sm shadow-xl lg:col-span-2">
+          <div className="max-h-[680px] overflow-auto scrollbar-app">
+            <table className="w-full text-left text-sm">
+              <thead className="sticky top-0 z-10 bg-slate-950/80 backdrop-blur text-xs uppercase font-semibold text-slate-500 shadow-sm">
+                <tr>
+                  <th className="px-4 py-4">Status</th>
+                  <th className="px-4 py-4">Dispositivo</th>
+                  <th className="px-4 py-4">IP / MAC</th>
+                  <th className="px-4 py-4">Firmware</th>
+                  <th className="px-4 py-4">Uptime</th>
+                  <th className="px-4 py-4">Visto por último</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/60">
+                {devices.map((d) => (
+                  <DeviceRow key={d.id} d={d} />
+                ))}
+                {!devices.length && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-10 text-center text-slate-500">
+                      Nenhum dispositivo encontrado.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <Card>
+          <h3 className="mb-4 text-xs font-bold uppercase tracking-wider text-slate-400">Eventos recentes</h3>
+          {!events.length && <div className="text-sm text-slate-500">Nenhuma queda de dispositivo registrada.</div>}
+          <ol className="space-y-3">
+            {events.map((ev, i) => {
+              const down = ev.kind === "DEVICE_DOWN";
+              const Icon = down ? ArrowDownCircle : ArrowUpCircle;
+              return (
+                <li key={`${ev.ts}:${ev.device.id}:${i}`} className="flex items-start gap-3">
+                  <Icon className={cn("mt-0.5 h-4 w-4 flex-shrink-0", down ? "text-rose-400" : "text-emerald-400")} />
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-semibold text-slate-200">{ev.device.name}</div>
+                    <div className="text-xs text-slate-500">
+                      {down ? "ficou offline" : "voltou"} • {fmtDateTime(ev.ts)}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </Card>
+      </div>
+    </PageShell>
+  );
+}
+
+function DeviceRow({ d }: { d: Device }) {
+  const Icon = KIND_ICON[d.kind] ?? HardDrive;
+  const tone =
+    d.status === "ONLINE" ? "text-emerald-400" : d.status === "OFFLINE" ? "text-rose-400" : "text-slate-400";
+  const dot = d.status === "ONLINE" ? "bg-emerald-500" : d.status === "OFFLINE" ? "bg-rose-500" : "bg-slate-500";
+
+  return (
+    <tr className="hover:bg-slate-800/30 transition-colors">
+      <td className="px-4 py-3">
+        <span className={cn("inline-flex items-center gap-2 text-xs font-bold", tone)}>
+          <span className={cn("h-2 w-2 rounded-full", dot)} />
+          {d.status}
+        </span>
+        <div className="text-[11px] text-slate-500">desde {fmtDateTime(d.since)}</div>
+      </td>
+      <td className="px-4 py-3">
+        <div className="flex items-center gap-2">
+          <Icon className="h-4 w-4 flex-shrink-0 text-slate-400" />
+          <div className="min-w-0">
+            <div className="truncate font-semibold text-slate-200">{d.name}</div>
+            <div className="text-xs text-slate-500">
+              {KIND_LABEL[d.kind]} • {d.model ?? "—"}
+            </div>
+          </div>
+        </div>
+      </td>
+      <td className="px-4 py-3 font-mono text-xs text-slate-400">
+        <div>{d.ip ?? "—"}</div>
+        <div className="text-slate-600">{d.mac ?? ""}</div>
+      </td>
+      <td className="px-4 py-3 font-mono text-xs text-slate-300">
+        {d.firmware ?? "—"}
+        {d.firmwareUpdatable && (
+          <Badge className="ml-2 bg-amber-500/10 px-2 py-0.5 text-[10px] text-amber-300 ring-amber-500/20">update</Badge>
+        )}
+      </td>
+      <td className="px-4 py-3 font-mono text-xs text-slate-300">
+        {d.uptimeSec != null ? fmtDuration(d.uptimeSec * 1000) : "—"}
+      </td>
+      <td className="px-4 py-3 text-xs text-slate-400">{fmtDateTime(d.lastSeen ?? undefined)}</td>
+    </tr>
+  );
+}
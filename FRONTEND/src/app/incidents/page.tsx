@@ -0,0 +1,430 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { ShieldAlert, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { apiFetch, useAuthUser } from "@/lib/auth";
+import { apiPath, useSite } from "@/lib/site";
+import {
+  ROOT_CAUSES,
+  fmtDateTime,
+  fmtDuration,
+  getStateConfig,
+  type Incident,
+  type IncidentsPayload,
+  type RootCause,
+} from "@/lib/monitor";
+import { Badge, Card, Notice, Segmented } from "@/components/ui";
+import { PageShell } from "@/components/shell";
+
+const PERIODS = [
+  { key: "24h", label: "24h", ms: 24 * 60 * 60 * 1000 },
+  { key: "7d", label: "7 dias", ms: 7 * 24 * 60 * 60 * 1000 },
+  { key: "30d", label: "30 dias", ms: 30 * 24 * 60 * 60 * 1000 },
+  { key: "all", label: "Tudo", ms: 0 },
+] as const;
+
+const REASONS: Record<string, string> = {
+  WAN_LINK_DOWN: "Links WAN caíram",
+  PROBE_DOWN: "Sem resposta dos alvos",
+  PROBE_DEGRADED: "Falhas intermitentes",
+  DNS_DOWN: "DNS fora do ar",
+  DNS_DEGRADED: "DNS instável",
+  QUALITY_DEGRADED: "Qualidade ruim (latência/jitter/perda)",
+};
+
+export default function IncidentsPage() {
+  const site = useSite();
+  const me = useAuthUser();
+  const isAdmin = me?.user.role === "admin";
+  const [period, setPeriod] = useState<(typeof PERIODS)[number]["key"]>("7d");
+  const [state, setState] = useState<"" | "DOWN" | "DEGRADED">("");
+  const [reason, setReason] = useState("");
+  const [onlyOpen, setOnlyOpen] = useState(false);
+  const [onlyUnacked, setOnlyUnacked] = useState(false);
+  const [rootCause, setRootCause] = useState("");
+
+  const [data, setData] = useState<IncidentsPayload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: "500" });
+      const p = PERIODS.find((x) => x.key === period);
+      if (p?.ms) params.set("from", new Date(Date.now() - p.ms).toISOString());
+      if (state) params.set("state", state);
+      if (reason) params.set("reason", reason);
+      if (onlyOpen) params.set("open", "1");
+      if (onlyUnacked) params.set("ack", "0");
+      if (rootCause) params.set("rootCause", rootCause);
+
+      const res = await apiFetch(`${apiPath("/incidents", site)}?${params}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setData((await res.json()) as IncidentsPayload);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao carregar incidentes");
+    } finally {
+      setLoading(false);
+    }
+  }, [site, period, state, reason, onlyOpen, onlyUnacked, rootCause]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const incidents = data?.incidents ?? [];
+  const totalDown = incidents.filter((i) => i.worstState === "DOWN").reduce((a, i) => a + i.durationMs, 0);
+
+  return (
+    <PageShell
+      title="Incidentes"
+      icon={<ShieldAlert className="h-5 w-5 text-indigo-300" />}
+      actions={
+        <button
+          onClick={load}
+          className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-900/70 hover:border-slate-700"
+        >
+          {loading ? "Carregando..." : "Atualizar"}
+        </button>
+      }
+    >
+      {error && (
+        <div className="mb-6">
+          <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title="Erro">
+            {error}
+          </Notice>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <Segmented
+            value={period}
+            onChange={setPeriod}
+            options={PERIODS.map((p) => ({ value: p.key, label: p.label }))}
+          />
+          <Segmented
+            value={state}
+            onChange={setState}
+            options={[
+              { value: "", label: "Todos" },
+              { value: "DOWN", label: "Fora do ar" },
+              { value: "DEGRADED", label: "Instável" },
+            ]}
+          />
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-xs font-semibold text-slate-300"
+          >
+            <option value="">Qualquer motivo</option>
+            {Object.entries(REASONS).map(([k, v]) => (
+              <option key={k} value={k}>
+                {v}
+              </option>
+            ))}
+          </select>
+          <select
+            value={rootCause}
+            onChange={(e) => setRootCause(e.target.value)}
+            className="rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-xs font-semibold text-slate-300"
+          >
+            <option value="">Qualquer causa raiz</option>
+            <option value="none">Não classificada</option>
+            {Object.entries(ROOT_CAUSES).map(([k, v]) => (
+              <option key={k} value={k}>
+                {v}
+              </option>
+            ))}
+          </select>
+          <label className="inline-flex items-center gap-2 text-xs font-semibold text-slate-400">
+            <input type="checkbox" checked={onlyOpen} onChange={(e) => setOnlyOpen(e.target.checked)} />
+            Só em andamento
+          </label>
+          <label className="inline-flex items-center gap-2 text-xs font-semibold text-slate-400">
+            <input type="checkbox" checked={onlyUnacked} onChange={(e) => setOnlyUnacked(e.target.checked)} />
+            Não reconhecidos
+          </label>
+
+          <div className="ml-auto flex items-center gap-2">
+            <Badge className="bg-slate-950/40 text-slate-300 ring-slate-800">
+              <span className="font-mono">{data?.total ?? 0}</span>&nbsp;incidentes
+            </Badge>
+            <Badge className="bg-rose-500/10 text-rose-300 ring-rose-500/20">
+              Fora do ar&nbsp;<span className="font-mono">{fmtDuration(totalDown)}</span>
+            </Badge>
+          </div>
+        </div>
+      </Card>
+
+      <div className="overflow-hidden rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-sm shadow-xl">
+        <div className="max-h-[680px] overflow-auto scrollbar-app">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 z-10 bg-slate-950/80 backdrop-blur text-xs uppercase font-semibold text-slate-500 shadow-sm">
+              <tr>
+                <th className="px-6 py-4">Pior estado</th>
+                <th className="px-6 py-4">Início</th>
+                <th className="px-6 py-4">Fim</th>
+                <th className="px-6 py-4">Duração</th>
+                <th className="px-6 py-4">Motivo</th>
+                <th className="px-6 py-4">Gateway / WAN</th>
+                <th className="px-6 py-4">Latência</th>
+                <th className="px-6 py-4">Tratamento</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/60">
+              {incidents.map((inc) => (
+                <IncidentRow key={inc.id} inc={inc} site={site} canEdit={isAdmin} onChanged={load} />
+              ))}
+              {!incidents.length && (
+                <tr>
+                  <td colSpan={8} className="px-6 py-10 text-center text-slate-500">
+                    Nenhum incidente no período.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </PageShell>
+  );
+}
+
+function IncidentRow({
+  inc,
+  site,
+  canEdit,
+  onChanged,
+}: {
+  inc: Incident;
+  site: string | null;
+  canEdit: boolean;
+  onChanged: () => void;
+}) {
+  const sConf = getStateConfig(inc.worstState);
+  const lat =
+    inc.probe?.minMs != null ? `${inc.probe.minMs}–${inc.probe.maxMs}ms` : inc.probe?.failures ? "sem resposta" : "—";
+
+  const [open, setOpen] = useState(false);
+  const [assignee, setAssignee] = useState(inc.assignee?.name ?? "");
+  const [note, setNote] = useState("");
+  const [update, setUpdate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // PATCH (triagem) ou POST de nota/atualização; recarrega a lista quando dá certo
+  const send = async (path: string, method: "PATCH" | "POST", body: unknown) => {
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await apiFetch(apiPath(`/incidents/${encodeURIComponent(inc.id)}${path}`, site), {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error(res.status === 403 ? "Somente administradores" : `HTTP ${res.status}`);
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const submitText = (path: string, text: string, clear: () => void) => async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await send(path, "POST", { text })) clear();
+  };
+
+  return (
+    <>
+      <tr className="hover:bg-slate-800/25 transition-colors">
+        <td className="px-6 py-3 whitespace-nowrap">
+          <span
+            className={cn(
+              "inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-bold ring-1 ring-inset",
+              sConf.bg,
+              sConf.border,
+              sConf.color
+            )}
+          >
+            <span className={cn("h-1.5 w-1.5 rounded-full", sConf.dot)} />
+            {inc.worstState}
+          </span>
+        </td>
+        <td className="px-6 py-3 font-mono text-xs text-slate-400 whitespace-nowrap">{fmtDateTime(inc.start)}</td>
+        <td className="px-6 py-3 font-mono text-xs whitespace-nowrap">
+          {inc.end ? (
+            <span className="text-slate-400">{fmtDateTime(inc.end)}</span>
+          ) : (
+            <span className="font-sans font-bold text-amber-300">em andamento</span>
+          )}
+        </td>
+        <td className="px-6 py-3 font-mono font-bold text-slate-200 whitespace-nowrap">{fmtDuration(inc.durationMs)}</td>
+        <td className="px-6 py-3 text-xs text-slate-300">
+          {REASONS[inc.reason ?? ""] ?? inc.reason ?? "—"}
+          {inc.maintenance && <span className="ml-2 text-indigo-300">• manutenção</span>}
+        </td>
+        <td className="px-6 py-3 text-xs">
+          <div className="text-slate-200">{inc.gateway?.name ?? inc.gateway?.model ?? "—"}</div>
+          <div className="text-slate-500">{inc.wan?.name ?? inc.wan?.id ?? ""}</div>
+        </td>
+        <td className="px-6 py-3 font-mono text-xs text-slate-400 whitespace-nowrap">{lat}</td>
+        <td className="px-6 py-3 text-xs whitespace-nowrap">
+          {inc.ack ? (
+            <div className="text-emerald-300">reconhecido • {inc.ack.by ?? "—"}</div>
+          ) : (
+            <div className={inc.end ? "text-slate-500" : "font-semibold text-amber-300"}>não reconhecido</div>
+          )}
+          <div className="text-slate-400">
+            {[inc.assignee?.name, inc.rootCause ? ROOT_CAUSES[inc.rootCause] : null].filter(Boolean).join(" • ") || "—"}
+          </div>
+          <button
+            type="button"
+            onClick={() => setOpen((v) => !v)}
+            className="mt-1 font-semibold text-indigo-300 hover:text-indigo-200"
+          >
+            {open ? "Fechar" : `Detalhes${inc.notes?.length ? ` (${inc.notes.length} notas)` : ""}`}
+          </button>
+        </td>
+      </tr>
+      {open && (
+        <tr className="bg-slate-950/30">
+          <td colSpan={8} className="px-6 py-4">
+            <div className="grid gap-6 text-xs md:grid-cols-3">
+              <div className="space-y-3">
+                <h4 className="font-bold uppercase tracking-wider text-slate-500">Triagem</h4>
+                {inc.ack ? (
+                  <div className="text-slate-300">
+                    Reconhecido por {inc.ack.by ?? "—"} em {fmtDateTime(inc.ack.ts)}
+                    {!inc.end && <div className="text-slate-500">alertas repetidos deste incidente estão silenciados</div>}
+                  </div>
+                ) : (
+                  <div className="text-slate-500">Ninguém reconheceu este incidente.</div>
+                )}
+                {canEdit && (
+                  <button
+                    type="button"
+                    disabled={saving}
+                    onClick={() => send("", "PATCH", { acknowledged: !inc.ack })}
+                    className="rounded-xl bg-indigo-500/20 px-3 py-2 font-semibold text-indigo-200 ring-1 ring-inset ring-indigo-500/30 transition hover:bg-indigo-500/30 disabled:opacity-50"
+                  >
+                    {inc.ack ? "Remover reconhecimento" : "Reconhecer"}
+                  </button>
+                )}
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    send("", "PATCH", { assignee });
+                  }}
+                  className="flex items-center gap-2"
+                >
+                  <input
+                    value={assignee}
+                    onChange={(e) => setAssignee(e.target.value)}
+                    disabled={!canEdit}
+                    maxLength={80}
+                    placeholder="Responsável"
+                    className="min-w-0 flex-1 rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-slate-200 placeholder:text-slate-600 disabled:opacity-60"
+                  />
+                  {canEdit && (
+                    <button
+                      type="submit"
+                      disabled={saving || assignee.trim() === (inc.assignee?.name ?? "")}
+                      className="rounded-xl border border-slate-800 px-3 py-2 font-semibold text-slate-300 transition hover:text-white disabled:opacity-50"
+                    >
+                      Atribuir
+                    </button>
+                  )}
+                </form>
+                <select
+                  value={inc.rootCause ?? ""}
+                  disabled={!canEdit || saving}
+                  onChange={(e) => send("", "PATCH", { rootCause: (e.target.value || null) as RootCause | null })}
+                  className="w-full rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 font-semibold text-slate-300 disabled:opacity-60"
+                >
+                  <option value="">Causa raiz: não classificada</option>
+                  {Object.entries(ROOT_CAUSES).map(([k, v]) => (
+                    <option key={k} value={k}>
+                      {v}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="font-bold uppercase tracking-wider text-slate-500">Notas internas</h4>
+                {!inc.notes?.length && <div className="text-slate-500">Nenhuma nota.</div>}
+                <ul className="space-y-1.5">
+                  {inc.notes?.map((n) => (
+                    <li key={n.id} className="text-slate-300">
+                      <span className="font-mono text-slate-500">{fmtDateTime(n.ts)}</span>
+                      {n.by && <span className="text-slate-500"> • {n.by}</span>}
+                      <div>{n.text}</div>
+                    </li>
+                  ))}
+                </ul>
+                {canEdit && (
+                  <form onSubmit={submitText("/notes", note, () => setNote(""))} className="flex items-center gap-2">
+                    <input
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      maxLength={2000}
+                      placeholder="Ex.: chamado #123 na operadora, fibra rompida na rua"
+                      className="min-w-0 flex-1 rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-slate-200 placeholder:text-slate-600"
+                    />
+                    <button
+                      type="submit"
+                      disabled={saving || !note.trim()}
+                      className="rounded-xl border border-slate-800 px-3 py-2 font-semibold text-slate-300 transition hover:text-white disabled:opacity-50"
+                    >
+                      Anotar
+                    </button>
+                  </form>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="font-bold uppercase tracking-wider text-slate-500">Status público</h4>
+                {!inc.updates?.length && <div className="text-slate-500">Nada publicado na página de status.</div>}
+                <ul className="space-y-1.5">
+                  {inc.updates?.map((u) => (
+                    <li key={u.ts} className="text-slate-300">
+                      <span className="font-mono text-slate-500">{fmtDateTime(u.ts)}</span>
+                      <div>{u.text}</div>
+                    </li>
+                  ))}
+                </ul>
+                {canEdit && (
+                  <form onSubmit={submitText("/updates", update, () => setUpdate(""))} className="flex items-center gap-2">
+                    <input
+                      value={update}
+                      onChange={(e) => setUpdate(e.target.value)}
+                      maxLength={1000}
+                      placeholder="Ex.: operadora acionada, previsão de retorno às 14h"
+                      className="min-w-0 flex-1 rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-slate-200 placeholder:text-slate-600"
+                    />
+                    <button
+                      type="submit"
+                      disabled={saving || !update.trim()}
+                      className="rounded-xl bg-indigo-500/20 px-3 py-2 font-semibold text-indigo-200 ring-1 ring-inset ring-indigo-500/30 transition hover:bg-indigo-500/30 disabled:opacity-50"
+                    >
+                      Publicar
+                    </button>
+                  </form>
+                )}
+              </div>
+            </div>
+            {error && <div className="mt-3 text-xs text-rose-300">{error}</div>}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
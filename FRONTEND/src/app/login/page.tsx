@@ -0,0 +1,85 @@
+"use client";
+
+import React, { useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Lock, XCircle } from "lucide-react";
+import { login, safeNext } from "@/lib/auth";
+import { Card, Notice } from "@/components/ui";
+
+export default function LoginPage() {
+  const next = safeNext(useSearchParams().get("next"));
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await login(username, password);
+      // navegação completa: páginas e stream ao vivo reabrem já com o cookie de sessão
+      location.assign(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha no login");
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-[#070A12] px-4 text-slate-200 font-sans">
+      <Card className="w-full max-w-sm">
+        <div className="mb-5 flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-2xl bg-indigo-500/15 ring-1 ring-inset ring-indigo-500/20">
+            <Lock className="h-5 w-5 text-indigo-300" />
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold tracking-tight text-white">Monitoramento</h1>
+            <div className="text-xs text-slate-500">Entre para acessar o painel</div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4">
+            <Notice tone="danger" title="Não foi possível entrar" icon={<XCircle className="h-5 w-5" />}>
+              {error}
+            </Notice>
+          </div>
+        )}
+
+        <form onSubmit={submit} className="space-y-3">
+          <label className="block">
+            <span className="text-xs font-bold uppercase tracking-wider text-slate-500">Usuário</span>
+            <input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+              required
+              className="mt-1 w-full rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm text-slate-200 outline-none focus:border-slate-600"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold uppercase tracking-wider text-slate-500">Senha</span>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+              className="mt-1 w-full rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm text-slate-200 outline-none focus:border-slate-600"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full rounded-xl border border-indigo-500/30 bg-indigo-500/20 px-3 py-2 text-sm font-semibold text-indigo-100 transition hover:bg-indigo-500/30 disabled:opacity-50"
+          >
+            {busy ? "Entrando..." : "Entrar"}
+          </button>
+        </form>
+      </Card>
+    </div>
+  );
+}
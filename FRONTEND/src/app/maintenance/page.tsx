@@ -0,0 +1,336 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { CalendarClock, Plus, Trash2, Wrench, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { apiFetch, useAuthUser } from "@/lib/auth";
+import { apiPath, useSite } from "@/lib/site";
+import {
+  fmtDateTime,
+  fmtDuration,
+  type MaintenancePayload,
+  type MaintenanceWindow,
+  type StatusPayload,
+  type WanStatus,
+} from "@/lib/monitor";
+import { Badge, Card, Notice, Segmented } from "@/components/ui";
+import { PageShell } from "@/components/shell";
+
+const WEEKDAYS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+const inputCls =
+  "w-full rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-sm text-slate-200 outline-none focus:border-slate-600";
+
+type Draft = {
+  kind: "once" | "weekly";
+  title: string;
+  wanId: string;
+  note: string;
+  start: string; // datetime-local
+  end: string;
+  days: number[];
+  time: string;
+  durationMin: number;
+};
+
+const EMPTY: Draft = {
+  kind: "once",
+  title: "",
+  wanId: "",
+  note: "",
+  start: "",
+  end: "",
+  days: [6],
+  time: "07:00",
+  durationMin: 180,
+};
+
+function describe(w: MaintenanceWindow) {
+  if (w.kind === "once") return `${fmtDateTime(w.start)} → ${fmtDateTime(w.end)}`;
+  const days = w.days.map((d) => WEEKDAYS[d]).join(", ");
+  return `Toda ${days} às ${w.time} por ${fmtDuration(w.durationMin * 60000)}`;
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{label}</span>
+      <div className="mt-1">{children}</div>
+    </label>
+  );
+}
+
+export default function MaintenancePage() {
+  const site = useSite();
+  const me = useAuthUser();
+  const isAdmin = me?.user.role === "admin";
+
+  const [data, setData] = useState<MaintenancePayload | null>(null);
+  const [wans, setWans] = useState<WanStatus[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY);
+  const [error, setError] = useState<string | null>(null);
+  const [details, setDetails] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const [mRes, sRes] = await Promise.all([apiFetch(apiPath("/maintenance", site)), apiFetch(apiPath("/status", site))]);
+      if (!mRes.ok) throw new Error(`HTTP ${mRes.status}`);
+      setData((await mRes.json()) as MaintenancePayload);
+      if (sRes.ok) setWans(((await sRes.json()) as StatusPayload).wans ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao carregar manutenções");
+    }
+  }, [site]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const wanName = (id: string | null) => (id ? (wans.find((w) => w.id === id)?.name ?? id) : "Site inteiro");
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setDetails([]);
+
+    const base = { kind: draft.kind, title: draft.title, wanId: draft.wanId || null, note: draft.note || null };
+    const body =
+      draft.kind === "once"
+        ? {
+            ...base,
+            start: draft.start ? new Date(draft.start).toISOString() : null,
+            end: draft.end ? new Date(draft.end).toISOString() : null,
+          }
+        : { ...base, days: draft.days, time: draft.time, durationMin: draft.durationMin };
+
+    try {
+      const res = await apiFetch(apiPath("/maintenance", site), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setDetails(json.details ?? []);
+        throw new Error(res.status === 403 ? "Somente administradores" : "Janela inválida");
+      }
+      setDraft(EMPTY);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(id: string) {
+    setError(null);
+    try {
+      const res = await apiFetch(`${apiPath("/maintenance", site)}/${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao remover");
+    }
+  }
+
+  const toggleDay = (d: number) =>
+    setDraft((x) => ({ ...x, days: x.days.includes(d) ? x.days.filter((y) => y !== d) : [...x.days, d].sort() }));
+
+  return (
+    <PageShell title="Manutenção" icon={<Wrench className="h-5 w-5 text-indigo-300" />}>
+      {error && (
+        <div className="mb-6">
+          <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title={error}>
+            {details.length ? (
+              <ul className="list-disc pl-4">
+                {details.map((d) => (
+                  <li key={d}>{d}</li>
+                ))}
+              </ul>
+            ) : (
+              "Tente novamente."
+            )}
+          </Notice>
+        </div>
+      )}
+
+      {!!data?.active.length && (
+        <div className="mb-6">
+          <Notice tone="info" icon={<Wrench className="h-5 w-5" />} title="Em manutenção agora">
+            {data.active.map((w) => `${w.title} (${wanName(w.wanId)}, até ${fmtDateTime(w.end)})`).join(" • ")}
+            . Alertas suprimidos e tempo fora da disponibilidade.
+          </Notice>
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <h2 className="mb-4 flex items-center gap-2 text-sm font-bold text-white">
+              <CalendarClock className="h-4 w-4 text-slate-400" /> Próximos 14 dias
+            </h2>
+            <div className="space-y-2">
+              {data?.upcoming.map((o) => (
+                <div
+                  key={`${o.id}-${o.start}`}
+                  className="flex flex-wrap items-center gap-3 rounded-2xl border border-slate-800/60 bg-slate-950/25 p-3 text-sm"
+                >
+                  {o.active && <Badge className="bg-indigo-500/15 text-indigo-200 ring-indigo-500/30">agora</Badge>}
+                  <span className="font-semibold text-slate-200">{o.title}</span>
+                  <span className="text-xs text-slate-500">{wanName(o.wanId)}</span>
+                  <span className="ml-auto font-mono text-xs text-slate-400">
+                    {fmtDateTime(o.start)} → {fmtDateTime(o.end)}
+                  </span>
+                </div>
+              ))}
+              {!data?.upcoming.length && <div className="text-sm text-slate-500">Nenhuma manutenção prevista.</div>}
+            </div>
+          </Card>
+
+          <Card>
+            <h2 className="mb-4 text-sm font-bold text-white">Janelas cadastradas</h2>
+            <div className="space-y-2">
+              {data?.windows.map((w) => (
+                <div key={w.id} className="flex flex-wrap items-center gap-3 rounded-2xl border border-slate-800/60 bg-slate-950/25 p-3">
+                  <Badge className="bg-slate-900/60 text-slate-300 ring-slate-700/50">
+                    {w.kind === "once" ? "Única" : "Semanal"}
+                  </Badge>
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm font-semibold text-slate-200">{w.title}</div>
+                    <div className="text-xs text-slate-500">
+                      {describe(w)} • {wanName(w.wanId)}
+                      {w.createdBy ? ` • por ${w.createdBy}` : ""}
+                    </div>
+                    {w.note && <div className="mt-1 text-xs text-slate-400">{w.note}</div>}
+                  </div>
+                  {isAdmin && (
+                    <button
+                      onClick={() => remove(w.id)}
+                      className="rounded-xl border border-slate-800 px-3 py-2 text-slate-400 transition hover:border-rose-500/40 hover:text-rose-300"
+                      title="Remover"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {!data?.windows.length && <div className="text-sm text-slate-500">Nenhuma janela cadastrada.</div>}
+            </div>
+          </Card>
+        </div>
+
+        {isAdmin && (
+          <Card>
+            <h2 className="mb-4 text-sm font-bold text-white">Nova janela</h2>
+            <div className="mb-3">
+              <Segmented
+                value={draft.kind}
+                onChange={(kind) => setDraft((x) => ({ ...x, kind }))}
+                options={[
+                  { value: "once", label: "Única" },
+                  { value: "weekly", label: "Semanal" },
+                ]}
+              />
+            </div>
+            <form onSubmit={create} className="space-y-3">
+              <Field label="Título">
+                <input
+                  value={draft.title}
+                  onChange={(e) => setDraft((x) => ({ ...x, title: e.target.value }))}
+                  placeholder="Manutenção do provedor"
+                  className={inputCls}
+                />
+              </Field>
+              <Field label="Escopo">
+                <select value={draft.wanId} onChange={(e) => setDraft((x) => ({ ...x, wanId: e.target.value }))} className={inputCls}>
+                  <option value="">Site inteiro</option>
+                  {wans.map((w) => (
+                    <option key={w.id} value={w.id}>
+                      WAN {w.name ?? w.id}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+
+              {draft.kind === "once" ? (
+                <>
+                  <Field label="Início">
+                    <input
+                      type="datetime-local"
+                      value={draft.start}
+                      onChange={(e) => setDraft((x) => ({ ...x, start: e.target.value }))}
+                      className={inputCls}
+                    />
+                  </Field>
+                  <Field label="Fim">
+                    <input
+                      type="datetime-local"
+                      value={draft.end}
+                      onChange={(e) => setDraft((x) => ({ ...x, end: e.target.value }))}
+                      className={inputCls}
+                    />
+                  </Field>
+                </>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-1">
+                    {WEEKDAYS.map((d, i) => (
+                      <button
+                        key={d}
+                        type="button"
+                        onClick={() => toggleDay(i)}
+                        className={cn(
+                          "rounded-lg border px-2.5 py-1.5 text-xs font-semibold transition",
+                          draft.days.includes(i)
+                            ? "border-indigo-500/40 bg-indigo-500/20 text-indigo-100"
+                            : "border-slate-800 text-slate-400 hover:text-slate-200"
+                        )}
+                      >
+                        {d}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Field label="Horário">
+                      <input
+                        type="time"
+                        value={draft.time}
+                        onChange={(e) => setDraft((x) => ({ ...x, time: e.target.value }))}
+                        className={inputCls}
+                      />
+                    </Field>
+                    <Field label="Duração (min)">
+                      <input
+                        type="number"
+                        value={draft.durationMin}
+                        onChange={(e) => setDraft((x) => ({ ...x, durationMin: Number(e.target.value) }))}
+                        className={inputCls}
+                      />
+                    </Field>
+                  </div>
+                  <div className="text-[11px] text-slate-500">Horário do servidor do monitor.</div>
+                </>
+              )}
+
+              <Field label="Observação">
+                <input value={draft.note} onChange={(e) => setDraft((x) => ({ ...x, note: e.target.value }))} className={inputCls} />
+              </Field>
+
+              <button
+                type="submit"
+                disabled={saving}
+                className="inline-flex w-full items-center justify-center gap-2 rounded-xl border border-indigo-500/30 bg-indigo-500/20 px-3 py-2 text-sm font-semibold text-indigo-100 transition hover:bg-indigo-500/30 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" /> {saving ? "Salvando..." : "Agendar"}
+              </button>
+            </form>
+          </Card>
+        )}
+      </div>
+    </PageShell>
+  );
+}
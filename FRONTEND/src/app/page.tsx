@@ -1,12 +1,11 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   Activity,
   AlertTriangle,
   ArrowDownCircle,
   ArrowUpCircle,
-  CheckCircle2,
   Clock,
   Download,
   Globe,
@@ -15,11 +14,13 @@ import {
   Server,
   Wifi,
   WifiOff,
+  Wrench,
   XCircle,
   ChevronDown,
-  ChevronUp,
   Copy,
   Network,
+  Smartphone,
+  ArrowRightLeft,
 } from "lucide-react";
 import {
   Area,
@@ -31,145 +32,42 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
-import { clsx, type ClassValue } from "clsx";
-import { twMerge } from "tailwind-merge";
-
-// --- Utility Utils ---
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-// --- Types ---
-type Probe = { ok: boolean; url?: string; ms?: number | null };
-type Gateway = {
-  id?: string;
-  name?: string;
-  model?: string;
-  type?: string;
-  ipAddress?: string;
-  macAddress?: string;
-};
-
-type WanPortInfo = {
-  disabled: boolean;
-  port_idx: number;
-  port_ifname: string;
-};
-
-type WanInterface = {
-  id: string;
-  name?: string;
-  is_mobile_broadband?: boolean;
-  load_balancing_mode?: string;
-  network_id?: string;
-  port_info?: WanPortInfo;
-  priority?: number;
-  wan_magic_enabled?: boolean;
-};
-
-type HistoryItem = {
-  ts: string;
-  state: "OK" | "DEGRADED" | "DOWN" | "UNKNOWN";
-  wanUp: boolean | null;
-  wan?: WanInterface | null;
-  wanGroups?: WanInterface[] | null;
-  probe?: Probe;
-  gateway?: Gateway;
-  note?: string;
-  reason?: string;
-  unifiError?: string | null;
-};
-
-type StatusPayload = {
-  state: HistoryItem["state"];
-  label: string;
-  history: HistoryItem[];
-};
-
-type WSMessage =
-  | { type: "snapshot"; data: StatusPayload; label: string }
-  | { type: "tick"; entry: HistoryItem; state?: string; label?: string }
-  | { type: "state_change" };
+import { cn } from "@/lib/utils";
+import { apiFetch } from "@/lib/auth";
+import { apiPath, useSite } from "@/lib/site";
+import { useLiveStream, type WsEventType, type WsServerMessage } from "@/lib/live";
+import {
+  SLOW_MS,
+  VERY_SLOW_MS,
+  fmtDateTime,
+  fmtTime,
+  getPingConfig,
+  getQualityConfig,
+  getStateConfig,
+  safeShortId,
+  type HistoryItem,
+  type LogEvent,
+  type LogQueryPayload,
+  type Probe,
+  type ProbeDiagnosis,
+  type ProbeErrorKind,
+  type StatsSummary,
+  type StatusPayload,
+  type WanEvent,
+  type WanStatus,
+} from "@/lib/monitor";
+import { Badge, Card, KeyValue, Notice, RowDot, Segmented, StatBox } from "@/components/ui";
+import { NavLinks, UserMenu } from "@/components/nav";
+
+// eventos que esta página usa (o resto nem vem pelo stream)
+const LIVE_TYPES: WsEventType[] = ["tick", "state_change", "wan_event", "device_event", "incident"];
 
 // --- Config ---
-const SLOW_MS = Number(process.env.NEXT_PUBLIC_SLOW_MS ?? 120);
-const VERY_SLOW_MS = Number(process.env.NEXT_PUBLIC_VERY_SLOW_MS ?? 250);
 const STALE_MS = Number(process.env.NEXT_PUBLIC_STALE_MS ?? 35000);
 const WINDOW_SIZE = Math.max(5, Number(process.env.NEXT_PUBLIC_WINDOW_SIZE ?? 12));
-const MONITOR_WS_PORT = Number(process.env.NEXT_PUBLIC_MONITOR_WS_PORT ?? 3333);
-
-// --- Formatters ---
-function fmtTime(ts?: string) {
-  if (!ts) return "—";
-  try {
-    return new Date(ts).toLocaleTimeString("pt-BR", {
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
-    });
-  } catch {
-    return ts;
-  }
-}
-
-function fmtDateTime(ts?: string) {
-  if (!ts) return "—";
-  try {
-    return new Date(ts).toLocaleString("pt-BR");
-  } catch {
-    return ts;
-  }
-}
+const QUALITY_WINDOW = process.env.NEXT_PUBLIC_QUALITY_WINDOW ?? "5m";
 
 // --- Logic Helpers ---
-function getStateConfig(s: HistoryItem["state"]) {
-  switch (s) {
-    case "OK":
-      return {
-        label: "OPERACIONAL",
-        color: "text-emerald-400",
-        bg: "bg-emerald-500/10",
-        border: "border-emerald-500/20",
-        icon: CheckCircle2,
-        dot: "bg-emerald-500",
-      };
-    case "DEGRADED":
-      return {
-        label: "INSTÁVEL",
-        color: "text-amber-400",
-        bg: "bg-amber-500/10",
-        border: "border-amber-500/20",
-        icon: AlertTriangle,
-        dot: "bg-amber-500",
-      };
-    case "DOWN":
-      return {
-        label: "FORA DO AR",
-        color: "text-rose-400",
-        bg: "bg-rose-500/10",
-        border: "border-rose-500/20",
-        icon: XCircle,
-        dot: "bg-rose-500",
-      };
-    default:
-      return {
-        label: "DESCONHECIDO",
-        color: "text-slate-400",
-        bg: "bg-slate-800/40",
-        border: "border-slate-700/60",
-        icon: AlertTriangle,
-        dot: "bg-slate-500",
-      };
-  }
-}
-
-function getPingConfig(ms: number | null | undefined) {
-  if (ms == null) return { color: "text-slate-500", label: "—" };
-  if (ms >= VERY_SLOW_MS) return { color: "text-rose-400", label: "Crítico" };
-  if (ms >= SLOW_MS) return { color: "text-amber-400", label: "Lento" };
-  return { color: "text-emerald-400", label: "Ótimo" };
-}
-
 function mean(nums: number[]) {
   if (!nums.length) return 0;
   return nums.reduce((a, b) => a + b, 0) / nums.length;
@@ -193,12 +91,6 @@ function qualityFromWindow(samples: number[]) {
   return { label: "BOA", color: "text-emerald-400", avg, jit };
 }
 
-function safeShortId(id?: string, size = 12) {
-  if (!id) return "—";
-  if (id.length <= size) return id;
-  return `${id.slice(0, size)}…`;
-}
-
 async function copyToClipboard(text: string) {
   try {
     await navigator.clipboard.writeText(text);
@@ -210,19 +102,16 @@ async function copyToClipboard(text: string) {
 
 // --- Main Component ---
 export default function MonitorPage() {
+  const site = useSite();
   const [data, setData] = useState<StatusPayload | null>(null);
-  const [wsStatus, setWsStatus] = useState<"online" | "offline" | "reconnecting">("offline");
   const [error, setError] = useState<string | null>(null);
   const [now, setNow] = useState(Date.now());
 
-  const [historyLimitDesktop, setHistoryLimitDesktop] = useState(120);
-  const [historyLimitMobile, setHistoryLimitMobile] = useState(20);
+  // incrementa a cada evento que vai para o .log: o histórico recarrega a 1ª página
+  const [logVersion, setLogVersion] = useState(0);
   const [copied, setCopied] = useState<"probe" | "none">("none");
 
   const lastTickAtRef = useRef<number>(0);
-  const wsRef = useRef<WebSocket | null>(null);
-  const wsRetryRef = useRef(0);
-  const aliveRef = useRef(true);
 
   const latest = useMemo(() => data?.history?.[0], [data]);
   const state = data?.state ?? "UNKNOWN";
@@ -236,8 +125,8 @@ export default function MonitorPage() {
   }, [now]);
 
   useEffect(() => {
-    document.title = `${state === "OK" ? "🟢" : state === "DEGRADED" ? "🟡" : state === "DOWN" ? "🔴" : "⚪"} ${state} • UniFi Monitor`;
-  }, [state]);
+    document.title = `${state === "OK" ? "🟢" : state === "DEGRADED" ? "🟡" : state === "DOWN" ? "🔴" : "⚪"} ${state} • ${data?.site?.name ? `${data.site.name} • ` : ""}UniFi Monitor`;
+  }, [state, data?.site?.name]);
 
   const windowSamples = useMemo(() => {
     const hist = data?.history ?? [];
@@ -247,7 +136,13 @@ export default function MonitorPage() {
     return ms.slice(0, WINDOW_SIZE);
   }, [data]);
 
-  const quality = useMemo(() => qualityFromWindow(windowSamples), [windowSamples]);
+  // preferimos a estatística do backend (janela de tempo real); a janela local é só fallback p/ backend antigo
+  const quality = useMemo(() => {
+    const w = data?.stats?.[QUALITY_WINDOW];
+    if (!w) return qualityFromWindow(windowSamples);
+    const conf = getQualityConfig(w.quality);
+    return { label: conf.label, color: conf.color, avg: w.avg, jit: w.jitter };
+  }, [data, windowSamples]);
 
   const chartData = useMemo(() => {
     if (!data?.history) return [];
@@ -265,7 +160,7 @@ export default function MonitorPage() {
   async function load() {
     setError(null);
     try {
-      const res = await fetch("/api/monitor/status", { cache: "no-store" });
+      const res = await apiFetch(apiPath("/status", site));
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
       const json = (await res.json()) as StatusPayload;
       setData(json);
@@ -276,117 +171,76 @@ export default function MonitorPage() {
     }
   }
 
-  function buildWsUrl() {
-    if (typeof window === "undefined") return "";
-    const proto = location.protocol === "https:" ? "wss" : "ws";
-    return `${proto}://${location.hostname}:${MONITOR_WS_PORT}/ws`;
-  }
-
-  function connectWs() {
-    if (!aliveRef.current) return;
-    if (typeof window === "undefined") return;
-
-    try {
-      const url = buildWsUrl();
-      setWsStatus((prev) => (prev === "online" ? "online" : "reconnecting"));
-
-      const ws = new WebSocket(url);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-        wsRetryRef.current = 0;
-        setWsStatus("online");
-      };
-
-      ws.onclose = () => {
-        wsRef.current = null;
-        if (!aliveRef.current) return;
-        setWsStatus("reconnecting");
-        scheduleReconnect();
-      };
-
-      ws.onerror = () => {
-        if (!aliveRef.current) return;
-        setWsStatus("reconnecting");
-      };
-
-      ws.onmessage = (ev) => {
-        try {
-          const msg = JSON.parse(ev.data) as WSMessage;
-
-          if (msg?.type === "snapshot") {
-            const snap = msg.data;
-            setData({ state: snap.state, label: msg.label, history: snap.history ?? [] });
-            const ts = snap.history?.[0]?.ts;
-            if (ts) lastTickAtRef.current = Date.parse(ts) || Date.now();
-            return;
-          }
-
-          if (msg?.type === "tick" && (msg as any).entry) {
-            const entry = (msg as any).entry as HistoryItem;
-            lastTickAtRef.current = Date.parse(entry.ts) || Date.now();
-            setData((prev) => {
-              const prevHist = prev?.history ?? [];
-              const key = `${entry.ts}|${entry.state}|${entry.probe?.ms ?? "x"}`;
-              const has = prevHist.some((h) => `${h.ts}|${h.state}|${h.probe?.ms ?? "x"}` === key);
-              const nextHist = has ? prevHist : [entry, ...prevHist].slice(0, 250);
-
-              return {
-                state: ((msg as any).state ?? entry.state) as any,
-                label: (msg as any).label ?? prev?.label ?? "",
-                history: nextHist,
-              };
-            });
-            return;
-          }
-
-          if (msg?.type === "state_change") {
-            load();
-            return;
-          }
-        } catch {
-          /* ignore */
-        }
-      };
-    } catch {
-      scheduleReconnect();
+  // seq do protocolo garante ordem e nada duplicado: o tick sempre é uma entry nova
+  function onLiveMessage(msg: WsServerMessage) {
+    switch (msg.type) {
+      case "snapshot": {
+        const snap = msg.data;
+        setData({
+          site: snap.site,
+          state: msg.state,
+          label: msg.label,
+          history: snap.history ?? [],
+          wans: snap.wans ?? [],
+          wanEvents: snap.wanEvents ?? [],
+          stats: snap.stats,
+        });
+        const ts = snap.history?.[0]?.ts;
+        if (ts) lastTickAtRef.current = Date.parse(ts) || Date.now();
+        return;
+      }
+      case "tick": {
+        const entry = msg.entry;
+        lastTickAtRef.current = Date.parse(entry.ts) || Date.now();
+        setData((prev) =>
+          prev
+            ? {
+                ...prev,
+                state: msg.state,
+                label: msg.label,
+                history: [entry, ...prev.history].slice(0, 250),
+                wans: entry.wans ?? prev.wans,
+                stats: msg.stats ?? prev.stats,
+              }
+            : prev
+        );
+        return;
+      }
+      case "wan_event": {
+        const event = msg.event;
+        setData((prev) => (prev ? { ...prev, wanEvents: [event, ...(prev.wanEvents ?? [])].slice(0, 100) } : prev));
+        setLogVersion((v) => v + 1);
+        return;
+      }
+      case "state_change":
+        // a entry chega logo em seguida no tick; aqui só o estado
+        setData((prev) => (prev ? { ...prev, state: msg.next, label: msg.label } : prev));
+        setLogVersion((v) => v + 1);
+        return;
+      case "device_event":
+      case "incident":
+        setLogVersion((v) => v + 1);
+        return;
     }
   }
 
-  function scheduleReconnect() {
-    const attempt = Math.min(8, wsRetryRef.current + 1);
-    wsRetryRef.current = attempt;
-    const delay = Math.min(15000, 500 * 2 ** attempt);
-    setTimeout(() => {
-      if (!aliveRef.current) return;
-      connectWs();
-    }, delay);
-  }
+  const liveStatus = useLiveStream(site, { types: LIVE_TYPES, onMessage: onLiveMessage });
 
   useEffect(() => {
-    aliveRef.current = true;
     load();
     const timer = setInterval(() => setNow(Date.now()), 1000);
-    connectWs();
-    return () => {
-      aliveRef.current = false;
-      clearInterval(timer);
-      try {
-        wsRef.current?.close();
-      } catch {}
-      wsRef.current = null;
-    };
+    return () => clearInterval(timer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [site]);
 
   const probeMs = latest?.probe?.ms ?? null;
   const pingConf = getPingConfig(probeMs);
 
-  const wsLabel = wsStatus === "online" ? "ONLINE" : wsStatus === "reconnecting" ? "RECONNECT" : "OFFLINE";
-  const wsTone =
-    wsStatus === "online" ? "text-emerald-400" : wsStatus === "reconnecting" ? "text-amber-400" : "text-rose-400";
-  const wsDot =
-    wsStatus === "online" ? "bg-emerald-500" : wsStatus === "reconnecting" ? "bg-amber-500" : "bg-rose-500";
+  const liveLabel = liveStatus === "online" ? "ONLINE" : liveStatus === "reconnecting" ? "RECONNECT" : "OFFLINE";
+  const liveTone =
+    liveStatus === "online" ? "text-emerald-400" : liveStatus === "reconnecting" ? "text-amber-400" : "text-rose-400";
+  const liveDot =
+    liveStatus === "online" ? "bg-emerald-500" : liveStatus === "reconnecting" ? "bg-amber-500" : "bg-rose-500";
 
   const headerHint = stale ? "ATUALIZAÇÃO PAUSADA" : "AO VIVO";
   const headerHintTone = stale ? "text-amber-300" : "text-slate-400";
@@ -425,7 +279,10 @@ export default function MonitorPage() {
 
               <div className="min-w-0">
                 <div className="flex items-center gap-2">
-                  <h1 className="truncate text-lg font-semibold tracking-tight text-white">UniFi Monitor</h1>
+                  <h1 className="truncate text-lg font-semibold tracking-tight text-white">
+                    UniFi Monitor
+                    {data?.site?.name && <span className="ml-2 font-normal text-slate-400">• {data.site.name}</span>}
+                  </h1>
                   <span
                     className={cn(
                       "inline-flex items-center gap-2 rounded-full px-2.5 py-1 text-[11px] font-semibold ring-1 ring-inset",
@@ -440,17 +297,17 @@ export default function MonitorPage() {
                 </div>
 
                 <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-slate-500">
-                  <span className={cn("inline-flex items-center gap-2 font-semibold", wsTone)}>
-                    <span className={cn("h-2 w-2 rounded-full", wsDot)} />
-                    WS {wsLabel}
+                  <span className={cn("inline-flex items-center gap-2 font-semibold", liveTone)}>
+                    <span className={cn("h-2 w-2 rounded-full", liveDot)} />
+                    LIVE {liveLabel}
                   </span>
 
                   <span className="text-slate-700">•</span>
-{/* 
+
                   <span className={cn("inline-flex items-center gap-2 font-semibold", headerHintTone)}>
                     {stale ? <AlertTriangle className="h-3.5 w-3.5" /> : <span className="h-3.5 w-3.5" />}
                     {headerHint}
-                  </span> */}
+                  </span>
 
                   <span className="text-slate-700">•</span>
 
@@ -462,6 +319,8 @@ export default function MonitorPage() {
             </div>
 
             <div className="flex flex-wrap items-center gap-2">
+              <NavLinks />
+
               <button
                 onClick={load}
                 className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-900/70 hover:border-slate-700"
@@ -485,6 +344,8 @@ export default function MonitorPage() {
                 <Download className="h-4 w-4 text-slate-400 group-hover:text-slate-200" />
                 Exportar JSON
               </button>
+
+              <UserMenu />
             </div>
           </header>
         </div>
@@ -496,6 +357,11 @@ export default function MonitorPage() {
               {latest.unifiError}
             </Notice>
           )}
+          {!!latest?.maintenance?.length && (
+            <Notice tone="info" icon={<Wrench className="h-5 w-5" />} title="Em manutenção">
+              {latest.maintenance.map((w) => `${w.title} (até ${fmtTime(w.end)})`).join(" • ")} — alertas suprimidos.
+            </Notice>
+          )}
           {error && (
             <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title="Erro">
               {error}
@@ -623,6 +489,8 @@ export default function MonitorPage() {
                   </ResponsiveContainer>
                 </div>
               </div>
+
+              {data?.stats && <QualityStats stats={data.stats} />}
             </div>
           </Card>
 
@@ -670,7 +538,12 @@ export default function MonitorPage() {
                   value={latest?.note ?? latest?.reason ?? "—"}
                   wrap
                 />
+                {latest?.probe?.diagnosis && (
+                  <KeyValue label="Diagnóstico" value={DIAGNOSIS_LABEL[latest.probe.diagnosis]} wrap />
+                )}
               </div>
+
+              {!!latest?.probe?.targets?.length && <ProbeTargets probe={latest.probe} />}
             </Card>
 
             <Card className="flex-1">
@@ -687,225 +560,14 @@ export default function MonitorPage() {
           </div>
         </div>
 
-        {/* --- History --- */}
-        <section className="mt-8">
-          <div className="mb-4 flex items-center justify-between px-1">
-            <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
-              <History className="h-4 w-4 text-slate-400" />
-              Histórico
-            </h3>
-
-            <div className="flex items-center gap-2">
-              <Badge className="bg-slate-950/40 text-slate-300 ring-slate-800">
-                <span className="font-mono">{(data?.history?.length ?? 0)}</span> eventos
-              </Badge>
-
-              <div className="hidden sm:flex overflow-hidden rounded-xl border border-slate-800 bg-slate-950/30">
-                <button
-                  onClick={() => setHistoryLimitDesktop(120)}
-                  className={cn(
-                    "px-3 py-2 text-xs font-semibold transition",
-                    historyLimitDesktop === 120 ? "bg-slate-900/70 text-white" : "text-slate-400 hover:text-slate-200"
-                  )}
-                >
-                  120
-                </button>
-                <button
-                  onClick={() => setHistoryLimitDesktop(200)}
-                  className={cn(
-                    "px-3 py-2 text-xs font-semibold transition",
-                    historyLimitDesktop === 200 ? "bg-slate-900/70 text-white" : "text-slate-400 hover:text-slate-200"
-                  )}
-                >
-                  200
-                </button>
-              </div>
-            </div>
-          </div>
-
-          <div className="overflow-hidden rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-sm shadow-xl">
-            {/* Desktop Table */}
-            <div className="hidden md:block max-h-[560px] overflow-auto scrollbar-app">
-
-              <table className="w-full text-left text-sm">
-                <thead className="sticky top-0 z-10 bg-slate-950/80 backdrop-blur text-xs uppercase font-semibold text-slate-500 shadow-sm">
-                  <tr>
-                    <th className="px-6 py-4">Status</th>
-                    <th className="px-6 py-4">Hora</th>
-                    <th className="px-6 py-4">Ping</th>
-                    <th className="px-6 py-4">WAN</th>
-                    <th className="px-6 py-4">Info</th>
-                  </tr>
-                </thead>
-
-                <tbody className="divide-y divide-slate-800/60">
-                  {(data?.history ?? []).slice(0, historyLimitDesktop).map((h, i) => {
-                    const ms = h.probe?.ms ?? null;
-                    const pConf = getPingConfig(ms);
-                    const sConf = getStateConfig(h.state);
-                    const w = h.wan ?? h.wanGroups?.[0] ?? null;
-                    const wName = w?.name ?? w?.id ?? "—";
-                    const wDetail = w?.port_info
-                      ? `${w.port_info.port_ifname} • Porta ${w.port_info.port_idx}`
-                      : w?.network_id
-                        ? `network_id ${w.network_id}`
-                        : "";
-
-                    return (
-                      <tr key={i} className="group hover:bg-slate-800/25 transition-colors">
-                        <td className="px-6 py-3 whitespace-nowrap">
-                          <span
-                            className={cn(
-                              "inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-bold ring-1 ring-inset",
-                              sConf.bg,
-                              sConf.border,
-                              sConf.color
-                            )}
-                          >
-                            <span className={cn("h-1.5 w-1.5 rounded-full", sConf.dot)} />
-                            {h.state}
-                          </span>
-                        </td>
-
-                        <td className="px-6 py-3 font-mono text-slate-400 whitespace-nowrap text-xs">
-                          {fmtTime(h.ts)}
-                        </td>
-
-                        <td className="px-6 py-3 whitespace-nowrap">
-                          <span className={cn("font-mono font-bold", pConf.color)}>{ms ?? "—"}</span>
-                          {ms != null && <span className="ml-1 text-xs text-slate-600">ms</span>}
-                        </td>
-
-                        <td className="px-6 py-3">
-                        <div className="flex items-center gap-3">
-                          <span className="grid h-7 w-7 place-items-center rounded-lg bg-slate-950/60 ring-1 ring-white/10">
-                            {h.wanUp === true ? (
-                              <Wifi className="h-4 w-4 text-emerald-300" />
-                            ) : h.wanUp === false ? (
-                              <WifiOff className="h-4 w-4 text-rose-300" />
-                            ) : (
-                              <Network className="h-4 w-4 text-slate-300" />
-                            )}
-                          </span>
-                          <div className="min-w-0">
-                            <div className="truncate text-sm font-semibold text-slate-200">{wName}</div>
-                            {!!wDetail && (
-                              <div className="truncate text-xs text-slate-500">{wDetail}</div>
-                            )}
-                          </div>
-                        </div>
-                      </td>
-
-                        <td className="px-6 py-3 text-slate-400 truncate max-w-[520px] text-xs">
-                          {h.note ?? h.reason ?? "—"}
-                        </td>
-                      </tr>
-                    );
-                  })}
-                </tbody>
-              </table>
-            </div>
-
-            {/* Mobile Cards */}
-            <div className="md:hidden divide-y divide-slate-800/60">
-              {(data?.history ?? []).slice(0, historyLimitMobile).map((h, i) => {
-                const sConf = getStateConfig(h.state);
-                const ms = h.probe?.ms ?? null;
-                const pConf = getPingConfig(ms);
-
-                const w = h.wan ?? h.wanGroups?.[0] ?? null;
-                const wName = w?.name ?? w?.id ?? "—";
-                const wDetail = w?.port_info
-                  ? `${w.port_info.port_ifname} • Porta ${w.port_info.port_idx}`
-                  : w?.network_id
-                    ? `network_id ${w.network_id}`
-                    : "";
-
-                return (
-                  <div key={i} className="p-4 active:bg-slate-800/25">
-                    <div className="flex items-start justify-between gap-3">
-                      <div className="min-w-0">
-                        <div className="flex items-center gap-2">
-                          <span className={cn("h-2.5 w-2.5 rounded-full", sConf.dot)} />
-                          <span className={cn("text-xs font-extrabold tracking-wide", sConf.color)}>{h.state}</span>
-                          <span className="text-slate-700">•</span>
-                          <span className="text-xs font-mono text-slate-500">{fmtTime(h.ts)}</span>
-                        </div>
-
-                        <div className="mt-2 flex items-end justify-between gap-3">
-                          <div>
-                            <div className="text-[10px] uppercase text-slate-500 font-bold">Latência</div>
-                            <div className={cn("text-2xl font-mono font-extrabold leading-none", pConf.color)}>
-                              {ms ?? "—"}
-                              <span className="ml-1 text-xs font-sans font-normal text-slate-600">ms</span>
-                            </div>
-                          </div>
-
-                          <div className="flex items-center gap-2">
-                            {h.wanUp === true && (
-                              <span className="inline-flex items-center gap-2 rounded-full border border-emerald-500/20 bg-emerald-500/10 px-3 py-1 text-xs font-bold text-emerald-300">
-                                <Wifi className="h-4 w-4" />
-                                {wName} • UP
-                              </span>
-                            )}
-                            {h.wanUp === false && (
-                              <span className="inline-flex items-center gap-2 rounded-full border border-rose-500/20 bg-rose-500/10 px-3 py-1 text-xs font-bold text-rose-300">
-                                <WifiOff className="h-4 w-4" />
-                                {wName} • DOWN
-                              </span>
-                            )}
-                            {h.wanUp === null && (
-                              <span className="inline-flex items-center gap-2 rounded-full border border-slate-700/60 bg-slate-800/30 px-3 py-1 text-xs font-bold text-slate-300">
-                                <Network className="h-4 w-4" />
-                                {wName}
-
-                              </span>
-                            )}
-                          </div>
-                        </div>
-
-                        {!!wDetail && <div className="mt-2 text-xs text-slate-500">{wDetail}</div>}
-
-                        {(h.note || h.reason) && (
-                          <div className="mt-3 rounded-2xl border border-slate-800/70 bg-slate-950/35 p-3 text-xs text-slate-300">
-                            <div className="line-clamp-3 break-words">{h.note ?? h.reason}</div>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                );
-              })}
-
-              {(data?.history?.length ?? 0) > historyLimitMobile && (
-                <div className="p-3">
-                  <button
-                    onClick={() => setHistoryLimitMobile((v) => Math.min((data?.history?.length ?? 0), v + 20))}
-                    className="w-full inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-800 bg-slate-950/35 px-4 py-3 text-sm font-semibold text-slate-200 transition hover:bg-slate-950/55"
-                  >
-                    <ChevronDown className="h-4 w-4 text-slate-400" />
-                    Mostrar mais
-                  </button>
-                </div>
-              )}
+        {/* --- WANs --- */}
+        {!!data?.wans?.length && <WanPanel wans={data.wans} events={data.wanEvents ?? []} />}
 
-              {historyLimitMobile > 20 && (
-                <div className="px-3 pb-3">
-                  <button
-                    onClick={() => setHistoryLimitMobile(20)}
-                    className="w-full inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-800 bg-slate-950/20 px-4 py-2 text-sm font-semibold text-slate-300 transition hover:bg-slate-950/35"
-                  >
-                    <ChevronUp className="h-4 w-4 text-slate-400" />
-                    Recolher
-                  </button>
-                </div>
-              )}
-            </div>
-          </div>
-        </section>
+        {/* --- History (consulta no .log de eventos) --- */}
+        <HistoryPanel site={site} version={logVersion} />
 
         <footer className="mt-10 border-t border-slate-800/60 pt-6 text-center text-xs text-slate-600">
-          <p>UniFi Monitor System • WS porta {MONITOR_WS_PORT} • Auto-Reconnect</p>
+          <p>UniFi Monitor System • Stream ao vivo via /api/monitor • Auto-Reconnect</p>
         </footer>
       </main>
     </div>
@@ -913,123 +575,456 @@ export default function MonitorPage() {
 }
 
 // --- UI subcomponents ---
-function Notice({
-  tone,
-  title,
-  children,
-  icon,
-}: {
-  tone: "danger" | "warn" | "info";
-  title: string;
-  children: React.ReactNode;
-  icon?: React.ReactNode;
-}) {
-  const conf =
-    tone === "danger"
-      ? { bg: "bg-rose-500/10", border: "border-rose-500/20", text: "text-rose-200" }
-      : tone === "warn"
-      ? { bg: "bg-amber-500/10", border: "border-amber-500/20", text: "text-amber-200" }
-      : { bg: "bg-indigo-500/10", border: "border-indigo-500/20", text: "text-indigo-200" };
+const PROBE_ERROR_LABEL: Record<ProbeErrorKind, string> = {
+  timeout: "timeout",
+  dns: "falha DNS",
+  tls: "erro TLS",
+  refused: "recusado",
+  reset: "conexão resetada",
+  unreachable: "inalcançável",
+  http: "HTTP",
+  content: "conteúdo inesperado",
+  error: "erro",
+};
 
+const DIAGNOSIS_LABEL: Record<ProbeDiagnosis, string> = {
+  DNS_FAILURE: "DNS fora (upstream OK)",
+  UPSTREAM_FAILURE: "Upstream fora (DNS OK)",
+  TOTAL_FAILURE: "Todos os alvos falharam",
+};
+
+function ProbeTargets({ probe }: { probe: Probe }) {
+  const q = probe.quorum;
   return (
-    <div className={cn("flex items-start gap-3 rounded-2xl border p-4", conf.bg, conf.border, conf.text)}>
-      <div className="mt-0.5 flex-shrink-0">{icon}</div>
-      <div className="text-sm">
-        <div className="font-extrabold">{title}</div>
-        <div className="mt-0.5 text-slate-200/90">{children}</div>
+    <div className="mt-4">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="text-xs font-bold uppercase tracking-wider text-slate-500">Alvos</div>
+        {q && (
+          <span className={cn("font-mono text-xs font-semibold", probe.ok ? "text-emerald-400" : "text-rose-400")}>
+            {q.passed}/{q.total} OK • quorum {q.required} ({q.rule})
+          </span>
+        )}
       </div>
+
+      <ul className="space-y-1.5">
+        {(probe.targets ?? []).map((t, i) => {
+          const pConf = getPingConfig(t.ms);
+          let host = t.name ?? t.target ?? t.url ?? "—";
+          if (t.url && (!t.name || t.name === t.url)) {
+            try {
+              host = new URL(t.url).host;
+            } catch {}
+          }
+          return (
+            <li
+              key={`${t.kind ?? "http"}:${t.target ?? t.url}:${i}`}
+              title={t.target ?? t.url}
+              className="flex items-center justify-between gap-3 rounded-xl border border-slate-800/60 bg-slate-950/25 px-3 py-2"
+            >
+              <span className="flex min-w-0 items-center gap-2">
+                <span className={cn("h-2 w-2 flex-shrink-0 rounded-full", t.ok ? "bg-emerald-500" : "bg-rose-500")} />
+                <span className="rounded-md bg-slate-800/60 px-1.5 py-0.5 text-[10px] font-bold uppercase text-slate-400">
+                  {t.kind ?? "http"}
+                </span>
+                <span className="truncate font-mono text-xs text-slate-300">{host}</span>
+              </span>
+              {t.ok ? (
+                <span className={cn("font-mono text-xs font-bold", pConf.color)}>{t.ms}ms</span>
+              ) : (
+                <span className="text-xs font-semibold text-rose-300">
+                  {t.error ? PROBE_ERROR_LABEL[t.error] : "falhou"}
+                  {t.error === "http" && t.status ? ` ${t.status}` : ""}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
     </div>
   );
 }
 
-function ChartTooltip({ active, payload, label }: any) {
-  if (!active || !payload?.length) return null;
-  const p = payload[0]?.payload;
-  const ms = typeof p?.ms === "number" ? p.ms : null;
+function QualityStats({ stats }: { stats: StatsSummary }) {
+  const fmt = (v: number | null) => (v == null ? "—" : `${v}ms`);
   return (
-    <div className="rounded-2xl border border-slate-800 bg-slate-950/95 px-3 py-2 text-xs text-slate-200 shadow-xl">
-      <div className="text-slate-400">{p?.fullTime ?? label}</div>
-      <div className="mt-1 flex items-baseline gap-2">
-        <div className="text-slate-300">Latência</div>
-        <div className="font-mono font-extrabold text-white">{ms ?? "—"}ms</div>
+    <div className="rounded-2xl border border-slate-800/60 bg-slate-950/30 p-3">
+      <div className="mb-3 text-xs font-bold uppercase tracking-wider text-slate-500">Qualidade por janela</div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="text-[10px] uppercase tracking-wider text-slate-500">
+            <tr>
+              <th className="px-2 py-1.5 font-bold">Janela</th>
+              <th className="px-2 py-1.5 font-bold">p50</th>
+              <th className="px-2 py-1.5 font-bold">p95</th>
+              <th className="px-2 py-1.5 font-bold">p99</th>
+              <th className="px-2 py-1.5 font-bold">Jitter</th>
+              <th className="px-2 py-1.5 font-bold">Perda</th>
+              <th className="px-2 py-1.5 font-bold">Qualidade</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/60 font-mono text-slate-300">
+            {Object.entries(stats).map(([name, w]) => {
+              const qConf = getQualityConfig(w.quality);
+              return (
+                <tr key={name}>
+                  <td className="px-2 py-1.5 font-semibold text-slate-400">
+                    {name} <span className="text-[10px] text-slate-600">({w.samples})</span>
+                  </td>
+                  <td className="px-2 py-1.5">{fmt(w.p50)}</td>
+                  <td className={cn("px-2 py-1.5", getPingConfig(w.p95).color)}>{fmt(w.p95)}</td>
+                  <td className="px-2 py-1.5">{fmt(w.p99)}</td>
+                  <td className="px-2 py-1.5">{w.samples ? `${w.jitter}ms` : "—"}</td>
+                  <td className={cn("px-2 py-1.5", w.lossPct > 0 ? "text-rose-300" : "")}>{w.lossPct}%</td>
+                  <td className={cn("px-2 py-1.5 font-bold", qConf.color)}>{qConf.label}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
       </div>
     </div>
   );
 }
 
-function KeyValue({
-  label,
-  value,
-  rightSub,
-  mono,
-  wrap,
-}: {
-  label: string;
-  value: string;
-  rightSub?: string;
-  mono?: boolean;
-  wrap?: boolean;
-}) {
+// --- Histórico: consulta no .log de eventos (/logs/query) com filtros e paginação por cursor ---
+type LogFilters = { kind: string; from: string; to: string; gateway: string; wan: string; reason: string; q: string };
+
+const EMPTY_FILTERS: LogFilters = { kind: "", from: "", to: "", gateway: "", wan: "", reason: "", q: "" };
+
+const LOG_KIND_TONE: Record<string, string> = {
+  INTERNET_DOWN: "text-rose-300 bg-rose-500/10 ring-rose-500/20",
+  INTERNET_DEGRADED: "text-amber-300 bg-amber-500/10 ring-amber-500/20",
+  INTERNET_RESTORED: "text-emerald-300 bg-emerald-500/10 ring-emerald-500/20",
+  WAN_FAILOVER: "text-amber-300 bg-amber-500/10 ring-amber-500/20",
+  WAN_FAILBACK: "text-emerald-300 bg-emerald-500/10 ring-emerald-500/20",
+  DEVICE_DOWN: "text-rose-300 bg-rose-500/10 ring-rose-500/20",
+  DEVICE_UP: "text-emerald-300 bg-emerald-500/10 ring-emerald-500/20",
+};
+
+function logQueryParams(f: LogFilters) {
+  const params = new URLSearchParams();
+  if (f.kind) params.set("kind", f.kind);
+  // datas do input são locais: início/fim do dia no fuso do navegador
+  if (f.from) params.set("from", new Date(`${f.from}T00:00:00`).toISOString());
+  if (f.to) params.set("to", new Date(`${f.to}T23:59:59.999`).toISOString());
+  for (const k of ["gateway", "wan", "reason", "q"] as const) {
+    if (f[k].trim()) params.set(k, f[k].trim());
+  }
+  return params;
+}
+
+function logEventWan(e: LogEvent) {
+  if (e.from || e.to) return `${e.from?.name ?? e.from?.id ?? "—"} → ${e.to?.name ?? e.to?.id ?? "—"}`;
+  const w = e.wan ?? e.incident?.wan;
+  return w?.name ?? w?.id ?? "—";
+}
+
+function logEventDetail(e: LogEvent) {
+  if (e.device) return `${e.device.name}${e.device.model ? ` (${e.device.model})` : ""}`;
+  if (e.incident) {
+    const dur = e.incident.end ? ` • ${Math.round(e.incident.durationMs / 60000)} min` : "";
+    return `${e.incident.reason ?? e.incident.worstState}${dur}`;
+  }
+  return e.note ?? e.reason ?? e.raw ?? "—";
+}
+
+function HistoryPanel({ site, version }: { site: string | null; version: number }) {
+  const [draft, setDraft] = useState<LogFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<LogFilters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<LogEvent[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [matched, setMatched] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(
+    async (after: string | null) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = logQueryParams(filters);
+        params.set("limit", "100");
+        if (after) params.set("cursor", after);
+        const res = await apiFetch(`${apiPath("/logs/query", site)}?${params}`);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const json = (await res.json()) as LogQueryPayload;
+        setEvents((prev) => (after ? [...prev, ...json.events] : json.events));
+        setCursor(json.nextCursor);
+        if (!after) setMatched(json.matched);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Falha ao consultar o histórico");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [site, filters]
+  );
+
+  // filtros, escola ou evento novo (stream) -> volta para a 1ª página
+  useEffect(() => {
+    fetchPage(null);
+  }, [fetchPage, version]);
+
+  const exportHref = (format: "csv" | "ndjson") => {
+    const params = logQueryParams(filters);
+    params.set("format", format);
+    return `${apiPath("/logs/query", site)}?${params}`;
+  };
+
+  const set = (k: keyof LogFilters) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft((d) => ({ ...d, [k]: e.target.value }));
+  const inputCls =
+    "rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-xs font-semibold text-slate-300 placeholder:text-slate-600";
+
   return (
-    <div className="flex items-start justify-between gap-3 rounded-2xl border border-slate-800/60 bg-slate-950/25 p-3">
-      <div className="text-xs font-bold uppercase tracking-wider text-slate-500">{label}</div>
-      <div className="min-w-0 text-right">
-        <div className={cn("text-sm text-slate-200", mono && "font-mono", wrap ? "break-words" : "truncate")}>
-          {value}
+    <section className="mt-8">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3 px-1">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <History className="h-4 w-4 text-slate-400" />
+          Histórico
+        </h3>
+
+        <div className="flex items-center gap-2">
+          <Badge className="bg-slate-950/40 text-slate-300 ring-slate-800">
+            <span className="font-mono">{matched}</span>&nbsp;eventos
+          </Badge>
+          <a
+            href={exportHref("csv")}
+            className="inline-flex items-center gap-2 rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-900/70"
+          >
+            <Download className="h-3.5 w-3.5" /> CSV
+          </a>
+          <a
+            href={exportHref("ndjson")}
+            className="inline-flex items-center gap-2 rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-900/70"
+          >
+            <Download className="h-3.5 w-3.5" /> NDJSON
+          </a>
         </div>
-        {rightSub && <div className="mt-1 text-[10px] font-mono text-slate-500">{rightSub}</div>}
       </div>
-    </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setFilters(draft);
+        }}
+        className="mb-4 flex flex-wrap items-center gap-2"
+      >
+        <Segmented
+          value={draft.kind}
+          onChange={(kind) => {
+            setDraft((d) => ({ ...d, kind }));
+            setFilters((f) => ({ ...f, kind }));
+          }}
+          options={[
+            { value: "", label: "Todos" },
+            { value: "INTERNET_*", label: "Internet" },
+            { value: "WAN_*", label: "WAN" },
+            { value: "DEVICE_*", label: "Dispositivos" },
+            { value: "INCIDENT_*", label: "Incidentes" },
+          ]}
+        />
+        <input type="date" value={draft.from} onChange={set("from")} className={inputCls} aria-label="De" />
+        <input type="date" value={draft.to} onChange={set("to")} className={inputCls} aria-label="Até" />
+        <input value={draft.gateway} onChange={set("gateway")} placeholder="Gateway" className={cn(inputCls, "w-32")} />
+        <input value={draft.wan} onChange={set("wan")} placeholder="WAN" className={cn(inputCls, "w-28")} />
+        <input value={draft.reason} onChange={set("reason")} placeholder="Motivo" className={cn(inputCls, "w-36")} />
+        <input value={draft.q} onChange={set("q")} placeholder="Texto livre" className={cn(inputCls, "w-40")} />
+        <button
+          type="submit"
+          className="rounded-xl border border-slate-800 bg-slate-900/60 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:bg-slate-900"
+        >
+          Filtrar
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(EMPTY_FILTERS);
+            setFilters(EMPTY_FILTERS);
+          }}
+          className="px-2 py-2 text-xs font-semibold text-slate-500 hover:text-slate-300"
+        >
+          Limpar
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4">
+          <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title="Erro">
+            {error}
+          </Notice>
+        </div>
+      )}
+
+      <div className="overflow-hidden rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-sm shadow-xl">
+        <div className="max-h-[560px] overflow-auto scrollbar-app">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 z-10 bg-slate-950/80 backdrop-blur text-xs uppercase font-semibold text-slate-500 shadow-sm">
+              <tr>
+                <th className="px-4 py-4">Hora</th>
+                <th className="px-4 py-4">Evento</th>
+                <th className="hidden px-4 py-4 md:table-cell">Estado</th>
+                <th className="hidden px-4 py-4 md:table-cell">Gateway</th>
+                <th className="px-4 py-4">WAN</th>
+                <th className="px-4 py-4">Info</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/60">
+              {events.map((e, i) => {
+                const next = e.next ? getStateConfig(e.next as HistoryItem["state"]) : null;
+                return (
+                  <tr key={`${e.ts}:${e.kind}:${i}`} className="hover:bg-slate-800/25 transition-colors">
+                    <td className="px-4 py-3 font-mono text-xs text-slate-400 whitespace-nowrap">{fmtDateTime(e.ts)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span
+                        className={cn(
+                          "inline-flex rounded-full px-2.5 py-1 text-[11px] font-bold ring-1 ring-inset",
+                          LOG_KIND_TONE[e.kind] ?? "text-slate-300 bg-slate-800/40 ring-slate-700"
+                        )}
+                      >
+                        {e.kind}
+                      </span>
+                    </td>
+                    <td className="hidden px-4 py-3 text-xs whitespace-nowrap md:table-cell">
+                      {e.prev || e.next ? (
+                        <>
+                          <span className="text-slate-500">{e.prev ?? "—"}</span>
+                          <span className="mx-1 text-slate-600">→</span>
+                          <span className={cn("font-bold", next?.color ?? "text-slate-300")}>{e.next ?? "—"}</span>
+                        </>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="hidden px-4 py-3 text-xs text-slate-400 md:table-cell">
+                      {(e.gateway ?? e.incident?.gateway)?.name ?? "—"}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-slate-300">{logEventWan(e)}</td>
+                    <td className="px-4 py-3 text-slate-400 truncate max-w-[420px] text-xs">{logEventDetail(e)}</td>
+                  </tr>
+                );
+              })}
+              {!events.length && !loading && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-10 text-center text-slate-500">
+                    Nenhum evento encontrado.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {cursor && (
+          <div className="border-t border-slate-800/60 p-3">
+            <button
+              onClick={() => fetchPage(cursor)}
+              disabled={loading}
+              className="w-full inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-800 bg-slate-950/35 px-4 py-3 text-sm font-semibold text-slate-200 transition hover:bg-slate-950/55 disabled:opacity-50"
+            >
+              <ChevronDown className="h-4 w-4 text-slate-400" />
+              {loading ? "Carregando..." : "Carregar mais"}
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
   );
 }
 
-function RowDot({ label, value, color }: { label: string; value: string; color: string }) {
+function WanPanel({ wans, events }: { wans: WanStatus[]; events: WanEvent[] }) {
+  const timeline = events.slice(0, 12);
+
   return (
-    <div className="flex items-center gap-3">
-      <div className={cn("h-2 w-2 rounded-full ring-2 ring-opacity-20 ring-offset-1 ring-offset-slate-900", color)} />
-      <span className="flex-1 text-slate-300">{label}</span>
-      <span className="font-mono text-slate-400 text-xs bg-slate-950/30 px-2 py-1 rounded-lg border border-slate-800/60">
-        {value}
-      </span>
-    </div>
+    <section className="mt-8 grid gap-6 lg:grid-cols-3">
+      <Card className="lg:col-span-2">
+        <div className="mb-4 flex items-center gap-2">
+          <Network className="h-4 w-4 text-slate-400" />
+          <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400">Links WAN</h3>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          {wans.map((w) => {
+            const sConf = getStateConfig(w.state);
+            const Icon = w.mobile ? Smartphone : w.up === false ? WifiOff : Wifi;
+            return (
+              <div key={w.id} className={cn("rounded-2xl border bg-slate-950/25 p-4", sConf.border)}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex min-w-0 items-center gap-3">
+                    <span className={cn("grid h-9 w-9 place-items-center rounded-xl ring-1 ring-inset", sConf.bg, sConf.border)}>
+                      <Icon className={cn("h-4 w-4", sConf.color)} />
+                    </span>
+                    <div className="min-w-0">
+                      <div className="truncate text-sm font-semibold text-slate-200">{w.name ?? w.id}</div>
+                      <div className="text-xs text-slate-500">
+                        {w.mobile ? "4G/LTE" : "Cabeado"} • Prioridade {w.priority ?? "—"}
+                      </div>
+                    </div>
+                  </div>
+                  <span className={cn("text-xs font-extrabold tracking-wide", sConf.color)}>{w.state}</span>
+                </div>
+
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  {w.primary && <Badge className="bg-indigo-500/10 text-indigo-300 ring-indigo-500/20">Primário</Badge>}
+                  {w.active && <Badge className="bg-emerald-500/10 text-emerald-300 ring-emerald-500/20">Ativo</Badge>}
+                  <span className="text-[11px] text-slate-500">desde {fmtDateTime(w.since)}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+
+      <Card>
+        <div className="mb-4 flex items-center gap-2">
+          <ArrowRightLeft className="h-4 w-4 text-slate-400" />
+          <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400">Failover</h3>
+        </div>
+
+        {!timeline.length && <div className="text-sm text-slate-500">Nenhuma troca de link registrada.</div>}
+
+        <ol className="space-y-3">
+          {timeline.map((e, i) => {
+            const tone =
+              e.kind === "WAN_FAILOVER"
+                ? "bg-amber-500"
+                : e.kind === "WAN_FAILBACK"
+                  ? "bg-emerald-500"
+                  : getStateConfig(e.next ?? "UNKNOWN").dot;
+            const text =
+              e.kind === "WAN_STATE_CHANGE"
+                ? `${e.wan?.name ?? e.wan?.id ?? "WAN"}: ${e.prev} → ${e.next}`
+                : `${e.from?.name ?? e.from?.id ?? "—"} → ${e.to?.name ?? e.to?.id ?? "—"}`;
+            return (
+              <li key={`${e.ts}-${i}`} className="flex items-start gap-3">
+                <span className={cn("mt-1.5 h-2 w-2 flex-shrink-0 rounded-full", tone)} />
+                <div className="min-w-0">
+                  <div className="text-xs font-bold text-slate-300">
+                    {e.kind === "WAN_FAILOVER" ? "FAILOVER" : e.kind === "WAN_FAILBACK" ? "FAILBACK" : "ESTADO"}
+                    <span className="ml-2 font-mono font-normal text-slate-500">{fmtDateTime(e.ts)}</span>
+                  </div>
+                  <div className="truncate text-sm text-slate-400">{text}</div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </Card>
+    </section>
   );
 }
 
-function StatBox({
-  label,
-  value,
-  icon,
-  subtext,
-  color,
-}: {
-  label: string;
-  value: string;
-  icon: React.ReactNode;
-  subtext?: string | null;
-  color?: string;
-}) {
+function ChartTooltip({ active, payload, label }: any) {
+  if (!active || !payload?.length) return null;
+  const p = payload[0]?.payload;
+  const ms = typeof p?.ms === "number" ? p.ms : null;
   return (
-    <div className="group rounded-2xl bg-slate-950/25 p-4 border border-slate-800/60 hover:border-slate-700 hover:bg-slate-950/35 transition-all">
-      <div className="mb-2 flex items-center gap-2 text-slate-500 group-hover:text-slate-400 transition-colors">
-        {icon}
-        <span className="text-[10px] uppercase font-bold tracking-wider">{label}</span>
+    <div className="rounded-2xl border border-slate-800 bg-slate-950/95 px-3 py-2 text-xs text-slate-200 shadow-xl">
+      <div className="text-slate-400">{p?.fullTime ?? label}</div>
+      <div className="mt-1 flex items-baseline gap-2">
+        <div className="text-slate-300">Latência</div>
+        <div className="font-mono font-extrabold text-white">{ms ?? "—"}ms</div>
       </div>
-
-      <div className={cn("text-xl font-extrabold font-mono tracking-tight", color ?? "text-slate-200")}>{value}</div>
-
-      {subtext && <div className="mt-1 text-[11px] text-slate-500 truncate">{subtext}</div>}
     </div>
   );
 }
-
-const Card = ({ children, className }: { children: React.ReactNode; className?: string }) => (
-  <div className={cn("rounded-3xl border border-slate-800 bg-slate-900/35 backdrop-blur-sm p-5", className)}>
-    {children}
-  </div>
-);
-
-const Badge = ({ children, className }: { children: React.ReactNode; className?: string }) => (
-  <span className={cn("inline-flex items-center rounded-full px-3 py-1.5 text-xs font-semibold ring-1 ring-inset", className)}>
-    {children}
-  </span>
-);
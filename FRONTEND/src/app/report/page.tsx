@@ -0,0 +1,342 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Clock, FileText, Gauge, ListChecks, ShieldAlert, Tags, Timer, UserCheck, Wrench, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { apiFetch } from "@/lib/auth";
+import { apiPath, useSite } from "@/lib/site";
+import { ROOT_CAUSES, fmtDateTime, fmtDuration, getStateConfig, type AvailabilityBucket, type AvailabilityReport } from "@/lib/monitor";
+import { Card, Notice, Segmented, StatBox } from "@/components/ui";
+import { PageShell } from "@/components/shell";
+
+type Preset = "month" | "lastMonth" | "7d" | "30d" | "custom";
+type Granularity = AvailabilityReport["granularity"];
+
+function toDateInput(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function presetRange(p: Preset, custom: { from: string; to: string }) {
+  const now = new Date();
+  switch (p) {
+    case "month":
+      return { from: new Date(now.getFullYear(), now.getMonth(), 1), to: now };
+    case "lastMonth":
+      return {
+        from: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+        to: new Date(now.getFullYear(), now.getMonth(), 1),
+      };
+    case "7d":
+      return { from: new Date(now.getTime() - 7 * 86400000), to: now };
+    case "30d":
+      return { from: new Date(now.getTime() - 30 * 86400000), to: now };
+    default: {
+      // datas locais; "até" inclui o dia inteiro
+      const [fy, fm, fd] = custom.from.split("-").map(Number);
+      const [ty, tm, td] = custom.to.split("-").map(Number);
+      return { from: new Date(fy, fm - 1, fd), to: new Date(ty, tm - 1, td + 1) };
+    }
+  }
+}
+
+function fmtPct(v: number | null | undefined) {
+  return v == null ? "—" : `${v.toFixed(3)}%`;
+}
+
+function pctTone(v: number | null | undefined) {
+  if (v == null) return "text-slate-400";
+  if (v >= 99.5) return "text-emerald-400";
+  if (v >= 98) return "text-amber-400";
+  return "text-rose-400";
+}
+
+function fmtBucket(iso: string, g: Granularity) {
+  const d = new Date(iso);
+  if (g === "month") return d.toLocaleDateString("pt-BR", { month: "long", year: "numeric" });
+  if (g === "week") return `Semana de ${d.toLocaleDateString("pt-BR")}`;
+  return d.toLocaleDateString("pt-BR", { weekday: "short", day: "2-digit", month: "2-digit" });
+}
+
+export default function ReportPage() {
+  const site = useSite();
+  const [preset, setPreset] = useState<Preset>("month");
+  const [custom, setCustom] = useState(() => {
+    const now = new Date();
+    return { from: toDateInput(new Date(now.getFullYear(), now.getMonth(), 1)), to: toDateInput(now) };
+  });
+  const [granularity, setGranularity] = useState<Granularity>("day");
+
+  const [report, setReport] = useState<AvailabilityReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const query = useMemo(() => {
+    const { from, to } = presetRange(preset, custom);
+    return new URLSearchParams({ from: from.toISOString(), to: to.toISOString(), granularity });
+  }, [preset, custom, granularity]);
+
+  const load = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const res = await apiFetch(`${apiPath("/reports/availability", site)}?${query}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setReport((await res.json()) as AvailabilityReport);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao gerar relatório");
+    } finally {
+      setLoading(false);
+    }
+  }, [site, query]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const t = report?.total;
+  const exportUrl = (format: "csv" | "html") =>
+    `${apiPath("/reports/availability", site)}?${query}&format=${format}&download=1`;
+
+  return (
+    <PageShell
+      title="Relatório de Disponibilidade"
+      icon={<FileText className="h-5 w-5 text-indigo-300" />}
+      actions={
+        <>
+          <a
+            href={exportUrl("csv")}
+            className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-900/70 hover:border-slate-700"
+          >
+            CSV
+          </a>
+          <a
+            href={exportUrl("html")}
+            className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-900/70 hover:border-slate-700"
+          >
+            HTML
+          </a>
+        </>
+      }
+    >
+      {error && (
+        <div className="mb-6">
+          <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title="Erro">
+            {error}
+          </Notice>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <Segmented
+            value={preset}
+            onChange={setPreset}
+            options={[
+              { value: "month", label: "Este mês" },
+              { value: "lastMonth", label: "Mês passado" },
+              { value: "7d", label: "7 dias" },
+              { value: "30d", label: "30 dias" },
+              { value: "custom", label: "Personalizado" },
+            ]}
+          />
+          {preset === "custom" && (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <input
+                type="date"
+                value={custom.from}
+                onChange={(e) => setCustom((c) => ({ ...c, from: e.target.value }))}
+                className="rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-slate-200"
+              />
+              até
+              <input
+                type="date"
+                value={custom.to}
+                onChange={(e) => setCustom((c) => ({ ...c, to: e.target.value }))}
+                className="rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-slate-200"
+              />
+            </div>
+          )}
+          <Segmented
+            value={granularity}
+            onChange={setGranularity}
+            options={[
+              { value: "day", label: "Dia" },
+              { value: "week", label: "Semana" },
+              { value: "month", label: "Mês" },
+            ]}
+          />
+          {loading && <span className="text-xs text-slate-500">Calculando...</span>}
+        </div>
+      </Card>
+
+      <div className="mb-6 grid grid-cols-2 gap-3 md:grid-cols-6">
+        <StatBox
+          label="Disponibilidade"
+          value={fmtPct(t?.uptimePct)}
+          icon={<Gauge className="h-4 w-4 text-indigo-300" />}
+          color={pctTone(t?.uptimePct)}
+          subtext={
+            t ? `cobertura ${fmtPct(t.coveragePct)}${t.maintenanceMs ? ` • manutenção ${fmtDuration(t.maintenanceMs)}` : ""}` : null
+          }
+        />
+        <StatBox
+          label="Fora do ar"
+          value={fmtDuration(t?.downMs)}
+          icon={<XCircle className="h-4 w-4 text-rose-300" />}
+          subtext={t ? `instável ${fmtDuration(t.degradedMs)}` : null}
+        />
+        <StatBox
+          label="Incidentes"
+          value={String(t?.incidents ?? "—")}
+          icon={<ShieldAlert className="h-4 w-4 text-amber-300" />}
+          subtext={t ? `${t.downIncidents} com queda total` : null}
+        />
+        <StatBox label="MTTR" value={fmtDuration(t?.mttrMs)} icon={<Wrench className="h-4 w-4 text-slate-400" />} subtext="tempo médio de reparo" />
+        <StatBox label="MTBF" value={fmtDuration(t?.mtbfMs)} icon={<Timer className="h-4 w-4 text-slate-400" />} subtext="tempo médio entre falhas" />
+        <StatBox
+          label="Reconhecimento"
+          value={fmtDuration(t?.mttaMs)}
+          icon={<UserCheck className="h-4 w-4 text-slate-400" />}
+          subtext={t ? `${t.acknowledged} de ${t.incidents} reconhecidos` : null}
+        />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 overflow-hidden rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-sm shadow-xl">
+          <div className="max-h-[560px] overflow-auto scrollbar-app">
+            <table className="w-full text-left text-sm">
+              <thead className="sticky top-0 z-10 bg-slate-950/80 backdrop-blur text-xs uppercase font-semibold text-slate-500 shadow-sm">
+                <tr>
+                  <th className="px-4 py-3">Período</th>
+                  <th className="px-4 py-3">Disponib.</th>
+                  <th className="px-4 py-3">Fora</th>
+                  <th className="px-4 py-3">Instável</th>
+                  <th className="px-4 py-3">Manut.</th>
+                  <th className="px-4 py-3">Incid.</th>
+                  <th className="px-4 py-3">MTTR</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/60">
+                {(report?.buckets ?? []).map((b) => (
+                  <BucketRow key={b.start} b={b} granularity={report!.granularity} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <div className="mb-4 flex items-center gap-2">
+              <Clock className="h-4 w-4 text-slate-400" />
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400">Por link WAN</h3>
+            </div>
+            {!t?.wans.length && <div className="text-sm text-slate-500">Sem dados por WAN no período.</div>}
+            <div className="space-y-3">
+              {(t?.wans ?? []).map((w) => (
+                <div key={w.id} className="rounded-2xl border border-slate-800/60 bg-slate-950/25 p-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="truncate text-sm font-semibold text-slate-200">{w.name}</span>
+                    <span className={cn("font-mono text-sm font-bold", pctTone(w.uptimePct))}>{fmtPct(w.uptimePct)}</span>
+                  </div>
+                  <div className="mt-1 text-xs text-slate-500">
+                    fora {fmtDuration(w.downMs)} • instável {fmtDuration(w.degradedMs)}
+                    {w.maintenanceMs ? ` • manutenção ${fmtDuration(w.maintenanceMs)}` : ""}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          <Card>
+            <div className="mb-4 flex items-center gap-2">
+              <Tags className="h-4 w-4 text-slate-400" />
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400">Por causa raiz</h3>
+            </div>
+            {!t?.rootCauses.length && <div className="text-sm text-slate-500">Nenhum incidente no período.</div>}
+            <div className="space-y-2">
+              {(t?.rootCauses ?? []).map((c) => (
+                <div key={c.rootCause ?? "none"} className="flex items-center justify-between gap-3 text-sm">
+                  <span className={cn("truncate", c.rootCause ? "text-slate-200" : "text-slate-500")}>
+                    {c.rootCause ? ROOT_CAUSES[c.rootCause] : "Não classificada"}
+                  </span>
+                  <span className="font-mono text-xs text-slate-400">
+                    {c.incidents}× • {fmtDuration(c.durationMs)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        </div>
+      </div>
+
+      <div className="mt-6 overflow-hidden rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-sm shadow-xl">
+        <div className="flex items-center gap-2 px-4 pt-4">
+          <ListChecks className="h-4 w-4 text-slate-400" />
+          <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400">Incidentes do período</h3>
+        </div>
+        <div className="max-h-[560px] overflow-auto scrollbar-app">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 z-10 bg-slate-950/80 backdrop-blur text-xs uppercase font-semibold text-slate-500 shadow-sm">
+              <tr>
+                <th className="px-4 py-3">Início</th>
+                <th className="px-4 py-3">Duração</th>
+                <th className="px-4 py-3">Causa raiz</th>
+                <th className="px-4 py-3">Responsável</th>
+                <th className="px-4 py-3">Reconhecido</th>
+                <th className="px-4 py-3">Notas</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/60">
+              {(report?.incidents ?? []).map((i) => (
+                <tr key={i.id} className="align-top hover:bg-slate-800/25 transition-colors">
+                  <td className="px-4 py-2.5 whitespace-nowrap font-mono text-xs text-slate-300">
+                    <span className={cn("mr-2 inline-block h-2 w-2 rounded-full", getStateConfig(i.worstState).dot)} />
+                    {fmtDateTime(i.start)}
+                  </td>
+                  <td className="px-4 py-2.5 font-mono text-xs text-slate-400">
+                    {fmtDuration(i.durationMs)}
+                    {i.maintenance && <span className="ml-1 font-sans text-indigo-300">• manutenção</span>}
+                  </td>
+                  <td className="px-4 py-2.5 text-xs text-slate-300">{i.rootCause ? ROOT_CAUSES[i.rootCause] : "—"}</td>
+                  <td className="px-4 py-2.5 text-xs text-slate-300">{i.assignee?.name ?? "—"}</td>
+                  <td className="px-4 py-2.5 text-xs text-slate-400">{i.ack ? `${i.ack.by ?? "—"} • ${fmtDateTime(i.ack.ts)}` : "—"}</td>
+                  <td className="px-4 py-2.5 text-xs text-slate-400">
+                    {i.notes?.map((n) => (
+                      <div key={n.id}>
+                        <span className="font-mono text-slate-500">{fmtDateTime(n.ts)}</span> {n.text}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+              {!report?.incidents.length && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-slate-500">
+                    Nenhum incidente no período.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </PageShell>
+  );
+}
+
+function BucketRow({ b, granularity }: { b: AvailabilityBucket; granularity: Granularity }) {
+  const empty = !b.monitoredMs;
+  return (
+    <tr className={cn("hover:bg-slate-800/25 transition-colors", empty && "opacity-50")}>
+      <td className="px-4 py-2.5 text-xs text-slate-300 whitespace-nowrap">{fmtBucket(b.start, granularity)}</td>
+      <td className={cn("px-4 py-2.5 font-mono text-xs font-bold", pctTone(b.uptimePct))}>{fmtPct(b.uptimePct)}</td>
+      <td className="px-4 py-2.5 font-mono text-xs text-slate-400">{b.downMs ? fmtDuration(b.downMs) : "—"}</td>
+      <td className="px-4 py-2.5 font-mono text-xs text-slate-400">{b.degradedMs ? fmtDuration(b.degradedMs) : "—"}</td>
+      <td className="px-4 py-2.5 font-mono text-xs text-slate-400">{b.maintenanceMs ? fmtDuration(b.maintenanceMs) : "—"}</td>
+      <td className="px-4 py-2.5 font-mono text-xs text-slate-400">{b.incidents || "—"}</td>
+      <td className="px-4 py-2.5 font-mono text-xs text-slate-400">{fmtDuration(b.mttrMs)}</td>
+    </tr>
+  );
+}
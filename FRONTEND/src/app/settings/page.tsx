@@ -0,0 +1,369 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Plus, RotateCcw, Save, Settings, Trash2, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { apiFetch } from "@/lib/auth";
+import { apiPath, useSite } from "@/lib/site";
+import { fmtDateTime, type ProbeConfig, type SiteConfigPayload, type SiteSettings } from "@/lib/monitor";
+import { Badge, Card, Notice } from "@/components/ui";
+import { PageShell } from "@/components/shell";
+
+type Thresholds = SiteSettings["thresholds"];
+type QualitySettings = SiteSettings["quality"];
+
+const THRESHOLD_FIELDS: { key: keyof Thresholds; label: string; hint: string }[] = [
+  { key: "degradedAfterFails", label: "Instável após", hint: "falhas seguidas" },
+  { key: "downAfterFails", label: "Fora do ar após", hint: "falhas seguidas" },
+  { key: "okAfterSucc", label: "OK após", hint: "sucessos seguidos" },
+  { key: "deviceOfflineAfterTicks", label: "Dispositivo offline após", hint: "leituras" },
+];
+
+const QUALITY_FIELDS: { key: Exclude<keyof QualitySettings, "window">; label: string; hint: string }[] = [
+  { key: "slowMs", label: "Latência regular", hint: "ms" },
+  { key: "verySlowMs", label: "Latência ruim", hint: "ms" },
+  { key: "jitterMs", label: "Jitter regular", hint: "ms" },
+  { key: "badJitterMs", label: "Jitter ruim", hint: "ms" },
+  { key: "lossPct", label: "Perda regular", hint: "%" },
+  { key: "badLossPct", label: "Perda ruim", hint: "%" },
+  { key: "degradedAfterTicks", label: "Instável por qualidade após", hint: "ticks (0 = desliga)" },
+  { key: "minSamples", label: "Amostras mínimas", hint: "na janela" },
+];
+
+const inputCls =
+  "w-full rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-sm text-slate-200 outline-none focus:border-slate-600";
+
+function NumberField({
+  label,
+  hint,
+  value,
+  onChange,
+}: {
+  label: string;
+  hint?: string;
+  value: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{label}</span>
+      <div className="mt-1 flex items-center gap-2">
+        <input
+          type="number"
+          value={Number.isFinite(value) ? value : ""}
+          onChange={(e) => onChange(e.target.value === "" ? NaN : Number(e.target.value))}
+          className={inputCls}
+        />
+        {hint && <span className="shrink-0 text-xs text-slate-500">{hint}</span>}
+      </div>
+    </label>
+  );
+}
+
+function ProbeRow({
+  probe,
+  onChange,
+  onRemove,
+}: {
+  probe: ProbeConfig;
+  onChange: (p: ProbeConfig) => void;
+  onRemove: () => void;
+}) {
+  const set = (patch: Partial<ProbeConfig>) => onChange({ ...probe, ...patch });
+  const resolver = Array.isArray(probe.resolver) ? probe.resolver.join(",") : (probe.resolver ?? "");
+
+  return (
+    <div className="grid gap-2 rounded-2xl border border-slate-800/60 bg-slate-950/25 p-3 md:grid-cols-[110px_1fr_1fr_80px_auto]">
+      <select value={probe.kind} onChange={(e) => set({ kind: e.target.value as ProbeConfig["kind"] })} className={inputCls}>
+        <option value="http">HTTP</option>
+        <option value="dns">DNS</option>
+        <option value="tcp">TCP</option>
+      </select>
+
+      {probe.kind === "http" ? (
+        <input value={probe.url ?? ""} onChange={(e) => set({ url: e.target.value })} placeholder="https://..." className={inputCls} />
+      ) : (
+        <div className="flex gap-2">
+          <input value={probe.host ?? ""} onChange={(e) => set({ host: e.target.value })} placeholder="host" className={inputCls} />
+          {probe.kind === "tcp" ? (
+            <input
+              type="number"
+              value={probe.port ?? ""}
+              onChange={(e) => set({ port: e.target.value === "" ? undefined : Number(e.target.value) })}
+              placeholder="porta"
+              className={cn(inputCls, "w-28")}
+            />
+          ) : (
+            <input
+              value={resolver}
+              onChange={(e) => set({ resolver: e.target.value ? e.target.value.split(",").map((s) => s.trim()) : undefined })}
+              placeholder="resolver (opcional)"
+              className={inputCls}
+            />
+          )}
+        </div>
+      )}
+
+      <input value={probe.name ?? ""} onChange={(e) => set({ name: e.target.value || undefined })} placeholder="nome (opcional)" className={inputCls} />
+      <input
+        type="number"
+        value={probe.weight ?? 1}
+        onChange={(e) => set({ weight: Number(e.target.value) })}
+        title="peso no quorum"
+        className={inputCls}
+      />
+      <button
+        onClick={onRemove}
+        className="flex items-center justify-center rounded-xl border border-slate-800 px-3 py-2 text-slate-400 transition hover:border-rose-500/40 hover:text-rose-300"
+        title="Remover"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+// só o que mudou em relação ao config em vigor (o backend faz merge com os ajustes já salvos)
+function diffSettings(current: SiteSettings, draft: SiteSettings) {
+  const patch: Record<string, unknown> = {};
+  for (const key of ["intervalMs", "wifiIntervalMs", "probeQuorum", "probes"] as const) {
+    if (JSON.stringify(current[key]) !== JSON.stringify(draft[key])) patch[key] = draft[key];
+  }
+  for (const group of ["thresholds", "quality"] as const) {
+    const cur = current[group] as Record<string, unknown>;
+    const changed = Object.entries(draft[group]).filter(([k, v]) => cur[k] !== v);
+    if (changed.length) patch[group] = Object.fromEntries(changed);
+  }
+  return patch;
+}
+
+export default function SettingsPage() {
+  const site = useSite();
+  const [data, setData] = useState<SiteConfigPayload | null>(null);
+  const [draft, setDraft] = useState<SiteSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [details, setDetails] = useState<string[]>([]);
+  const [forbidden, setForbidden] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const apply = (json: SiteConfigPayload) => {
+    setData(json);
+    setDraft(structuredClone(json.settings));
+  };
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await apiFetch(apiPath("/config", site));
+      if (res.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      apply((await res.json()) as SiteConfigPayload);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao carregar configuração");
+    }
+  }, [site]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const patch = useMemo(() => (data && draft ? diffSettings(data.settings, draft) : {}), [data, draft]);
+  const dirty = Object.keys(patch).length > 0;
+
+  async function send(method: "PUT" | "DELETE") {
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    setDetails([]);
+    try {
+      const res = await apiFetch(apiPath("/config", site), {
+        method,
+        ...(method === "PUT" && { headers: { "Content-Type": "application/json" }, body: JSON.stringify(patch) }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setDetails(json.details ?? []);
+        throw new Error(json.error === "invalid_settings" ? "Configuração inválida" : `HTTP ${res.status}`);
+      }
+      apply(json as SiteConfigPayload);
+      setSaved(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao salvar");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const update = <K extends keyof SiteSettings>(key: K, value: SiteSettings[K]) =>
+    setDraft((d) => (d ? { ...d, [key]: value } : d));
+
+  return (
+    <PageShell
+      title="Configuração"
+      icon={<Settings className="h-5 w-5 text-indigo-300" />}
+      actions={
+        data && (
+          <>
+            <button
+              onClick={() => send("DELETE")}
+              disabled={saving || !data.override}
+              className="inline-flex items-center gap-2 rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-900/70 hover:border-slate-700 disabled:opacity-50"
+            >
+              <RotateCcw className="h-4 w-4" /> Restaurar .env
+            </button>
+            <button
+              onClick={() => send("PUT")}
+              disabled={saving || !dirty}
+              className="inline-flex items-center gap-2 rounded-xl border border-indigo-500/30 bg-indigo-500/20 px-3 py-2 text-sm font-semibold text-indigo-100 transition hover:bg-indigo-500/30 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" /> {saving ? "Salvando..." : "Salvar"}
+            </button>
+          </>
+        )
+      }
+    >
+      {forbidden && (
+        <Notice tone="warn" icon={<XCircle className="h-5 w-5" />} title="Acesso restrito">
+          Somente administradores podem ver e alterar a configuração.
+        </Notice>
+      )}
+
+      {error && (
+        <div className="mb-6">
+          <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title={error}>
+            {details.length ? (
+              <ul className="list-disc pl-4">
+                {details.map((d) => (
+                  <li key={d}>{d}</li>
+                ))}
+              </ul>
+            ) : (
+              "Tente novamente."
+            )}
+          </Notice>
+        </div>
+      )}
+
+      {data && draft && (
+        <>
+          <div className="mb-6 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+            <Badge className="bg-slate-900/60 text-slate-300 ring-slate-700/50">{data.site.name}</Badge>
+            {data.override ? (
+              <span>
+                Ajustado pela interface em {fmtDateTime(data.override.updatedAt)}
+                {data.override.updatedBy ? ` por ${data.override.updatedBy}` : ""}
+              </span>
+            ) : (
+              <span>Usando os valores do .env</span>
+            )}
+            {saved && !dirty && <span className="text-emerald-400">Salvo e aplicado ao monitor.</span>}
+            {dirty && <span className="text-amber-400">Alterações não salvas</span>}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <h2 className="mb-4 text-sm font-bold text-white">Intervalos</h2>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <NumberField
+                  label="Tick do monitor"
+                  hint="s"
+                  value={draft.intervalMs / 1000}
+                  onChange={(v) => update("intervalMs", Math.round(v * 1000))}
+                />
+                <NumberField
+                  label="Coleta do Wi-Fi"
+                  hint="s (0 = desliga)"
+                  value={draft.wifiIntervalMs / 1000}
+                  onChange={(v) => update("wifiIntervalMs", Math.round(v * 1000))}
+                />
+              </div>
+
+              <h2 className="mb-4 mt-6 text-sm font-bold text-white">Limiares de estado</h2>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {THRESHOLD_FIELDS.map((f) => (
+                  <NumberField
+                    key={f.key}
+                    label={f.label}
+                    hint={f.hint}
+                    value={draft.thresholds[f.key]}
+                    onChange={(v) => update("thresholds", { ...draft.thresholds, [f.key]: v })}
+                  />
+                ))}
+              </div>
+            </Card>
+
+            <Card>
+              <h2 className="mb-4 text-sm font-bold text-white">Qualidade</h2>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {QUALITY_FIELDS.map((f) => (
+                  <NumberField
+                    key={f.key}
+                    label={f.label}
+                    hint={f.hint}
+                    value={draft.quality[f.key]}
+                    onChange={(v) => update("quality", { ...draft.quality, [f.key]: v })}
+                  />
+                ))}
+                <label className="block">
+                  <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Janela</span>
+                  <select
+                    value={draft.quality.window}
+                    onChange={(e) => update("quality", { ...draft.quality, window: e.target.value })}
+                    className={cn(inputCls, "mt-1")}
+                  >
+                    <option value="1m">1 minuto</option>
+                    <option value="5m">5 minutos</option>
+                    <option value="1h">1 hora</option>
+                  </select>
+                </label>
+              </div>
+            </Card>
+          </div>
+
+          <Card className="mt-6">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-sm font-bold text-white">Alvos de probe</h2>
+                <div className="text-xs text-slate-500">
+                  {draft.probes.length ? `${draft.probes.length} alvo(s)` : "Sem alvos: usa PROBE_URLS do .env"}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  Quorum
+                  <input
+                    value={draft.probeQuorum}
+                    onChange={(e) => update("probeQuorum", e.target.value)}
+                    placeholder="any | majority | all | N"
+                    className={cn(inputCls, "w-44")}
+                  />
+                </label>
+                <button
+                  onClick={() => update("probes", [...draft.probes, { kind: "http", url: "" }])}
+                  className="inline-flex items-center gap-2 rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-900/70 hover:border-slate-700"
+                >
+                  <Plus className="h-4 w-4" /> Alvo
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {draft.probes.map((p, i) => (
+                <ProbeRow
+                  key={i}
+                  probe={p}
+                  onChange={(next) => update("probes", draft.probes.map((x, j) => (j === i ? next : x)))}
+                  onRemove={() => update("probes", draft.probes.filter((_, j) => j !== i))}
+                />
+              ))}
+            </div>
+          </Card>
+        </>
+      )}
+    </PageShell>
+  );
+}
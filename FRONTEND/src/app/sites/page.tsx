@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Activity, Building2, Clock, Router, Smartphone, Wifi, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  fmtDuration,
+  fmtTime,
+  getPingConfig,
+  getQualityConfig,
+  getStateConfig,
+  type SiteSummary,
+} from "@/lib/monitor";
+import { apiFetch } from "@/lib/auth";
+import { withSite } from "@/lib/site";
+import { useLiveStream, type WsEvent, type WsEventType } from "@/lib/live";
+import { Badge, Card, Notice } from "@/components/ui";
+import { PageShell } from "@/components/shell";
+
+const LIVE_TYPES: WsEventType[] = ["tick", "state_change", "incident", "maintenance"];
+
+const STATE_ORDER = { DOWN: 0, DEGRADED: 1, UNKNOWN: 2, OK: 3 } as const;
+
+// eventos do stream ao vivo -> resumo do card
+function applyEvent(s: SiteSummary, msg: WsEvent): SiteSummary {
+  if (msg.type === "state_change") return { ...s, state: msg.next, label: msg.label };
+  if (msg.type === "incident") return { ...s, incident: msg.event === "closed" ? null : msg.incident };
+  if (msg.type === "maintenance") return { ...s, maintenance: msg.active };
+  if (msg.type !== "tick") return s;
+  const e = msg.entry;
+  return {
+    ...s,
+    state: msg.state,
+    label: msg.label,
+    lastTs: e.ts,
+    reason: e.reason ?? null,
+    probeMs: e.probe?.ms ?? null,
+    quality: e.quality ?? s.quality,
+    gateway: e.gateway ?? s.gateway,
+    unifiError: e.unifiError ?? null,
+  };
+}
+
+export default function SitesPage() {
+  const [sites, setSites] = useState<SiteSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await apiFetch("/api/monitor/sites");
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setSites(((await res.json()) as { sites: SiteSummary[] }).sites);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao carregar escolas");
+    }
+  }, []);
+
+  const liveStatus = useLiveStream("*", {
+    types: LIVE_TYPES,
+    onMessage: (msg) => {
+      if (msg.type === "sites") setSites(msg.sites);
+      else if (msg.type !== "welcome" && msg.type !== "snapshot" && msg.type !== "error") {
+        setSites((prev) => prev.map((s) => (s.id === msg.site ? applyEvent(s, msg) : s)));
+      }
+    },
+  });
+  const liveOnline = liveStatus === "online";
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  // problemas primeiro
+  const sorted = useMemo(
+    () => [...sites].sort((a, b) => STATE_ORDER[a.state] - STATE_ORDER[b.state] || a.name.localeCompare(b.name)),
+    [sites]
+  );
+  const counts = useMemo(() => {
+    const c = { OK: 0, DEGRADED: 0, DOWN: 0, UNKNOWN: 0 };
+    for (const s of sites) c[s.state] += 1;
+    return c;
+  }, [sites]);
+
+  return (
+    <PageShell
+      title="Escolas"
+      icon={<Building2 className="h-5 w-5 text-indigo-300" />}
+      actions={
+        <span className={cn("text-xs font-semibold", liveOnline ? "text-emerald-400" : "text-amber-400")}>
+          LIVE {liveOnline ? "ONLINE" : "RECONNECT"}
+        </span>
+      }
+    >
+      {error && (
+        <div className="mb-6">
+          <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title="Erro">
+            {error}
+          </Notice>
+        </div>
+      )}
+
+      <div className="mb-6 flex flex-wrap gap-2">
+        {(["DOWN", "DEGRADED", "OK", "UNKNOWN"] as const).map((st) => {
+          const conf = getStateConfig(st);
+          return (
+            <Badge key={st} className={cn("gap-1.5 ring-slate-800", conf.bg, conf.color)}>
+              {conf.label} <span className="font-mono">{counts[st]}</span>
+            </Badge>
+          );
+        })}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+        {sorted.map((s) => (
+          <SiteCard key={s.id} site={s} now={now} />
+        ))}
+      </div>
+
+      {!sites.length && !error && <div className="text-sm text-slate-500">Carregando escolas...</div>}
+    </PageShell>
+  );
+}
+
+function SiteCard({ site, now }: { site: SiteSummary; now: number }) {
+  const sConf = getStateConfig(site.state);
+  const StateIcon = sConf.icon;
+  const pConf = getPingConfig(site.probeMs);
+  const qConf = getQualityConfig(site.quality?.quality);
+  const WanIcon = site.activeWan?.mobile ? Smartphone : Wifi;
+  const incidentMs = site.incident ? now - Date.parse(site.incident.start) : null;
+
+  return (
+    <Card className={cn("flex flex-col gap-4", sConf.border)}>
+      <Link href={withSite("/", site.id)} className="group flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="truncate text-base font-semibold text-white group-hover:text-indigo-300">{site.name}</div>
+          <div className="font-mono text-[11px] text-slate-500">{site.id}</div>
+        </div>
+        <span
+          className={cn(
+            "inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-[11px] font-semibold ring-1 ring-inset",
+            sConf.bg,
+            sConf.border,
+            sConf.color
+          )}
+        >
+          <StateIcon className="h-3.5 w-3.5" />
+          {sConf.label}
+        </span>
+      </Link>
+
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <div className="flex items-center gap-1 text-slate-500">
+            <Activity className="h-3.5 w-3.5" /> Latência
+          </div>
+          <div className={cn("font-mono text-sm font-bold", pConf.color)}>{site.probeMs != null ? `${site.probeMs}ms` : "—"}</div>
+        </div>
+        <div>
+          <div className="text-slate-500">Qualidade {site.quality?.window}</div>
+          <div className={cn("font-mono text-sm font-bold", qConf.color)}>{qConf.label}</div>
+          <div className="font-mono text-[10px] text-slate-500">
+            p95 {site.quality?.p95 ?? "—"}ms • perda {site.quality?.lossPct ?? 0}%
+          </div>
+        </div>
+        <div>
+          <div className="flex items-center gap-1 text-slate-500">
+            <WanIcon className="h-3.5 w-3.5" /> WAN ativa
+          </div>
+          <div className="truncate text-sm font-semibold text-slate-200">{site.activeWan?.name ?? "—"}</div>
+        </div>
+      </div>
+
+      {site.incident && (
+        <div className="rounded-xl border border-rose-500/20 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+          Incidente aberto há <span className="font-mono font-bold">{fmtDuration(incidentMs)}</span>
+          {site.incident.reason ? ` • ${site.incident.reason}` : ""}
+          <div className="mt-0.5 text-rose-200/70">
+            {site.incident.ack ? `Reconhecido por ${site.incident.ack.by ?? "—"}` : "Ninguém reconheceu ainda"}
+            {site.incident.assignee ? ` • com ${site.incident.assignee.name}` : ""}
+          </div>
+        </div>
+      )}
+      {!!site.maintenance?.length && (
+        <div className="rounded-xl border border-indigo-500/20 bg-indigo-500/10 px-3 py-2 text-xs text-indigo-200">
+          Em manutenção: {site.maintenance.map((w) => w.title).join(", ")}
+        </div>
+      )}
+      {site.devices?.offline ? (
+        <Link
+          href={withSite("/devices", site.id)}
+          className="rounded-xl border border-amber-500/20 bg-amber-500/10 px-3 py-2 text-xs text-amber-200 hover:border-amber-500/40"
+        >
+          <span className="font-mono font-bold">{site.devices.offline}</span> de{" "}
+          <span className="font-mono">{site.devices.total}</span> dispositivo(s) offline
+        </Link>
+      ) : null}
+      {site.unifiError && <div className="truncate text-xs text-amber-300" title={site.unifiError}>UniFi: {site.unifiError}</div>}
+
+      <div className="mt-auto flex items-center justify-between gap-2 border-t border-slate-800/60 pt-3 text-xs text-slate-500">
+        <span className="inline-flex items-center gap-1.5">
+          <Router className="h-3.5 w-3.5" />
+          {site.gateway?.model ?? "—"}
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <Clock className="h-3.5 w-3.5" />
+          {fmtTime(site.lastTs ?? undefined)}
+        </span>
+        <span className="flex gap-2">
+          <Link href={withSite("/incidents", site.id)} className="font-semibold text-slate-400 hover:text-slate-200">
+            Incidentes
+          </Link>
+          <Link href={withSite("/report", site.id)} className="font-semibold text-slate-400 hover:text-slate-200">
+            SLA
+          </Link>
+        </span>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { CalendarClock, Wifi, Wrench, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { fmtDateTime, fmtDuration, getStateConfig, type PublicIncident, type PublicStatus } from "@/lib/monitor";
+import { Card, Notice } from "@/components/ui";
+import { TIMELINE_LEGEND, UptimeBars } from "@/components/timeline";
+
+// o backend já devolve com cache público; não precisa de mais que isso
+const REFRESH_MS = 60_000;
+
+// Página pública (pais e funcionários): sem login, sem menu e sem nada técnico.
+// Usa fetch direto, não apiFetch: um 401/404 aqui não pode mandar ninguém para o /login.
+export default function PublicStatusPage() {
+  const { site } = useParams<{ site: string }>();
+  const [data, setData] = useState<PublicStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/monitor/public/sites/${encodeURIComponent(site)}`);
+      if (res.status === 404) throw new Error("Página de status não encontrada.");
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setData((await res.json()) as PublicStatus);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao carregar o status");
+    }
+  }, [site]);
+
+  useEffect(() => {
+    load();
+    const t = setInterval(load, REFRESH_MS);
+    return () => clearInterval(t);
+  }, [load]);
+
+  const conf = data ? getStateConfig(data.state) : null;
+  const Icon = conf?.icon ?? Wifi;
+  const activeMaintenance = data?.maintenance.filter((m) => m.active) ?? [];
+  const upcoming = data?.maintenance.filter((m) => !m.active) ?? [];
+  const pct = data?.today.total.uptimePct;
+
+  return (
+    <div className="min-h-screen bg-[#070A12] text-slate-200 font-sans">
+      <main className="mx-auto max-w-3xl px-4 py-10 md:px-6">
+        <header className="mb-8">
+          <div className="text-xs font-bold uppercase tracking-wider text-slate-500">Status da internet</div>
+          <h1 className="mt-1 text-2xl font-semibold tracking-tight text-white">{data?.site.name ?? site}</h1>
+        </header>
+
+        {error && (
+          <div className="mb-6">
+            <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title="Erro">
+              {error}
+            </Notice>
+          </div>
+        )}
+
+        {data && conf && (
+          <>
+            <div className={cn("mb-6 flex items-center gap-4 rounded-2xl border p-5", conf.bg, conf.border)}>
+              <Icon className={cn("h-8 w-8 shrink-0", conf.color)} />
+              <div className="min-w-0">
+                <div className={cn("text-xl font-bold", conf.color)}>{data.label}</div>
+                <div className="text-xs text-slate-400">
+                  Atualizado em {fmtDateTime(data.updatedAt ?? data.generatedAt)}
+                </div>
+              </div>
+            </div>
+
+            {activeMaintenance.map((m) => (
+              <div key={`${m.title}-${m.start}`} className="mb-6">
+                <Notice tone="info" icon={<Wrench className="h-5 w-5" />} title={`Manutenção em andamento: ${m.title}`}>
+                  Até {fmtDateTime(m.end)}. Quedas nesse período são esperadas.
+                </Notice>
+              </div>
+            ))}
+
+            <Card className="mb-6">
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-xs font-bold uppercase tracking-wider text-slate-400">Hoje</h2>
+                <span className="font-mono text-sm text-slate-200">
+                  {pct == null ? "—" : `${pct.toFixed(2)}%`} <span className="font-sans text-xs text-slate-500">disponível</span>
+                </span>
+              </div>
+              <UptimeBars timeline={data.today} />
+              <div className="mt-3 flex flex-wrap gap-3 text-[11px] text-slate-400">
+                {TIMELINE_LEGEND.map((l) => (
+                  <span key={l.label} className="flex items-center gap-1.5">
+                    <span className={cn("h-2.5 w-2.5 rounded-sm", l.className)} /> {l.label}
+                  </span>
+                ))}
+              </div>
+            </Card>
+
+            <Card className="mb-6">
+              <h2 className="mb-4 text-xs font-bold uppercase tracking-wider text-slate-400">Incidentes</h2>
+              {!data.incidents.active.length && !data.incidents.recent.length && (
+                <div className="text-sm text-slate-500">Nenhum incidente nos últimos 7 dias.</div>
+              )}
+              <div className="space-y-3">
+                {[...data.incidents.active, ...data.incidents.recent].map((i) => (
+                  <IncidentItem key={i.id} inc={i} />
+                ))}
+              </div>
+            </Card>
+
+            <Card>
+              <h2 className="mb-4 text-xs font-bold uppercase tracking-wider text-slate-400">Manutenções programadas</h2>
+              {!upcoming.length && <div className="text-sm text-slate-500">Nenhuma manutenção nos próximos 7 dias.</div>}
+              <div className="space-y-2">
+                {upcoming.map((m) => (
+                  <div
+                    key={`${m.title}-${m.start}`}
+                    className="flex items-center gap-3 rounded-2xl border border-slate-800/60 bg-slate-950/25 px-3 py-2 text-sm"
+                  >
+                    <CalendarClock className="h-4 w-4 shrink-0 text-indigo-300" />
+                    <span className="min-w-0 flex-1 truncate text-slate-200">{m.title}</span>
+                    <span className="font-mono text-xs text-slate-400">
+                      {fmtDateTime(m.start)} – {new Date(m.end).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function IncidentItem({ inc }: { inc: PublicIncident }) {
+  const conf = getStateConfig(inc.state);
+  return (
+    <div className="rounded-2xl border border-slate-800/60 bg-slate-950/25 p-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className={cn("h-2 w-2 rounded-full", conf.dot)} />
+        <span className={cn("font-semibold", conf.color)}>{inc.label}</span>
+        <span className="text-slate-400">
+          {fmtDateTime(inc.start)} • {inc.end ? fmtDuration(inc.durationMs) : <span className="font-semibold text-amber-300">em andamento</span>}
+        </span>
+        {inc.maintenance && <span className="text-xs text-indigo-300">• durante manutenção</span>}
+      </div>
+      {inc.updates.length > 0 && (
+        <ul className="mt-2 space-y-1.5 border-l border-slate-800 pl-3">
+          {[...inc.updates].reverse().map((u) => (
+            <li key={u.ts} className="text-sm text-slate-300">
+              <span className="mr-2 font-mono text-xs text-slate-500">
+                {new Date(u.ts).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+              </span>
+              {u.text}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
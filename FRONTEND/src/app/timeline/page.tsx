@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ArrowLeft, CalendarRange, Gauge, ShieldAlert, Wrench, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { apiFetch } from "@/lib/auth";
+import { apiPath, useSite } from "@/lib/site";
+import { fmtDuration, type TimelineBucket, type TimelinePayload } from "@/lib/monitor";
+import { Card, Notice, Segmented, StatBox } from "@/components/ui";
+import { PageShell } from "@/components/shell";
+import { TIMELINE_LEGEND, UptimeBars, fmtTimelinePeriod } from "@/components/timeline";
+
+type Range = "90d" | "30d" | "7d" | "24h";
+
+// por hora a partir de 7 dias: 168 barras ainda cabem numa linha
+const RANGES: Record<Range, { granularity: TimelinePayload["granularity"]; days: number; label: string }> = {
+  "90d": { granularity: "day", days: 90, label: "90 dias" },
+  "30d": { granularity: "day", days: 30, label: "30 dias" },
+  "7d": { granularity: "hour", days: 7, label: "7 dias (por hora)" },
+  "24h": { granularity: "hour", days: 1, label: "24 h" },
+};
+
+function pctTone(v: number | null | undefined) {
+  if (v == null) return "text-slate-400";
+  if (v >= 99.5) return "text-emerald-400";
+  if (v >= 98) return "text-amber-400";
+  return "text-rose-400";
+}
+
+export default function TimelinePage() {
+  const site = useSite();
+  const [range, setRange] = useState<Range>("90d");
+  // dia clicado na visão por dia: mostra as horas dele
+  const [zoom, setZoom] = useState<TimelineBucket | null>(null);
+
+  const [timeline, setTimeline] = useState<TimelinePayload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const query = useMemo(() => {
+    if (zoom) return new URLSearchParams({ granularity: "hour", from: zoom.start, to: zoom.end });
+    const r = RANGES[range];
+    return new URLSearchParams({ granularity: r.granularity, days: String(r.days) });
+  }, [range, zoom]);
+
+  const load = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const res = await apiFetch(`${apiPath("/timeline", site)}?${query}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setTimeline((await res.json()) as TimelinePayload);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao carregar linha do tempo");
+    } finally {
+      setLoading(false);
+    }
+  }, [site, query]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const t = timeline?.total;
+  const worst = useMemo(
+    () => [...(timeline?.buckets ?? [])].filter((b) => b.downMs > 0).sort((a, b) => b.downMs - a.downMs).slice(0, 5),
+    [timeline]
+  );
+
+  return (
+    <PageShell title="Linha do Tempo" icon={<CalendarRange className="h-5 w-5 text-indigo-300" />}>
+      {error && (
+        <div className="mb-6">
+          <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title="Erro">
+            {error}
+          </Notice>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <div className="flex flex-wrap items-center gap-3">
+          {zoom ? (
+            <button
+              onClick={() => setZoom(null)}
+              className="flex items-center gap-1.5 rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-xs font-semibold text-slate-300 transition hover:text-white"
+            >
+              <ArrowLeft className="h-3.5 w-3.5" /> Voltar para {RANGES[range].label}
+            </button>
+          ) : (
+            <Segmented
+              value={range}
+              onChange={setRange}
+              options={(Object.keys(RANGES) as Range[]).map((r) => ({ value: r, label: RANGES[r].label }))}
+            />
+          )}
+          {zoom && <span className="text-sm font-semibold text-slate-200">{fmtTimelinePeriod(zoom.start, "day")} por hora</span>}
+          {loading && <span className="text-xs text-slate-500">Calculando...</span>}
+        </div>
+      </Card>
+
+      <div className="mb-6 grid grid-cols-2 gap-3 md:grid-cols-4">
+        <StatBox
+          label="Disponibilidade"
+          value={t?.uptimePct == null ? "—" : `${t.uptimePct.toFixed(3)}%`}
+          icon={<Gauge className="h-4 w-4 text-indigo-300" />}
+          color={pctTone(t?.uptimePct)}
+        />
+        <StatBox
+          label="Fora do ar"
+          value={fmtDuration(t?.downMs)}
+          icon={<XCircle className="h-4 w-4 text-rose-300" />}
+          subtext={t ? `instável ${fmtDuration(t.degradedMs)}` : null}
+        />
+        <StatBox label="Incidentes" value={String(t?.incidents ?? "—")} icon={<ShieldAlert className="h-4 w-4 text-amber-300" />} />
+        <StatBox label="Manutenção" value={fmtDuration(t?.maintenanceMs)} icon={<Wrench className="h-4 w-4 text-slate-400" />} />
+      </div>
+
+      <Card className="mb-6">
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400">
+            {timeline?.granularity === "hour" ? "Uma barra por hora" : "Uma barra por dia"}
+            {!zoom && timeline?.granularity === "day" && <span className="ml-2 normal-case font-normal text-slate-500">clique num dia para ver as horas</span>}
+          </h3>
+          <div className="flex flex-wrap gap-3 text-[11px] text-slate-400">
+            {TIMELINE_LEGEND.map((l) => (
+              <span key={l.label} className="flex items-center gap-1.5">
+                <span className={cn("h-2.5 w-2.5 rounded-sm", l.className)} /> {l.label}
+              </span>
+            ))}
+            <span className="flex items-center gap-1.5">
+              <span className="h-2.5 w-2.5 rounded-sm ring-1 ring-inset ring-indigo-400/70" /> Manutenção
+            </span>
+          </div>
+        </div>
+        {timeline && (
+          <UptimeBars
+            timeline={timeline}
+            onSelect={!zoom && timeline.granularity === "day" ? (b) => setZoom(b) : undefined}
+          />
+        )}
+      </Card>
+
+      <Card>
+        <h3 className="mb-4 text-xs font-bold uppercase tracking-wider text-slate-400">Períodos com mais tempo fora</h3>
+        {!worst.length && <div className="text-sm text-slate-500">Nenhuma queda no período.</div>}
+        <div className="space-y-2">
+          {worst.map((b) => (
+            <div key={b.start} className="flex items-center justify-between gap-3 rounded-2xl border border-slate-800/60 bg-slate-950/25 px-3 py-2 text-sm">
+              <span className="text-slate-300">{fmtTimelinePeriod(b.start, timeline!.granularity)}</span>
+              <span className="text-xs text-slate-500">
+                {b.incidentCount} incidente{b.incidentCount === 1 ? "" : "s"}
+              </span>
+              <span className="font-mono text-rose-300">{fmtDuration(b.downMs)}</span>
+            </div>
+          ))}
+        </div>
+      </Card>
+    </PageShell>
+  );
+}
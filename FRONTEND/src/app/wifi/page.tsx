@@ -0,0 +1,304 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Radio, Users, Wifi, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { apiFetch } from "@/lib/auth";
+import { apiPath, useSite } from "@/lib/site";
+import { fmtDateTime, fmtTime, type WifiAp, type WifiBand, type WifiPayload, type WifiSeries } from "@/lib/monitor";
+import { Badge, Card, Notice, Segmented, StatBox } from "@/components/ui";
+import { PageShell } from "@/components/shell";
+
+const REFRESH_MS = 60000;
+
+const BANDS: { band: WifiBand; label: string; color: string }[] = [
+  { band: "2.4", label: "2.4 GHz", color: "#f59e0b" },
+  { band: "5", label: "5 GHz", color: "#6366f1" },
+  { band: "6", label: "6 GHz", color: "#10b981" },
+];
+
+const AP_COLORS = ["#6366f1", "#f59e0b", "#10b981", "#f43f5e", "#38bdf8"];
+
+const TOOLTIP_STYLE = {
+  background: "rgba(2, 6, 23, 0.95)",
+  border: "1px solid #1e293b",
+  borderRadius: 16,
+  fontSize: 12,
+};
+
+// dia escolhido (YYYY-MM-DD, horário local) -> [00:00, 24:00) ou até agora
+function dayRange(day: string) {
+  const from = new Date(`${day}T00:00:00`);
+  const end = new Date(from);
+  end.setDate(end.getDate() + 1);
+  const to = end.getTime() > Date.now() ? new Date() : end;
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+function today() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function utilColor(pct: number | null) {
+  if (pct == null) return "bg-slate-700";
+  if (pct >= 70) return "bg-rose-500";
+  if (pct >= 40) return "bg-amber-500";
+  return "bg-emerald-500";
+}
+
+export default function WifiPage() {
+  const site = useSite();
+  const [day, setDay] = useState(today);
+  const [bucketMin, setBucketMin] = useState<"5" | "15" | "30">("15");
+
+  const [data, setData] = useState<WifiPayload | null>(null);
+  const [series, setSeries] = useState<WifiSeries | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const { from, to } = dayRange(day);
+      const params = new URLSearchParams({ from, to, bucketMin, top: String(AP_COLORS.length) });
+      const [r1, r2] = await Promise.all([
+        apiFetch(apiPath("/wifi", site)),
+        apiFetch(`${apiPath("/wifi/series", site)}?${params}`),
+      ]);
+      if (!r1.ok) throw new Error(`HTTP ${r1.status}`);
+      if (!r2.ok) throw new Error(`HTTP ${r2.status}`);
+      setData((await r1.json()) as WifiPayload);
+      setSeries((await r2.json()) as WifiSeries);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Falha ao carregar dados do Wi-Fi");
+    } finally {
+      setLoading(false);
+    }
+  }, [site, day, bucketMin]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const latest = data?.latest ?? null;
+  const ssids = useMemo(
+    () => Object.entries(latest?.ssids ?? {}).sort((a, b) => b[1] - a[1]),
+    [latest]
+  );
+  // bandas presentes no período (integration API sem banda -> gráfico só com o total)
+  const bands = useMemo(
+    () => BANDS.filter((b) => series?.points.some((p) => (p.bands[b.band] ?? 0) > 0)),
+    [series]
+  );
+  const chartData = useMemo(
+    () =>
+      (series?.points ?? []).map((p) => ({
+        time: fmtTime(p.ts),
+        clients: p.clients,
+        max: p.max,
+        ...Object.fromEntries(BANDS.map((b) => [b.band, p.bands[b.band] ?? 0])),
+        ...p.aps,
+      })),
+    [series]
+  );
+
+  return (
+    <PageShell
+      title="Wi-Fi"
+      icon={<Wifi className="h-5 w-5 text-indigo-300" />}
+      actions={
+        <button
+          onClick={load}
+          className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-900/70 hover:border-slate-700"
+        >
+          {loading ? "Carregando..." : "Atualizar"}
+        </button>
+      }
+    >
+      {(error || data?.error) && (
+        <div className="mb-6">
+          <Notice tone="danger" icon={<XCircle className="h-5 w-5" />} title="Erro">
+            {error ?? `Última coleta falhou: ${data?.error}`}
+          </Notice>
+        </div>
+      )}
+
+      <div className="mb-6 grid grid-cols-2 gap-4 md:grid-cols-5">
+        <StatBox
+          label="Clientes Wi-Fi"
+          value={latest ? String(latest.total) : "—"}
+          icon={<Users className="h-4 w-4" />}
+          subtext={latest ? `coleta ${fmtDateTime(latest.ts)}` : "sem coleta"}
+        />
+        {BANDS.map((b) => (
+          <StatBox
+            key={b.band}
+            label={b.label}
+            value={latest?.bands[b.band] != null ? String(latest.bands[b.band]) : "—"}
+            icon={<Radio className="h-4 w-4" />}
+          />
+        ))}
+        <StatBox label="APs" value={latest ? String(latest.aps.length) : "—"} icon={<Wifi className="h-4 w-4" />} />
+      </div>
+
+      {ssids.length > 0 && (
+        <div className="mb-6 flex flex-wrap gap-2">
+          {ssids.map(([name, n]) => (
+            <Badge key={name} className="bg-slate-950/40 text-slate-300 ring-slate-800">
+              {name}&nbsp;<span className="font-mono text-white">{n}</span>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <div className="mb-4 flex flex-wrap items-center gap-3">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400">Clientes ao longo do dia</h3>
+          <div className="ml-auto flex items-center gap-3">
+            <input
+              type="date"
+              value={day}
+              max={today()}
+              onChange={(e) => e.target.value && setDay(e.target.value)}
+              className="rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2 text-xs font-semibold text-slate-300"
+            />
+            <Segmented
+              value={bucketMin}
+              onChange={setBucketMin}
+              options={[
+                { value: "5", label: "5 min" },
+                { value: "15", label: "15 min" },
+                { value: "30", label: "30 min" },
+              ]}
+            />
+          </div>
+        </div>
+
+        {!chartData.length ? (
+          <div className="py-10 text-center text-sm text-slate-500">Sem coletas neste dia.</div>
+        ) : (
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 8, right: 10, left: -18, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                <XAxis dataKey="time" stroke="#475569" tick={{ fill: "#94a3b8", fontSize: 10 }} tickLine={false} axisLine={false} minTickGap={28} dy={10} />
+                <YAxis stroke="#475569" tick={{ fill: "#94a3b8", fontSize: 10 }} tickLine={false} axisLine={false} width={42} allowDecimals={false} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} labelStyle={{ color: "#94a3b8" }} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {bands.length ? (
+                  bands.map((b) => (
+                    <Area
+                      key={b.band}
+                      type="monotone"
+                      dataKey={b.band}
+                      name={b.label}
+                      stackId="bands"
+                      stroke={b.color}
+                      fill={b.color}
+                      fillOpacity={0.25}
+                      isAnimationActive={false}
+                    />
+                  ))
+                ) : (
+                  <Area type="monotone" dataKey="clients" name="Clientes (média)" stroke="#6366f1" fill="#6366f1" fillOpacity={0.25} isAnimationActive={false} />
+                )}
+                <Area type="monotone" dataKey="max" name="Pico" stroke="#94a3b8" strokeDasharray="3 3" fill="none" isAnimationActive={false} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <h3 className="mb-4 text-xs font-bold uppercase tracking-wider text-slate-400">APs mais carregados no dia</h3>
+          {!series?.aps.length ? (
+            <div className="py-10 text-center text-sm text-slate-500">Sem dados.</div>
+          ) : (
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 8, right: 10, left: -18, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                  <XAxis dataKey="time" stroke="#475569" tick={{ fill: "#94a3b8", fontSize: 10 }} tickLine={false} axisLine={false} minTickGap={28} dy={10} />
+                  <YAxis stroke="#475569" tick={{ fill: "#94a3b8", fontSize: 10 }} tickLine={false} axisLine={false} width={42} allowDecimals={false} />
+                  <Tooltip contentStyle={TOOLTIP_STYLE} labelStyle={{ color: "#94a3b8" }} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  {series.aps.map((ap, i) => (
+                    <Line
+                      key={ap.id}
+                      type="monotone"
+                      dataKey={ap.id}
+                      name={`${ap.name ?? ap.id} (pico ${ap.peak})`}
+                      stroke={AP_COLORS[i % AP_COLORS.length]}
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </Card>
+
+        <Card>
+          <h3 className="mb-4 text-xs font-bold uppercase tracking-wider text-slate-400">Agora</h3>
+          <div className="space-y-3">
+            {(data?.busiest ?? []).map((ap) => (
+              <ApRow key={ap.id} ap={ap} />
+            ))}
+            {!data?.busiest.length && <div className="text-sm text-slate-500">Nenhum AP encontrado.</div>}
+          </div>
+        </Card>
+      </div>
+    </PageShell>
+  );
+}
+
+function ApRow({ ap }: { ap: WifiAp }) {
+  return (
+    <div className="rounded-2xl border border-slate-800/60 bg-slate-950/25 p-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <div className="truncate text-sm font-semibold text-slate-200">{ap.name ?? ap.id}</div>
+          <div className="text-xs text-slate-500">{ap.model ?? "—"}</div>
+        </div>
+        <div className="text-right">
+          <div className="font-mono text-lg font-extrabold text-white">{ap.clients}</div>
+          <div className="text-[10px] uppercase tracking-wider text-slate-500">clientes</div>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-1.5">
+        {ap.radios.map((r, i) => (
+          <div key={`${r.band}:${i}`} className="flex items-center gap-2 text-xs">
+            <span className="w-16 font-mono text-slate-400">{r.band ? `${r.band} GHz` : "rádio"}</span>
+            <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-slate-800">
+              <div className={cn("h-full rounded-full", utilColor(r.utilPct))} style={{ width: `${Math.min(100, r.utilPct ?? 0)}%` }} />
+            </div>
+            <span className="w-24 text-right font-mono text-slate-400">
+              {r.utilPct != null ? `${r.utilPct}% uso` : r.txRetriesPct != null ? `${r.txRetriesPct}% retry` : "—"}
+            </span>
+            <span className="w-10 text-right font-mono text-slate-500">{r.clients ?? (r.band ? ap.bands[r.band] : null) ?? ""}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
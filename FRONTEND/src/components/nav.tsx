@@ -0,0 +1,64 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { LogOut, User } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useSite, withSite } from "@/lib/site";
+import { logout, useAuthUser } from "@/lib/auth";
+
+const LINKS = [
+  { href: "/sites", label: "Escolas" },
+  { href: "/", label: "Dashboard" },
+  { href: "/devices", label: "Dispositivos" },
+  { href: "/wifi", label: "Wi-Fi" },
+  { href: "/incidents", label: "Incidentes" },
+  { href: "/timeline", label: "Linha do tempo" },
+  { href: "/report", label: "Relatório" },
+  { href: "/maintenance", label: "Manutenção" },
+  { href: "/settings", label: "Configuração" },
+];
+
+export function NavLinks() {
+  const pathname = usePathname();
+  const site = useSite();
+
+  return (
+    <nav className="flex overflow-hidden rounded-xl border border-slate-800 bg-slate-950/30">
+      {LINKS.map((l) => (
+        <Link
+          key={l.href}
+          href={l.href === "/sites" ? l.href : withSite(l.href, site)}
+          className={cn(
+            "px-3 py-2 text-sm font-semibold transition",
+            pathname === l.href ? "bg-slate-900/70 text-white" : "text-slate-400 hover:text-slate-200"
+          )}
+        >
+          {l.label}
+        </Link>
+      ))}
+    </nav>
+  );
+}
+
+// usuário logado + sair (some quando o backend roda com AUTH_DISABLED=1)
+export function UserMenu() {
+  const me = useAuthUser();
+  if (!me || me.authDisabled) return null;
+
+  return (
+    <div className="flex items-center overflow-hidden rounded-xl border border-slate-800 bg-slate-950/30 text-sm">
+      <span className="flex items-center gap-2 px-3 py-2 text-slate-300">
+        <User className="h-4 w-4 text-slate-500" />
+        <span className="font-semibold">{me.user.name}</span>
+        <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{me.user.role}</span>
+      </span>
+      <button
+        onClick={() => logout()}
+        className="flex items-center gap-1.5 border-l border-slate-800 px-3 py-2 font-semibold text-slate-400 transition hover:text-slate-200"
+      >
+        <LogOut className="h-4 w-4" /> Sair
+      </button>
+    </div>
+  );
+}
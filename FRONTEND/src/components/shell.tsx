@@ -0,0 +1,46 @@
+import React from "react";
+import { NavLinks, UserMenu } from "@/components/nav";
+
+// Fundo + top bar fixa, no mesmo visual do dashboard
+export function PageShell({
+  title,
+  icon,
+  actions,
+  children,
+}: {
+  title: string;
+  icon: React.ReactNode;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-[#070A12] text-slate-200 selection:bg-indigo-500/30 font-sans">
+      <div className="fixed inset-0 pointer-events-none">
+        <div className="absolute inset-0 bg-[radial-gradient(1200px_circle_at_0%_0%,rgba(99,102,241,0.20),transparent_50%)]" />
+        <div className="absolute inset-0 bg-[radial-gradient(900px_circle_at_100%_10%,rgba(16,185,129,0.12),transparent_55%)]" />
+        <div className="absolute inset-0 bg-gradient-to-b from-slate-950 via-[#070A12] to-slate-950" />
+      </div>
+
+      <main className="relative mx-auto max-w-7xl px-4 pb-10 pt-6 md:px-6 lg:px-8">
+        <div className="sticky top-0 z-30 -mx-4 mb-6 border-b border-slate-800/60 bg-[#070A12]/75 px-4 py-4 backdrop-blur md:-mx-6 md:px-6 lg:-mx-8 lg:px-8">
+          <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-2xl bg-indigo-500/15 ring-1 ring-inset ring-indigo-500/20">
+                {icon}
+              </div>
+              <h1 className="truncate text-lg font-semibold tracking-tight text-white">{title}</h1>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <NavLinks />
+              {actions}
+              <UserMenu />
+            </div>
+          </header>
+        </div>
+
+        {children}
+      </main>
+    </div>
+  );
+}
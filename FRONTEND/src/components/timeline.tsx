@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useState } from "react";
+import { cn } from "@/lib/utils";
+import { fmtDuration, getStateConfig, type TimelineBucket, type TimelinePayload } from "@/lib/monitor";
+
+const BAR_COLOR = {
+  OK: "bg-emerald-500/80",
+  DEGRADED: "bg-amber-400/90",
+  DOWN: "bg-rose-500",
+  UNKNOWN: "bg-slate-600",
+} as const;
+
+export const TIMELINE_LEGEND = [
+  { label: "Operacional", className: BAR_COLOR.OK },
+  { label: "Instável", className: BAR_COLOR.DEGRADED },
+  { label: "Fora do ar", className: BAR_COLOR.DOWN },
+  { label: "Sem dados", className: "bg-slate-800" },
+];
+
+export function fmtTimelinePeriod(iso: string, granularity: TimelinePayload["granularity"]) {
+  const d = new Date(iso);
+  if (granularity === "hour") {
+    return d.toLocaleString("pt-BR", { weekday: "short", day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit" });
+  }
+  return d.toLocaleDateString("pt-BR", { weekday: "short", day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+// Barras estilo status page: cor = pior estado do período; hover/foco mostra tempos e incidentes
+export function UptimeBars({
+  timeline,
+  onSelect,
+  className,
+}: {
+  timeline: TimelinePayload;
+  // clique numa barra (ex.: zoom do dia para as horas)
+  onSelect?: (b: TimelineBucket) => void;
+  className?: string;
+}) {
+  const [hover, setHover] = useState<number | null>(null);
+  const { buckets, granularity } = timeline;
+  const active = hover != null ? buckets[hover] : null;
+  // tooltip não sai da tela nas pontas
+  const align = hover == null ? "center" : hover < buckets.length * 0.2 ? "left" : hover > buckets.length * 0.8 ? "right" : "center";
+
+  return (
+    <div className={cn("relative", className)} onMouseLeave={() => setHover(null)}>
+      <div className="flex h-10 items-stretch gap-[2px]">
+        {buckets.map((b, i) => (
+          <button
+            key={b.start}
+            type="button"
+            aria-label={`${fmtTimelinePeriod(b.start, granularity)}: ${b.worstState ? getStateConfig(b.worstState).label : "sem dados"}`}
+            onMouseEnter={() => setHover(i)}
+            onFocus={() => setHover(i)}
+            onBlur={() => setHover(null)}
+            onClick={onSelect ? () => onSelect(b) : undefined}
+            className={cn(
+              "min-w-[2px] flex-1 rounded-sm transition-opacity",
+              b.worstState ? BAR_COLOR[b.worstState] : "bg-slate-800",
+              b.maintenanceMs > 0 && "ring-1 ring-inset ring-indigo-400/70",
+              hover != null && hover !== i && "opacity-60",
+              onSelect ? "cursor-zoom-in" : "cursor-default"
+            )}
+          />
+        ))}
+      </div>
+
+      {buckets.length > 0 && (
+        <div className="mt-2 flex justify-between text-[11px] text-slate-500">
+          <span>{fmtTimelinePeriod(buckets[0].start, granularity)}</span>
+          <span>{fmtTimelinePeriod(buckets[buckets.length - 1].start, granularity)}</span>
+        </div>
+      )}
+
+      {active && hover != null && (
+        <div
+          className={cn(
+            "pointer-events-none absolute top-12 z-20 w-72 rounded-2xl border border-slate-700 bg-slate-950/95 p-3 text-xs shadow-2xl",
+            align === "center" && "-translate-x-1/2",
+            align === "right" && "-translate-x-full"
+          )}
+          style={{ left: `${((hover + 0.5) / buckets.length) * 100}%` }}
+        >
+          <BarDetails b={active} granularity={granularity} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BarDetails({ b, granularity }: { b: TimelineBucket; granularity: TimelinePayload["granularity"] }) {
+  const conf = b.worstState ? getStateConfig(b.worstState) : null;
+  const hidden = b.incidentCount - b.incidents.length;
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-slate-200">{fmtTimelinePeriod(b.start, granularity)}</span>
+        <span className={cn("font-bold", conf?.color ?? "text-slate-500")}>{conf?.label ?? "SEM DADOS"}</span>
+      </div>
+      <div className="mt-2 grid grid-cols-2 gap-x-3 gap-y-1 text-slate-400">
+        <span>Disponibilidade</span>
+        <span className="text-right font-mono text-slate-200">{b.uptimePct == null ? "—" : `${b.uptimePct.toFixed(2)}%`}</span>
+        <span>Fora do ar</span>
+        <span className="text-right font-mono text-slate-200">{b.downMs ? `${Math.round(b.downMs / 60000)} min` : "—"}</span>
+        <span>Instável</span>
+        <span className="text-right font-mono text-slate-200">{b.degradedMs ? `${Math.round(b.degradedMs / 60000)} min` : "—"}</span>
+        {b.maintenanceMs > 0 && (
+          <>
+            <span>Manutenção</span>
+            <span className="text-right font-mono text-indigo-300">{fmtDuration(b.maintenanceMs)}</span>
+          </>
+        )}
+      </div>
+
+      <div className="mt-3 border-t border-slate-800 pt-2">
+        {!b.incidentCount && <div className="text-slate-500">Nenhum incidente</div>}
+        <ul className="space-y-1.5">
+          {b.incidents.map((i) => (
+            <li key={i.id} className="flex items-start gap-2">
+              <span className={cn("mt-1 h-2 w-2 shrink-0 rounded-full", getStateConfig(i.worstState).dot)} />
+              <span className="min-w-0 flex-1">
+                <span className="font-mono text-slate-300">
+                  {new Date(i.start).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+                </span>{" "}
+                <span className="text-slate-400">
+                  • {i.end ? fmtDuration(i.durationMs) : "em andamento"}
+                  {i.reason ? ` • ${i.reason}` : ""}
+                  {i.maintenance ? " • manutenção" : ""}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+        {hidden > 0 && <div className="mt-1 text-slate-500">+{hidden} outros</div>}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+
+export function Notice({
+  tone,
+  title,
+  children,
+  icon,
+}: {
+  tone: "danger" | "warn" | "info";
+  title: string;
+  children: React.ReactNode;
+  icon?: React.ReactNode;
+}) {
+  const conf =
+    tone === "danger"
+      ? { bg: "bg-rose-500/10", border: "border-rose-500/20", text: "text-rose-200" }
+      : tone === "warn"
+      ? { bg: "bg-amber-500/10", border: "border-amber-500/20", text: "text-amber-200" }
+      : { bg: "bg-indigo-500/10", border: "border-indigo-500/20", text: "text-indigo-200" };
+
+  return (
+    <div className={cn("flex items-start gap-3 rounded-2xl border p-4", conf.bg, conf.border, conf.text)}>
+      <div className="mt-0.5 flex-shrink-0">{icon}</div>
+      <div className="text-sm">
+        <div className="font-extrabold">{title}</div>
+        <div className="mt-0.5 text-slate-200/90">{children}</div>
+      </div>
+    </div>
+  );
+}
+
+export function KeyValue({
+  label,
+  value,
+  rightSub,
+  mono,
+  wrap,
+}: {
+  label: string;
+  value: string;
+  rightSub?: string;
+  mono?: boolean;
+  wrap?: boolean;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-3 rounded-2xl border border-slate-800/60 bg-slate-950/25 p-3">
+      <div className="text-xs font-bold uppercase tracking-wider text-slate-500">{label}</div>
+      <div className="min-w-0 text-right">
+        <div className={cn("text-sm text-slate-200", mono && "font-mono", wrap ? "break-words" : "truncate")}>
+          {value}
+        </div>
+        {rightSub && <div className="mt-1 text-[10px] font-mono text-slate-500">{rightSub}</div>}
+      </div>
+    </div>
+  );
+}
+
+export function RowDot({ label, value, color }: { label: string; value: string; color: string }) {
+  return (
+    <div className="flex items-center gap-3">
+      <div className={cn("h-2 w-2 rounded-full ring-2 ring-opacity-20 ring-offset-1 ring-offset-slate-900", color)} />
+      <span className="flex-1 text-slate-300">{label}</span>
+      <span className="font-mono text-slate-400 text-xs bg-slate-950/30 px-2 py-1 rounded-lg border border-slate-800/60">
+        {value}
+      </span>
+    </div>
+  );
+}
+
+export function StatBox({
+  label,
+  value,
+  icon,
+  subtext,
+  color,
+}: {
+  label: string;
+  value: string;
+  icon: React.ReactNode;
+  subtext?: string | null;
+  color?: string;
+}) {
+  return (
+    <div className="group rounded-2xl bg-slate-950/25 p-4 border border-slate-800/60 hover:border-slate-700 hover:bg-slate-950/35 transition-all">
+      <div className="mb-2 flex items-center gap-2 text-slate-500 group-hover:text-slate-400 transition-colors">
+        {icon}
+        <span className="text-[10px] uppercase font-bold tracking-wider">{label}</span>
+      </div>
+
+      <div className={cn("text-xl font-extrabold font-mono tracking-tight", color ?? "text-slate-200")}>{value}</div>
+
+      {subtext && <div className="mt-1 text-[11px] text-slate-500 truncate">{subtext}</div>}
+    </div>
+  );
+}
+
+export const Card = ({ children, className }: { children: React.ReactNode; className?: string }) => (
+  <div className={cn("rounded-3xl border border-slate-800 bg-slate-900/35 backdrop-blur-sm p-5", className)}>
+    {children}
+  </div>
+);
+
+export const Badge = ({ children, className }: { children: React.ReactNode; className?: string }) => (
+  <span className={cn("inline-flex items-center rounded-full px-3 py-1.5 text-xs font-semibold ring-1 ring-inset", className)}>
+    {children}
+  </span>
+);
+
+export function Segmented<T extends string>({
+  value,
+  onChange,
+  options,
+}: {
+  value: T;
+  onChange: (v: T) => void;
+  options: { value: T; label: string }[];
+}) {
+  return (
+    <div className="flex overflow-hidden rounded-xl border border-slate-800 bg-slate-950/30">
+      {options.map((o) => (
+        <button
+          key={o.value}
+          onClick={() => onChange(o.value)}
+          className={cn(
+            "px-3 py-2 text-xs font-semibold transition",
+            value === o.value ? "bg-slate-900/70 text-white" : "text-slate-400 hover:text-slate-200"
+          )}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export type AuthRole = "viewer" | "admin";
+export type AuthUser = { name: string; role: AuthRole };
+export type AuthMe = { user: AuthUser; authDisabled: boolean };
+
+// sessão expirada/sem login -> /login?next=<página atual>
+export function redirectToLogin() {
+  if (typeof window === "undefined" || location.pathname === "/login") return;
+  const next = `${location.pathname}${location.search}`;
+  location.assign(`/login?next=${encodeURIComponent(next)}`);
+}
+
+// só caminhos locais (evita open redirect via ?next=//outro-host)
+export function safeNext(next: string | null) {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+// fetch da API do monitor: cookie de sessão vai junto (mesma origem, via rewrite do Next)
+export async function apiFetch(input: string, init?: RequestInit) {
+  const res = await fetch(input, { cache: "no-store", credentials: "same-origin", ...init });
+  if (res.status === 401) {
+    redirectToLogin();
+    throw new Error("Sessão expirada");
+  }
+  return res;
+}
+
+export async function login(username: string, password: string) {
+  const res = await fetch("/api/monitor/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: JSON.stringify({ username, password }),
+  });
+  if (res.status === 429) throw new Error("Muitas tentativas. Aguarde um minuto.");
+  if (res.status === 401) throw new Error("Usuário ou senha inválidos");
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return (await res.json()) as { user: AuthUser };
+}
+
+export async function logout() {
+  await fetch("/api/monitor/auth/logout", { method: "POST", credentials: "same-origin" }).catch(() => {});
+  location.assign("/login");
+}
+
+// usuário logado (null enquanto carrega)
+export function useAuthUser() {
+  const [me, setMe] = useState<AuthMe | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    apiFetch("/api/monitor/auth/me")
+      .then((res) => (res.ok ? (res.json() as Promise<AuthMe>) : null))
+      .then((json) => alive && json && setMe(json))
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  return me;
+}
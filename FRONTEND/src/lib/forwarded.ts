@@ -0,0 +1,18 @@
+// X-Forwarded-For que o gateway repassa ao backend, montado na rota a partir dos headers da request.
+// A rota não enxerga o socket: o Next preenche o header com o IP da conexão só quando o cliente não mandou um.
+// Com MONITOR_PROXY_HOPS proxies confiáveis na frente do Next (nginx, load balancer) valem só as entradas que
+// eles acrescentaram; sem proxy, só a última (a do Next, ou a do cliente se ele mandou o header).
+
+export function proxyHops() {
+  const n = Number(process.env.MONITOR_PROXY_HOPS ?? 0);
+  return Number.isInteger(n) && n > 0 ? n : 0;
+}
+
+// últimas `hops` entradas (no mínimo 1) do X-Forwarded-For recebido
+export function forwardedFor(received: string | null, hops: number) {
+  const chain = (received ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return chain.slice(-Math.max(1, hops)).join(", ");
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { apiFetch } from "@/lib/auth";
+import type {
+  DeviceEvent,
+  HistoryItem,
+  Incident,
+  MaintenanceRef,
+  MaintenanceWindow,
+  SiteSettings,
+  SiteSummary,
+  StatsSummary,
+  StatusPayload,
+  WanEvent,
+} from "@/lib/monitor";
+
+// Protocolo do stream ao vivo (o esquema completo está documentado no backend, em src/wsproto.mjs)
+export const WS_PROTOCOL_VERSION = 1;
+
+export type WsEventType = "tick" | "state_change" | "wan_event" | "device_event" | "incident" | "maintenance" | "config";
+export type LiveStatus = "online" | "offline" | "reconnecting";
+
+type Envelope = { v: typeof WS_PROTOCOL_VERSION; ts: string };
+type Sequenced = Envelope & { seq: number };
+type Event<T extends WsEventType, P> = Sequenced & { type: T; site: string } & P;
+
+export type WsEvent =
+  | Event<"tick", { state: HistoryItem["state"]; label: string; entry: HistoryItem; stats: StatsSummary }>
+  | Event<"state_change", { prev: HistoryItem["state"]; next: HistoryItem["state"]; label: string; entry: HistoryItem }>
+  | Event<"wan_event", { event: WanEvent }>
+  | Event<"device_event", { event: DeviceEvent }>
+  | Event<"incident", { event: "opened" | "updated" | "closed"; incident: Incident }>
+  | Event<"maintenance", { event: string; window?: MaintenanceWindow; active: MaintenanceRef[] }>
+  | Event<"config", { settings: SiteSettings }>;
+
+export type WsServerMessage =
+  | (Envelope & {
+      type: "welcome";
+      epoch: string;
+      seq: number;
+      site: string;
+      types: WsEventType[];
+      history: number | null;
+      resumed: boolean;
+    })
+  | (Sequenced & { type: "snapshot"; site: string; state: HistoryItem["state"]; label: string; data: Omit<StatusPayload, "label"> })
+  | (Sequenced & { type: "sites"; sites: SiteSummary[] })
+  | WsEvent
+  | (Envelope & { type: "error"; error: string; details?: string[]; supported?: number[] });
+
+type FieldKind = "string" | "number" | "boolean" | "object" | "array";
+
+// campos obrigatórios por tipo: mensagem fora do esquema é descartada antes de chegar na página
+const FIELDS: Record<WsServerMessage["type"], Record<string, FieldKind>> = {
+  welcome: { epoch: "string", seq: "number", site: "string", types: "array", resumed: "boolean" },
+  snapshot: { seq: "number", site: "string", state: "string", data: "object" },
+  sites: { seq: "number", sites: "array" },
+  tick: { seq: "number", site: "string", state: "string", label: "string", entry: "object" },
+  state_change: { seq: "number", site: "string", prev: "string", next: "string", label: "string", entry: "object" },
+  wan_event: { seq: "number", site: "string", event: "object" },
+  device_event: { seq: "number", site: "string", event: "object" },
+  incident: { seq: "number", site: "string", event: "string", incident: "object" },
+  maintenance: { seq: "number", site: "string", event: "string", active: "array" },
+  config: { seq: "number", site: "string", settings: "object" },
+  error: { error: "string" },
+};
+
+function hasKind(value: unknown, kind: FieldKind) {
+  if (kind === "array") return Array.isArray(value);
+  if (kind === "object") return typeof value === "object" && value !== null && !Array.isArray(value);
+  return typeof value === kind;
+}
+
+export function parseServerMessage(raw: unknown): WsServerMessage | null {
+  let msg: unknown;
+  try {
+    msg = typeof raw === "string" ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+  if (!hasKind(msg, "object")) return null;
+  const m = msg as Record<string, unknown>;
+  if (m.v !== WS_PROTOCOL_VERSION || typeof m.type !== "string" || !Object.hasOwn(FIELDS, m.type)) return null;
+  const fields = FIELDS[m.type as WsServerMessage["type"]];
+  for (const [key, kind] of Object.entries(fields)) if (!hasKind(m[key], kind)) return null;
+  return m as WsServerMessage;
+}
+
+export type LiveStreamOptions = {
+  types?: WsEventType[];
+  // entries no snapshot inicial (padrão: o que o backend guarda)
+  history?: number;
+  onMessage: (msg: WsServerMessage) => void;
+};
+
+type Cursor = { epoch: string; seq: number };
+
+// SSE pelo gateway do Next (mesma origem): o hello vai na query e o resume em ?resume=epoch:seq
+export function liveUrl(site: string | null, { types, history, resume }: { types?: string[]; history?: number; resume?: Cursor | null }) {
+  const q = new URLSearchParams({ v: String(WS_PROTOCOL_VERSION) });
+  if (site) q.set("site", site);
+  if (types?.length) q.set("types", types.join(","));
+  if (history != null) q.set("history", String(history));
+  if (resume) q.set("resume", `${resume.epoch}:${resume.seq}`);
+  return `/api/monitor/stream?${q}`;
+}
+
+// Stream ao vivo de um site (ou "*"): negocia a assinatura e, após uma queda, retoma do último seq
+// (a página recebe só os eventos perdidos, ou um snapshot novo se o backend reiniciou)
+export function useLiveStream(site: string | null, { types, history, onMessage }: LiveStreamOptions) {
+  const [status, setStatus] = useState<LiveStatus>("offline");
+  const onMessageRef = useRef(onMessage);
+  const typesKey = types?.join(",") ?? "";
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  });
+
+  useEffect(() => {
+    let alive = true;
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    // posição no stream: epoch (boot do backend) + último seq entregue à página
+    let cursor: Cursor | null = null;
+
+    const connect = () => {
+      const es = new EventSource(liveUrl(site, { types: typesKey ? typesKey.split(",") : undefined, history, resume: cursor }));
+      source = es;
+
+      es.onmessage = (ev) => {
+        const msg = parseServerMessage(ev.data);
+        if (!msg) return;
+
+        if (msg.type === "welcome") {
+          attempt = 0;
+          // sem resume o snapshot que vem a seguir substitui tudo: a contagem recomeça do seq atual
+          if (!msg.resumed || !cursor) cursor = { epoch: msg.epoch, seq: msg.seq };
+          setStatus("online");
+        } else if (msg.type === "snapshot" || msg.type === "sites") {
+          if (cursor) cursor = { ...cursor, seq: msg.seq };
+        } else if (msg.type !== "error") {
+          if (cursor && msg.seq <= cursor.seq) return;
+          if (cursor) cursor = { ...cursor, seq: msg.seq };
+        }
+        onMessageRef.current(msg);
+      };
+
+      es.onerror = () => {
+        if (!alive) return;
+        setStatus("reconnecting");
+        // CONNECTING: o próprio EventSource reconecta mandando o Last-Event-ID
+        if (es.readyState !== EventSource.CLOSED) return;
+        // CLOSED = resposta não-SSE (backend fora, 401...): sessão expirada vai para o login; senão backoff
+        es.close();
+        source = null;
+        apiFetch("/api/monitor/auth/me").catch(() => {});
+        attempt = Math.min(8, attempt + 1);
+        retry = setTimeout(connect, Math.min(15000, 500 * 2 ** attempt));
+      };
+    };
+
+    connect();
+    return () => {
+      alive = false;
+      clearTimeout(retry);
+      source?.close();
+    };
+  }, [site, typesKey, history]);
+
+  return status;
+}
@@ -0,0 +1,598 @@
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+
+// --- Types ---
+export type ProbeErrorKind =
+  | "timeout"
+  | "dns"
+  | "tls"
+  | "refused"
+  | "reset"
+  | "unreachable"
+  | "http"
+  | "content"
+  | "error";
+
+export type ProbeKind = "http" | "dns" | "tcp";
+
+export type ProbeDiagnosis = "DNS_FAILURE" | "UPSTREAM_FAILURE" | "TOTAL_FAILURE";
+
+export type ProbeTarget = {
+  name?: string;
+  kind?: ProbeKind;
+  target?: string;
+  weight?: number;
+  url?: string;
+  ok: boolean;
+  ms: number | null;
+  status?: number | null;
+  error?: ProbeErrorKind | null;
+};
+
+export type Probe = {
+  ok: boolean;
+  url?: string;
+  ms?: number | null;
+  quorum?: { rule: string; required: number; passed: number; total: number };
+  byKind?: Partial<Record<ProbeKind, { ok: number; total: number }>>;
+  diagnosis?: ProbeDiagnosis | null;
+  targets?: ProbeTarget[];
+};
+export type Gateway = {
+  id?: string;
+  name?: string;
+  model?: string;
+  type?: string;
+  ipAddress?: string;
+  macAddress?: string;
+};
+
+export type WanPortInfo = {
+  disabled: boolean;
+  port_idx: number;
+  port_ifname: string;
+};
+
+export type WanInterface = {
+  id: string;
+  name?: string;
+  is_mobile_broadband?: boolean;
+  load_balancing_mode?: string;
+  network_id?: string;
+  port_info?: WanPortInfo;
+  priority?: number;
+  wan_magic_enabled?: boolean;
+};
+
+export type WanStatus = {
+  id: string;
+  name?: string | null;
+  state: "OK" | "DEGRADED" | "DOWN" | "UNKNOWN";
+  up: boolean | null;
+  since?: string;
+  priority?: number | null;
+  mobile?: boolean;
+  primary?: boolean;
+  active?: boolean;
+};
+
+export type WanRef = { id: string; name?: string | null; mobile?: boolean };
+
+export type WanEvent = {
+  ts: string;
+  kind: "WAN_FAILOVER" | "WAN_FAILBACK" | "WAN_STATE_CHANGE";
+  from?: WanRef | null;
+  to?: WanRef | null;
+  primary?: WanRef | null;
+  wan?: WanRef | null;
+  prev?: WanStatus["state"];
+  next?: WanStatus["state"];
+};
+
+export type Quality = "BOA" | "REGULAR" | "RUIM";
+
+// janela de estatísticas calculada no backend (1m/5m/1h)
+export type WindowStats = {
+  samples: number;
+  lossPct: number;
+  avg: number;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+  jitter: number;
+  quality: Quality | null;
+};
+
+export type StatsSummary = Record<string, WindowStats>;
+
+export type HistoryItem = {
+  ts: string;
+  state: "OK" | "DEGRADED" | "DOWN" | "UNKNOWN";
+  wanUp: boolean | null;
+  wan?: WanInterface | null;
+  wanGroups?: WanInterface[] | null;
+  wans?: WanStatus[] | null;
+  activeWanId?: string | null;
+  probe?: Probe;
+  gateway?: Gateway;
+  note?: string;
+  reason?: string;
+  diagnosis?: ProbeDiagnosis | null;
+  quality?: WindowStats & { window: string };
+  unifiError?: string | null;
+  maintenance?: MaintenanceRef[] | null;
+};
+
+export type DeviceKind = "gateway" | "switch" | "ap" | "other";
+export type DeviceStatus = "ONLINE" | "OFFLINE" | "UNKNOWN";
+
+export type Device = {
+  id: string;
+  name: string;
+  model: string | null;
+  kind: DeviceKind;
+  mac: string | null;
+  ip: string | null;
+  state: string | null;
+  status: DeviceStatus;
+  since: string;
+  lastSeen: string | null;
+  firmware: string | null;
+  firmwareUpdatable: boolean | null;
+  uptimeSec: number | null;
+};
+
+export type DeviceEvent = {
+  ts: string;
+  kind: "DEVICE_DOWN" | "DEVICE_UP";
+  device: { id: string; name: string; kind: DeviceKind; model: string | null };
+  prev: DeviceStatus;
+  next: DeviceStatus;
+  lastSeen: string | null;
+};
+
+export type DevicesSummary = {
+  total: number;
+  online: number;
+  offline: number;
+  byKind: Partial<Record<DeviceKind, { total: number; offline: number }>>;
+};
+
+export type DevicesPayload = {
+  summary: DevicesSummary;
+  count: number;
+  devices: Device[];
+  events: DeviceEvent[];
+};
+
+export type WifiBand = "2.4" | "5" | "6";
+
+export type WifiRadio = {
+  band: WifiBand | null;
+  channel: number | null;
+  utilPct: number | null;
+  clients: number | null;
+  txRetriesPct: number | null;
+};
+
+export type WifiAp = {
+  id: string;
+  name: string | null;
+  model: string | null;
+  clients: number;
+  bands: Partial<Record<WifiBand, number>>;
+  ssids: Record<string, number>;
+  util: number | null;
+  radios: WifiRadio[];
+};
+
+export type WifiSample = {
+  ts: string;
+  source: "legacy" | "integration";
+  total: number;
+  bands: Partial<Record<WifiBand, number>>;
+  ssids: Record<string, number>;
+  aps: WifiAp[];
+};
+
+export type WifiPayload = {
+  intervalMs: number;
+  latest: WifiSample | null;
+  busiest: WifiAp[];
+  error: string | null;
+};
+
+export type WifiSeriesPoint = {
+  ts: string;
+  clients: number;
+  max: number;
+  bands: Partial<Record<WifiBand, number>>;
+  aps: Record<string, number>;
+};
+
+export type WifiSeries = {
+  from: string;
+  to: string;
+  bucketMs: number;
+  samples: number;
+  aps: { id: string; name: string | null; peak: number; avg: number }[];
+  points: WifiSeriesPoint[];
+};
+
+// linha do .log de eventos (INTERNET_*, WAN_*, DEVICE_*, INCIDENT_*)
+export type LogEvent = {
+  ts: string;
+  kind: string;
+  prev?: string | null;
+  next?: string | null;
+  reason?: string | null;
+  note?: string | null;
+  incidentId?: string | null;
+  probe?: Probe | null;
+  wanUp?: boolean | null;
+  wan?: WanRef | null;
+  from?: WanRef | null;
+  to?: WanRef | null;
+  gateway?: Gateway | null;
+  device?: DeviceEvent["device"];
+  incident?: Incident;
+  raw?: string;
+};
+
+export type LogQueryPayload = {
+  order: "asc" | "desc";
+  limit: number;
+  count: number;
+  scanned: number;
+  matched: number;
+  events: LogEvent[];
+  nextCursor: string | null;
+};
+
+export type SiteRef = { id: string; name: string };
+
+export type StatusPayload = {
+  site?: SiteRef;
+  state: HistoryItem["state"];
+  label: string;
+  history: HistoryItem[];
+  wans?: WanStatus[];
+  wanEvents?: WanEvent[];
+  stats?: StatsSummary;
+};
+
+// visão geral (/api/sites): um card por escola
+export type SiteSummary = SiteRef & {
+  state: HistoryItem["state"];
+  label: string;
+  lastTs: string | null;
+  reason: string | null;
+  probeMs: number | null;
+  quality: WindowStats & { window: string };
+  gateway: Gateway | null;
+  activeWan: WanRef | null;
+  devices: DevicesSummary;
+  wifiClients: number | null;
+  incident: Incident | null;
+  maintenance: MaintenanceRef[];
+  unifiError: string | null;
+};
+
+export type Incident = {
+  id: string;
+  start: string;
+  end: string | null;
+  durationMs: number;
+  worstState: HistoryItem["state"];
+  reason?: string | null;
+  gateway?: { id?: string | null; name?: string | null; model?: string | null } | null;
+  wan?: { id?: string | null; name?: string | null; network_id?: string | null } | null;
+  probe?: { minMs: number | null; maxMs: number | null; failures: number };
+  ticks?: number;
+  unmonitoredMs?: number;
+  maintenance?: boolean;
+  // triagem do operador (PATCH /incidents/:id) e notas internas
+  ack?: { by: string | null; ts: string } | null;
+  assignee?: { name: string; by: string | null; ts: string } | null;
+  rootCause?: RootCause | null;
+  notes?: IncidentNote[];
+  // atualizações do operador, publicadas na página de status
+  updates?: IncidentUpdate[];
+};
+
+export type IncidentUpdate = { ts: string; text: string; by?: string | null };
+export type IncidentNote = { id: string; ts: string; text: string; by: string | null };
+
+// mesmas categorias do backend (incidents.mjs)
+export const ROOT_CAUSES = {
+  ISP: "Operadora / link",
+  POWER: "Energia",
+  HARDWARE: "Equipamento",
+  CONFIG: "Configuração",
+  DNS: "DNS",
+  MAINTENANCE: "Manutenção",
+  OTHER: "Outro",
+} as const;
+
+export type RootCause = keyof typeof ROOT_CAUSES;
+
+export type IncidentsPayload = {
+  total: number;
+  offset: number;
+  limit: number;
+  count: number;
+  incidents: Incident[];
+};
+
+export type AvailabilityBucket = {
+  start: string;
+  end: string;
+  periodMs: number;
+  monitoredMs: number;
+  maintenanceMs: number;
+  coveragePct: number | null;
+  downMs: number;
+  degradedMs: number;
+  uptimePct: number | null;
+  okPct: number | null;
+  incidents: number;
+  downIncidents: number;
+  maintenanceIncidents: number;
+  mttrMs: number | null;
+  mtbfMs: number | null;
+  acknowledged: number;
+  // tempo médio até reconhecer
+  mttaMs: number | null;
+  rootCauses: { rootCause: RootCause | null; incidents: number; durationMs: number }[];
+  wans: {
+    id: string;
+    name: string;
+    monitoredMs: number;
+    maintenanceMs: number;
+    downMs: number;
+    degradedMs: number;
+    uptimePct: number | null;
+  }[];
+};
+
+export type AvailabilityReport = {
+  from: string;
+  to: string;
+  granularity: "day" | "week" | "month";
+  generatedAt: string;
+  total: AvailabilityBucket;
+  buckets: AvailabilityBucket[];
+  incidents: Pick<Incident, "id" | "start" | "end" | "durationMs" | "worstState" | "reason" | "maintenance" | "ack" | "assignee" | "rootCause" | "notes">[];
+};
+
+// linha do tempo (/api/timeline): barras por dia/hora já agregadas no backend
+export type TimelineIncident = {
+  id: string;
+  start: string;
+  end: string | null;
+  durationMs: number;
+  worstState: HistoryItem["state"];
+  reason: string | null;
+  maintenance: boolean;
+};
+
+export type TimelineBucket = {
+  start: string;
+  end: string;
+  // null = sem dados (monitor fora ou período só de manutenção)
+  worstState: HistoryItem["state"] | null;
+  states: Record<HistoryItem["state"], number>;
+  monitoredMs: number;
+  maintenanceMs: number;
+  downMs: number;
+  degradedMs: number;
+  uptimePct: number | null;
+  incidentCount: number;
+  incidents: TimelineIncident[];
+};
+
+export type TimelinePayload = {
+  from: string;
+  to: string;
+  granularity: "day" | "hour";
+  generatedAt: string;
+  total: {
+    monitoredMs: number;
+    maintenanceMs: number;
+    downMs: number;
+    degradedMs: number;
+    uptimePct: number | null;
+    incidents: number;
+  };
+  buckets: TimelineBucket[];
+};
+
+// página de status pública (/api/public/sites/:site): sem gateway, WAN nem probes
+export type PublicIncident = {
+  id: string;
+  start: string;
+  end: string | null;
+  durationMs: number;
+  state: HistoryItem["state"];
+  label: string;
+  maintenance: boolean;
+  updates: IncidentUpdate[];
+};
+
+export type PublicStatus = {
+  site: { id: string; name: string };
+  state: HistoryItem["state"];
+  label: string;
+  updatedAt: string | null;
+  generatedAt: string;
+  // barras por hora desde 00:00
+  today: TimelinePayload;
+  incidents: { active: PublicIncident[]; recent: PublicIncident[] };
+  maintenance: { title: string; start: string; end: string; active: boolean }[];
+};
+
+// janelas de manutenção (/api/maintenance); wanId null = site inteiro
+export type MaintenanceRef = { id: string; title: string; wanId: string | null; end: string };
+
+export type MaintenanceWindow = {
+  id: string;
+  title: string;
+  wanId: string | null;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+} & (
+  | { kind: "once"; start: string; end: string }
+  | { kind: "weekly"; days: number[]; time: string; durationMin: number; from: string | null; until: string | null }
+);
+
+export type MaintenancePayload = {
+  active: MaintenanceRef[];
+  windows: MaintenanceWindow[];
+  upcoming: { id: string; title: string; wanId: string | null; start: string; end: string; active: boolean }[];
+};
+
+// ajustes editáveis em runtime (GET/PUT /api/config)
+export type ProbeConfig = {
+  kind: ProbeKind;
+  name?: string;
+  url?: string;
+  host?: string;
+  port?: number;
+  resolver?: string | string[];
+  type?: string;
+  expectStatus?: number | number[] | string;
+  expectBody?: string;
+  timeoutMs?: number;
+  weight?: number;
+};
+
+export type SiteSettings = {
+  intervalMs: number;
+  wifiIntervalMs: number;
+  probeQuorum: string;
+  probes: ProbeConfig[];
+  thresholds: {
+    degradedAfterFails: number;
+    downAfterFails: number;
+    okAfterSucc: number;
+    deviceOfflineAfterTicks: number;
+  };
+  quality: {
+    slowMs: number;
+    verySlowMs: number;
+    jitterMs: number;
+    badJitterMs: number;
+    lossPct: number;
+    badLossPct: number;
+    window: string;
+    degradedAfterTicks: number;
+    minSamples: number;
+  };
+};
+
+export type SiteConfigPayload = {
+  site: SiteRef;
+  settings: SiteSettings;
+  defaults: SiteSettings;
+  override: { settings: Partial<SiteSettings>; updatedAt: string; updatedBy: string | null } | null;
+};
+
+// --- Config ---
+export const SLOW_MS = Number(process.env.NEXT_PUBLIC_SLOW_MS ?? 120);
+export const VERY_SLOW_MS = Number(process.env.NEXT_PUBLIC_VERY_SLOW_MS ?? 250);
+
+// --- Formatters ---
+export function fmtTime(ts?: string) {
+  if (!ts) return "—";
+  try {
+    return new Date(ts).toLocaleTimeString("pt-BR", {
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  } catch {
+    return ts;
+  }
+}
+
+export function fmtDateTime(ts?: string) {
+  if (!ts) return "—";
+  try {
+    return new Date(ts).toLocaleString("pt-BR");
+  } catch {
+    return ts;
+  }
+}
+
+export function fmtDuration(ms?: number | null) {
+  if (ms == null || !Number.isFinite(ms)) return "—";
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}min ${s % 60}s`;
+  const h = Math.floor(m / 60);
+  if (h < 24) return `${h}h ${m % 60}min`;
+  return `${Math.floor(h / 24)}d ${h % 24}h`;
+}
+
+// --- Logic Helpers ---
+export function getStateConfig(s: HistoryItem["state"]) {
+  switch (s) {
+    case "OK":
+      return {
+        label: "OPERACIONAL",
+        color: "text-emerald-400",
+        bg: "bg-emerald-500/10",
+        border: "border-emerald-500/20",
+        icon: CheckCircle2,
+        dot: "bg-emerald-500",
+      };
+    case "DEGRADED":
+      return {
+        label: "INSTÁVEL",
+        color: "text-amber-400",
+        bg: "bg-amber-500/10",
+        border: "border-amber-500/20",
+        icon: AlertTriangle,
+        dot: "bg-amber-500",
+      };
+    case "DOWN":
+      return {
+        label: "FORA DO AR",
+        color: "text-rose-400",
+        bg: "bg-rose-500/10",
+        border: "border-rose-500/20",
+        icon: XCircle,
+        dot: "bg-rose-500",
+      };
+    default:
+      return {
+        label: "DESCONHECIDO",
+        color: "text-slate-400",
+        bg: "bg-slate-800/40",
+        border: "border-slate-700/60",
+        icon: AlertTriangle,
+        dot: "bg-slate-500",
+      };
+  }
+}
+
+export function getPingConfig(ms: number | null | undefined) {
+  if (ms == null) return { color: "text-slate-500", label: "—" };
+  if (ms >= VERY_SLOW_MS) return { color: "text-rose-400", label: "Crítico" };
+  if (ms >= SLOW_MS) return { color: "text-amber-400", label: "Lento" };
+  return { color: "text-emerald-400", label: "Ótimo" };
+}
+
+export function getQualityConfig(q: Quality | null | undefined) {
+  if (q === "RUIM") return { color: "text-rose-400", label: "RUIM" };
+  if (q === "REGULAR") return { color: "text-amber-400", label: "REGULAR" };
+  if (q === "BOA") return { color: "text-emerald-400", label: "BOA" };
+  return { color: "text-slate-400", label: "—" };
+}
+
+export function safeShortId(id?: string, size = 12) {
+  if (!id) return "—";
+  if (id.length <= size) return id;
+  return `${id.slice(0, size)}…`;
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+
+// Escola selecionada (?site=). Sem parâmetro, o backend usa o primeiro site configurado.
+export function useSite() {
+  return useSearchParams().get("site");
+}
+
+export function apiPath(path: string, site: string | null) {
+  return site ? `/api/monitor/sites/${encodeURIComponent(site)}${path}` : `/api/monitor${path}`;
+}
+
+// mantém ?site= ao navegar entre as páginas da mesma escola
+export function withSite(href: string, site: string | null) {
+  return site ? `${href}?site=${encodeURIComponent(site)}` : href;
+}